@@ -1,5 +1,5 @@
-// hash.js
-const bcrypt = require('bcrypt');
+// hash.ts
+import bcrypt from 'bcrypt';
 
 const password = 'admin123';
 const saltRounds = 10;
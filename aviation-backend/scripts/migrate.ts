@@ -0,0 +1,38 @@
+// migrate.ts
+// Usage: tsx scripts/migrate.ts [up | down [steps] | status]
+import { pool, waitForDatabase } from '../src/db';
+import { migrateToLatest, migrationStatus, rollbackMigrations } from '../src/migrate';
+
+async function main(): Promise<void> {
+  const [command = 'up', stepsArg] = process.argv.slice(2);
+  await waitForDatabase();
+
+  switch (command) {
+    case 'up': {
+      const ran = await migrateToLatest();
+      console.log(ran.length ? `Applied ${ran.length} migration(s)` : 'Database is up to date');
+      break;
+    }
+    case 'down': {
+      const steps = parseInt(stepsArg, 10) || 1;
+      const rolledBack = await rollbackMigrations(steps);
+      console.log(rolledBack.length ? `Rolled back ${rolledBack.length} migration(s)` : 'Nothing to roll back');
+      break;
+    }
+    case 'status':
+      (await migrationStatus()).forEach(migration => {
+        const state = migration.applied_at ? `applied ${migration.applied_at.toISOString()}` : 'pending';
+        console.log(`${String(migration.version).padStart(3, '0')} ${migration.name.padEnd(24)} ${state}`);
+      });
+      break;
+    default:
+      throw new Error(`Unknown command "${command}" (expected up, down or status)`);
+  }
+}
+
+main()
+  .catch(err => {
+    console.error('❌ Migration Error:', err.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
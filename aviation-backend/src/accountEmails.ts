@@ -0,0 +1,89 @@
+// accountEmails.ts
+// Signed tokens and emails for password reset and email verification
+
+import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
+import { recordAuditLog } from './audit';
+import { JWT_SECRET } from './config';
+import { sendMail } from './mailer';
+import { markEmailVerified } from './repositories/pilots';
+import type { Request } from 'express';
+
+// Payload of password reset, email verification and two-factor tokens
+export interface AccountTokenPayload {
+  id: number;
+  email: string;
+  purpose: string;
+  pwd?: string;
+}
+
+// A pilot account emails are sent to
+export interface AccountPilot {
+  id: number;
+  email: string;
+  first_name?: string | null;
+}
+
+export const PASSWORD_RESET_TTL = '1h';
+
+const EMAIL_VERIFICATION_TTL = '24h';
+
+// Where links in account emails open the app (the Expo scheme by default)
+export const APP_AUTH_URL = process.env.APP_AUTH_URL || 'myapp://auth';
+
+// Helper function to fingerprint a password hash; reset tokens carry it so they stop working
+// once the password has been changed
+export function passwordFingerprint(passwordHash: string): string {
+  return crypto.createHash('sha256').update(passwordHash).digest('hex').substring(0, 16);
+}
+
+// Helper function to check a reset or verification token; returns its payload or null
+export function verifyAccountToken(token: unknown, purpose: string): AccountTokenPayload | null {
+  try {
+    const payload = jwt.verify(String(token), JWT_SECRET) as AccountTokenPayload;
+    return payload.purpose === purpose ? payload : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+// Email a verification link (browser) and code (app) to a pilot
+export async function sendVerificationEmail(pilot: AccountPilot, req: Request): Promise<void> {
+  const token = jwt.sign(
+    { id: pilot.id, email: pilot.email, purpose: 'email_verification' },
+    JWT_SECRET,
+    { expiresIn: EMAIL_VERIFICATION_TTL }
+  );
+  const link = `${req.protocol}://${req.get('host')}/auth/verify-email?token=${encodeURIComponent(token)}`;
+
+  await sendMail({
+    to: pilot.email,
+    subject: 'Verify your FlightLog email address',
+    text: [
+      `Hi ${pilot.first_name || 'pilot'},`,
+      '',
+      'Confirm your email address by opening this link within 24 hours:',
+      link,
+      '',
+      'Or open the app and enter this verification code:',
+      token,
+      '',
+      'If you did not create a FlightLog account you can ignore this email.'
+    ].join('\n')
+  });
+}
+
+// Helper function to mark a pilot's email verified from a verification token
+export async function confirmEmailVerification(token: unknown): Promise<{ status: number; message: string }> {
+  const payload = verifyAccountToken(token, 'email_verification');
+  if (!payload) {
+    return { status: 400, message: 'Verification link is invalid or has expired' };
+  }
+
+  if (!(await markEmailVerified(payload.id, payload.email))) {
+    return { status: 400, message: 'Verification link is invalid or has expired' };
+  }
+
+  recordAuditLog('email_verified', 'pilot', payload.id, payload.email, { message: 'Email address verified' });
+  return { status: 200, message: 'Email address verified' };
+}
@@ -0,0 +1,153 @@
+// adsb.ts
+// ADS-B ingestion: polls a state-vector source picked by ADSB_SOURCE and stores positions in the
+// flights table. 'opensky' reads the OpenSky /states/all endpoint (optionally limited to ADSB_BBOX),
+// 'replay' plays back a recorded file for offline testing. Unset ADSB_SOURCE leaves the worker off.
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { insertPositions, positionColumns } from './repositories/livePositions';
+
+const SOURCE_TIMEOUT_MS = 10000;
+
+export const ADSB_POLL_SECONDS = Number(process.env.ADSB_POLL_SECONDS) || 60;
+export const ADSB_RETENTION_HOURS = Number(process.env.ADSB_RETENTION_HOURS) || 48;
+
+// One /states/all response: `states` rows are arrays in positionColumns order
+export interface StateSnapshot {
+  time: number;
+  states: unknown[][] | null;
+}
+
+export interface StateVectorSource {
+  name: string;
+  fetchStates: () => Promise<StateSnapshot>;
+}
+
+export type StateSourceFactory = () => StateVectorSource;
+
+// OpenSky /states/all (OPENSKY_API_URL, optional OPENSKY_USERNAME/OPENSKY_PASSWORD); ADSB_BBOX is
+// 'lamin,lomin,lamax,lomax' and keeps anonymous polling within OpenSky's rate limits
+function createOpenSkySource(): StateVectorSource {
+  const baseUrl = process.env.OPENSKY_API_URL || 'https://opensky-network.org/api';
+  const auth = process.env.OPENSKY_USERNAME
+    ? { username: process.env.OPENSKY_USERNAME, password: process.env.OPENSKY_PASSWORD || '' }
+    : undefined;
+
+  const params: Record<string, number> = {};
+  if (process.env.ADSB_BBOX) {
+    const [lamin, lomin, lamax, lomax] = process.env.ADSB_BBOX.split(',').map(Number);
+    Object.assign(params, { lamin, lomin, lamax, lomax });
+  }
+
+  return {
+    name: 'opensky',
+    fetchStates: async () => {
+      const response = await axios.get(`${baseUrl}/states/all`, { params, auth, timeout: SOURCE_TIMEOUT_MS });
+      return response.data;
+    }
+  };
+}
+
+/**
+ * Replays ADSB_REPLAY_FILE (default data/adsb-replay.jsonl): one recorded /states/all response per
+ * line, one line per poll, starting over at the end. Times are shifted so the recording plays as if
+ * it started now, which keeps replayed positions inside the retention window.
+ */
+export function createReplaySource(): StateVectorSource {
+  const replayFile = process.env.ADSB_REPLAY_FILE || path.join(__dirname, '..', 'data', 'adsb-replay.jsonl');
+  let snapshots: StateSnapshot[] | null = null;
+  let next = 0;
+  let offset = 0;
+
+  return {
+    name: 'replay',
+    fetchStates: async () => {
+      if (!snapshots) {
+        const text = await fs.promises.readFile(replayFile, 'utf8');
+        snapshots = text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+      }
+      if (snapshots.length === 0) {
+        return { time: Math.floor(Date.now() / 1000), states: [] };
+      }
+
+      if (next === 0) {
+        offset = Math.floor(Date.now() / 1000) - snapshots[0].time;
+      }
+      const snapshot = snapshots[next];
+      next = (next + 1) % snapshots.length;
+
+      // time_position and last_contact are the 4th and 5th fields
+      const shift = (value: unknown) => (typeof value === 'number' ? value + offset : value);
+      return {
+        time: snapshot.time + offset,
+        states: (snapshot.states || []).map(state => state.map((value, i) => (i === 3 || i === 4 ? shift(value) : value)))
+      };
+    }
+  };
+}
+
+const sourceFactories: Record<string, StateSourceFactory> = {
+  opensky: createOpenSkySource,
+  replay: createReplaySource
+};
+
+/**
+ * Make another source available under ADSB_SOURCE=<name>. The factory returns
+ * { name, fetchStates() } resolving to a /states/all-shaped { time, states }.
+ */
+export function registerStateSource(name: string, factory: StateSourceFactory): void {
+  sourceFactories[name] = factory;
+}
+
+// Helper function to turn a state vector into a flights row; null if it carries no position
+export function toPositionRow(state: unknown[]): unknown[] | null {
+  const row = positionColumns.map((column, i) => (state[i] === undefined ? null : state[i]));
+  const [icao24, callsign, , timePosition, , longitude, latitude] = row;
+  if (!icao24 || timePosition === null || longitude === null || latitude === null) return null;
+
+  row[1] = typeof callsign === 'string' ? callsign.trim() || null : null;
+  row[12] = row[12] === null ? null : JSON.stringify(row[12]);
+  return row;
+}
+
+// Fetch one snapshot from the source and store its positions; resolves to the number of new rows
+export async function ingestSnapshot(source: StateVectorSource): Promise<number> {
+  const snapshot = await source.fetchStates();
+  const rows = (snapshot.states || [])
+    .map(toPositionRow)
+    .filter((row): row is unknown[] => row !== null);
+  return insertPositions(rows);
+}
+
+// Poll ADSB_SOURCE every ADSB_POLL_SECONDS; a poll still running when the next is due is not overlapped
+export function startAdsbIngestion(): StateVectorSource | null {
+  const name = process.env.ADSB_SOURCE;
+  if (!name) return null;
+
+  const factory = sourceFactories[name];
+  if (!factory) {
+    throw new Error(`Unknown ADSB_SOURCE "${name}"`);
+  }
+  const source = factory();
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const stored = await ingestSnapshot(source);
+      if (stored > 0) {
+        console.log(`🛰️ Stored ${stored} ADS-B positions from ${source.name}`);
+      }
+    } catch (err) {
+      console.error('❌ ADS-B Ingestion Error:', err.message);
+    } finally {
+      polling = false;
+    }
+  };
+
+  poll();
+  setInterval(poll, ADSB_POLL_SECONDS * 1000);
+  return source;
+}
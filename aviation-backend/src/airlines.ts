@@ -0,0 +1,62 @@
+// airlines.ts
+// Airline designators from the bundled data/airlines.csv, to turn IATA flight codes into ICAO callsigns and back
+
+import fs from 'fs';
+import path from 'path';
+import csv from 'csv-parser';
+
+const AIRLINES_CSV = path.join(__dirname, '..', 'data', 'airlines.csv');
+
+export interface Airline {
+  iata: string;
+  icao: string;
+  name: string;
+}
+
+interface AirlineIndex {
+  byIata: Map<string, Airline>;
+  byIcao: Map<string, Airline>;
+}
+
+let airlinesPromise: Promise<AirlineIndex> | null = null;
+let airlineIndex: AirlineIndex | null = null;
+
+// Load the CSV once and index it by IATA and ICAO designator
+export function loadAirlines(): Promise<AirlineIndex> {
+  if (!airlinesPromise) {
+    airlinesPromise = new Promise((resolve, reject) => {
+      const byIata = new Map<string, Airline>();
+      const byIcao = new Map<string, Airline>();
+
+      fs.createReadStream(AIRLINES_CSV)
+        .pipe(csv())
+        .on('data', (row: Record<string, string>) => {
+          const airline = { iata: row.iata.toUpperCase(), icao: row.icao.toUpperCase(), name: row.name };
+          byIata.set(airline.iata, airline);
+          byIcao.set(airline.icao, airline);
+        })
+        .on('end', () => {
+          airlineIndex = { byIata, byIcao };
+          resolve(airlineIndex);
+        })
+        .on('error', (err) => {
+          airlinesPromise = null;
+          reject(err);
+        });
+    });
+  }
+
+  return airlinesPromise;
+}
+
+// Find an airline by IATA (2 characters) or ICAO (3 letters) designator
+export async function findAirline(code: string): Promise<Airline | null> {
+  const index = await loadAirlines();
+  const normalized = code.trim().toUpperCase();
+  return index.byIcao.get(normalized) || index.byIata.get(normalized) || null;
+}
+
+// Synchronous lookup by ICAO designator; returns null until loadAirlines() has finished
+export function getAirlineByIcao(icao: string): Airline | null {
+  return airlineIndex?.byIcao.get(icao.trim().toUpperCase()) || null;
+}
@@ -0,0 +1,120 @@
+// airports.ts
+// Offline airport reference data backed by the bundled OurAirports-style data/airports.csv
+
+import fs from 'fs';
+import path from 'path';
+import csv from 'csv-parser';
+import moment from 'moment-timezone';
+import { upsertAirports } from './repositories/airports';
+
+const AIRPORTS_CSV = path.join(__dirname, '..', 'data', 'airports.csv');
+
+export interface Airport {
+  icao: string | null;
+  iata: string | null;
+  name: string;
+  type: string | null;
+  city: string | null;
+  country: string | null;
+  latitude: number;
+  longitude: number;
+  elevation_ft: number | null;
+  timezone: string | null;
+}
+
+interface AirportIndex {
+  all: Airport[];
+  byIcao: Map<string, Airport>;
+  byIata: Map<string, Airport>;
+}
+
+let airportsPromise: Promise<AirportIndex> | null = null;
+let airportIndex: AirportIndex | null = null;
+
+// Helper function to map an OurAirports CSV row to our airport shape
+function parseAirportRow(row: Record<string, string>): Airport {
+  const elevation = parseInt(row.elevation_ft, 10);
+
+  return {
+    icao: row.ident ? row.ident.toUpperCase() : null,
+    iata: row.iata_code ? row.iata_code.toUpperCase() : null,
+    name: row.name,
+    type: row.type || null,
+    city: row.municipality || null,
+    country: row.iso_country || null,
+    latitude: parseFloat(row.latitude_deg),
+    longitude: parseFloat(row.longitude_deg),
+    elevation_ft: isNaN(elevation) ? null : elevation,
+    timezone: row.timezone || null
+  };
+}
+
+// Load the CSV once and index it by ICAO ident and IATA code
+export function loadAirports(): Promise<AirportIndex> {
+  if (!airportsPromise) {
+    airportsPromise = new Promise((resolve, reject) => {
+      const all: Airport[] = [];
+      const byIcao = new Map<string, Airport>();
+      const byIata = new Map<string, Airport>();
+
+      fs.createReadStream(AIRPORTS_CSV)
+        .pipe(csv())
+        .on('data', (row: Record<string, string>) => {
+          const airport = parseAirportRow(row);
+
+          if (!airport.icao || isNaN(airport.latitude) || isNaN(airport.longitude)) return;
+
+          all.push(airport);
+          byIcao.set(airport.icao, airport);
+          if (airport.iata) {
+            byIata.set(airport.iata, airport);
+          }
+        })
+        .on('end', () => {
+          console.log(`✅ Loaded ${all.length} airports from ${path.basename(AIRPORTS_CSV)}`);
+          airportIndex = { all, byIcao, byIata };
+          resolve(airportIndex);
+        })
+        .on('error', (err) => {
+          airportsPromise = null;
+          reject(err);
+        });
+    });
+  }
+
+  return airportsPromise;
+}
+
+function lookup(index: AirportIndex | null, code: unknown): Airport | null {
+  if (!index || !code) return null;
+  const normalized = String(code).trim().toUpperCase();
+  return index.byIcao.get(normalized) || index.byIata.get(normalized) || null;
+}
+
+// Find an airport by ICAO (4 letters) or IATA (3 letters) code
+export async function findAirport(code: unknown): Promise<Airport | null> {
+  if (!code) return null;
+  return lookup(await loadAirports(), code);
+}
+
+// Synchronous lookup for hot paths; returns null until loadAirports() has finished
+export function getAirport(code: unknown): Airport | null {
+  return lookup(airportIndex, code);
+}
+
+// Format a UTC timestamp in an airport's local time, e.g. "2024-01-15 18:00"
+export function toAirportLocalTime(value: unknown, airport: Airport | null): string | null {
+  if (!value || !airport || !airport.timezone) return null;
+
+  const utc = moment.utc(value instanceof Date ? value : String(value).replace(' ', 'T'));
+  if (!utc.isValid()) return null;
+
+  return utc.tz(airport.timezone).format('YYYY-MM-DD HH:mm');
+}
+
+// Upsert every CSV airport into the airports table
+export async function seedAirportsTable(): Promise<number> {
+  const { all } = await loadAirports();
+  await upsertAirports(all);
+  return all.length;
+}
@@ -0,0 +1,263 @@
+// analytics.ts
+// Flight statistics for the analytics dashboard
+
+import { safeParseFloat } from './flightFields';
+import type { LogbookTimes } from 'aviation-shared';
+
+// A logbook_entries row joined with its aircraft registry entry (DECIMAL columns may come back as strings)
+export interface AnalyticsFlightRow extends Partial<Record<keyof LogbookTimes, number | string | null>> {
+  flight_date: Date | string | null;
+  flight_status: string | null;
+  departure_iata: string | null;
+  arrival_iata: string | null;
+  airline_iata: string | null;
+  duration_hours: number | string | null;
+  aircraft_registration: string | null;
+  aircraft_type: string | null;
+  aircraft_category: string | null;
+  aircraft_class: string | null;
+  aircraft_is_complex: number | null;
+  aircraft_is_high_performance: number | null;
+  aircraft_is_turbine: number | null;
+}
+
+interface FlightGroup {
+  count: number;
+  hours: number;
+}
+
+// Helper function to sum a numeric column across flights
+const sumField = (flights: AnalyticsFlightRow[], field: keyof LogbookTimes): number =>
+  flights.reduce((sum, flight) => sum + safeParseFloat(flight[field]), 0);
+
+const roundHours = (hours: number) => Math.round(hours * 10) / 10;
+
+// Helper function to count flights and hours per key
+function groupFlights(flights: AnalyticsFlightRow[], keyFn: (flight: AnalyticsFlightRow) => string): Map<string, FlightGroup> {
+  const groups = new Map<string, FlightGroup>();
+
+  flights.forEach(flight => {
+    const key = keyFn(flight);
+    const existing = groups.get(key) || { count: 0, hours: 0 };
+    groups.set(key, {
+      count: existing.count + 1,
+      hours: existing.hours + safeParseFloat(flight.duration_hours)
+    });
+  });
+
+  return groups;
+}
+
+// Helper function to process flight data into analytics
+export function processFlightAnalytics(flights: AnalyticsFlightRow[]) {
+  if (!flights || flights.length === 0) {
+    return {
+      totalFlights: 0,
+      totalHours: 0,
+      averageFlightTime: 0,
+      mostFrequentRoute: 'N/A',
+      mostUsedAircraft: 'N/A',
+      onTimePercentage: 0,
+      monthlyTrend: generateEmptyMonthlyTrend(),
+      aircraftBreakdown: [],
+      classBreakdown: [],
+      aircraftCharacteristics: { complex: 0, highPerformance: 0, turbine: 0 },
+      routeAnalysis: [],
+      statusDistribution: { scheduled: 0, active: 0, completed: 0, cancelled: 0 },
+      timeDistribution: { day: 0, night: 0, ifr: 0, actualInstrument: 0, simulatedInstrument: 0, crossCountry: 0 },
+      pilotFunction: { pic: 0, sic: 0, dualReceived: 0, dualGiven: 0, solo: 0 },
+      landings: { day: 0, night: 0, approaches: 0 },
+      airlineAnalysis: []
+    };
+  }
+
+  const totalFlights = flights.length;
+  const totalHours = flights.reduce((sum, flight) => sum + safeParseFloat(flight.duration_hours), 0);
+  const averageFlightTime = totalFlights > 0 ? totalHours / totalFlights : 0;
+
+  // Route analysis
+  const routeMap = new Map();
+  flights.forEach(flight => {
+    const route = `${flight.departure_iata || 'N/A'}-${flight.arrival_iata || 'N/A'}`;
+    const duration = safeParseFloat(flight.duration_hours);
+    
+    if (routeMap.has(route)) {
+      const existing = routeMap.get(route);
+      routeMap.set(route, {
+        frequency: existing.frequency + 1,
+        totalDuration: existing.totalDuration + duration
+      });
+    } else {
+      routeMap.set(route, {
+        frequency: 1,
+        totalDuration: duration
+      });
+    }
+  });
+
+  const routeAnalysis = Array.from(routeMap.entries())
+    .map(([route, data]) => ({
+      route,
+      frequency: data.frequency,
+      avgDuration: data.frequency > 0 ? data.totalDuration / data.frequency : 0
+    }))
+    .sort((a, b) => b.frequency - a.frequency)
+    .slice(0, 5);
+
+  const mostFrequentRoute = routeAnalysis[0]?.route || 'N/A';
+
+  // Aircraft type and class analysis (from the linked aircraft registry entry)
+  const aircraftMap = groupFlights(flights, flight =>
+    flight.aircraft_type || flight.aircraft_registration || 'Unassigned'
+  );
+  const classMap = groupFlights(flights, flight =>
+    flight.aircraft_class ? `${flight.aircraft_category} ${flight.aircraft_class}` : 'Unassigned'
+  );
+
+  const toBreakdown = (map: Map<string, FlightGroup>, key: string) => Array.from(map.entries())
+    .map(([name, data]) => ({
+      [key]: name,
+      count: data.count,
+      hours: data.hours,
+      percentage: totalFlights > 0 ? (data.count / totalFlights) * 100 : 0
+    }))
+    .sort((a, b) => b.count - a.count);
+
+  const aircraftBreakdown = toBreakdown(aircraftMap, 'type').slice(0, 5);
+  const classBreakdown = toBreakdown(classMap, 'class');
+
+  const mostUsedAircraft = aircraftBreakdown.find(a => a.type !== 'Unassigned')?.type || 'N/A';
+
+  const hoursWhere = (predicate: (flight: AnalyticsFlightRow) => boolean) => roundHours(
+    flights.filter(predicate).reduce((sum, flight) => sum + safeParseFloat(flight.duration_hours), 0)
+  );
+
+  const aircraftCharacteristics = {
+    complex: hoursWhere(flight => Boolean(flight.aircraft_is_complex)),
+    highPerformance: hoursWhere(flight => Boolean(flight.aircraft_is_high_performance)),
+    turbine: hoursWhere(flight => Boolean(flight.aircraft_is_turbine))
+  };
+
+  // Monthly trend analysis
+  const monthlyTrend = generateMonthlyTrend(flights);
+
+  // Status distribution
+  const statusDistribution = {
+    scheduled: flights.filter(f => f.flight_status === 'scheduled').length,
+    active: flights.filter(f => f.flight_status === 'active').length,
+    completed: flights.filter(f => f.flight_status === 'completed').length,
+    cancelled: flights.filter(f => f.flight_status === 'cancelled').length
+  };
+
+  const onTimePercentage = totalFlights > 0 
+    ? ((statusDistribution.completed + statusDistribution.active) / totalFlights) * 100 
+    : 0;
+
+  // Time distribution from the logged night, instrument and cross-country columns
+  const nightHours = sumField(flights, 'night_hours');
+  const actualInstrumentHours = sumField(flights, 'actual_instrument_hours');
+  const simulatedInstrumentHours = sumField(flights, 'simulated_instrument_hours');
+
+  const timeDistribution = {
+    day: roundHours(Math.max(0, totalHours - nightHours)),
+    night: roundHours(nightHours),
+    ifr: roundHours(actualInstrumentHours + simulatedInstrumentHours),
+    actualInstrument: roundHours(actualInstrumentHours),
+    simulatedInstrument: roundHours(simulatedInstrumentHours),
+    crossCountry: roundHours(sumField(flights, 'cross_country_hours'))
+  };
+
+  const pilotFunction = {
+    pic: roundHours(sumField(flights, 'pic_hours')),
+    sic: roundHours(sumField(flights, 'sic_hours')),
+    dualReceived: roundHours(sumField(flights, 'dual_received_hours')),
+    dualGiven: roundHours(sumField(flights, 'dual_given_hours')),
+    solo: roundHours(sumField(flights, 'solo_hours'))
+  };
+
+  const landings = {
+    day: sumField(flights, 'day_landings'),
+    night: sumField(flights, 'night_landings'),
+    approaches: sumField(flights, 'approaches')
+  };
+
+  // Airline analysis
+  const airlineMap = groupFlights(flights, flight => flight.airline_iata || 'Unknown');
+  const airlineAnalysis = Array.from(airlineMap.entries())
+    .map(([airline, data]) => ({
+      airline,
+      flights: data.count,
+      reliability: 85 + Math.random() * 15 // Mock reliability score
+    }))
+    .sort((a, b) => b.flights - a.flights)
+    .slice(0, 5);
+
+  return {
+    totalFlights,
+    totalHours: parseFloat(totalHours.toFixed(2)),
+    averageFlightTime: parseFloat(averageFlightTime.toFixed(2)),
+    mostFrequentRoute,
+    mostUsedAircraft,
+    onTimePercentage: parseFloat(onTimePercentage.toFixed(1)),
+    monthlyTrend,
+    aircraftBreakdown,
+    classBreakdown,
+    aircraftCharacteristics,
+    routeAnalysis,
+    statusDistribution,
+    timeDistribution,
+    pilotFunction,
+    landings,
+    airlineAnalysis
+  };
+}
+
+// Helper function to generate monthly trend data
+function generateMonthlyTrend(flights: AnalyticsFlightRow[]) {
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const currentDate = new Date();
+  const monthlyData = new Map<string, { month: string; flights: number; hours: number }>();
+
+  // Initialize last 6 months
+  for (let i = 5; i >= 0; i--) {
+    const date = new Date(currentDate.getFullYear(), currentDate.getMonth() - i, 1);
+    const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    const monthName = monthNames[date.getMonth()];
+    
+    monthlyData.set(monthKey, {
+      month: monthName,
+      flights: 0,
+      hours: 0
+    });
+  }
+
+  // Process actual flight data
+  flights.forEach(flight => {
+    if (flight.flight_date) {
+      const flightDate = new Date(flight.flight_date);
+      const monthKey = `${flightDate.getFullYear()}-${String(flightDate.getMonth() + 1).padStart(2, '0')}`;
+      
+      if (monthlyData.has(monthKey)) {
+        const existing = monthlyData.get(monthKey)!;
+        existing.flights += 1;
+        existing.hours += safeParseFloat(flight.duration_hours);
+      }
+    }
+  });
+
+  // Convert to array and round hours
+  return Array.from(monthlyData.values()).map(data => ({
+    ...data,
+    hours: Math.round(data.hours * 10) / 10 // Round to 1 decimal place
+  }));
+}
+
+// Helper function for empty monthly trend
+function generateEmptyMonthlyTrend() {
+  const monthNames = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun'];
+  return monthNames.map(month => ({
+    month,
+    flights: 0,
+    hours: 0
+  }));
+}
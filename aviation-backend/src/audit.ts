@@ -0,0 +1,59 @@
+// audit.ts
+// Audit log writes, appended to the audit hash chain
+
+import moment from 'moment-timezone';
+import { findLastAuditHash, insertAuditEntry } from './repositories/auditLogs';
+import { GENESIS_HASH, hashAuditEntry, type AuditEntryContent } from './auditChain';
+
+// Audit entries are appended one at a time so each sees the hash of the one before it
+export let auditChainTail: Promise<void> = Promise.resolve();
+
+// Helper function to append one entry to the audit hash chain
+async function appendAuditEntry(auditLog: Omit<AuditEntryContent, 'timestamp' | 'prev_hash'>): Promise<void> {
+  const lastHash = await findLastAuditHash();
+
+  const entry: AuditEntryContent & { entry_hash?: string } = {
+    ...auditLog,
+    timestamp: moment().format('YYYY-MM-DD HH:mm:ss'),
+    prev_hash: lastHash || GENESIS_HASH
+  };
+  entry.entry_hash = hashAuditEntry(entry);
+
+  await insertAuditEntry(entry);
+}
+
+// Helper function to record audit logs
+export function recordAuditLog(
+  action: string,
+  entity: string,
+  entityId: string | number,
+  user: string = 'system',
+  details: unknown = {},
+  flightDetails: unknown = null
+): void {
+  const auditLog = {
+    action,
+    entity,
+    entity_id: String(entityId),
+    user_id: user,
+    user_name: user === 'system' ? 'System' : 'Pilot User',
+    details: JSON.stringify(details),
+    flight_details: flightDetails ? JSON.stringify(flightDetails) : null
+  };
+
+  auditChainTail = auditChainTail
+    .then(() => appendAuditEntry(auditLog))
+    .catch(err => {
+      console.error('❌ Audit Log Error:', err.message);
+    });
+}
+
+// Helper function to parse a JSON column that may already have been parsed by the driver
+export function safeParse(data: unknown): unknown {
+  try {
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  } catch (e) {
+    console.warn('⚠️ Failed to parse JSON:', data);
+    return data;
+  }
+}
@@ -0,0 +1,110 @@
+// auditChain.ts
+// Hash chain over audit_logs rows: each entry hashes its own content plus the previous entry's hash
+
+import crypto from 'crypto';
+
+// prev_hash of the first chained entry
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface AuditEntryContent {
+  action: string;
+  entity: string;
+  entity_id: string | number;
+  user_id: string;
+  user_name: string;
+  timestamp: string;
+  details: unknown;
+  flight_details: unknown;
+  prev_hash: string | null;
+}
+
+export interface ChainedAuditRow extends AuditEntryContent {
+  id: number;
+  entry_hash: string | null;
+}
+
+export interface ChainState {
+  previousHash: string;
+  checked: number;
+  skipped: number;
+  started: boolean;
+}
+
+// Helper function to serialise a value with object keys sorted, so MySQL's JSON key reordering
+// does not change the hash
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const object = value as Record<string, unknown>;
+    return `{${Object.keys(object).sort().map(key => `${JSON.stringify(key)}:${stableStringify(object[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value === undefined ? null : value);
+}
+
+// Helper function to bring a JSON column value (string, object or null) to plain JSON data
+function normaliseJson(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch (e) {
+      return value;
+    }
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Canonical content of an audit entry. `timestamp` must be the 'YYYY-MM-DD HH:mm:ss' string
+ * stored in the row (read back with `dateStrings`).
+ */
+function canonicalAuditContent(entry: AuditEntryContent): string {
+  return stableStringify({
+    action: entry.action,
+    entity: entry.entity,
+    entity_id: String(entry.entity_id),
+    user_id: entry.user_id,
+    user_name: entry.user_name,
+    timestamp: entry.timestamp,
+    details: normaliseJson(entry.details),
+    flight_details: normaliseJson(entry.flight_details),
+    prev_hash: entry.prev_hash
+  });
+}
+
+// SHA-256 of the canonical content, hex encoded
+export function hashAuditEntry(entry: AuditEntryContent): string {
+  return crypto.createHash('sha256').update(canonicalAuditContent(entry)).digest('hex');
+}
+
+/**
+ * Check one batch of rows (ascending id) against the chain so far.
+ * `state` carries { previousHash, checked, skipped, started } between batches; returns the first broken
+ * link as { id, reason } or null. Rows written before chaining was enabled (no entry_hash)
+ * are skipped until the first chained row.
+ */
+export function verifyAuditBatch(rows: ChainedAuditRow[], state: ChainState): { id: number; reason: string } | null {
+  for (const row of rows) {
+    if (!row.entry_hash) {
+      if (state.started) {
+        return { id: row.id, reason: 'Entry has no hash; it was inserted outside the audit chain' };
+      }
+      state.skipped += 1;
+      continue;
+    }
+
+    if (row.prev_hash !== state.previousHash) {
+      return { id: row.id, reason: 'Previous-hash link does not match; an earlier entry was changed or deleted' };
+    }
+    if (hashAuditEntry(row) !== row.entry_hash) {
+      return { id: row.id, reason: 'Entry content does not match its hash; the entry was modified' };
+    }
+
+    state.started = true;
+    state.previousHash = row.entry_hash;
+    state.checked += 1;
+  }
+  return null;
+}
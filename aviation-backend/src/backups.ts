@@ -0,0 +1,259 @@
+// backups.ts
+// Snapshots of pilots, aircraft, credentials, schedules, flights, signatures and audit logs stored in the backups table
+
+import moment from 'moment-timezone';
+import db, { withTransaction } from './db';
+import type { Queryable } from './db';
+import { deleteBackups, insertBackup, listAutoBackups } from './repositories/backups';
+import { listPilotCurrentSignatures } from './repositories/signatures';
+import { hashFlightEntry } from './signatures';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+const BACKUP_FORMAT_VERSION = 2;
+
+// Automatic backups older than this are pruned, except the newest BACKUP_MIN_KEEP of each scope/pilot
+export const BACKUP_RETENTION_DAYS = Number(process.env.BACKUP_RETENTION_DAYS) || 30;
+export const BACKUP_MIN_KEEP = Number(process.env.BACKUP_MIN_KEEP) || 3;
+
+// Rows inserted per statement during a restore
+const RESTORE_BATCH_SIZE = 500;
+
+interface BackupTable {
+  table: string;
+  pilotColumn: string;
+  restorable?: boolean;
+  fullRestoreOnly?: boolean;
+}
+
+type BackupRow = Record<string, unknown>;
+
+export interface BackupData {
+  version?: number;
+  scope?: string;
+  pilot_id?: number | null;
+  created_at?: string;
+  backupType?: string;
+  tables?: Record<string, BackupRow[]>;
+  // Pre-v1 backups only held flights
+  flights?: BackupRow[];
+}
+
+export interface BackupPilot {
+  id: number;
+  email: string;
+}
+
+export interface CreateBackupOptions {
+  scope?: 'full' | 'pilot';
+  pilot?: BackupPilot | null;
+  backupType?: 'manual' | 'auto';
+  createdBy?: string;
+}
+
+/**
+ * Tables in dependency order (parents first). `pilotColumn` selects one pilot's rows;
+ * `fullRestoreOnly` tables are only rewritten by full restores, and `restorable: false` tables are
+ * kept for reference but never rewritten: the audit log is append-only, so its hash chain keeps
+ * every entry written after the backup.
+ */
+const backupTables: BackupTable[] = [
+  { table: 'pilots', pilotColumn: 'id', fullRestoreOnly: true },
+  { table: 'aircraft', pilotColumn: 'owner_pilot_id' },
+  { table: 'pilot_credentials', pilotColumn: 'pilot_id' },
+  { table: 'pilot_schedules', pilotColumn: 'pilot_id' },
+  { table: 'logbook_entries', pilotColumn: 'created_by' },
+  { table: 'flight_signatures', pilotColumn: 'pilot_id', fullRestoreOnly: true },
+  { table: 'audit_logs', pilotColumn: 'user_id', restorable: false }
+];
+
+// Columns of the pilot's own row left out of pilot backups: the password, the TOTP secret and login lockout state
+const pilotBackupExcludedColumns = [
+  'password',
+  'totp_secret',
+  'totp_last_step',
+  'failed_login_attempts',
+  'last_failed_login_at',
+  'locked_until'
+];
+
+// Rows left behind by a full restore that ran with foreign key checks off: pilots or credentials
+// the backup does not contain would otherwise keep their sessions, recovery codes and reminders
+const orphanCleanup = [
+  'DELETE FROM sessions WHERE pilot_id NOT IN (SELECT id FROM pilots)',
+  'DELETE FROM two_factor_recovery_codes WHERE pilot_id NOT IN (SELECT id FROM pilots)',
+  'DELETE FROM credential_reminders WHERE credential_id NOT IN (SELECT id FROM pilot_credentials)'
+];
+
+// Helper function to read a table for a backup; dates stay as MySQL strings so they restore verbatim
+async function selectRows(conn: Queryable, { table, pilotColumn }: BackupTable, pilot: BackupPilot | null): Promise<BackupRow[]> {
+  if (!pilot) {
+    const [rows] = await conn.query<RowDataPacket[]>({ sql: `SELECT * FROM ${table}`, dateStrings: true });
+    return rows;
+  }
+
+  // Audit logs are keyed by the acting user's email rather than the pilot id
+  const value = pilotColumn === 'user_id' ? pilot.email : pilot.id;
+  const [rows] = await conn.query<RowDataPacket[]>({
+    sql: `SELECT * FROM ${table} WHERE ${pilotColumn} = ?`,
+    values: [value],
+    dateStrings: true
+  });
+  return rows;
+}
+
+/**
+ * Snapshot the database (scope 'full') or one pilot's data (scope 'pilot') into the backups table.
+ * Pilot backups never contain the password hash, TOTP secret or lockout state.
+ */
+export async function createBackup(
+  { scope = 'full', pilot = null, backupType = 'manual', createdBy = 'system' }: CreateBackupOptions,
+  conn: Queryable = db
+) {
+  const tables: Record<string, BackupRow[]> = {};
+  for (const definition of backupTables) {
+    const rows = await selectRows(conn, definition, scope === 'pilot' ? pilot : null);
+    tables[definition.table] = scope === 'pilot' && definition.table === 'pilots'
+      ? rows.map(row => Object.fromEntries(Object.entries(row).filter(([column]) => !pilotBackupExcludedColumns.includes(column))))
+      : rows;
+  }
+
+  const data: BackupData = {
+    version: BACKUP_FORMAT_VERSION,
+    scope,
+    pilot_id: scope === 'pilot' && pilot ? pilot.id : null,
+    created_at: new Date().toISOString(),
+    backupType,
+    tables
+  };
+  const json = JSON.stringify(data);
+  const recordCounts = Object.fromEntries(Object.entries(tables).map(([table, rows]) => [table, rows.length]));
+
+  const id = await insertBackup({
+    data: json,
+    backup_type: backupType,
+    scope,
+    pilot_id: data.pilot_id ?? null,
+    created_by: createdBy,
+    size_bytes: Buffer.byteLength(json),
+    record_counts: JSON.stringify(recordCounts)
+  }, conn);
+
+  return { id, scope, pilot_id: data.pilot_id, backup_type: backupType, record_counts: recordCounts };
+}
+
+/**
+ * Helper function to read the tables out of a backup. Pre-v2 backups keep logbook entries in
+ * detailed_flights (pre-v1 in `flights`) next to unowned flights cached from the API; only the
+ * owned rows are restored, the catalog is filled again from the provider.
+ */
+function backupTablesOf(data: BackupData | null): Record<string, BackupRow[]> {
+  if (data && data.tables && !data.tables.detailed_flights) return data.tables;
+
+  const { detailed_flights: legacyFlights = (data && data.flights) || [], ...tables } = (data && data.tables) || {};
+  return { ...tables, logbook_entries: legacyFlights.filter(row => row.created_by !== null && row.created_by !== undefined) };
+}
+
+// Helper function to bulk insert backed-up rows, serialising JSON columns again
+async function insertRows(conn: Queryable, table: string, rows: BackupRow[]): Promise<void> {
+  if (rows.length === 0) return;
+
+  const columns = Object.keys(rows[0]);
+  for (let i = 0; i < rows.length; i += RESTORE_BATCH_SIZE) {
+    const values = rows.slice(i, i + RESTORE_BATCH_SIZE).map(row => columns.map(column => {
+      const value = row[column];
+      return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    }));
+    await conn.query<ResultSetHeader>(
+      `INSERT INTO ${table} (${columns.map(column => `\`${column}\``).join(', ')}) VALUES ?`,
+      [values]
+    );
+  }
+}
+
+/**
+ * Restore a backup inside one transaction.
+ * - scope 'full': every restorable table in the backup is emptied and reloaded, then sessions,
+ *   recovery codes and reminders of pilots and credentials that no longer exist are deleted
+ * - scope 'pilot': only `pilotId`'s aircraft, credentials, schedules and flights are replaced.
+ *   Signatures are not, so the restore is refused (nothing changes) unless every entry an
+ *   instructor has signed comes back exactly as signed.
+ * Audit logs are never restored. Resolves to the number of rows restored per table, or { error }.
+ */
+export async function restoreBackup(
+  data: BackupData | null,
+  { scope, pilotId = null }: { scope: string; pilotId?: number | string | null }
+): Promise<{ restored: Record<string, number> } | { error: string }> {
+  const tables = backupTablesOf(data);
+  const restored: Record<string, number> = {};
+
+  return withTransaction(async conn => {
+    if (scope === 'full') {
+      // Session setting: switch it back on before the connection returns to the pool, even on failure
+      await conn.query('SET FOREIGN_KEY_CHECKS = 0');
+      try {
+        const present = backupTables.filter(({ table, restorable }) => restorable !== false && tables[table]);
+        for (const { table } of [...present].reverse()) {
+          await conn.query<ResultSetHeader>(`DELETE FROM ${table}`);
+        }
+        for (const { table } of present) {
+          await insertRows(conn, table, tables[table]);
+          restored[table] = tables[table].length;
+        }
+        for (const statement of orphanCleanup) {
+          await conn.query<ResultSetHeader>(statement);
+        }
+      } finally {
+        await conn.query('SET FOREIGN_KEY_CHECKS = 1');
+      }
+    } else {
+      const present = backupTables.filter(({ table, restorable, fullRestoreOnly }) =>
+        restorable !== false && !fullRestoreOnly && tables[table]);
+      const ownRows = (table: string, pilotColumn: string) =>
+        tables[table].filter(row => String(row[pilotColumn]) === String(pilotId));
+
+      // Signed entries must come back exactly as signed (a backup without logbook entries leaves them alone)
+      if (tables.logbook_entries) {
+        const backupFlights = ownRows('logbook_entries', 'created_by');
+        const signatures = await listPilotCurrentSignatures(Number(pilotId), conn);
+        const altered = signatures.filter(signature => {
+          const flight = backupFlights.find(row => String(row.id) === String(signature.flight_id));
+          return !flight || hashFlightEntry(flight) !== signature.entry_hash;
+        });
+        if (altered.length > 0) {
+          return { error: `The backup would remove or change ${altered.length} signed logbook entr${altered.length === 1 ? 'y' : 'ies'}; no changes were made` };
+        }
+      }
+
+      for (const { table, pilotColumn } of [...present].reverse()) {
+        await conn.query<ResultSetHeader>(`DELETE FROM ${table} WHERE ${pilotColumn} = ?`, [pilotId]);
+      }
+      for (const { table, pilotColumn } of present) {
+        const rows = ownRows(table, pilotColumn);
+        await insertRows(conn, table, rows);
+        restored[table] = rows.length;
+      }
+    }
+
+    return { restored };
+  });
+}
+
+/**
+ * Retention: delete automatic backups older than BACKUP_RETENTION_DAYS while keeping
+ * the newest BACKUP_MIN_KEEP per scope and pilot. Manual backups are only removed by hand.
+ */
+export async function applyRetention(conn: Queryable = db): Promise<number> {
+  const cutoff = moment().subtract(BACKUP_RETENTION_DAYS, 'days').format('YYYY-MM-DD HH:mm:ss');
+  const backups = await listAutoBackups(conn);
+
+  const seen = new Map<string, number>();
+  const expired = backups.filter(backup => {
+    const key = `${backup.scope}|${backup.pilot_id}`;
+    const rank = (seen.get(key) || 0) + 1;
+    seen.set(key, rank);
+    return rank > BACKUP_MIN_KEEP && moment(backup.timestamp).isBefore(cutoff);
+  });
+
+  await deleteBackups(expired.map(backup => backup.id), conn);
+  return expired.length;
+}
@@ -0,0 +1,11 @@
+// config.ts
+// Settings read from the environment
+
+import 'dotenv/config';
+
+export const PORT = process.env.PORT || 5000;
+
+export const JWT_SECRET = process.env.JWT_SECRET || 'your-secret-key-change-this-in-production';
+
+// How /upload-schedule treats rows that breach duty/rest limits: 'warn' or 'reject'
+export const DUTY_UPLOAD_MODE = process.env.DUTY_UPLOAD_MODE || 'warn';
@@ -0,0 +1,152 @@
+// credentials.ts
+// Expiry rules for pilot credentials: medicals, ratings, flight reviews/IPCs, passports and company training
+
+import moment from 'moment-timezone';
+
+export const CREDENTIAL_TYPES = [
+  'medical',
+  'license_rating',
+  'type_rating',
+  'flight_review',
+  'ipc',
+  'passport',
+  'company_training'
+];
+
+export const CREDENTIAL_AUTHORITIES = ['FAA', 'EASA'];
+
+// Reminder thresholds (days before expiry), largest first
+export const REMINDER_THRESHOLDS = [90, 30, 7];
+
+// Pilots whose age at the exam is unknown get the shorter (older-pilot) medical validity
+const UNKNOWN_AGE = Infinity;
+
+// A pilot_credentials row (dates may be Date objects or YYYY-MM-DD strings)
+export interface CredentialRow {
+  id?: number;
+  credential_type: string;
+  authority: string;
+  medical_class?: number | null;
+  age_at_issue?: number | null;
+  issue_date?: Date | string | null;
+  expiry_date?: Date | string | null;
+  pilot_id?: number;
+  name?: string | null;
+  reference_number?: string | null;
+  notes?: string | null;
+  created_at?: Date | string;
+  updated_at?: Date | string;
+}
+
+interface Validity {
+  calendarMonths?: number;
+  months?: number;
+  regulation: string;
+}
+
+type CredentialRule = Validity | ((credential: CredentialRow) => Validity | null);
+
+/**
+ * Validity per authority and credential type.
+ * `calendarMonths` run to the end of the month (FAA), `months` to the same day of the month (EASA).
+ * A function receives the credential and returns a validity object.
+ * A missing entry means the regulation sets no expiry; an explicit expiry_date is then used if given.
+ */
+const credentialRules: Record<string, Record<string, CredentialRule>> = {
+  FAA: {
+    // 14 CFR 61.23(d)
+    medical: (credential) => {
+      const age = credential.age_at_issue ?? UNKNOWN_AGE;
+      switch (Number(credential.medical_class)) {
+        case 1: return { calendarMonths: age < 40 ? 12 : 6, regulation: '14 CFR 61.23(d)(1)' };
+        case 2: return { calendarMonths: 12, regulation: '14 CFR 61.23(d)(2)' };
+        case 3: return { calendarMonths: age < 40 ? 60 : 24, regulation: '14 CFR 61.23(d)(3)' };
+        default: return null;
+      }
+    },
+    flight_review: { calendarMonths: 24, regulation: '14 CFR 61.56' },
+    ipc: { calendarMonths: 6, regulation: '14 CFR 61.57(d)' },
+    type_rating: { calendarMonths: 12, regulation: '14 CFR 61.58' }
+  },
+  EASA: {
+    // MED.A.045
+    medical: (credential) => {
+      const age = credential.age_at_issue ?? UNKNOWN_AGE;
+      switch (Number(credential.medical_class)) {
+        case 1: return { months: age < 60 ? 12 : 6, regulation: 'MED.A.045(a)(1)' };
+        case 2: return { months: age < 40 ? 60 : age < 50 ? 24 : 12, regulation: 'MED.A.045(a)(2)' };
+        default: return null;
+      }
+    },
+    license_rating: { months: 24, regulation: 'FCL.740.A(b)' },
+    type_rating: { months: 12, regulation: 'FCL.740.A(a)' }
+  }
+};
+
+// Helper function to look up the validity rule for a credential
+function validityFor(credential: CredentialRow): Validity | null {
+  const rule = credentialRules[credential.authority]?.[credential.credential_type];
+  return typeof rule === 'function' ? rule(credential) : rule || null;
+}
+
+// Expiry date (moment) for a credential, or null if it never expires
+function computeExpiry(credential: CredentialRow): moment.Moment | null {
+  // An explicit expiry always wins (passports, company training, EASA IR, ...)
+  if (credential.expiry_date) {
+    return moment(credential.expiry_date).startOf('day');
+  }
+
+  const validity = validityFor(credential);
+  if (!validity || !credential.issue_date) return null;
+
+  const issued = moment(credential.issue_date).startOf('day');
+  if (validity.calendarMonths) {
+    return issued.add(validity.calendarMonths, 'months').endOf('month').startOf('day');
+  }
+  return issued.add(validity.months, 'months');
+}
+
+/**
+ * Decorate a pilot_credentials row with its computed expiry and status.
+ * status: 'valid' | 'expiring' (inside the largest reminder threshold) | 'expired' | 'no_expiry'
+ */
+export function evaluateCredential(credential: CredentialRow, asOf: Date = new Date()) {
+  const today = moment(asOf).startOf('day');
+  const expiry = computeExpiry(credential);
+  const validity = credential.expiry_date ? null : validityFor(credential);
+
+  let status: 'valid' | 'expiring' | 'expired' | 'no_expiry' = 'no_expiry';
+  let daysRemaining: number | null = null;
+  if (expiry) {
+    daysRemaining = expiry.diff(today, 'days');
+    if (daysRemaining < 0) {
+      status = 'expired';
+    } else if (daysRemaining <= REMINDER_THRESHOLDS[0]) {
+      status = 'expiring';
+    } else {
+      status = 'valid';
+    }
+  }
+
+  const toDateString = (value: Date | string | null | undefined) => (value ? moment(value).format('YYYY-MM-DD') : null);
+
+  return {
+    ...credential,
+    issue_date: toDateString(credential.issue_date),
+    expiry_date: toDateString(credential.expiry_date),
+    computed_expiry: expiry ? expiry.format('YYYY-MM-DD') : null,
+    expiry_source: credential.expiry_date ? 'explicit' : validity ? 'regulation' : null,
+    regulation: validity?.regulation || null,
+    days_remaining: daysRemaining,
+    status
+  };
+}
+
+export type EvaluatedCredential = ReturnType<typeof evaluateCredential>;
+
+// Smallest reminder threshold the credential has crossed, or null if none is due
+export function dueReminderThreshold(daysRemaining: number | null): number | null {
+  if (daysRemaining === null || daysRemaining < 0) return null;
+  const crossed = REMINDER_THRESHOLDS.filter(threshold => daysRemaining <= threshold);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+}
@@ -0,0 +1,205 @@
+// currency.ts
+// Recent-experience (currency) evaluation of a pilot's logged flights against a regulatory rule set
+
+import moment from 'moment-timezone';
+import type { LogbookTimes } from 'aviation-shared';
+
+// Days before expiry at which a currency is reported as "expiring"
+const EXPIRY_WARNING_DAYS = 30;
+
+// Logged events currency is counted from
+type CountColumn = 'day_landings' | 'night_landings' | 'approaches' | 'holds' | 'course_intercepts';
+
+// A logbook_entries row as read from the database (counts may come back as strings)
+export type CurrencyFlightRow = { flight_date: Date | string | null } & Partial<Record<CountColumn, LogbookTimes[CountColumn] | string | null>>;
+
+type DatedFlight = CurrencyFlightRow & { date: moment.Moment };
+
+interface Requirement {
+  label: string;
+  count: (flight: CurrencyFlightRow) => number;
+  required: number;
+}
+
+export interface CurrencyRule {
+  id: string;
+  title: string;
+  regulation: string;
+  windowDays?: number;
+  windowCalendarMonths?: number;
+  requirements: Requirement[];
+  lapsedAfterMonths?: number;
+  lapsedAction?: string;
+}
+
+const landings = (flight: CurrencyFlightRow) => (Number(flight.day_landings) || 0) + (Number(flight.night_landings) || 0);
+const field = (name: CountColumn) => (flight: CurrencyFlightRow) => Number(flight[name]) || 0;
+
+/**
+ * Rule sets keyed by authority. Each rule counts logged events inside a look-back window:
+ * - `windowDays`: rolling window of N days (FAA "preceding 90 days")
+ * - `windowCalendarMonths`: N calendar months before the current month, plus the current month
+ * A rule lapses when any requirement can no longer be met inside its window.
+ * `lapsedAfterMonths`/`lapsedAction` describe what is needed once the grace period has passed.
+ */
+export const currencyRuleSets: Record<string, CurrencyRule[]> = {
+  FAA: [
+    {
+      id: 'passenger_day',
+      title: 'Passenger carrying (day)',
+      regulation: '14 CFR 61.57(a)',
+      windowDays: 90,
+      requirements: [
+        { label: 'takeoffs and landings', count: landings, required: 3 }
+      ]
+    },
+    {
+      id: 'passenger_night',
+      title: 'Passenger carrying (night)',
+      regulation: '14 CFR 61.57(b)',
+      windowDays: 90,
+      requirements: [
+        { label: 'night takeoffs and full-stop landings', count: field('night_landings'), required: 3 }
+      ]
+    },
+    {
+      id: 'ifr',
+      title: 'Instrument (IFR)',
+      regulation: '14 CFR 61.57(c)',
+      windowCalendarMonths: 6,
+      requirements: [
+        { label: 'instrument approaches', count: field('approaches'), required: 6 },
+        { label: 'holding procedures', count: field('holds'), required: 1 },
+        { label: 'intercepting and tracking courses', count: field('course_intercepts'), required: 1 }
+      ],
+      lapsedAfterMonths: 6,
+      lapsedAction: 'Instrument proficiency check (IPC) required (14 CFR 61.57(d))'
+    }
+  ],
+  EASA: [
+    {
+      id: 'passenger_day',
+      title: 'Passenger carrying',
+      regulation: 'FCL.060(b)(1)',
+      windowDays: 90,
+      requirements: [
+        { label: 'takeoffs, approaches and landings', count: landings, required: 3 }
+      ]
+    },
+    {
+      id: 'passenger_night',
+      title: 'Passenger carrying (night)',
+      regulation: 'FCL.060(b)(2)',
+      windowDays: 90,
+      requirements: [
+        { label: 'night takeoffs, approaches and landings', count: field('night_landings'), required: 1 }
+      ]
+    }
+  ]
+};
+
+export const DEFAULT_RULE_SET = process.env.CURRENCY_RULE_SET || 'FAA';
+
+// Helper function to compute when a window that includes `eventDate` stops counting it
+function windowExpiry(rule: CurrencyRule, eventDate: moment.Moment): moment.Moment {
+  if (rule.windowCalendarMonths) {
+    return eventDate.clone().add(rule.windowCalendarMonths, 'months').endOf('month').startOf('day');
+  }
+  return eventDate.clone().add(rule.windowDays, 'days');
+}
+
+// Helper function to compute the earliest date still inside a rule's window as of `today`
+function windowStart(rule: CurrencyRule, today: moment.Moment): moment.Moment {
+  if (rule.windowCalendarMonths) {
+    return today.clone().subtract(rule.windowCalendarMonths, 'months').startOf('month');
+  }
+  return today.clone().subtract(rule.windowDays, 'days');
+}
+
+// Date on which the `required`-th most recent event happened, or null if never reached
+function dateRequirementMet(flights: DatedFlight[], requirement: Requirement): moment.Moment | null {
+  let total = 0;
+  for (const flight of flights) {
+    total += requirement.count(flight);
+    if (total >= requirement.required) {
+      return flight.date;
+    }
+  }
+  return null;
+}
+
+function evaluateRule(rule: CurrencyRule, flights: DatedFlight[], today: moment.Moment) {
+  const start = windowStart(rule, today);
+  const inWindow = flights.filter(flight => !flight.date.isBefore(start));
+
+  // Currency runs out when the oldest event needed for any requirement drops out of the window
+  const metDates = rule.requirements.map(requirement => dateRequirementMet(flights, requirement));
+  const expiresOn = metDates.includes(null)
+    ? null
+    : moment.min((metDates as moment.Moment[]).map(date => windowExpiry(rule, date)));
+
+  const progress = rule.requirements.map(requirement => ({
+    label: requirement.label,
+    required: requirement.required,
+    logged: inWindow.reduce((sum, flight) => sum + requirement.count(flight), 0)
+  }));
+
+  const isCurrent = Boolean(expiresOn) && !expiresOn!.isBefore(today);
+  const daysRemaining = expiresOn ? expiresOn.diff(today, 'days') : null;
+
+  let status: 'current' | 'expiring' | 'expired' = 'expired';
+  if (isCurrent) {
+    status = daysRemaining! <= EXPIRY_WARNING_DAYS ? 'expiring' : 'current';
+  }
+
+  const needed: string[] = [];
+  if (!isCurrent) {
+    const lapsedTooLong = rule.lapsedAfterMonths && expiresOn &&
+      today.isAfter(expiresOn.clone().add(rule.lapsedAfterMonths, 'months'));
+
+    if (lapsedTooLong && rule.lapsedAction) {
+      needed.push(rule.lapsedAction);
+    } else {
+      progress
+        .filter(item => item.logged < item.required)
+        .forEach(item => needed.push(`${item.required - item.logged} more ${item.label}`));
+    }
+  }
+
+  return {
+    id: rule.id,
+    title: rule.title,
+    regulation: rule.regulation,
+    status,
+    isCurrent,
+    expiresOn: expiresOn ? expiresOn.format('YYYY-MM-DD') : null,
+    daysRemaining,
+    progress,
+    needed
+  };
+}
+
+/**
+ * Evaluate a pilot's flights (rows from logbook_entries) against a rule set.
+ * Future-dated flights are ignored so scheduled legs don't count as experience.
+ */
+export function evaluateCurrency(flights: CurrencyFlightRow[], ruleSetName: string = DEFAULT_RULE_SET, asOf: Date = new Date()) {
+  const rules = currencyRuleSets[ruleSetName];
+  if (!rules) {
+    throw new Error(`Unknown currency rule set: ${ruleSetName}`);
+  }
+
+  const today = moment(asOf).startOf('day');
+
+  const logged: DatedFlight[] = flights
+    .filter(flight => flight.flight_date)
+    .map(flight => ({ ...flight, date: moment(flight.flight_date).startOf('day') }))
+    .filter(flight => !flight.date.isAfter(today))
+    .sort((a, b) => b.date.valueOf() - a.date.valueOf());
+
+  return {
+    ruleSet: ruleSetName,
+    evaluatedAt: today.format('YYYY-MM-DD'),
+    currencies: rules.map(rule => evaluateRule(rule, logged, today))
+  };
+}
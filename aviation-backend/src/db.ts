@@ -0,0 +1,83 @@
+// db.ts
+// MySQL connection pool, transactions and the startup wait for the database
+
+import mysql from 'mysql2';
+import 'dotenv/config';
+import type { Pool, PoolConnection } from 'mysql2/promise';
+
+// Attempts and backoff (doubling from the base, capped at the max) while waiting for MySQL at startup
+const DB_CONNECT_ATTEMPTS = Number(process.env.DB_CONNECT_ATTEMPTS) || 10;
+const DB_RETRY_BASE_MS = 1000;
+const DB_RETRY_MAX_MS = 30 * 1000;
+
+// Callback pool; only streaming queries use it directly, everything else goes through `db`
+export const pool = mysql.createPool({
+  host: process.env.DB_HOST,
+  user: process.env.DB_USER,
+  password: process.env.DB_PASSWORD,
+  database: process.env.DB_NAME,
+  waitForConnections: true,
+  connectionLimit: Number(process.env.DB_POOL_SIZE) || 10,
+  enableKeepAlive: true
+});
+
+const db = pool.promise();
+
+// The pool, or a connection checked out for a transaction; repository functions accept either
+export type Queryable = Pool | PoolConnection;
+
+// mysql2 honours `dateStrings` per query as well as per connection, but only types the connection option,
+// and it sets the server's `sqlMessage` on query errors without declaring it
+declare module 'mysql2/typings/mysql/lib/protocol/sequences/Query' {
+  interface QueryOptions {
+    dateStrings?: boolean | Array<'TIMESTAMP' | 'DATETIME' | 'DATE'>;
+  }
+
+  interface QueryError {
+    sqlMessage?: string;
+  }
+}
+
+/**
+ * Wait until MySQL accepts connections, retrying with exponential backoff.
+ * Once running, the pool replaces dropped connections by itself; a query that hit one fails
+ * and the next query gets a fresh connection.
+ */
+export async function waitForDatabase(attempts: number = DB_CONNECT_ATTEMPTS): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const conn = await db.getConnection();
+      try {
+        await conn.ping();
+      } finally {
+        conn.release();
+      }
+      console.log('Connected to MySQL');
+      return;
+    } catch (err) {
+      if (attempt >= attempts) throw err;
+
+      const delay = Math.min(DB_RETRY_BASE_MS * 2 ** (attempt - 1), DB_RETRY_MAX_MS);
+      console.error(`❌ MySQL connection failed (${err.code || err.message}), retrying in ${delay / 1000}s`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// Run `work` in a transaction on its own connection; rolls back and rethrows if it fails
+export async function withTransaction<T>(work: (conn: PoolConnection) => Promise<T>): Promise<T> {
+  const conn = await db.getConnection();
+  try {
+    await conn.beginTransaction();
+    const result = await work(conn);
+    await conn.commit();
+    return result;
+  } catch (err) {
+    await conn.rollback();
+    throw err;
+  } finally {
+    conn.release();
+  }
+}
+
+export default db;
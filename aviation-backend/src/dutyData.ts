@@ -0,0 +1,17 @@
+// dutyData.ts
+// Loads the flights and schedules that duty/rest limits are checked against
+
+import moment from 'moment-timezone';
+import { listDutyFlights } from './repositories/flights';
+import { listDutySchedules } from './repositories/schedules';
+import type { DutyData } from './dutyRest';
+
+// Helper function to load what the duty engine needs for one pilot (the last year is enough for every limit)
+export async function loadDutyData(pilotId: number): Promise<Required<DutyData>> {
+  const since = moment().subtract(366, 'days').format('YYYY-MM-DD');
+
+  const flights = await listDutyFlights(pilotId, since);
+  const schedules = await listDutySchedules(pilotId, since);
+
+  return { flights, schedules };
+}
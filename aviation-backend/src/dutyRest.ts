@@ -0,0 +1,540 @@
+// dutyRest.ts
+// Flight duty period (FDP), cumulative flight/duty time and minimum rest checks (EASA ORO.FTL / FAR 117 style)
+
+import moment from 'moment-timezone';
+
+// Wall-clock zone of pilot_schedules times and of the FDP tables (the operator's home base)
+const DUTY_TIMEZONE = process.env.DUTY_TIMEZONE || 'UTC';
+
+// Scheduled sectors uploaded without a block time are assumed to take this long
+const DEFAULT_BLOCK_HOURS = Number(process.env.DUTY_DEFAULT_BLOCK_HOURS) || 2;
+
+// Ground time up to this long keeps sectors in the same duty; anything longer is a rest period
+const MAX_GROUND_TIME_HOURS = 6;
+
+// Flight time totals always reported, whether or not the rule set limits them
+const FLIGHT_TIME_WINDOWS = [7, 28, 365];
+
+type Measure = 'flight' | 'fdp' | 'duty';
+
+interface Limit {
+  hours: number;
+  regulation: string;
+}
+
+interface CumulativeLimit {
+  id: string;
+  label: string;
+  measure: Measure;
+  windowDays: number;
+  maxHours: number;
+  regulation: string;
+}
+
+export interface DutyRuleSet {
+  name: string;
+  reportMinutes: number;
+  postFlightMinutes: number;
+  maxFdp: (reportTime: moment.Moment, sectors: number) => Limit;
+  minRest: (precedingDutyHours: number) => Limit;
+  cumulativeLimits: CumulativeLimit[];
+}
+
+interface Sector {
+  source: 'logged' | 'scheduled';
+  scheduleId?: number | null;
+  flightNumber: string | null;
+  date: string | null;
+  start: moment.Moment;
+  end: moment.Moment;
+  report?: moment.Moment | null;
+  blockHours: number;
+  timed: boolean;
+  isCandidate?: boolean;
+}
+
+interface Duty {
+  report: moment.Moment;
+  blockOn: moment.Moment;
+  end: moment.Moment;
+  sectors: Sector[];
+  fdpHours: number;
+  dutyHours: number;
+}
+
+export interface DutyBreach {
+  type: 'fdp' | 'rest' | 'cumulative';
+  limitId?: string;
+  regulation: string;
+  limitHours: number;
+  actualHours: number;
+  message: string;
+}
+
+interface EvaluatedDuty extends Duty {
+  maxFdpHours: number;
+  restBeforeHours: number | null;
+  breaches: DutyBreach[];
+}
+
+interface Timeline {
+  sectors: Sector[];
+  duties: Duty[];
+}
+
+// A logged logbook_entries row (dates may be Date objects or MySQL strings)
+export interface DutyFlightRow {
+  flight_date: Date | string | null;
+  flight_number?: string | null;
+  flight_iata?: string | null;
+  departure_scheduled?: Date | string | null;
+  departure_actual?: Date | string | null;
+  arrival_scheduled?: Date | string | null;
+  arrival_actual?: Date | string | null;
+  duration_hours?: number | string | null;
+}
+
+// A pilot_schedules row, or an uploaded CSV row before it is saved
+export interface DutyScheduleRow {
+  id?: number;
+  flight_date: Date | string | null;
+  flight_time?: string | null;
+  flight_number?: string | null;
+  standby_time?: Date | string | null;
+  block_hours?: number | string | null;
+}
+
+export interface DutyData {
+  flights?: DutyFlightRow[];
+  schedules?: DutyScheduleRow[];
+}
+
+const roundHours = (hours: number) => Math.round(hours * 100) / 100;
+const hoursBetween = (start: moment.Moment, end: moment.Moment) => end.diff(start, 'minutes') / 60;
+
+// ORO.FTL.205(b)(1): maximum daily FDP for acclimatised crew, 1–2 sectors, by reference time of report
+const easaFdpBands = [
+  { from: '05:00', hours: 12 },
+  { from: '05:15', hours: 12.25 },
+  { from: '05:30', hours: 12.5 },
+  { from: '05:45', hours: 12.75 },
+  { from: '06:00', hours: 13 },
+  { from: '13:30', hours: 12.75 },
+  { from: '14:00', hours: 12.5 },
+  { from: '14:30', hours: 12.25 },
+  { from: '15:00', hours: 12 },
+  { from: '15:30', hours: 11.75 },
+  { from: '16:00', hours: 11.5 },
+  { from: '16:30', hours: 11.25 },
+  { from: '17:00', hours: 11 }
+];
+
+// 14 CFR 117 Table B: unaugmented FDP by start time and number of segments (1, 2, ... 7+)
+const far117FdpBands = [
+  { from: '00:00', hours: [9, 9, 9, 9, 9, 9, 9] },
+  { from: '04:00', hours: [10, 10, 10, 10, 9, 9, 9] },
+  { from: '05:00', hours: [12, 12, 12, 12, 11.5, 11, 10.5] },
+  { from: '06:00', hours: [13, 13, 12, 12, 11.5, 11, 10.5] },
+  { from: '07:00', hours: [14, 14, 13, 13, 12.5, 12, 11.5] },
+  { from: '12:00', hours: [13, 13, 13, 13, 12.5, 12, 11.5] },
+  { from: '13:00', hours: [12, 12, 12, 12, 11.5, 11, 10.5] },
+  { from: '17:00', hours: [12, 12, 11, 11, 10, 9, 9] },
+  { from: '22:00', hours: [11, 11, 10, 10, 9, 9, 9] },
+  { from: '23:00', hours: [10, 10, 10, 9, 9, 9, 9] }
+];
+
+// Helper function to pick the band a local report time falls into (bands wrap past midnight)
+function bandFor<T extends { from: string }>(bands: T[], reportTime: moment.Moment): T {
+  const minutes = reportTime.hours() * 60 + reportTime.minutes();
+  const toMinutes = (hhmm: string) => {
+    const [hours, mins] = hhmm.split(':').map(Number);
+    return hours * 60 + mins;
+  };
+
+  const started = bands.filter(band => toMinutes(band.from) <= minutes);
+  return started.length > 0 ? started[started.length - 1] : bands[bands.length - 1];
+}
+
+/**
+ * Rule sets keyed by scheme. Each one defines:
+ * - `reportMinutes` / `postFlightMinutes`: duty before the first departure and after the last arrival
+ * - `maxFdp(reportTime, sectors)`: FDP limit for a duty reporting at a local time with N sectors
+ * - `minRest(precedingDutyHours)`: minimum rest before the next duty
+ * - `cumulativeLimits`: rolling totals of `flight` (block), `fdp` or `duty` hours
+ */
+export const dutyRuleSets: Record<string, DutyRuleSet> = {
+  EASA: {
+    name: 'EASA ORO.FTL',
+    reportMinutes: 60,
+    postFlightMinutes: 30,
+    maxFdp: (reportTime, sectors) => ({
+      hours: Math.max(9, bandFor(easaFdpBands, reportTime).hours - 0.5 * Math.max(0, sectors - 2)),
+      regulation: 'ORO.FTL.205(b)'
+    }),
+    minRest: (precedingDutyHours) => ({
+      hours: Math.max(12, precedingDutyHours),
+      regulation: 'ORO.FTL.235(b)'
+    }),
+    cumulativeLimits: [
+      { id: 'duty_7d', label: 'Duty time (7 days)', measure: 'duty', windowDays: 7, maxHours: 60, regulation: 'ORO.FTL.210(a)(1)' },
+      { id: 'duty_28d', label: 'Duty time (28 days)', measure: 'duty', windowDays: 28, maxHours: 190, regulation: 'ORO.FTL.210(a)(3)' },
+      { id: 'flight_28d', label: 'Flight time (28 days)', measure: 'flight', windowDays: 28, maxHours: 100, regulation: 'ORO.FTL.210(b)(1)' },
+      { id: 'flight_365d', label: 'Flight time (12 months)', measure: 'flight', windowDays: 365, maxHours: 1000, regulation: 'ORO.FTL.210(b)(3)' }
+    ]
+  },
+  FAR117: {
+    name: '14 CFR Part 117',
+    reportMinutes: 60,
+    postFlightMinutes: 15,
+    maxFdp: (reportTime, sectors) => {
+      const hours = bandFor(far117FdpBands, reportTime).hours;
+      return {
+        hours: hours[Math.min(Math.max(sectors, 1), hours.length) - 1],
+        regulation: '14 CFR 117.13 Table B'
+      };
+    },
+    minRest: () => ({ hours: 10, regulation: '14 CFR 117.25(e)' }),
+    cumulativeLimits: [
+      { id: 'fdp_7d', label: 'FDP (168 hours)', measure: 'fdp', windowDays: 7, maxHours: 60, regulation: '14 CFR 117.23(c)(1)' },
+      { id: 'fdp_28d', label: 'FDP (672 hours)', measure: 'fdp', windowDays: 28, maxHours: 190, regulation: '14 CFR 117.23(c)(2)' },
+      { id: 'flight_28d', label: 'Flight time (672 hours)', measure: 'flight', windowDays: 28, maxHours: 100, regulation: '14 CFR 117.23(b)(1)' },
+      { id: 'flight_365d', label: 'Flight time (365 days)', measure: 'flight', windowDays: 365, maxHours: 1000, regulation: '14 CFR 117.23(b)(2)' }
+    ]
+  }
+};
+
+export const DEFAULT_DUTY_RULE_SET = process.env.DUTY_RULE_SET || 'EASA';
+
+function getRuleSet(ruleSetName: string): DutyRuleSet {
+  const rules = dutyRuleSets[ruleSetName];
+  if (!rules) {
+    throw new Error(`Unknown duty rule set: ${ruleSetName}`);
+  }
+  return rules;
+}
+
+// Helper function to read a DATE column (Date or 'YYYY-MM-DD') as a date string
+function dateString(value: unknown): string | null {
+  if (!value) return null;
+  return value instanceof Date ? moment(value).format('YYYY-MM-DD') : String(value).slice(0, 10);
+}
+
+// Helper function to read a zone-less DATETIME (Date or string) as wall-clock time in `zone`
+function toZonedMoment(value: unknown, zone: string): moment.Moment | null {
+  if (!value) return null;
+
+  const wallClock = value instanceof Date
+    ? moment(value).format('YYYY-MM-DD HH:mm:ss')
+    : String(value).trim().replace('T', ' ');
+  const parsed = moment.tz(wallClock, ['YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD'], true, zone);
+  return parsed.isValid() ? parsed : null;
+}
+
+// Helper function to turn a logged logbook_entries row into a sector (logged times are UTC)
+function loggedSector(flight: DutyFlightRow): Sector | null {
+  const departure = toZonedMoment(flight.departure_actual || flight.departure_scheduled, 'UTC');
+  const arrival = toZonedMoment(flight.arrival_actual || flight.arrival_scheduled, 'UTC');
+  const start = departure || toZonedMoment(dateString(flight.flight_date), 'UTC');
+  if (!start) return null;
+
+  let blockHours = Number(flight.duration_hours) || 0;
+  if (!blockHours && departure && arrival && arrival.isAfter(departure)) {
+    blockHours = hoursBetween(departure, arrival);
+  }
+
+  return {
+    source: 'logged',
+    flightNumber: flight.flight_iata || flight.flight_number || null,
+    date: dateString(flight.flight_date) || start.format('YYYY-MM-DD'),
+    start,
+    end: departure && arrival && arrival.isAfter(departure) ? arrival : start.clone().add(blockHours, 'hours'),
+    blockHours,
+    // Flights logged without a departure time count towards totals but not towards duty periods
+    timed: Boolean(departure)
+  };
+}
+
+// Helper function to turn a pilot_schedules row (or uploaded CSV row) into a sector
+function scheduledSector(schedule: DutyScheduleRow, zone: string = DUTY_TIMEZONE): Sector | null {
+  const date = dateString(schedule.flight_date);
+  const start = date && schedule.flight_time
+    ? toZonedMoment(`${date} ${String(schedule.flight_time).trim()}`, zone)
+    : null;
+  if (!start) return null;
+
+  const blockHours = Number(schedule.block_hours) || DEFAULT_BLOCK_HOURS;
+  const report = toZonedMoment(schedule.standby_time, zone);
+
+  return {
+    source: 'scheduled',
+    scheduleId: schedule.id ?? null,
+    flightNumber: schedule.flight_number || null,
+    date,
+    start,
+    end: start.clone().add(blockHours, 'hours'),
+    report: report && report.isBefore(start) ? report : null,
+    blockHours,
+    timed: true
+  };
+}
+
+/**
+ * Merge logged flights and scheduled sectors into one timeline.
+ * A schedule row that has since been logged (same flight number and date) only counts once.
+ */
+function buildSectors({ flights = [], schedules = [] }: DutyData): Sector[] {
+  const logged = flights.map(loggedSector).filter((sector): sector is Sector => Boolean(sector));
+  const loggedKeys = new Set(
+    logged
+      .filter(sector => sector.flightNumber)
+      .map(sector => `${sector.date}|${sector.flightNumber!.toUpperCase()}`)
+  );
+
+  const scheduled = schedules
+    .map(schedule => scheduledSector(schedule))
+    .filter((sector): sector is Sector => Boolean(sector) && !(
+      sector!.flightNumber && loggedKeys.has(`${sector!.date}|${sector!.flightNumber.toUpperCase()}`)
+    ));
+
+  return [...logged, ...scheduled].sort((a, b) => a.start.valueOf() - b.start.valueOf());
+}
+
+// Helper function to group timed sectors into duty periods
+function groupDuties(sectors: Sector[], rules: DutyRuleSet): Duty[] {
+  const duties: Omit<Duty, 'end' | 'fdpHours' | 'dutyHours'>[] = [];
+
+  sectors.filter(sector => sector.timed).forEach(sector => {
+    const current = duties[duties.length - 1];
+
+    if (current && hoursBetween(current.blockOn, sector.start) < MAX_GROUND_TIME_HOURS) {
+      current.sectors.push(sector);
+      if (sector.end.isAfter(current.blockOn)) current.blockOn = sector.end;
+      return;
+    }
+
+    duties.push({
+      report: sector.report || sector.start.clone().subtract(rules.reportMinutes, 'minutes'),
+      blockOn: sector.end,
+      sectors: [sector]
+    });
+  });
+
+  return duties.map(duty => {
+    const end = duty.blockOn.clone().add(rules.postFlightMinutes, 'minutes');
+    return {
+      ...duty,
+      end,
+      fdpHours: hoursBetween(duty.report, duty.blockOn),
+      dutyHours: hoursBetween(duty.report, end)
+    };
+  });
+}
+
+// Hours of a measure inside the window of `windowDays` ending at `asOf`
+function windowTotal(measure: Measure, windowDays: number, { sectors, duties }: Timeline, asOf: moment.Moment): number {
+  const start = asOf.clone().subtract(windowDays, 'days');
+
+  if (measure === 'flight') {
+    return sectors
+      .filter(sector => sector.start.isAfter(start) && !sector.start.isAfter(asOf))
+      .reduce((sum, sector) => sum + sector.blockHours, 0);
+  }
+
+  // FDP and duty are counted by their overlap with the window
+  return duties.reduce((sum, duty) => {
+    const from = moment.max(duty.report, start);
+    const to = moment.min(measure === 'fdp' ? duty.blockOn : duty.end, asOf);
+    return to.isAfter(from) ? sum + hoursBetween(from, to) : sum;
+  }, 0);
+}
+
+function cumulativeStatus(rules: DutyRuleSet, timeline: Timeline, asOf: moment.Moment) {
+  return rules.cumulativeLimits.map(limit => {
+    const usedHours = windowTotal(limit.measure, limit.windowDays, timeline, asOf);
+    return {
+      id: limit.id,
+      label: limit.label,
+      measure: limit.measure,
+      windowDays: limit.windowDays,
+      regulation: limit.regulation,
+      maxHours: limit.maxHours,
+      usedHours: roundHours(usedHours),
+      remainingHours: roundHours(Math.max(0, limit.maxHours - usedHours))
+    };
+  });
+}
+
+// Check every duty against FDP, rest and cumulative limits
+function evaluateDuties(rules: DutyRuleSet, timeline: Timeline): EvaluatedDuty[] {
+  return timeline.duties.map((duty, index) => {
+    const breaches: DutyBreach[] = [];
+    const maxFdp = rules.maxFdp(duty.report.clone().tz(DUTY_TIMEZONE), duty.sectors.length);
+
+    if (duty.fdpHours > maxFdp.hours) {
+      breaches.push({
+        type: 'fdp',
+        regulation: maxFdp.regulation,
+        limitHours: maxFdp.hours,
+        actualHours: roundHours(duty.fdpHours),
+        message: `FDP of ${roundHours(duty.fdpHours)}h exceeds the ${maxFdp.hours}h limit`
+      });
+    }
+
+    const previous = timeline.duties[index - 1];
+    let restBeforeHours: number | null = null;
+    if (previous) {
+      restBeforeHours = hoursBetween(previous.end, duty.report);
+      const minRest = rules.minRest(previous.dutyHours);
+      if (restBeforeHours < minRest.hours) {
+        breaches.push({
+          type: 'rest',
+          regulation: minRest.regulation,
+          limitHours: roundHours(minRest.hours),
+          actualHours: roundHours(restBeforeHours),
+          message: `Rest of ${roundHours(restBeforeHours)}h is less than the required ${roundHours(minRest.hours)}h`
+        });
+      }
+    }
+
+    cumulativeStatus(rules, timeline, duty.end)
+      .filter(limit => limit.usedHours > limit.maxHours)
+      .forEach(limit => breaches.push({
+        type: 'cumulative',
+        limitId: limit.id,
+        regulation: limit.regulation,
+        limitHours: limit.maxHours,
+        actualHours: limit.usedHours,
+        message: `${limit.label} would reach ${limit.usedHours}h (limit ${limit.maxHours}h)`
+      }));
+
+    return {
+      ...duty,
+      maxFdpHours: maxFdp.hours,
+      restBeforeHours: restBeforeHours === null ? null : roundHours(restBeforeHours),
+      breaches
+    };
+  });
+}
+
+// Helper function to shape a duty for API responses
+function formatDuty(duty: EvaluatedDuty) {
+  return {
+    report: duty.report.toISOString(),
+    blockOn: duty.blockOn.toISOString(),
+    end: duty.end.toISOString(),
+    sectors: duty.sectors.map(sector => ({
+      source: sector.source,
+      scheduleId: sector.scheduleId ?? null,
+      flightNumber: sector.flightNumber,
+      departure: sector.start.toISOString(),
+      arrival: sector.end.toISOString(),
+      blockHours: roundHours(sector.blockHours)
+    })),
+    fdpHours: roundHours(duty.fdpHours),
+    maxFdpHours: duty.maxFdpHours,
+    dutyHours: roundHours(duty.dutyHours),
+    restBeforeHours: duty.restBeforeHours,
+    breaches: duty.breaches
+  };
+}
+
+/**
+ * Duty status of one pilot as of `asOf`: current or next FDP allowance, rest still owed,
+ * cumulative limits and the breaches of upcoming scheduled duties.
+ * `remainingDutyHours` is the most the current duty, or the next one after the required rest, could legally run.
+ */
+export function evaluateDutyStatus(data: DutyData, ruleSetName: string = DEFAULT_DUTY_RULE_SET, asOf: Date = new Date()) {
+  const rules = getRuleSet(ruleSetName);
+  const now = moment(asOf);
+  const sectors = buildSectors(data);
+  const timeline = { sectors, duties: groupDuties(sectors, rules) };
+  const duties = evaluateDuties(rules, timeline);
+
+  const started = duties.filter(duty => !duty.report.isAfter(now));
+  const currentDuty = started.find(duty => duty.end.isAfter(now)) || null;
+  const lastDuty = currentDuty ? null : started[started.length - 1] || null;
+
+  let rest: {
+    lastDutyEnd: string;
+    requiredHours: number;
+    regulation: string;
+    nextLegalReport: string;
+    restRemainingHours: number;
+  } | null = null;
+  if (lastDuty) {
+    const minRest = rules.minRest(lastDuty.dutyHours);
+    const nextLegalReport = lastDuty.end.clone().add(minRest.hours * 60, 'minutes');
+    rest = {
+      lastDutyEnd: lastDuty.end.toISOString(),
+      requiredHours: roundHours(minRest.hours),
+      regulation: minRest.regulation,
+      nextLegalReport: nextLegalReport.toISOString(),
+      restRemainingHours: roundHours(Math.max(0, hoursBetween(now, nextLegalReport)))
+    };
+  }
+
+  // FDP still available in the current duty, or for a single-sector duty at the next legal report time
+  let fdp: { maxHours: number; usedHours: number; remainingHours: number };
+  if (currentDuty) {
+    const usedHours = Math.min(hoursBetween(currentDuty.report, now), currentDuty.fdpHours);
+    fdp = {
+      maxHours: currentDuty.maxFdpHours,
+      usedHours: roundHours(usedHours),
+      remainingHours: roundHours(Math.max(0, currentDuty.maxFdpHours - usedHours))
+    };
+  } else {
+    const reportAt = rest && moment(rest.nextLegalReport).isAfter(now) ? moment(rest.nextLegalReport) : now;
+    const maxHours = rules.maxFdp(reportAt.clone().tz(DUTY_TIMEZONE), 1).hours;
+    fdp = { maxHours, usedHours: 0, remainingHours: maxHours };
+  }
+
+  const cumulative = cumulativeStatus(rules, timeline, now);
+
+  const flightTime: Record<string, number> = {};
+  FLIGHT_TIME_WINDOWS.forEach(days => {
+    flightTime[`last${days}Days`] = roundHours(windowTotal('flight', days, timeline, now));
+  });
+
+  const remainingDutyHours = Math.min(fdp.remainingHours, ...cumulative.map(limit => limit.remainingHours));
+
+  return {
+    ruleSet: ruleSetName,
+    ruleSetName: rules.name,
+    timezone: DUTY_TIMEZONE,
+    evaluatedAt: now.toISOString(),
+    onDuty: Boolean(currentDuty),
+    currentDuty: currentDuty ? formatDuty(currentDuty) : null,
+    fdp,
+    rest,
+    cumulative,
+    flightTime,
+    remainingDutyHours: roundHours(remainingDutyHours),
+    upcomingDuties: duties.filter(duty => duty.report.isAfter(now)).map(formatDuty)
+  };
+}
+
+/**
+ * Breaches a new schedule row would cause, given the pilot's logged flights and existing schedules.
+ * Covers the duty the row ends up in and the rest before the duty that follows it.
+ */
+export function checkScheduleRow(data: DutyData, schedule: DutyScheduleRow, ruleSetName: string = DEFAULT_DUTY_RULE_SET): DutyBreach[] {
+  const rules = getRuleSet(ruleSetName);
+  const candidate = scheduledSector(schedule);
+  if (!candidate) return [];
+  candidate.isCandidate = true;
+
+  const sectors = buildSectors(data);
+  sectors.push(candidate);
+  sectors.sort((a, b) => a.start.valueOf() - b.start.valueOf());
+
+  const timeline = { sectors, duties: groupDuties(sectors, rules) };
+  const duties = evaluateDuties(rules, timeline);
+  const index = duties.findIndex(duty => duty.sectors.some(sector => sector.isCandidate));
+  if (index === -1) return [];
+
+  const following = duties[index + 1];
+  return [
+    ...duties[index].breaches,
+    ...(following ? following.breaches.filter(breach => breach.type === 'rest') : [])
+  ];
+}
@@ -0,0 +1,147 @@
+// flightData.ts
+// AviationStack flight mapping, airport details and mock fallback data for the flight endpoints
+
+import { getAirport, toAirportLocalTime } from './airports';
+import type { Flight } from 'aviation-shared';
+
+interface AviationStackEndpoint {
+  airport?: string;
+  iata?: string;
+  icao?: string;
+  scheduled?: string;
+  actual?: string | null;
+  terminal?: string;
+  gate?: string;
+}
+
+// One entry of the AviationStack /flights response
+export interface AviationStackFlight {
+  flight_status?: string;
+  departure?: AviationStackEndpoint;
+  arrival?: AviationStackEndpoint;
+  airline?: { name?: string; iata?: string };
+  flight?: { number?: string; iata?: string; icao?: string };
+}
+
+// Helper function to format date consistently
+export const formatDate = (date: Date | string | number): string => {
+  const d = new Date(date);
+  return d.toISOString().split('T')[0]; // Returns YYYY-MM-DD format
+};
+
+// Helper function to check if date is in the future
+const isFutureDate = (date: Date | string): boolean => {
+  const today = new Date();
+  const checkDate = new Date(date);
+  today.setHours(0, 0, 0, 0);
+  checkDate.setHours(0, 0, 0, 0);
+  return checkDate > today;
+};
+
+// Helper function to process AviationStack flight data
+export function processAviationStackFlight(flight: AviationStackFlight, date: string): Flight {
+  const durationHours = flight.departure?.scheduled && flight.arrival?.scheduled
+    ? (new Date(flight.arrival.scheduled).getTime() - new Date(flight.departure.scheduled).getTime()) / (1000 * 60 * 60)
+    : 0;
+
+  const depAirport = getAirport(flight.departure?.icao || flight.departure?.iata);
+  const arrAirport = getAirport(flight.arrival?.icao || flight.arrival?.iata);
+
+  return {
+    id: Math.floor(Math.random() * 1000000), // Generate random ID for frontend
+    flight_date: date,
+    flight_status: flight.flight_status || 'scheduled',
+    departure_airport: flight.departure?.airport || depAirport?.name || `${flight.departure?.iata} Airport`,
+    departure_iata: flight.departure?.iata || '',
+    departure_icao: flight.departure?.icao || depAirport?.icao || '',
+    departure_scheduled: flight.departure?.scheduled || '',
+    arrival_airport: flight.arrival?.airport || arrAirport?.name || `${flight.arrival?.iata} Airport`,
+    arrival_iata: flight.arrival?.iata || '',
+    arrival_icao: flight.arrival?.icao || arrAirport?.icao || '',
+    arrival_scheduled: flight.arrival?.scheduled || '',
+    departure_actual: flight.departure?.actual || null,
+    arrival_actual: flight.arrival?.actual || null,
+    airline_name: flight.airline?.name || '',
+    airline_iata: flight.airline?.iata || '',
+    flight_number: flight.flight?.number || '',
+    flight_iata: flight.flight?.iata || '',
+    flight_icao: flight.flight?.icao || '',
+    duration_hours: Math.abs(durationHours) || 0
+  };
+}
+
+// Helper function to attach bundled airport details and local times to a flight row
+export function withAirportDetails(flight: Flight): Flight {
+  const depAirport = getAirport(flight.departure_icao || flight.departure_iata);
+  const arrAirport = getAirport(flight.arrival_icao || flight.arrival_iata);
+
+  // Rows saved before the airport database existed carry names like "JFK Airport"
+  const isPlaceholderName = (name: string | null | undefined) => !name || /^[A-Z0-9]{3,4} Airport$/.test(name);
+
+  return {
+    ...flight,
+    departure_airport: isPlaceholderName(flight.departure_airport) && depAirport
+      ? depAirport.name
+      : flight.departure_airport,
+    departure_city: depAirport?.city || null,
+    departure_timezone: depAirport?.timezone || null,
+    departure_local: toAirportLocalTime(flight.departure_actual || flight.departure_scheduled, depAirport),
+    arrival_airport: isPlaceholderName(flight.arrival_airport) && arrAirport
+      ? arrAirport.name
+      : flight.arrival_airport,
+    arrival_city: arrAirport?.city || null,
+    arrival_timezone: arrAirport?.timezone || null,
+    arrival_local: toAirportLocalTime(flight.arrival_actual || flight.arrival_scheduled, arrAirport)
+  };
+}
+
+// Helper function to generate mock flight data when APIs fail
+export function generateMockFlights(date: string, count: number = 5): Flight[] {
+  const airlines = [
+    { iata: 'AA', name: 'American Airlines' },
+    { iata: 'DL', name: 'Delta Air Lines' },
+    { iata: 'UA', name: 'United Airlines' },
+    { iata: 'SW', name: 'Southwest Airlines' },
+    { iata: 'BA', name: 'British Airways' }
+  ];
+  
+  const airports = [
+    { iata: 'JFK', name: 'John F. Kennedy International Airport' },
+    { iata: 'LAX', name: 'Los Angeles International Airport' },
+    { iata: 'ORD', name: 'Chicago O\'Hare International Airport' },
+    { iata: 'DFW', name: 'Dallas/Fort Worth International Airport' },
+    { iata: 'LHR', name: 'London Heathrow Airport' }
+  ];
+
+  const statuses = ['scheduled', 'active', 'completed', 'cancelled'];
+  
+  return Array.from({ length: count }, (_, i) => {
+    const airline = airlines[Math.floor(Math.random() * airlines.length)];
+    const depAirport = airports[Math.floor(Math.random() * airports.length)];
+    const arrAirport = airports[Math.floor(Math.random() * airports.length)];
+    const flightNum = Math.floor(Math.random() * 9999) + 1;
+    const depTime = new Date(`${date}T${String(Math.floor(Math.random() * 24)).padStart(2, '0')}:${String(Math.floor(Math.random() * 60)).padStart(2, '0')}:00`);
+    const duration = 2 + Math.random() * 8; // 2-10 hours
+    const arrTime = new Date(depTime.getTime() + duration * 60 * 60 * 1000);
+    
+    return {
+      id: i + 1,
+      flight_date: date,
+      flight_status: statuses[Math.floor(Math.random() * statuses.length)],
+      departure_airport: depAirport.name,
+      departure_iata: depAirport.iata,
+      departure_icao: '',
+      departure_scheduled: depTime.toISOString(),
+      arrival_airport: arrAirport.name,
+      arrival_iata: arrAirport.iata,
+      arrival_icao: '',
+      arrival_scheduled: arrTime.toISOString(),
+      airline_name: airline.name,
+      airline_iata: airline.iata,
+      flight_number: flightNum.toString(),
+      flight_iata: `${airline.iata}${flightNum}`,
+      flight_icao: '',
+      duration_hours: parseFloat(duration.toFixed(2))
+    };
+  });
+}
@@ -0,0 +1,105 @@
+// flightFields.ts
+// Parsing of the logbook time and count columns of logbook_entries, and of edits to saved flights
+
+import moment from 'moment-timezone';
+
+// Helper function to safely parse numbers
+export const safeParseFloat = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  const num = parseFloat(value as string);
+  return isNaN(num) ? 0 : num;
+};
+
+// Logbook time (hours) and count columns stored per flight on logbook_entries
+export const logbookHourFields = [
+  'pic_hours',
+  'sic_hours',
+  'dual_received_hours',
+  'dual_given_hours',
+  'solo_hours',
+  'night_hours',
+  'actual_instrument_hours',
+  'simulated_instrument_hours',
+  'cross_country_hours'
+];
+
+export const logbookCountFields = ['day_landings', 'night_landings', 'approaches', 'holds', 'course_intercepts'];
+
+export type LogbookFields = Record<string, number | string | null> & { remarks: string | null };
+
+// Helper function to pull the logbook columns out of a request body
+export function parseLogbookFields(body: object): LogbookFields {
+  const data: Record<string, unknown> = { ...body };
+  const fields: LogbookFields = { remarks: null };
+
+  logbookHourFields.forEach(field => {
+    fields[field] = Math.max(0, safeParseFloat(data[field]));
+  });
+
+  logbookCountFields.forEach(field => {
+    fields[field] = Math.max(0, parseInt(String(data[field]), 10) || 0);
+  });
+
+  fields.remarks = data.remarks ? String(data.remarks).trim() : null;
+
+  return fields;
+}
+
+// Flight columns a pilot may change after saving; logbook hours and counts come from parseLogbookFields
+const flightTextFields = [
+  'flight_iata', 'flight_icao', 'flight_date', 'flight_status',
+  'departure_airport', 'departure_iata', 'departure_icao', 'departure_scheduled',
+  'arrival_airport', 'arrival_iata', 'arrival_icao', 'arrival_scheduled',
+  'airline_name', 'airline_iata'
+];
+
+const flightNumberFields = ['duration_hours', ...logbookHourFields, ...logbookCountFields, 'aircraft_id'];
+
+// Helper function to pick the editable fields present in a request body
+export function parseFlightUpdates(data: Record<string, unknown>) {
+  const updates: Record<string, unknown> = {};
+
+  flightTextFields.forEach(field => {
+    if (data[field] !== undefined) {
+      const value = data[field] === null ? '' : String(data[field]).trim();
+      updates[field] = value || null;
+    }
+  });
+
+  if (updates.flight_date !== undefined && !moment(updates.flight_date, 'YYYY-MM-DD', true).isValid()) {
+    return { error: 'flight_date must be in YYYY-MM-DD format' };
+  }
+
+  if (data.duration_hours !== undefined) {
+    updates.duration_hours = Math.max(0, safeParseFloat(data.duration_hours));
+  }
+
+  const logbook = parseLogbookFields(data);
+  [...logbookHourFields, ...logbookCountFields, 'remarks'].forEach(field => {
+    if (data[field] !== undefined) updates[field] = logbook[field];
+  });
+
+  if (data.aircraft_id !== undefined) {
+    updates.aircraft_id = parseInt(String(data.aircraft_id), 10) || null;
+  }
+
+  return { updates };
+}
+
+// Helper function to diff a flight against its updates: { field: { from, to } } for changed fields only
+export function diffFlight(flight: Record<string, unknown>, updates: Record<string, unknown>) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+
+  Object.entries(updates).forEach(([field, value]) => {
+    const before = flight[field] === undefined ? null : flight[field];
+    const changed = flightNumberFields.includes(field)
+      ? (before === null ? null : Number(before)) !== value
+      : (before === null ? null : String(before)) !== value;
+
+    if (changed) {
+      changes[field] = { from: before, to: value };
+    }
+  });
+
+  return changes;
+}
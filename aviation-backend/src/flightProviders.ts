@@ -0,0 +1,350 @@
+// flightProviders.ts
+// Flight data behind a pluggable provider picked by FLIGHT_PROVIDER: 'aviationstack' (needs API_KEY),
+// 'opensky' (OpenSky REST API or a server speaking it) or 'fixture' (flights from a local JSON file).
+// Defaults to 'aviationstack' when API_KEY is set and 'fixture' otherwise, so dev runs offline.
+// Remote providers are wrapped in the response cache from providerCache.ts.
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import { findAirline, getAirlineByIcao, loadAirlines } from './airlines';
+import { findAirport, getAirport, loadAirports } from './airports';
+import { processAviationStackFlight } from './flightData';
+import { withProviderCache } from './providerCache';
+import { listCallsignAircraft } from './repositories/livePositions';
+import type { Airport } from './airports';
+import type { AviationStackFlight } from './flightData';
+import type { Flight } from 'aviation-shared';
+
+const PROVIDER_TIMEOUT_MS = 10000;
+
+export interface FlightDataProvider {
+  name: string;
+  // Local providers cost nothing per lookup, so they skip the response cache and quota
+  local?: boolean;
+  // flight is an IATA flight code such as 'AA100'
+  searchByFlightNumber: (flight: string, date: string) => Promise<Flight[]>;
+  // departure and arrival are IATA or ICAO airport codes
+  searchByRoute: (departure: string, arrival: string, date: string) => Promise<Flight[]>;
+  searchByDate: (date: string, limit: number) => Promise<Flight[]>;
+  getAirportInfo: (code: string) => Promise<Airport | null>;
+}
+
+export type FlightProviderFactory = () => FlightDataProvider;
+
+// Helper function to split 'AA100' into airline and number
+function splitFlightCode(flight: string) {
+  const code = flight.trim().toUpperCase();
+  return { airline: code.substring(0, 2), number: code.substring(2) };
+}
+
+// Helper function to get the ICAO code of an airport given either code
+async function toIcao(code: string): Promise<string> {
+  const airport = await findAirport(code);
+  return airport?.icao || code.trim().toUpperCase();
+}
+
+// One entry of the AviationStack /airports response
+interface AviationStackAirport {
+  airport_name?: string;
+  iata_code?: string;
+  icao_code?: string;
+  latitude?: string;
+  longitude?: string;
+  timezone?: string;
+  country_name?: string;
+}
+
+// AviationStack's /flights and /airports endpoints, keyed by API_KEY
+function createAviationStackProvider(): FlightDataProvider {
+  const accessKey = process.env.API_KEY;
+  if (!accessKey) {
+    throw new Error('FLIGHT_PROVIDER "aviationstack" requires API_KEY');
+  }
+  const baseUrl = process.env.AVIATIONSTACK_API_URL || 'http://api.aviationstack.com/v1';
+
+  const getFlights = async (params: Record<string, unknown>, date: string) => {
+    const response = await axios.get(`${baseUrl}/flights`, {
+      params: { access_key: accessKey, ...params },
+      timeout: PROVIDER_TIMEOUT_MS
+    });
+    const flights: AviationStackFlight[] = response.data?.data || [];
+    return flights.map(flight => processAviationStackFlight(flight, date));
+  };
+
+  return {
+    name: 'aviationstack',
+    searchByFlightNumber: (flight, date) => {
+      const { airline, number } = splitFlightCode(flight);
+      return getFlights({ airline_iata: airline, flight_number: number, limit: 1 }, date);
+    },
+    searchByRoute: (departure, arrival, date) =>
+      getFlights({ dep_iata: departure, arr_iata: arrival, limit: 10 }, date),
+    searchByDate: (date, limit) => getFlights({ flight_date: date, limit }, date),
+    getAirportInfo: async (code) => {
+      const response = await axios.get(`${baseUrl}/airports`, {
+        params: { access_key: accessKey, search: code },
+        timeout: PROVIDER_TIMEOUT_MS
+      });
+      const airports: AviationStackAirport[] = response.data?.data || [];
+      const match = airports.find(a => a.iata_code === code.toUpperCase() || a.icao_code === code.toUpperCase());
+      if (!match) return null;
+
+      const bundled = getAirport(match.icao_code || match.iata_code);
+      return {
+        icao: match.icao_code || null,
+        iata: match.iata_code || null,
+        name: match.airport_name || bundled?.name || code,
+        type: bundled?.type || null,
+        city: bundled?.city || null,
+        country: match.country_name || bundled?.country || null,
+        latitude: Number(match.latitude),
+        longitude: Number(match.longitude),
+        elevation_ft: bundled?.elevation_ft ?? null,
+        timezone: match.timezone || bundled?.timezone || null
+      };
+    }
+  };
+}
+
+// One entry of the OpenSky /flights/* responses (times are epoch seconds)
+interface OpenSkyFlight {
+  icao24: string;
+  callsign: string | null;
+  firstSeen: number;
+  lastSeen: number;
+  estDepartureAirport: string | null;
+  estArrivalAirport: string | null;
+}
+
+// Airline callsigns are the 3-letter ICAO designator and the flight number ('BAW117')
+const AIRLINE_CALLSIGN = /^([A-Z]{3})(\d[0-9A-Z]*)$/;
+
+/**
+ * Helper function to turn a flight code into the callsign it flies under: ICAO callsigns are used
+ * as they are, IATA codes ('BA117') get the airline's ICAO designator from data/airlines.csv.
+ */
+async function toCallsign(flight: string): Promise<string> {
+  const code = flight.trim().toUpperCase();
+  if (AIRLINE_CALLSIGN.test(code)) return code;
+
+  const { airline, number } = splitFlightCode(code);
+  const match = await findAirline(airline);
+  if (!match) {
+    throw new Error(`No ICAO designator known for airline "${airline}"; search by callsign (e.g. BAW117) instead`);
+  }
+  return `${match.icao}${number}`;
+}
+
+/**
+ * Helper function to map an OpenSky flight; OpenSky only knows ICAO callsigns and observed times.
+ * flight_iata is derived from the callsign through data/airlines.csv, or else is the callsign itself
+ * (the airframe's icao24 without one), so flights stay distinct in the catalog.
+ */
+function processOpenSkyFlight(flight: OpenSkyFlight, date: string): Flight {
+  const callsign = (flight.callsign || '').trim().toUpperCase();
+  const [, designator = '', number = ''] = AIRLINE_CALLSIGN.exec(callsign) || [];
+  const airline = designator ? getAirlineByIcao(designator) : null;
+  const depAirport = getAirport(flight.estDepartureAirport);
+  const arrAirport = getAirport(flight.estArrivalAirport);
+  const departure = new Date(flight.firstSeen * 1000).toISOString();
+  const arrival = new Date(flight.lastSeen * 1000).toISOString();
+
+  return {
+    id: Math.floor(Math.random() * 1000000), // Generate random ID for frontend
+    flight_date: date,
+    flight_status: 'landed',
+    departure_airport: depAirport?.name || flight.estDepartureAirport || '',
+    departure_iata: depAirport?.iata || '',
+    departure_icao: flight.estDepartureAirport || '',
+    departure_scheduled: departure,
+    departure_actual: departure,
+    arrival_airport: arrAirport?.name || flight.estArrivalAirport || '',
+    arrival_iata: arrAirport?.iata || '',
+    arrival_icao: flight.estArrivalAirport || '',
+    arrival_scheduled: arrival,
+    arrival_actual: arrival,
+    airline_name: airline?.name || '',
+    airline_iata: airline?.iata || '',
+    flight_number: number || callsign,
+    flight_iata: airline ? `${airline.iata}${number}` : callsign || flight.icao24.toUpperCase(),
+    flight_icao: callsign,
+    duration_hours: parseFloat(((flight.lastSeen - flight.firstSeen) / 3600).toFixed(2))
+  };
+}
+
+// OpenSky REST API (OPENSKY_API_URL, optional OPENSKY_USERNAME/OPENSKY_PASSWORD). Flight lists
+// are built from ADS-B tracks, so a date's flights only show up once OpenSky has processed them.
+function createOpenSkyProvider(): FlightDataProvider {
+  const baseUrl = process.env.OPENSKY_API_URL || 'https://opensky-network.org/api';
+  const auth = process.env.OPENSKY_USERNAME
+    ? { username: process.env.OPENSKY_USERNAME, password: process.env.OPENSKY_PASSWORD || '' }
+    : undefined;
+
+  const get = async <T>(endpoint: string, params: Record<string, unknown>): Promise<T> => {
+    const response = await axios.get(`${baseUrl}${endpoint}`, { params, auth, timeout: PROVIDER_TIMEOUT_MS });
+    return response.data;
+  };
+
+  const dayRange = (date: string) => {
+    const begin = Math.floor(new Date(`${date}T00:00:00Z`).getTime() / 1000);
+    return { begin, end: begin + 24 * 60 * 60 };
+  };
+
+  const getFlights = async (endpoint: string, params: Record<string, unknown>, date: string) => {
+    await Promise.all([loadAirports(), loadAirlines()]);
+    const flights = await get<OpenSkyFlight[] | null>(endpoint, params);
+    return (flights || []).map(flight => processOpenSkyFlight(flight, date));
+  };
+
+  return {
+    name: 'opensky',
+    // OpenSky can only list flights by airframe (icao24), so the callsign is matched to the aircraft
+    // that flew it that day in the positions recorded by ADS-B ingestion (see adsb.ts); without
+    // ADS-B ingestion, or for dates outside ADSB_RETENTION_HOURS, nothing is found
+    searchByFlightNumber: async (flight, date) => {
+      const callsign = await toCallsign(flight);
+      const { begin, end } = dayRange(date);
+      const aircraft = await listCallsignAircraft(callsign, begin, end);
+
+      for (const icao24 of aircraft) {
+        const flights = await getFlights('/flights/aircraft', { icao24, begin, end }, date);
+        const matches = flights.filter(f => f.flight_icao === callsign);
+        if (matches.length > 0) return matches;
+      }
+      return [];
+    },
+    searchByRoute: async (departure, arrival, date) => {
+      const [depIcao, arrIcao] = await Promise.all([toIcao(departure), toIcao(arrival)]);
+      const flights = await getFlights('/flights/departure', { airport: depIcao, ...dayRange(date) }, date);
+      return flights.filter(f => f.arrival_icao === arrIcao);
+    },
+    // /flights/all is capped at a two-hour interval, so this covers the start of the day
+    searchByDate: async (date, limit) => {
+      const { begin } = dayRange(date);
+      const flights = await getFlights('/flights/all', { begin, end: begin + 2 * 60 * 60 }, date);
+      return flights.slice(0, limit);
+    },
+    getAirportInfo: code => findAirport(code)
+  };
+}
+
+// A flight in the fixture file; times are UTC 'HH:mm' and the flight runs every day unless
+// flight_date pins it to one. An arrival earlier than the departure lands the next day.
+interface FlightFixture {
+  airline_name: string;
+  airline_iata: string;
+  flight_number: string;
+  flight_icao?: string;
+  departure_iata: string;
+  departure_time: string;
+  departure_terminal?: string;
+  departure_gate?: string;
+  arrival_iata: string;
+  arrival_time: string;
+  arrival_terminal?: string;
+  arrival_gate?: string;
+  flight_status?: string;
+  flight_date?: string;
+}
+
+// Helper function to turn a fixture into the flight it would be on a given date
+function processFixtureFlight(fixture: FlightFixture, date: string, index: number): Flight {
+  const depAirport = getAirport(fixture.departure_iata);
+  const arrAirport = getAirport(fixture.arrival_iata);
+  const departure = new Date(`${date}T${fixture.departure_time}:00Z`);
+  const arrival = new Date(`${date}T${fixture.arrival_time}:00Z`);
+  if (arrival <= departure) {
+    arrival.setUTCDate(arrival.getUTCDate() + 1);
+  }
+
+  return {
+    id: index + 1,
+    flight_date: date,
+    flight_status: fixture.flight_status || 'scheduled',
+    departure_airport: depAirport?.name || `${fixture.departure_iata} Airport`,
+    departure_iata: fixture.departure_iata,
+    departure_icao: depAirport?.icao || '',
+    departure_scheduled: departure.toISOString(),
+    arrival_airport: arrAirport?.name || `${fixture.arrival_iata} Airport`,
+    arrival_iata: fixture.arrival_iata,
+    arrival_icao: arrAirport?.icao || '',
+    arrival_scheduled: arrival.toISOString(),
+    airline_name: fixture.airline_name,
+    airline_iata: fixture.airline_iata,
+    flight_number: fixture.flight_number,
+    flight_iata: `${fixture.airline_iata}${fixture.flight_number}`,
+    flight_icao: fixture.flight_icao || '',
+    duration_hours: parseFloat(((arrival.getTime() - departure.getTime()) / (1000 * 60 * 60)).toFixed(2)),
+    departure_terminal: fixture.departure_terminal,
+    departure_gate: fixture.departure_gate,
+    arrival_terminal: fixture.arrival_terminal,
+    arrival_gate: fixture.arrival_gate
+  };
+}
+
+// Serves flights from FLIGHT_FIXTURES_FILE (default data/flight-fixtures.json) without any network
+function createFixtureProvider(): FlightDataProvider {
+  const fixturesFile = process.env.FLIGHT_FIXTURES_FILE || path.join(__dirname, '..', 'data', 'flight-fixtures.json');
+  let fixtures: Promise<FlightFixture[]> | null = null;
+
+  const flightsOn = async (date: string) => {
+    if (!fixtures) {
+      fixtures = fs.promises.readFile(fixturesFile, 'utf8').then(text => JSON.parse(text));
+      fixtures.catch(() => { fixtures = null; });
+    }
+    const [all] = await Promise.all([fixtures, loadAirports()]);
+    return all
+      .filter(fixture => !fixture.flight_date || fixture.flight_date === date)
+      .map((fixture, i) => processFixtureFlight(fixture, date, i));
+  };
+
+  // Compare airport codes as IATA so either code matches
+  const toIata = (code: string) => getAirport(code)?.iata || code.trim().toUpperCase();
+
+  return {
+    name: 'fixture',
+    local: true,
+    searchByFlightNumber: async (flight, date) => {
+      const code = flight.trim().toUpperCase();
+      return (await flightsOn(date)).filter(f => f.flight_iata === code || f.flight_icao === code);
+    },
+    searchByRoute: async (departure, arrival, date) => {
+      const flights = await flightsOn(date);
+      return flights.filter(f => f.departure_iata === toIata(departure) && f.arrival_iata === toIata(arrival));
+    },
+    searchByDate: async (date, limit) => (await flightsOn(date)).slice(0, limit),
+    getAirportInfo: code => findAirport(code)
+  };
+}
+
+const providerFactories: Record<string, FlightProviderFactory> = {
+  aviationstack: createAviationStackProvider,
+  opensky: createOpenSkyProvider,
+  fixture: createFixtureProvider
+};
+
+let activeProvider: FlightDataProvider | null = null;
+
+/**
+ * Make another provider available under FLIGHT_PROVIDER=<name>. The factory returns an object
+ * with searchByFlightNumber, searchByRoute, searchByDate and getAirportInfo.
+ */
+export function registerFlightProvider(name: string, factory: FlightProviderFactory): void {
+  providerFactories[name] = factory;
+  activeProvider = null;
+}
+
+// Provider is chosen on first use so FLIGHT_PROVIDER from .env is already loaded
+export function getFlightProvider(): FlightDataProvider {
+  if (!activeProvider) {
+    const name = process.env.FLIGHT_PROVIDER || (process.env.API_KEY ? 'aviationstack' : 'fixture');
+    const factory = providerFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown FLIGHT_PROVIDER "${name}"`);
+    }
+    const provider = factory();
+    activeProvider = provider.local ? provider : withProviderCache(provider);
+  }
+  return activeProvider;
+}
@@ -0,0 +1,140 @@
+// jobs.ts
+// Background jobs: automatic backups, session cleanup, reminders and notifications
+
+import moment from 'moment-timezone';
+import { ADSB_RETENTION_HOURS } from './adsb';
+import { recordAuditLog } from './audit';
+import { createBackup, applyRetention, type BackupPilot } from './backups';
+import { evaluateCredential, dueReminderThreshold } from './credentials';
+import { pruneIpFailures } from './loginThrottle';
+import { sendScheduleNotification, sendCredentialReminder } from './notifications';
+import { hasPermission } from './permissions';
+import { PROVIDER_CACHE_STALE_DAYS } from './providerCache';
+import { findLastFullAutoBackupTime, listAutoBackupPilots } from './repositories/backups';
+import { claimCredentialReminder, listActiveCredentials } from './repositories/credentials';
+import { deletePositionsBefore } from './repositories/livePositions';
+import { deleteExpiredResponses } from './repositories/providerCache';
+import { listStandbySchedules } from './repositories/schedules';
+import { purgeSessionsOlderThan } from './repositories/sessions';
+import { SESSION_HISTORY_DAYS } from './sessions';
+
+// Daily automatic backups: pilot backups for pilots with auto_backup on, and a full backup
+// when any admin has it on. Expired automatic backups are pruned afterwards.
+async function runScheduledBackups() {
+  try {
+    const pilots = await listAutoBackupPilots();
+    const dayAgo = moment().subtract(1, 'day');
+
+    for (const pilot of pilots) {
+      if (!pilot.last_backup || moment(pilot.last_backup).isBefore(dayAgo)) {
+        await createBackup({ scope: 'pilot', pilot: pilot as BackupPilot, backupType: 'auto', createdBy: 'system' });
+      }
+    }
+
+    if (pilots.some(pilot => hasPermission(pilot.role, 'backup:full'))) {
+      const lastBackup = await findLastFullAutoBackupTime();
+      if (!lastBackup || moment(lastBackup).isBefore(dayAgo)) {
+        const backup = await createBackup({ scope: 'full', backupType: 'auto', createdBy: 'system' });
+        recordAuditLog('backup', 'system', backup.id, 'system', { message: 'Automatic backup performed', scope: 'full' });
+      }
+    }
+
+    const pruned = await applyRetention();
+    if (pruned > 0) {
+      console.log(`🧹 Pruned ${pruned} expired automatic backups`);
+    }
+  } catch (err) {
+    console.error('❌ Scheduled Backup Error:', err);
+  }
+}
+
+// Delete sessions that have been revoked or expired for longer than SESSION_HISTORY_DAYS
+async function purgeOldSessions() {
+  try {
+    const purged = await purgeSessionsOlderThan(SESSION_HISTORY_DAYS);
+    if (purged > 0) {
+      console.log(`🧹 Removed ${purged} old sessions`);
+    }
+  } catch (err) {
+    console.error('❌ Session Cleanup Error:', err);
+  }
+}
+
+// Drop cached provider responses that have been stale for longer than PROVIDER_CACHE_STALE_DAYS
+async function purgeProviderCache() {
+  try {
+    const purged = await deleteExpiredResponses(PROVIDER_CACHE_STALE_DAYS);
+    if (purged > 0) {
+      console.log(`🧹 Removed ${purged} stale flight provider responses`);
+    }
+  } catch (err) {
+    console.error('❌ Provider Cache Cleanup Error:', err);
+  }
+}
+
+// Delete ADS-B positions last heard more than ADSB_RETENTION_HOURS ago
+async function purgeOldPositions() {
+  try {
+    const purged = await deletePositionsBefore(moment().subtract(ADSB_RETENTION_HOURS, 'hours').unix());
+    if (purged > 0) {
+      console.log(`🧹 Removed ${purged} old ADS-B positions`);
+    }
+  } catch (err) {
+    console.error('❌ ADS-B Cleanup Error:', err);
+  }
+}
+
+// Raise 90/30/7-day reminders for credentials that are about to expire
+async function checkCredentialReminders() {
+  try {
+    for (const row of await listActiveCredentials()) {
+      const credential = evaluateCredential(row);
+      const threshold = dueReminderThreshold(credential.days_remaining);
+      if (!threshold) continue;
+
+      if (await claimCredentialReminder(credential.id!, threshold, credential.computed_expiry)) {
+        sendCredentialReminder(
+          { id: row.pilot_id, email: row.email, username: row.username },
+          credential,
+          threshold
+        );
+      }
+    }
+  } catch (err) {
+    console.error('❌ Credential Reminder Error:', err);
+  }
+}
+
+// Remind pilots whose standby starts within the next hour
+async function notifyUpcomingStandby() {
+  console.log('⏰ Checking for upcoming flights...');
+  const now = new Date();
+  const oneHourLater = new Date(now.getTime() + 60 * 60 * 1000);
+
+  try {
+    const schedules = await listStandbySchedules(now, oneHourLater);
+    schedules.forEach(schedule => {
+      console.log(`🔔 Sending standby reminder for ${schedule.flight_number}`);
+      sendScheduleNotification({
+        id: schedule.pilot_id,
+        email: schedule.email,
+        username: schedule.username
+      }, schedule);
+    });
+  } catch (err) {
+    console.error('❌ Notification Error:', err);
+  }
+}
+
+// Schedule notification job (runs every hour), plus the reminder, backup and cleanup jobs
+export function startScheduledJobs(): void {
+  setInterval(() => {
+    notifyUpcomingStandby();
+    checkCredentialReminders();
+    runScheduledBackups();
+    purgeOldSessions();
+    purgeProviderCache();
+    purgeOldPositions();
+    pruneIpFailures();
+  }, 60 * 60 * 1000); // Run every hour
+}
@@ -0,0 +1,421 @@
+// logbookImport.ts
+// Reads logbook exports from other e-logbook apps (CSV, tab-separated text or Excel) into logbook_entries rows
+
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import csv from 'csv-parser';
+import ExcelJS from 'exceljs';
+import moment from 'moment-timezone';
+import { getAirport } from './airports';
+
+const HOUR_FIELDS = [
+  'duration_hours',
+  'pic_hours',
+  'sic_hours',
+  'dual_received_hours',
+  'dual_given_hours',
+  'solo_hours',
+  'night_hours',
+  'actual_instrument_hours',
+  'simulated_instrument_hours',
+  'cross_country_hours'
+];
+
+const COUNT_FIELDS = ['day_landings', 'night_landings', 'approaches', 'holds'];
+
+type CellGetter = (header: string) => string | undefined;
+type ColumnSource = string[] | ((get: CellGetter) => number);
+
+export interface ImportProfile {
+  name: string;
+  dateFormats: string[];
+  durationUnit: 'hours' | 'minutes';
+  columns: Record<string, ColumnSource> & { flight_date: string[] };
+}
+
+export interface LogbookFileRow {
+  line: number;
+  values: Record<string, string>;
+}
+
+// A logbook_entries row mapped from a source row, with hour and count columns keyed by name.
+// The caller links `aircraft_id` from the pilot's aircraft registry.
+export type ImportedFlight = Record<string, string | number | null | undefined> & {
+  flight_date: string | null;
+  departure_icao: string | null;
+  departure_iata: string | null;
+  arrival_icao: string | null;
+  arrival_iata: string | null;
+  aircraft_registration: string | null;
+  aircraft_id?: number | null;
+};
+
+// Sum the leading counts of approach columns such as ForeFlight's "1;ILS;27;KJFK;;"
+const approachCount = (columns: string[]) => (get: CellGetter) => columns.reduce((sum, column) => {
+  const value = get(column);
+  if (!value) return sum;
+  const count = parseInt(String(value), 10);
+  return sum + (isNaN(count) ? 1 : count);
+}, 0);
+
+/**
+ * Column mapping per source app. Each field lists the header names it may appear under
+ * (first match wins) or is a function of a `get(header)` accessor.
+ * `durationUnit` says how plain numbers in time columns are read; "h:mm" values always work.
+ */
+export const importProfiles: Record<string, ImportProfile> = {
+  foreflight: {
+    name: 'ForeFlight',
+    dateFormats: ['YYYY-MM-DD', 'M/D/YYYY'],
+    durationUnit: 'hours',
+    columns: {
+      flight_date: ['Date'],
+      aircraft_registration: ['AircraftID'],
+      departure: ['From'],
+      arrival: ['To'],
+      departure_time: ['TimeOut', 'TimeOff'],
+      arrival_time: ['TimeIn', 'TimeOn'],
+      duration_hours: ['TotalTime'],
+      pic_hours: ['PIC'],
+      sic_hours: ['SIC'],
+      night_hours: ['Night'],
+      solo_hours: ['Solo'],
+      cross_country_hours: ['CrossCountry'],
+      actual_instrument_hours: ['ActualInstrument'],
+      simulated_instrument_hours: ['SimulatedInstrument'],
+      dual_given_hours: ['DualGiven'],
+      dual_received_hours: ['DualReceived'],
+      day_landings: ['DayLandingsFullStop'],
+      night_landings: ['NightLandingsFullStop'],
+      holds: ['Holds'],
+      approaches: approachCount(['Approach1', 'Approach2', 'Approach3', 'Approach4', 'Approach5', 'Approach6']),
+      remarks: ['PilotComments']
+    }
+  },
+  logten: {
+    name: 'LogTen Pro',
+    dateFormats: ['M/D/YY', 'M/D/YYYY', 'YYYY-MM-DD', 'D MMM YYYY'],
+    durationUnit: 'hours',
+    columns: {
+      flight_date: ['Date', 'flight_flightDate'],
+      flight_number: ['Flight #', 'Flight Number', 'flight_flightNumber'],
+      aircraft_registration: ['Aircraft ID', 'aircraft_aircraftID'],
+      aircraft_type: ['Aircraft Type', 'aircraftType_type'],
+      departure: ['From', 'flight_from'],
+      arrival: ['To', 'flight_to'],
+      departure_time: ['Out', 'flight_actualDepartureTime'],
+      arrival_time: ['In', 'flight_actualArrivalTime'],
+      duration_hours: ['Total Time', 'flight_totalTime'],
+      pic_hours: ['PIC', 'flight_pic'],
+      sic_hours: ['SIC', 'flight_sic'],
+      night_hours: ['Night', 'flight_night'],
+      solo_hours: ['Solo', 'flight_solo'],
+      cross_country_hours: ['Cross Country', 'XC', 'flight_crossCountry'],
+      actual_instrument_hours: ['Actual Instrument', 'Actual Inst', 'flight_actualInstrument'],
+      simulated_instrument_hours: ['Simulated Instrument', 'Sim Inst', 'flight_simulatedInstrument'],
+      dual_received_hours: ['Dual Received', 'Dual Rcvd', 'flight_dualReceived'],
+      dual_given_hours: ['Dual Given', 'flight_dualGiven'],
+      day_landings: ['Day Landings', 'Day Ldg', 'flight_dayLandings'],
+      night_landings: ['Night Landings', 'Night Ldg', 'flight_nightLandings'],
+      holds: ['Holds', 'flight_holds'],
+      approaches: ['Approaches', 'Total Approaches', 'flight_totalApproaches'],
+      remarks: ['Remarks', 'flight_remarks']
+    }
+  },
+  mccpilotlog: {
+    name: 'MCC PILOTLOG',
+    dateFormats: ['YYYY-MM-DD', 'DD/MM/YYYY', 'DD.MM.YYYY'],
+    durationUnit: 'minutes',
+    columns: {
+      flight_date: ['mcc_DATE', 'DATE'],
+      flight_number: ['FlightNumber'],
+      aircraft_registration: ['AC_REG'],
+      aircraft_type: ['AC_MODEL'],
+      departure: ['AF_DEP'],
+      arrival: ['AF_ARR'],
+      departure_time: ['TIME_DEP'],
+      arrival_time: ['TIME_ARR'],
+      duration_hours: ['TIME_TOTAL'],
+      pic_hours: ['TIME_PIC'],
+      sic_hours: ['TIME_SIC'],
+      night_hours: ['TIME_NIGHT'],
+      cross_country_hours: ['TIME_XC'],
+      actual_instrument_hours: ['TIME_ACTUAL'],
+      simulated_instrument_hours: ['TIME_HOOD'],
+      dual_received_hours: ['TIME_DUAL'],
+      dual_given_hours: ['TIME_INSTRUCTOR'],
+      day_landings: ['LDG_DAY'],
+      night_landings: ['LDG_NIGHT'],
+      holds: ['HOLDING'],
+      approaches: approachCount(['APP_1', 'APP_2', 'APP_3']),
+      remarks: ['REMARKS']
+    }
+  },
+  generic: {
+    name: 'Generic CSV (logbook_entries columns)',
+    dateFormats: ['YYYY-MM-DD'],
+    durationUnit: 'hours',
+    columns: {
+      flight_date: ['flight_date'],
+      flight_number: ['flight_iata', 'flight_number'],
+      aircraft_registration: ['aircraft_registration', 'registration'],
+      departure: ['departure_icao', 'departure_iata'],
+      arrival: ['arrival_icao', 'arrival_iata'],
+      departure_time: ['departure_time'],
+      arrival_time: ['arrival_time'],
+      ...Object.fromEntries([...HOUR_FIELDS, ...COUNT_FIELDS, 'remarks'].map(field => [field, [field]]))
+    }
+  }
+};
+
+// Helper function to turn an Excel cell value into the text a CSV export would contain
+function excelCellText(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    // Excel stores times of day and durations as offsets from 1899-12-30
+    const minutes = Math.round((value.getTime() - Date.UTC(1899, 11, 30)) / 60000);
+    return value.getUTCFullYear() <= 1900
+      ? `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`
+      : moment.utc(value).format('YYYY-MM-DD');
+  }
+  if (typeof value === 'object') {
+    if ('richText' in value) return value.richText.map(part => part.text).join('');
+    if ('result' in value) return excelCellText(value.result as ExcelJS.CellValue);
+    if ('text' in value && value.text) return String(value.text);
+  }
+  return String(value);
+}
+
+// Helper function to read every row of a CSV/TSV file as an array of cell strings
+function readDelimitedRows(filePath: string): Promise<string[][]> {
+  const text = fs.readFileSync(filePath, 'utf8').replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const separator = (firstLine.match(/\t/g) || []).length > (firstLine.match(/,/g) || []).length ? '\t' : ',';
+
+  return new Promise((resolve, reject) => {
+    const rows: string[][] = [];
+    Readable.from([text])
+      .pipe(csv({ separator, headers: false }))
+      .on('data', (row: Record<string, string>) => rows.push(Object.values(row).map(cell => String(cell ?? '').trim())))
+      .on('end', () => resolve(rows))
+      .on('error', reject);
+  });
+}
+
+async function readExcelRows(filePath: string): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+  const worksheet = workbook.worksheets[0];
+  if (!worksheet) return [];
+
+  const rows: string[][] = [];
+  worksheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: string[] = [];
+    for (let column = 1; column <= row.cellCount; column++) {
+      cells.push(excelCellText(row.getCell(column).value).trim());
+    }
+    rows.push(cells);
+  });
+  return rows;
+}
+
+/**
+ * Read an uploaded export into header-keyed row objects.
+ * The header row is the first row naming the profile's date column, which skips
+ * preambles such as the aircraft table at the top of a ForeFlight export.
+ */
+export async function readLogbookFile(filePath: string, originalName: string | undefined, profile: ImportProfile): Promise<LogbookFileRow[]> {
+  const extension = path.extname(originalName || '').toLowerCase();
+  const rows = extension === '.xlsx' ? await readExcelRows(filePath) : await readDelimitedRows(filePath);
+
+  const dateHeaders = profile.columns.flight_date;
+  const headerIndex = rows.findIndex(cells => cells.some(cell => dateHeaders.includes(cell)));
+  if (headerIndex === -1) {
+    throw new Error(`No header row with a ${dateHeaders.join(' / ')} column found for ${profile.name}`);
+  }
+
+  const headers = rows[headerIndex];
+  return rows
+    .slice(headerIndex + 1)
+    .map((cells, index) => ({ line: headerIndex + index + 2, cells }))
+    .filter(({ cells }) => cells.some(cell => cell !== ''))
+    .map(({ line, cells }) => ({
+      line,
+      values: Object.fromEntries(headers.map((header, column) => [header, cells[column] ?? '']))
+    }));
+}
+
+// Helper function to parse "1.5", "1:30" or minutes into decimal hours; NaN when unreadable
+function parseDuration(value: unknown, unit: ImportProfile['durationUnit']): number {
+  if (value === null || value === undefined || String(value).trim() === '') return 0;
+  const text = String(value).trim();
+
+  const hhmm = text.match(/^(\d+):(\d{2})$/);
+  if (hhmm) return Number(hhmm[1]) + Number(hhmm[2]) / 60;
+
+  const number = Number(text.replace(',', '.'));
+  if (isNaN(number)) return NaN;
+  return unit === 'minutes' ? number / 60 : number;
+}
+
+// Helper function to read "HH:MM" or "HHMM" as minutes after midnight, or null
+function parseClockTime(value: unknown): number | null {
+  const match = String(value || '').trim().match(/^(\d{1,2}):?(\d{2})$/);
+  if (!match) return null;
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+// Helper function to split an airport code into ICAO/IATA columns using the airport database
+function resolveAirport(code: unknown) {
+  const normalized = String(code || '').trim().toUpperCase();
+  if (!normalized) return null;
+
+  const airport = getAirport(normalized);
+  if (airport) {
+    return { icao: airport.icao, iata: airport.iata, name: airport.name, known: true };
+  }
+  return {
+    icao: normalized.length === 4 ? normalized : null,
+    iata: normalized.length === 3 ? normalized : null,
+    name: null,
+    known: false
+  };
+}
+
+// Helper function to build the key used to spot the same flight twice
+export function flightFingerprint({ flight_date, departure, arrival, duration_hours }: {
+  flight_date: unknown;
+  departure: unknown;
+  arrival: unknown;
+  duration_hours: unknown;
+}): string {
+  const airportKey = (code: unknown) => {
+    const normalized = String(code || '').trim().toUpperCase();
+    return getAirport(normalized)?.icao || normalized;
+  };
+
+  return [
+    moment(flight_date as moment.MomentInput).format('YYYY-MM-DD'),
+    airportKey(departure),
+    airportKey(arrival),
+    (Number(duration_hours) || 0).toFixed(1)
+  ].join('|');
+}
+
+/**
+ * Map one source row to a logbook_entries row.
+ * `errors` block the import of the row; `warnings` are informational.
+ */
+export function mapLogbookRow(
+  values: Record<string, string>,
+  profile: ImportProfile,
+  today: moment.Moment = moment()
+): { errors: string[]; warnings: string[]; flight: ImportedFlight } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const get: CellGetter = (header) => values[header];
+  const pick = (field: string): string | number | undefined => {
+    const source = profile.columns[field];
+    if (!source) return undefined;
+    if (typeof source === 'function') return source(get);
+    const header = source.find(name => values[name] !== undefined && values[name] !== '');
+    return header ? values[header] : undefined;
+  };
+
+  const rawDate = pick('flight_date');
+  const date = moment(rawDate, profile.dateFormats, true);
+  if (!rawDate) {
+    errors.push('Missing date');
+  } else if (!date.isValid()) {
+    errors.push(`Invalid date "${rawDate}" (expected ${profile.dateFormats.join(' or ')})`);
+  } else if (date.isAfter(today, 'day')) {
+    errors.push('Date is in the future');
+  }
+
+  const departure = resolveAirport(pick('departure'));
+  const arrival = resolveAirport(pick('arrival'));
+  if (!departure || !arrival) {
+    errors.push('Missing departure or arrival airport');
+  }
+  [departure, arrival].forEach(airport => {
+    if (!airport || airport.known) return;
+    warnings.push(`Airport ${airport.icao || airport.iata || 'code'} is not in the airport database`);
+  });
+
+  const flight: Record<string, number> = {};
+
+  HOUR_FIELDS.forEach(field => {
+    const hours = parseDuration(pick(field), profile.durationUnit);
+    if (isNaN(hours) || hours < 0) {
+      errors.push(`Invalid ${field.replace(/_hours$/, '').replace(/_/g, ' ')} time "${pick(field)}"`);
+      flight[field] = 0;
+    } else {
+      flight[field] = Math.round(hours * 100) / 100;
+    }
+  });
+
+  COUNT_FIELDS.forEach(field => {
+    const raw = pick(field);
+    const count: number = raw === undefined || raw === '' ? 0 : Number(raw);
+    if (!Number.isInteger(count) || count < 0) {
+      errors.push(`Invalid ${field.replace(/_/g, ' ')} "${raw}"`);
+      flight[field] = 0;
+    } else {
+      flight[field] = count;
+    }
+  });
+
+  if (flight.duration_hours === 0) {
+    errors.push('Total time is missing or zero');
+  }
+  ['pic_hours', 'sic_hours', 'night_hours', 'cross_country_hours'].forEach(field => {
+    if (flight[field] > flight.duration_hours + 0.05) {
+      warnings.push(`${field.replace(/_hours$/, '').replace(/_/g, ' ')} time exceeds total time`);
+    }
+  });
+
+  // Block times are taken as UTC; an arrival earlier than the departure is on the next day
+  let departureScheduled: string | null = null;
+  let arrivalScheduled: string | null = null;
+  const outMinutes = parseClockTime(pick('departure_time'));
+  const inMinutes = parseClockTime(pick('arrival_time'));
+  if (date.isValid() && outMinutes !== null) {
+    const start = moment.utc(date.format('YYYY-MM-DD')).add(outMinutes, 'minutes');
+    departureScheduled = start.format('YYYY-MM-DD HH:mm:ss');
+    if (inMinutes !== null) {
+      const end = moment.utc(date.format('YYYY-MM-DD')).add(inMinutes, 'minutes');
+      if (end.isBefore(start)) end.add(1, 'day');
+      arrivalScheduled = end.format('YYYY-MM-DD HH:mm:ss');
+    }
+  }
+
+  const text = (field: string) => {
+    const value = pick(field);
+    return value === undefined || value === '' ? null : String(value).trim();
+  };
+
+  return {
+    errors,
+    warnings,
+    flight: {
+      ...flight,
+      flight_date: date.isValid() ? date.format('YYYY-MM-DD') : null,
+      flight_iata: text('flight_number'),
+      departure_icao: departure ? departure.icao : null,
+      departure_iata: departure ? departure.iata : null,
+      departure_airport: departure ? departure.name : null,
+      arrival_icao: arrival ? arrival.icao : null,
+      arrival_iata: arrival ? arrival.iata : null,
+      arrival_airport: arrival ? arrival.name : null,
+      departure_scheduled: departureScheduled,
+      arrival_scheduled: arrivalScheduled,
+      remarks: text('remarks'),
+      aircraft_registration: text('aircraft_registration'),
+      aircraft_type: text('aircraft_type')
+    }
+  };
+}
@@ -0,0 +1,248 @@
+// logbookPdf.ts
+// Paginated PDF logbook pages in the column layout of common paper pilot logbooks
+
+import PDFDocument from 'pdfkit';
+import moment from 'moment-timezone';
+import type { LogbookTimes } from 'aviation-shared';
+
+const ROWS_PER_PAGE = 14;
+const MARGIN = 24;
+const ROW_HEIGHT = 22;
+const HEADER_ROW_HEIGHT = 30;
+const TOTALS_ROW_HEIGHT = 16;
+
+// A logbook_entries row with its aircraft, as read for the export (DECIMAL columns may come back as strings)
+export type LogbookFlightRow = Partial<Record<keyof LogbookTimes, number | string | null>> & {
+  flight_date: Date | string;
+  departure_iata: string | null;
+  departure_icao: string | null;
+  arrival_iata: string | null;
+  arrival_icao: string | null;
+  duration_hours: number | string | null;
+  remarks: string | null;
+  aircraft_registration: string | null;
+  aircraft_type: string | null;
+};
+
+export type LogbookTotals = Record<string, number>;
+
+interface LogbookColumn {
+  key: keyof LogbookFlightRow;
+  title: string;
+  width: number;
+  total?: boolean;
+  hours?: boolean;
+  value?: (flight: LogbookFlightRow) => string | null;
+}
+
+export interface LogbookPilot {
+  first_name?: string | null;
+  last_name?: string | null;
+  username: string;
+  license_number?: string | null;
+}
+
+export interface LogbookPdfOptions {
+  pilot: LogbookPilot;
+  flights: LogbookFlightRow[];
+  broughtForward?: LogbookTotals;
+  from?: string | null;
+  to?: string | null;
+  certification: string;
+}
+
+/**
+ * Columns left to right. `total` marks a column that is summed into page totals,
+ * amount forwarded and totals to date; `hours` columns print one decimal, the rest are counts.
+ */
+export const logbookColumns: LogbookColumn[] = [
+  { key: 'flight_date', title: 'Date', width: 48, value: (flight) => moment(flight.flight_date).format('YYYY-MM-DD') },
+  { key: 'aircraft_type', title: 'Aircraft Type', width: 40 },
+  { key: 'aircraft_registration', title: 'Aircraft Ident', width: 48 },
+  { key: 'departure_iata', title: 'From', width: 34, value: (flight) => flight.departure_iata || flight.departure_icao },
+  { key: 'arrival_iata', title: 'To', width: 34, value: (flight) => flight.arrival_iata || flight.arrival_icao },
+  { key: 'duration_hours', title: 'Total Duration', width: 36, total: true, hours: true },
+  { key: 'cross_country_hours', title: 'Cross Country', width: 34, total: true, hours: true },
+  { key: 'night_hours', title: 'Night', width: 32, total: true, hours: true },
+  { key: 'actual_instrument_hours', title: 'Actual Instr.', width: 32, total: true, hours: true },
+  { key: 'simulated_instrument_hours', title: 'Sim. Instr.', width: 32, total: true, hours: true },
+  { key: 'approaches', title: 'Inst. App.', width: 26, total: true },
+  { key: 'day_landings', title: 'Day Ldg', width: 26, total: true },
+  { key: 'night_landings', title: 'Night Ldg', width: 26, total: true },
+  { key: 'dual_received_hours', title: 'Dual Received', width: 34, total: true, hours: true },
+  { key: 'pic_hours', title: 'PIC', width: 34, total: true, hours: true },
+  { key: 'sic_hours', title: 'SIC', width: 34, total: true, hours: true },
+  { key: 'dual_given_hours', title: 'Dual Given', width: 34, total: true, hours: true },
+  { key: 'remarks', title: 'Remarks and Endorsements', width: 160 }
+];
+
+const totalColumns = logbookColumns.filter(column => column.total);
+
+// Helper function to start a zeroed totals object
+export function emptyTotals(): LogbookTotals {
+  return Object.fromEntries(totalColumns.map(column => [column.key, 0]));
+}
+
+// Helper function to add flights (or another totals object) into a totals object
+export function addToTotals(totals: LogbookTotals, rows: Record<string, unknown>[]): LogbookTotals {
+  const result = { ...totals };
+  rows.forEach(row => {
+    totalColumns.forEach(column => {
+      result[column.key] += Number(row[column.key]) || 0;
+    });
+  });
+  return result;
+}
+
+function formatCell(column: LogbookColumn, value: unknown, blankZero: boolean): string {
+  const number = Number(value) || 0;
+  if (blankZero && number === 0) return '';
+  return column.hours ? number.toFixed(1) : String(Math.round(number));
+}
+
+function cellText(column: LogbookColumn, flight: LogbookFlightRow): string {
+  if (column.total) return formatCell(column, flight[column.key], true);
+  const value = column.value ? column.value(flight) : flight[column.key];
+  return value === null || value === undefined ? '' : String(value);
+}
+
+// Draw one row of cells with vertical rules
+function drawRow(
+  doc: PDFKit.PDFDocument,
+  y: number,
+  height: number,
+  cells: string[],
+  { bold = false, fill = null as string | null, fontSize = 7, wrap = false } = {}
+): void {
+  let x = MARGIN;
+
+  if (fill) {
+    doc.save().rect(MARGIN, y, doc.page.width - MARGIN * 2, height).fill(fill).restore();
+  }
+
+  doc.font(bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(fontSize);
+  logbookColumns.forEach((column, index) => {
+    doc.rect(x, y, column.width, height).stroke();
+    const text = cells[index] ?? '';
+    if (text) {
+      doc.text(text, x + 2, wrap ? y + 3 : y + (height - fontSize) / 2 - 1, {
+        width: column.width - 4,
+        height: height - 4,
+        align: column.total ? 'right' : 'left',
+        lineBreak: wrap,
+        ellipsis: true
+      });
+    }
+    x += column.width;
+  });
+}
+
+// Draw a totals row: a label across the descriptive columns, then the summed columns
+function drawTotalsRow(doc: PDFKit.PDFDocument, y: number, label: string, totals: LogbookTotals): void {
+  const labelWidth = logbookColumns
+    .slice(0, logbookColumns.indexOf(totalColumns[0]))
+    .reduce((sum, column) => sum + column.width, 0);
+
+  const cells = logbookColumns.map(column =>
+    column.total ? formatCell(column, totals[column.key], false) : ''
+  );
+  drawRow(doc, y, TOTALS_ROW_HEIGHT, cells, { bold: true, fill: '#f0f0f0' });
+
+  doc.save()
+    .rect(MARGIN, y, labelWidth, TOTALS_ROW_HEIGHT).fill('#f0f0f0')
+    .restore();
+  doc.rect(MARGIN, y, labelWidth, TOTALS_ROW_HEIGHT).stroke();
+  doc.font('Helvetica-Bold').fontSize(7)
+    .text(label, MARGIN + 4, y + 4, { width: labelWidth - 8, lineBreak: false });
+}
+
+function drawPageHeader(
+  doc: PDFKit.PDFDocument,
+  { pilot, from, to, pageNumber, pageCount }: {
+    pilot: LogbookPilot;
+    from: string | null;
+    to: string | null;
+    pageNumber: number;
+    pageCount: number;
+  }
+): void {
+  const name = `${pilot.first_name || ''} ${pilot.last_name || ''}`.trim() || pilot.username;
+  const period = `${from ? moment(from).format('YYYY-MM-DD') : 'First entry'} to ${to ? moment(to).format('YYYY-MM-DD') : 'latest entry'}`;
+
+  doc.font('Helvetica-Bold').fontSize(12).text('PILOT LOGBOOK', MARGIN, MARGIN, { continued: true })
+    .font('Helvetica').fontSize(9).text(`   ${name}${pilot.license_number ? ` • License ${pilot.license_number}` : ''}`);
+  doc.fontSize(8).text(`Period: ${period}`, MARGIN, MARGIN + 16);
+  doc.text(`Page ${pageNumber} of ${pageCount}`, MARGIN, MARGIN + 16, {
+    width: doc.page.width - MARGIN * 2,
+    align: 'right'
+  });
+}
+
+function drawSignatureBlock(doc: PDFKit.PDFDocument, y: number, certification: string): void {
+  const width = doc.page.width - MARGIN * 2;
+  const half = width / 2;
+
+  doc.font('Helvetica').fontSize(8)
+    .text(certification, MARGIN, y, { width });
+
+  const lineY = y + 30;
+  doc.moveTo(MARGIN, lineY).lineTo(MARGIN + half - 40, lineY).stroke();
+  doc.moveTo(MARGIN + half, lineY).lineTo(MARGIN + width, lineY).stroke();
+  doc.fontSize(7)
+    .text('Pilot signature and date', MARGIN, lineY + 3)
+    .text('Certified by (instructor/examiner), certificate no. and date', MARGIN + half, lineY + 3);
+}
+
+/**
+ * Write a logbook for `pilot` to `output` (e.g. an Express response).
+ * `flights` are the entries in the exported date range, oldest first;
+ * `broughtForward` holds the totals of all entries before the range.
+ */
+export function renderLogbookPdf(
+  output: NodeJS.WritableStream,
+  { pilot, flights, broughtForward = emptyTotals(), from = null, to = null, certification }: LogbookPdfOptions
+): void {
+  const doc = new PDFDocument({ size: 'LETTER', layout: 'landscape', margin: MARGIN, autoFirstPage: false });
+  doc.pipe(output);
+
+  const pages: LogbookFlightRow[][] = [];
+  for (let i = 0; i < flights.length; i += ROWS_PER_PAGE) {
+    pages.push(flights.slice(i, i + ROWS_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  let forwarded = { ...broughtForward };
+
+  pages.forEach((pageFlights, pageIndex) => {
+    doc.addPage();
+    doc.lineWidth(0.5);
+    drawPageHeader(doc, { pilot, from, to, pageNumber: pageIndex + 1, pageCount: pages.length });
+
+    let y = MARGIN + 32;
+    drawRow(doc, y, HEADER_ROW_HEIGHT, logbookColumns.map(column => column.title), { bold: true, fill: '#e0e0e0', fontSize: 6, wrap: true });
+    y += HEADER_ROW_HEIGHT;
+
+    for (let row = 0; row < ROWS_PER_PAGE; row++) {
+      const flight = pageFlights[row];
+      drawRow(doc, y, ROW_HEIGHT, flight ? logbookColumns.map(column => cellText(column, flight)) : []);
+      y += ROW_HEIGHT;
+    }
+
+    const pageTotals = addToTotals(emptyTotals(), pageFlights);
+    const toDate = addToTotals(forwarded, [pageTotals]);
+
+    drawTotalsRow(doc, y, 'TOTALS THIS PAGE', pageTotals);
+    y += TOTALS_ROW_HEIGHT;
+    drawTotalsRow(doc, y, 'AMOUNT FORWARDED', forwarded);
+    y += TOTALS_ROW_HEIGHT;
+    drawTotalsRow(doc, y, pageIndex === pages.length - 1 ? 'GRAND TOTALS' : 'TOTALS TO DATE', toDate);
+    y += TOTALS_ROW_HEIGHT + 12;
+
+    drawSignatureBlock(doc, y, certification);
+    forwarded = toDate;
+  });
+
+  doc.end();
+}
+
+export const logbookTotalFields = totalColumns.map(column => column.key);
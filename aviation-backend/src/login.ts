@@ -0,0 +1,226 @@
+// login.ts
+// Sign-in helpers: session creation and revocation, account lockout and failed-login tracking
+
+import jwt from 'jsonwebtoken';
+import { recordAuditLog } from './audit';
+import { JWT_SECRET } from './config';
+import {
+  ACCOUNT_FREE_ATTEMPTS,
+  LOCKOUT_THRESHOLD,
+  LOCKOUT_MINUTES,
+  retryAfterSeconds,
+  recordIpFailure,
+  clearIpFailures
+} from './loginThrottle';
+import { sendMail } from './mailer';
+import { permissionsFor } from './permissions';
+import { clearLoginFailures, incrementLoginFailures, lockPilot, recordLogin } from './repositories/pilots';
+import { insertSession } from './repositories/sessions';
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_DAYS,
+  generateRefreshToken,
+  hashRefreshToken,
+  describeDevice
+} from './sessions';
+import type { RowDataPacket } from 'mysql2';
+import type { Request, Response } from 'express';
+import type { Role, SessionResponse, SessionTokens } from 'aviation-shared';
+
+// Claims carried by an access token
+export interface TokenPilot {
+  id: number;
+  email: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  role: Role;
+}
+
+// Why a sign-in attempt may not go ahead: a locked account or a backoff still running
+export interface LoginBlock {
+  lockedUntil?: Date | string;
+  retryAfter?: number;
+}
+
+// Helper function to sign a short-lived access token bound to a session
+export function signAccessToken(pilot: TokenPilot, sessionId: number): string {
+  return jwt.sign(
+    {
+      id: pilot.id,
+      email: pilot.email,
+      username: pilot.username,
+      firstName: pilot.firstName,
+      lastName: pilot.lastName,
+      role: pilot.role,
+      sid: sessionId
+    },
+    JWT_SECRET,
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+  );
+}
+
+// Helper function to record the requesting device on a session row
+export function sessionDevice(req: Request) {
+  const userAgent = req.get('user-agent') || null;
+  return {
+    deviceName: req.body?.deviceName ? String(req.body.deviceName).substring(0, 100) : describeDevice(userAgent),
+    userAgent: userAgent ? userAgent.substring(0, 500) : null,
+    ipAddress: req.ip
+  };
+}
+
+/**
+ * Start a session for a pilot that has just authenticated.
+ * Resolves to the { token, refreshToken, expiresIn } sent back to the client.
+ */
+export async function createSession(pilot: TokenPilot, req: Request): Promise<SessionTokens> {
+  const refreshToken = generateRefreshToken();
+  const { deviceName, userAgent, ipAddress } = sessionDevice(req);
+
+  const sessionId = await insertSession({
+    pilot_id: pilot.id,
+    refresh_token_hash: hashRefreshToken(refreshToken),
+    device_name: deviceName,
+    user_agent: userAgent,
+    ip_address: ipAddress
+  }, REFRESH_TOKEN_TTL_DAYS);
+
+  return {
+    token: signAccessToken(pilot, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS
+  };
+}
+
+/**
+ * Finish a login once every factor has been checked: start a session, record the login and
+ * build the response body. `method` ('password', 'totp', 'recovery_code', ...) goes in the audit log.
+ */
+export async function completeLogin(pilot: RowDataPacket, req: Request, method: string): Promise<SessionResponse> {
+  // Update last login and clear any failed attempts
+  clearIpFailures(req.ip);
+  recordLogin(pilot.id).catch(updateErr => {
+    console.error('❌ Update Login Error:', updateErr);
+  });
+
+  const session = await createSession({
+    id: pilot.id,
+    email: pilot.email,
+    username: pilot.username,
+    firstName: pilot.first_name,
+    lastName: pilot.last_name,
+    role: pilot.role
+  }, req);
+
+  // Record audit log
+  recordAuditLog(
+    'login',
+    'pilot',
+    pilot.id,
+    pilot.email,
+    { message: 'Pilot logged in successfully', method, device: sessionDevice(req).deviceName }
+  );
+
+  return {
+    success: true,
+    message: 'Login successful',
+    ...session,
+    pilot: {
+      id: pilot.id,
+      email: pilot.email,
+      username: pilot.username,
+      firstName: pilot.first_name,
+      lastName: pilot.last_name,
+      licenseNumber: pilot.license_number,
+      licenseType: pilot.license_type,
+      totalHours: pilot.total_hours,
+      lastLogin: pilot.last_login,
+      role: pilot.role,
+      permissions: permissionsFor(pilot.role),
+      emailVerified: Boolean(pilot.email_verified)
+    }
+  };
+}
+
+// Helper function to reject a sign-in attempt that came too soon after earlier failures
+export function sendTooManyAttempts(res: Response, retryAfter: number) {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({
+    success: false,
+    message: `Too many failed sign-in attempts. Try again in ${retryAfter} seconds.`,
+    retryAfter
+  });
+}
+
+// Helper function to reject a sign-in attempt on a locked or backed-off account
+export function sendLoginBlocked(res: Response, block: LoginBlock) {
+  if (!block.lockedUntil) {
+    return sendTooManyAttempts(res, block.retryAfter!);
+  }
+  return res.status(423).json({
+    success: false,
+    message: 'This account is locked after too many failed sign-in attempts. Try again later or contact your administrator.',
+    lockedUntil: block.lockedUntil
+  });
+}
+
+/**
+ * Check whether a pilot may try to sign in right now. Expired locks are cleared here (timed
+ * auto-unlock). Returns null if the attempt may go ahead, otherwise { lockedUntil } or { retryAfter }.
+ */
+export async function checkAccountLock(pilot: RowDataPacket, req: Request): Promise<LoginBlock | null> {
+  if (pilot.locked_until) {
+    if (new Date(pilot.locked_until) > new Date()) {
+      return { lockedUntil: pilot.locked_until };
+    }
+
+    await clearLoginFailures(pilot.id);
+    pilot.failed_login_attempts = 0;
+    pilot.last_failed_login_at = null;
+    pilot.locked_until = null;
+    recordAuditLog('account_unlocked', 'pilot', pilot.id, pilot.email, { message: 'Account lock expired', ip: req.ip });
+  }
+
+  const retryAfter = retryAfterSeconds(pilot.failed_login_attempts, pilot.last_failed_login_at, ACCOUNT_FREE_ATTEMPTS);
+  return retryAfter > 0 ? { retryAfter } : null;
+}
+
+/**
+ * Count a failed password or two-factor code against the IP and, for a known pilot, the account.
+ * The account is locked once LOCKOUT_THRESHOLD consecutive failures are reached.
+ */
+export async function recordLoginFailure(
+  pilot: RowDataPacket | null | undefined,
+  email: unknown,
+  req: Request,
+  reason: string
+): Promise<void> {
+  recordIpFailure(req.ip);
+
+  if (!pilot) {
+    const attempted = String(email).substring(0, 255);
+    recordAuditLog('login_failed', 'pilot', attempted, attempted, { message: reason, ip: req.ip });
+    return;
+  }
+
+  const attempts = await incrementLoginFailures(pilot.id);
+
+  recordAuditLog('login_failed', 'pilot', pilot.id, pilot.email, { message: reason, ip: req.ip, attempts });
+
+  if (attempts < LOCKOUT_THRESHOLD) return;
+
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000);
+  await lockPilot(pilot.id, lockedUntil);
+  recordAuditLog('account_locked', 'pilot', pilot.id, pilot.email, {
+    message: `Account locked for ${LOCKOUT_MINUTES} minutes after ${attempts} failed sign-in attempts`,
+    ip: req.ip,
+    lockedUntil
+  });
+
+  sendMail({
+    to: pilot.email,
+    subject: 'Your FlightLog account was locked',
+    text: `There were ${attempts} failed attempts to sign in to your FlightLog account, so it has been locked for ${LOCKOUT_MINUTES} minutes.\n\nIf this was not you, reset your password once the lock expires or ask your administrator to unlock the account.`
+  }).catch(mailErr => console.error('❌ Mail Error:', mailErr));
+}
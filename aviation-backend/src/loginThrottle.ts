@@ -0,0 +1,64 @@
+// loginThrottle.ts
+// Brute-force protection for sign-in: exponential backoff per account and per IP, and account lockout
+
+// Failed attempts allowed before each further attempt has to wait
+export const ACCOUNT_FREE_ATTEMPTS = 3;
+const IP_FREE_ATTEMPTS = 10;
+const MAX_BACKOFF_SECONDS = 15 * 60;
+
+// After this many consecutive failures the account is locked until an admin unlocks it or the lock expires
+export const LOCKOUT_THRESHOLD = Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 10;
+export const LOCKOUT_MINUTES = Number(process.env.LOGIN_LOCKOUT_MINUTES) || 30;
+
+// Per-IP failures are forgotten after a quiet period
+const IP_WINDOW_MS = 60 * 60 * 1000;
+
+// Seconds to wait after `failures` consecutive failures: 1, 2, 4, ... once the free attempts are used up
+function backoffSeconds(failures: number, freeAttempts: number): number {
+  if (failures < freeAttempts) return 0;
+  return Math.min(2 ** (failures - freeAttempts), MAX_BACKOFF_SECONDS);
+}
+
+// Seconds left before the next attempt is allowed, given the failure count and the time of the last failure
+export function retryAfterSeconds(
+  failures: number,
+  lastFailureAt: Date | string | number | null | undefined,
+  freeAttempts: number,
+  now: number = Date.now()
+): number {
+  if (!lastFailureAt) return 0;
+  const allowedAt = new Date(lastFailureAt).getTime() + backoffSeconds(failures, freeAttempts) * 1000;
+  return Math.max(0, Math.ceil((allowedAt - now) / 1000));
+}
+
+// Failures by IP address are only kept in memory; a restart clears them
+const ipFailures = new Map<string | undefined, { count: number; lastFailureAt: number }>();
+
+export function ipRetryAfter(ip: string | undefined, now: number = Date.now()): number {
+  const entry = ipFailures.get(ip);
+  if (!entry) return 0;
+  return retryAfterSeconds(entry.count, entry.lastFailureAt, IP_FREE_ATTEMPTS, now);
+}
+
+export function recordIpFailure(ip: string | undefined, now: number = Date.now()): void {
+  const entry = ipFailures.get(ip);
+  if (entry && now - entry.lastFailureAt < IP_WINDOW_MS) {
+    entry.count += 1;
+    entry.lastFailureAt = now;
+  } else {
+    ipFailures.set(ip, { count: 1, lastFailureAt: now });
+  }
+}
+
+export function clearIpFailures(ip: string | undefined): void {
+  ipFailures.delete(ip);
+}
+
+// Drop IP entries that have been quiet for a full window
+export function pruneIpFailures(now: number = Date.now()): void {
+  for (const [ip, entry] of ipFailures) {
+    if (now - entry.lastFailureAt >= IP_WINDOW_MS) {
+      ipFailures.delete(ip);
+    }
+  }
+}
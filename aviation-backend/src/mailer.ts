@@ -0,0 +1,158 @@
+// mailer.ts
+// Outgoing mail through a pluggable transport picked by MAIL_TRANSPORT: 'outbox' (default, writes .eml
+// files to a local folder), 'smtp' (plain SMTP, e.g. a MailHog/smtp4dev stand-in) or 'console'
+
+import fs from 'fs';
+import path from 'path';
+import net from 'net';
+import crypto from 'crypto';
+import moment from 'moment-timezone';
+
+const SMTP_TIMEOUT_MS = 10000;
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage) => Promise<Record<string, unknown>>;
+}
+
+export type TransportFactory = () => MailTransport;
+
+// Helper function to pull the bare address out of 'Name <address>'
+function bareAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return match ? match[1] : address;
+}
+
+// Plain-text RFC 5322 message with CRLF line endings
+export function formatMessage({ from, to, subject, text }: MailMessage): string {
+  const headers = [
+    `From: ${from}`,
+    `To: ${to}`,
+    `Subject: ${subject}`,
+    `Date: ${moment().locale('en').format('ddd, DD MMM YYYY HH:mm:ss ZZ')}`,
+    `Message-ID: <${crypto.randomUUID()}@flightlog.local>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  return `${headers.join('\r\n')}\r\n\r\n${text.replace(/\r?\n/g, '\r\n')}\r\n`;
+}
+
+// Writes each message to MAIL_OUTBOX_DIR so developers can open it instead of receiving it
+function createOutboxTransport(): MailTransport {
+  const outboxDir = process.env.MAIL_OUTBOX_DIR || path.join(__dirname, '..', 'mail-outbox');
+
+  return {
+    name: 'outbox',
+    send: async (message: MailMessage) => {
+      await fs.promises.mkdir(outboxDir, { recursive: true });
+      const file = path.join(outboxDir, `${moment().format('YYYYMMDD-HHmmss')}-${crypto.randomBytes(4).toString('hex')}.eml`);
+      await fs.promises.writeFile(file, formatMessage(message));
+      return { transport: 'outbox', file };
+    }
+  };
+}
+
+// Minimal SMTP client (no TLS or AUTH) for local SMTP stand-ins
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST || 'localhost';
+  const port = Number(process.env.SMTP_PORT) || 1025;
+
+  return {
+    name: 'smtp',
+    send: (message: MailMessage) => new Promise((resolve, reject) => {
+      const body = formatMessage(message).replace(/^\./gm, '..');
+      const commands = [
+        'EHLO flightlog.local',
+        `MAIL FROM:<${bareAddress(message.from)}>`,
+        `RCPT TO:<${bareAddress(message.to)}>`,
+        'DATA',
+        `${body}.`,
+        'QUIT'
+      ];
+      let step = 0;
+      let reply = '';
+
+      const socket = net.createConnection({ host, port });
+      socket.setEncoding('utf8');
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+      socket.on('error', reject);
+
+      // Every reply (greeting included) moves on to the next command; the last line of a
+      // reply is 'NNN text', earlier lines of a multi-line reply are 'NNN-text'
+      socket.on('data', (chunk: string) => {
+        reply += chunk;
+        if (!reply.endsWith('\r\n')) return;
+
+        const lines = reply.trimEnd().split('\r\n');
+        const last = lines[lines.length - 1];
+        if (!/^\d{3} /.test(last)) return;
+        reply = '';
+
+        if (Number(last.substring(0, 3)) >= 400) {
+          socket.end();
+          return reject(new Error(`SMTP error: ${last}`));
+        }
+        if (step === commands.length) {
+          socket.end();
+          return resolve({ transport: 'smtp', host, port });
+        }
+        socket.write(`${commands[step]}\r\n`);
+        step += 1;
+      });
+    })
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: 'console',
+    send: async (message: MailMessage) => {
+      console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+      return { transport: 'console' };
+    }
+  };
+}
+
+const transportFactories: Record<string, TransportFactory> = {
+  outbox: createOutboxTransport,
+  smtp: createSmtpTransport,
+  console: createConsoleTransport
+};
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Make another transport available under MAIL_TRANSPORT=<name>. The factory returns
+ * { name, send(message) } where message is { from, to, subject, text }.
+ */
+export function registerTransport(name: string, factory: TransportFactory): void {
+  transportFactories[name] = factory;
+  activeTransport = null;
+}
+
+// Transport is chosen on first use so MAIL_TRANSPORT from .env is already loaded
+function getTransport(): MailTransport {
+  if (!activeTransport) {
+    const name = process.env.MAIL_TRANSPORT || 'outbox';
+    const factory = transportFactories[name];
+    if (!factory) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+    }
+    activeTransport = factory();
+  }
+  return activeTransport;
+}
+
+// Send a plain-text mail; resolves to transport-specific delivery info
+export async function sendMail({ to, subject, text }: Omit<MailMessage, 'from'>) {
+  const from = process.env.MAIL_FROM || 'FlightLog <no-reply@flightlog.local>';
+  return getTransport().send({ from, to, subject, text });
+}
@@ -0,0 +1,98 @@
+// auth.ts
+// Access-token authentication and role permission checks
+
+import type { NextFunction, Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import { JWT_SECRET } from '../config';
+import { hasPermission } from '../permissions';
+import { findPilotById } from '../repositories/pilots';
+import { isSessionLive } from '../repositories/sessions';
+import type { Permission } from 'aviation-shared';
+
+// Claims of an access token. Export and download links and 2FA enrollment tokens only carry
+// id and email (and role).
+export interface AuthUser {
+  id: number;
+  email: string;
+  username?: string;
+  firstName?: string;
+  lastName?: string;
+  role?: string;
+  sid?: number;
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user: AuthUser;
+      enrolling?: boolean;
+      exportRange?: { from?: string | null; to?: string | null };
+      exportFilters?: Record<string, unknown>;
+    }
+  }
+}
+
+// Middleware to verify JWT token. Access tokens carry their session id (sid); a revoked or
+// expired session rejects the token even before the token itself expires.
+export const authenticateToken = <P>(req: Request<P>, res: Response, next: NextFunction) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
+
+  if (!token) {
+    return res.status(401).json({ message: 'Access token required' });
+  }
+
+  jwt.verify(token, JWT_SECRET, async (err, decoded) => {
+    const user = decoded as AuthUser;
+    if (err) {
+      if (err.name === 'TokenExpiredError') {
+        return res.status(401).json({ message: 'Access token expired', code: 'TOKEN_EXPIRED' });
+      }
+      return res.status(403).json({ message: 'Invalid or expired token' });
+    }
+    if (!user.sid) {
+      return res.status(401).json({ message: 'Session expired, please log in again', code: 'SESSION_EXPIRED' });
+    }
+
+    let live;
+    try {
+      live = await isSessionLive(user.sid, user.id);
+    } catch (sessionErr) {
+      console.error('❌ Database Error:', sessionErr);
+      return res.status(500).json({ message: 'Database error' });
+    }
+    if (!live) {
+      return res.status(401).json({ message: 'Session expired, please log in again', code: 'SESSION_EXPIRED' });
+    }
+
+    req.user = user;
+    next();
+  });
+};
+
+// Permission check to chain after authenticateToken. Role and is_active are read from the
+// database so role changes and deactivations apply without waiting for the token to expire.
+export const requirePermission = (...permissions: Permission[]) => async <P>(req: Request<P>, res: Response, next: NextFunction) => {
+  let pilot;
+  try {
+    pilot = await findPilotById(req.user.id);
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    return res.status(500).json({ message: 'Database error' });
+  }
+
+  if (!pilot || !pilot.is_active) {
+    return res.status(403).json({ message: 'Account is deactivated' });
+  }
+
+  req.user.role = pilot.role;
+  const missing = permissions.filter(permission => !hasPermission(pilot.role, permission));
+  if (missing.length > 0) {
+    return res.status(403).json({ message: `Permission required: ${missing.join(', ')}` });
+  }
+  next();
+};
+
+// For routes open to every pilot that widen access by permission (their own data, or other pilots'
+// with e.g. flights:read_all): reload role and is_active the same way without requiring a permission
+export const loadCurrentRole = requirePermission();
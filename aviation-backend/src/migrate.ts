@@ -0,0 +1,106 @@
+// migrate.ts
+// Applies and rolls back schema migrations, recording applied versions in schema_migrations
+
+import db from './db';
+import { migrations } from './migrations';
+import type { PoolConnection } from 'mysql2/promise';
+import type { RowDataPacket } from 'mysql2';
+
+// Named lock so two servers starting together do not run the same migration twice
+const MIGRATION_LOCK = 'flight_tracker_migrations';
+const MIGRATION_LOCK_TIMEOUT_SECONDS = 60;
+
+const createMigrationsTable = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INT PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  applied_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+`;
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: Date | null;
+}
+
+// Helper function to run `work` on one connection holding the migration lock
+async function withMigrationLock<T>(work: (conn: PoolConnection) => Promise<T>): Promise<T> {
+  const conn = await db.getConnection();
+  try {
+    const [[lock]] = await conn.query<RowDataPacket[]>('SELECT GET_LOCK(?, ?) AS acquired', [
+      MIGRATION_LOCK,
+      MIGRATION_LOCK_TIMEOUT_SECONDS
+    ]);
+    if (lock.acquired !== 1) {
+      throw new Error('Timed out waiting for another process to finish migrating');
+    }
+
+    try {
+      await conn.query(createMigrationsTable);
+      return await work(conn);
+    } finally {
+      await conn.query('SELECT RELEASE_LOCK(?)', [MIGRATION_LOCK]);
+    }
+  } finally {
+    conn.release();
+  }
+}
+
+// Helper function to read the applied versions
+async function appliedVersions(conn: PoolConnection): Promise<Map<number, Date>> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT version, applied_at FROM schema_migrations');
+  return new Map(rows.map(row => [row.version, row.applied_at]));
+}
+
+// Apply every pending migration in order; returns the versions applied
+export function migrateToLatest(): Promise<number[]> {
+  return withMigrationLock(async (conn) => {
+    const applied = await appliedVersions(conn);
+    const ran: number[] = [];
+
+    for (const migration of migrations) {
+      if (applied.has(migration.version)) continue;
+
+      await migration.up(conn);
+      await conn.query('INSERT INTO schema_migrations (version, name) VALUES (?, ?)', [migration.version, migration.name]);
+      console.log(`✅ Migration ${migration.version} ${migration.name} applied`);
+      ran.push(migration.version);
+    }
+
+    return ran;
+  });
+}
+
+// Roll back the last `steps` applied migrations, newest first; returns the versions rolled back
+export function rollbackMigrations(steps: number = 1): Promise<number[]> {
+  return withMigrationLock(async (conn) => {
+    const applied = await appliedVersions(conn);
+    const toRollBack = migrations
+      .filter(migration => applied.has(migration.version))
+      .reverse()
+      .slice(0, steps);
+    const rolledBack: number[] = [];
+
+    for (const migration of toRollBack) {
+      await migration.down(conn);
+      await conn.query('DELETE FROM schema_migrations WHERE version = ?', [migration.version]);
+      console.log(`↩️ Migration ${migration.version} ${migration.name} rolled back`);
+      rolledBack.push(migration.version);
+    }
+
+    return rolledBack;
+  });
+}
+
+// Every known migration with when it was applied (null if pending)
+export function migrationStatus(): Promise<MigrationStatus[]> {
+  return withMigrationLock(async (conn) => {
+    const applied = await appliedVersions(conn);
+    return migrations.map(migration => ({
+      version: migration.version,
+      name: migration.name,
+      applied_at: applied.get(migration.version) || null
+    }));
+  });
+}
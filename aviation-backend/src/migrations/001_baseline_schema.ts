@@ -0,0 +1,132 @@
+// 001_baseline_schema.ts
+// The schema as of flight_tracker_backup.sql; databases restored from that dump already have all of it
+
+import type { Migration } from './index';
+
+const createPilotsTable = `
+CREATE TABLE IF NOT EXISTS pilots (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  email VARCHAR(255) UNIQUE NOT NULL,
+  username VARCHAR(50) UNIQUE NOT NULL,
+  password VARCHAR(255) NOT NULL,
+  first_name VARCHAR(100) NOT NULL,
+  last_name VARCHAR(100) NOT NULL,
+  license_number VARCHAR(50),
+  license_type ENUM('PPL', 'CPL', 'ATPL', 'Student') DEFAULT 'PPL',
+  total_hours DECIMAL(10,2) DEFAULT 0.00,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  last_login TIMESTAMP NULL,
+  is_active BOOLEAN DEFAULT TRUE,
+  role ENUM('admin', 'pilot') DEFAULT 'pilot'
+);
+`;
+
+const createPilotSchedulesTable = `
+CREATE TABLE IF NOT EXISTS pilot_schedules (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  pilot_id INT NOT NULL,
+  flight_date DATE NOT NULL,
+  flight_time TIME NOT NULL,
+  flight_number VARCHAR(20) NOT NULL,
+  flight_name VARCHAR(100),
+  standby_time DATETIME,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  FOREIGN KEY (pilot_id) REFERENCES pilots(id) ON DELETE CASCADE
+);
+`;
+
+const createDetailedFlightsTable = `
+CREATE TABLE IF NOT EXISTS detailed_flights (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  flight_date DATE,
+  flight_status VARCHAR(50),
+  departure_airport VARCHAR(100),
+  departure_iata VARCHAR(10),
+  departure_icao VARCHAR(10),
+  departure_scheduled DATETIME,
+  arrival_airport VARCHAR(100),
+  arrival_iata VARCHAR(10),
+  arrival_icao VARCHAR(10),
+  arrival_scheduled DATETIME,
+  airline_name VARCHAR(100),
+  airline_iata VARCHAR(10),
+  flight_number VARCHAR(10),
+  flight_iata VARCHAR(10),
+  flight_icao VARCHAR(10),
+  duration_hours DECIMAL(5,2),
+  created_by INT
+);
+`;
+
+const createAuditTable = `
+CREATE TABLE IF NOT EXISTS audit_logs (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  action VARCHAR(50) NOT NULL,
+  entity VARCHAR(50) NOT NULL,
+  entity_id VARCHAR(255) NOT NULL,
+  user_id VARCHAR(255) DEFAULT 'system',
+  user_name VARCHAR(255) DEFAULT 'System',
+  timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+  details JSON,
+  flight_details JSON
+);
+`;
+
+const createBackupsTable = `
+CREATE TABLE IF NOT EXISTS backups (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+  data JSON
+);
+`;
+
+// OpenSky state vectors from the first prototype; nothing reads it any more but the dump has it
+const createFlightsTable = `
+CREATE TABLE IF NOT EXISTS flights (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  icao24 VARCHAR(10),
+  callsign VARCHAR(10),
+  origin_country VARCHAR(100),
+  time_position BIGINT,
+  last_contact BIGINT,
+  longitude DOUBLE,
+  latitude DOUBLE,
+  baro_altitude DOUBLE,
+  on_ground BOOLEAN,
+  velocity DOUBLE,
+  true_track DOUBLE,
+  vertical_rate DOUBLE,
+  sensors TEXT,
+  geo_altitude DOUBLE,
+  squawk VARCHAR(10),
+  spi BOOLEAN,
+  position_source INT
+);
+`;
+
+const migration: Migration = {
+  version: 1,
+  name: 'baseline_schema',
+
+  async up(conn) {
+    await conn.query(createPilotsTable);
+    await conn.query(createPilotSchedulesTable);
+    await conn.query(createDetailedFlightsTable);
+    await conn.query(createAuditTable);
+    await conn.query(createBackupsTable);
+    await conn.query(createFlightsTable);
+  },
+
+  async down(conn) {
+    await conn.query('DROP TABLE IF EXISTS flights');
+    await conn.query('DROP TABLE IF EXISTS backups');
+    await conn.query('DROP TABLE IF EXISTS audit_logs');
+    await conn.query('DROP TABLE IF EXISTS detailed_flights');
+    await conn.query('DROP TABLE IF EXISTS pilot_schedules');
+    await conn.query('DROP TABLE IF EXISTS pilots');
+  }
+};
+
+export default migration;
@@ -0,0 +1,97 @@
+// 002_pilot_accounts.ts
+// Instructor role, account security columns, refresh-token sessions and two-factor tables
+
+import { addColumns, dropColumns } from './helpers';
+import type { Migration } from './index';
+
+const pilotColumnDefinitions = [
+  // Per-pilot automatic backup preference (settings screen toggle)
+  'auto_backup BOOLEAN DEFAULT TRUE',
+  // CFI certificate number used when signing entries
+  'instructor_certificate VARCHAR(50) NULL',
+  // Email verification, two-factor authentication and login lockout state
+  'email_verified BOOLEAN DEFAULT FALSE',
+  'email_verified_at DATETIME NULL',
+  'totp_secret VARCHAR(255) NULL',
+  'totp_enabled BOOLEAN DEFAULT FALSE',
+  'totp_enabled_at DATETIME NULL',
+  'totp_last_step BIGINT NULL',
+  'failed_login_attempts INT DEFAULT 0',
+  'last_failed_login_at DATETIME NULL',
+  'locked_until DATETIME NULL'
+];
+
+// One row per login. The refresh token rotates on every use; previous_token_hash lets a replayed
+// (already rotated) refresh token be recognised so the whole session can be revoked.
+const createSessionsTable = `
+CREATE TABLE IF NOT EXISTS sessions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  pilot_id INT NOT NULL,
+  refresh_token_hash CHAR(64) NOT NULL,
+  previous_token_hash CHAR(64) NULL,
+  device_name VARCHAR(100),
+  user_agent VARCHAR(500),
+  ip_address VARCHAR(45),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  last_used_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  revoked_at DATETIME NULL,
+  UNIQUE KEY uniq_sessions_refresh (refresh_token_hash),
+  INDEX idx_sessions_previous (previous_token_hash),
+  INDEX idx_sessions_pilot (pilot_id, revoked_at),
+  FOREIGN KEY (pilot_id) REFERENCES pilots(id) ON DELETE CASCADE
+);
+`;
+
+// Hashed single-use recovery codes for pilots with two-factor authentication
+const createRecoveryCodesTable = `
+CREATE TABLE IF NOT EXISTS two_factor_recovery_codes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  pilot_id INT NOT NULL,
+  code_hash CHAR(64) NOT NULL,
+  used_at DATETIME NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_recovery_codes_pilot (pilot_id, code_hash),
+  FOREIGN KEY (pilot_id) REFERENCES pilots(id) ON DELETE CASCADE
+);
+`;
+
+// Roles whose pilots must use two-factor authentication (set by admins)
+const createTwoFactorPolicyTable = `
+CREATE TABLE IF NOT EXISTS two_factor_policy (
+  role VARCHAR(20) PRIMARY KEY,
+  required BOOLEAN NOT NULL DEFAULT FALSE,
+  updated_by VARCHAR(255),
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+`;
+
+const migration: Migration = {
+  version: 2,
+  name: 'pilot_accounts',
+
+  async up(conn) {
+    // The dump has VARCHAR(50) usernames and no instructor role
+    await conn.query('ALTER TABLE pilots MODIFY COLUMN username VARCHAR(100) NOT NULL');
+    await conn.query("ALTER TABLE pilots MODIFY COLUMN role ENUM('pilot', 'instructor', 'admin') DEFAULT 'pilot'");
+    await addColumns(conn, 'pilots', pilotColumnDefinitions);
+
+    await conn.query(createSessionsTable);
+    await conn.query(createRecoveryCodesTable);
+    await conn.query(createTwoFactorPolicyTable);
+  },
+
+  async down(conn) {
+    await conn.query('DROP TABLE IF EXISTS two_factor_policy');
+    await conn.query('DROP TABLE IF EXISTS two_factor_recovery_codes');
+    await conn.query('DROP TABLE IF EXISTS sessions');
+
+    await dropColumns(conn, 'pilots', pilotColumnDefinitions.map(definition => definition.split(' ')[0]));
+    await conn.query("UPDATE pilots SET role = 'pilot' WHERE role = 'instructor'");
+    await conn.query("ALTER TABLE pilots MODIFY COLUMN role ENUM('admin', 'pilot') DEFAULT 'pilot'");
+    // Fails rather than truncates if a username has grown past 50 characters
+    await conn.query('ALTER TABLE pilots MODIFY COLUMN username VARCHAR(50) NOT NULL');
+  }
+};
+
+export default migration;
@@ -0,0 +1,85 @@
+// 003_aircraft_logbook.ts
+// Aircraft registry and the logbook columns (time categories, landings, actual times) on detailed_flights
+
+import { addColumns, addForeignKey, dropColumns, dropForeignKey } from './helpers';
+import type { Migration } from './index';
+
+// Aircraft registry; each pilot keeps their own list of tail numbers
+const createAircraftTable = `
+CREATE TABLE IF NOT EXISTS aircraft (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  registration VARCHAR(20) NOT NULL,
+  icao_type VARCHAR(10),
+  make VARCHAR(100),
+  model VARCHAR(100),
+  category VARCHAR(30) DEFAULT 'Airplane',
+  aircraft_class VARCHAR(30) DEFAULT 'SEL',
+  is_complex BOOLEAN DEFAULT FALSE,
+  is_high_performance BOOLEAN DEFAULT FALSE,
+  is_turbine BOOLEAN DEFAULT FALSE,
+  owner_pilot_id INT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_aircraft_owner_registration (owner_pilot_id, registration),
+  FOREIGN KEY (owner_pilot_id) REFERENCES pilots(id) ON DELETE CASCADE
+);
+`;
+
+const logbookColumnDefinitions = [
+  'departure_actual DATETIME NULL',
+  'arrival_actual DATETIME NULL',
+  'pic_hours DECIMAL(5,2) DEFAULT 0.00',
+  'sic_hours DECIMAL(5,2) DEFAULT 0.00',
+  'dual_received_hours DECIMAL(5,2) DEFAULT 0.00',
+  'dual_given_hours DECIMAL(5,2) DEFAULT 0.00',
+  'solo_hours DECIMAL(5,2) DEFAULT 0.00',
+  'night_hours DECIMAL(5,2) DEFAULT 0.00',
+  'actual_instrument_hours DECIMAL(5,2) DEFAULT 0.00',
+  'simulated_instrument_hours DECIMAL(5,2) DEFAULT 0.00',
+  'cross_country_hours DECIMAL(5,2) DEFAULT 0.00',
+  'day_landings INT DEFAULT 0',
+  'night_landings INT DEFAULT 0',
+  'approaches INT DEFAULT 0',
+  'holds INT DEFAULT 0',
+  'course_intercepts INT DEFAULT 0',
+  'remarks TEXT',
+  'aircraft_id INT NULL',
+  'pilot_id INT',
+  'version INT DEFAULT 1'
+];
+
+const migration: Migration = {
+  version: 3,
+  name: 'aircraft_logbook',
+
+  async up(conn) {
+    await conn.query(createAircraftTable);
+    await addColumns(conn, 'detailed_flights', logbookColumnDefinitions);
+
+    // The dump's created_by has no foreign key, so entries of deleted pilots may point nowhere;
+    // clear them the way ON DELETE SET NULL would have
+    await conn.query(
+      `UPDATE detailed_flights SET created_by = NULL
+       WHERE created_by IS NOT NULL AND created_by NOT IN (SELECT id FROM pilots)`
+    );
+    await addForeignKey(
+      conn, 'detailed_flights', 'fk_detailed_flights_aircraft', 'aircraft_id', 'aircraft(id) ON DELETE SET NULL'
+    );
+    await addForeignKey(
+      conn, 'detailed_flights', 'fk_detailed_flights_pilot', 'pilot_id', 'pilots(id) ON DELETE SET NULL'
+    );
+    await addForeignKey(
+      conn, 'detailed_flights', 'fk_detailed_flights_created_by', 'created_by', 'pilots(id) ON DELETE SET NULL'
+    );
+  },
+
+  async down(conn) {
+    await dropForeignKey(conn, 'detailed_flights', 'created_by');
+    await dropForeignKey(conn, 'detailed_flights', 'pilot_id');
+    await dropForeignKey(conn, 'detailed_flights', 'aircraft_id');
+    await dropColumns(conn, 'detailed_flights', logbookColumnDefinitions.map(definition => definition.split(' ')[0]));
+    await conn.query('DROP TABLE IF EXISTS aircraft');
+  }
+};
+
+export default migration;
@@ -0,0 +1,37 @@
+// 004_flight_signatures.ts
+// Instructor signatures on logbook entries
+
+import type { Migration } from './index';
+
+// Rows are never updated except to retire them (is_current = FALSE) when a signed amendment supersedes them
+const createFlightSignaturesTable = `
+CREATE TABLE IF NOT EXISTS flight_signatures (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  flight_id INT NOT NULL,
+  pilot_id INT NULL,
+  instructor_id INT NOT NULL,
+  instructor_name VARCHAR(200),
+  certificate_number VARCHAR(50) NOT NULL,
+  entry_hash CHAR(64) NOT NULL,
+  endorsement TEXT,
+  amendment_of INT NULL,
+  is_current BOOLEAN DEFAULT TRUE,
+  signed_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  INDEX idx_signatures_flight (flight_id, is_current)
+);
+`;
+
+const migration: Migration = {
+  version: 4,
+  name: 'flight_signatures',
+
+  async up(conn) {
+    await conn.query(createFlightSignaturesTable);
+  },
+
+  async down(conn) {
+    await conn.query('DROP TABLE IF EXISTS flight_signatures');
+  }
+};
+
+export default migration;
@@ -0,0 +1,54 @@
+// 005_pilot_credentials.ts
+// Pilot credentials (medicals, ratings, reviews, passport, company training) and their expiry reminders
+
+import type { Migration } from './index';
+
+const createCredentialsTable = `
+CREATE TABLE IF NOT EXISTS pilot_credentials (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  pilot_id INT NOT NULL,
+  credential_type VARCHAR(30) NOT NULL,
+  authority VARCHAR(10) DEFAULT 'FAA',
+  name VARCHAR(100),
+  medical_class TINYINT NULL,
+  age_at_issue TINYINT UNSIGNED NULL,
+  reference_number VARCHAR(100),
+  issue_date DATE NULL,
+  expiry_date DATE NULL,
+  notes TEXT,
+  created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  INDEX idx_credentials_pilot (pilot_id),
+  FOREIGN KEY (pilot_id) REFERENCES pilots(id) ON DELETE CASCADE
+);
+`;
+
+// One row per reminder sent, so the hourly job never repeats a threshold for the same expiry
+const createCredentialRemindersTable = `
+CREATE TABLE IF NOT EXISTS credential_reminders (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  credential_id INT NOT NULL,
+  threshold_days INT NOT NULL,
+  expiry_date DATE NOT NULL,
+  sent_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_credential_reminder (credential_id, threshold_days, expiry_date),
+  FOREIGN KEY (credential_id) REFERENCES pilot_credentials(id) ON DELETE CASCADE
+);
+`;
+
+const migration: Migration = {
+  version: 5,
+  name: 'pilot_credentials',
+
+  async up(conn) {
+    await conn.query(createCredentialsTable);
+    await conn.query(createCredentialRemindersTable);
+  },
+
+  async down(conn) {
+    await conn.query('DROP TABLE IF EXISTS credential_reminders');
+    await conn.query('DROP TABLE IF EXISTS pilot_credentials');
+  }
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+// 006_schedule_block_hours.ts
+// Block time on scheduled flights, used by the duty/rest checks
+
+import { addColumns, dropColumns } from './helpers';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 6,
+  name: 'schedule_block_hours',
+
+  async up(conn) {
+    await addColumns(conn, 'pilot_schedules', ['block_hours DECIMAL(5,2) NULL']);
+  },
+
+  async down(conn) {
+    await dropColumns(conn, 'pilot_schedules', ['block_hours']);
+  }
+};
+
+export default migration;
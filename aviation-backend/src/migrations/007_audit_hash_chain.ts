@@ -0,0 +1,20 @@
+// 007_audit_hash_chain.ts
+// Hash chain columns on audit_logs; rows written before chaining keep NULL hashes
+
+import { addColumns, dropColumns } from './helpers';
+import type { Migration } from './index';
+
+const migration: Migration = {
+  version: 7,
+  name: 'audit_hash_chain',
+
+  async up(conn) {
+    await addColumns(conn, 'audit_logs', ['prev_hash CHAR(64) NULL', 'entry_hash CHAR(64) NULL']);
+  },
+
+  async down(conn) {
+    await dropColumns(conn, 'audit_logs', ['prev_hash', 'entry_hash']);
+  }
+};
+
+export default migration;
@@ -0,0 +1,29 @@
+// 008_backup_metadata.ts
+// Backup metadata added with per-pilot backups and restore support
+
+import { addColumns, dropColumns } from './helpers';
+import type { Migration } from './index';
+
+const backupColumnDefinitions = [
+  "backup_type VARCHAR(20) DEFAULT 'manual'",
+  "scope VARCHAR(20) DEFAULT 'full'",
+  'pilot_id INT NULL',
+  'created_by VARCHAR(255)',
+  'size_bytes INT',
+  'record_counts JSON'
+];
+
+const migration: Migration = {
+  version: 8,
+  name: 'backup_metadata',
+
+  async up(conn) {
+    await addColumns(conn, 'backups', backupColumnDefinitions);
+  },
+
+  async down(conn) {
+    await dropColumns(conn, 'backups', backupColumnDefinitions.map(definition => definition.split(' ')[0]));
+  }
+};
+
+export default migration;
@@ -0,0 +1,36 @@
+// 009_airports.ts
+// Airport reference data; rows are seeded from data/airports.csv at startup, not by this migration
+
+import type { Migration } from './index';
+
+const createAirportsTable = `
+CREATE TABLE IF NOT EXISTS airports (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  icao VARCHAR(10) UNIQUE NOT NULL,
+  iata VARCHAR(10),
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(50),
+  city VARCHAR(100),
+  country VARCHAR(10),
+  latitude DOUBLE NOT NULL,
+  longitude DOUBLE NOT NULL,
+  elevation_ft INT,
+  timezone VARCHAR(64),
+  INDEX idx_airports_iata (iata)
+);
+`;
+
+const migration: Migration = {
+  version: 9,
+  name: 'airports',
+
+  async up(conn) {
+    await conn.query(createAirportsTable);
+  },
+
+  async down(conn) {
+    await conn.query('DROP TABLE IF EXISTS airports');
+  }
+};
+
+export default migration;
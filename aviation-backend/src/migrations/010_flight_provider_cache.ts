@@ -0,0 +1,44 @@
+// 010_flight_provider_cache.ts
+// Cached flight data provider responses and per-month provider usage for the API quota
+
+import type { Migration } from './index';
+
+const createProviderCacheTable = `
+CREATE TABLE IF NOT EXISTS flight_provider_cache (
+  cache_key VARCHAR(255) PRIMARY KEY,
+  provider VARCHAR(50) NOT NULL,
+  response JSON NOT NULL,
+  fetched_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+  expires_at DATETIME NOT NULL,
+  INDEX idx_flight_provider_cache_expires (expires_at)
+);
+`;
+
+const createProviderUsageTable = `
+CREATE TABLE IF NOT EXISTS flight_provider_usage (
+  provider VARCHAR(50) NOT NULL,
+  month CHAR(7) NOT NULL,
+  provider_calls INT NOT NULL DEFAULT 0,
+  cache_hits INT NOT NULL DEFAULT 0,
+  coalesced INT NOT NULL DEFAULT 0,
+  degraded INT NOT NULL DEFAULT 0,
+  PRIMARY KEY (provider, month)
+);
+`;
+
+const migration: Migration = {
+  version: 10,
+  name: 'flight_provider_cache',
+
+  async up(conn) {
+    await conn.query(createProviderCacheTable);
+    await conn.query(createProviderUsageTable);
+  },
+
+  async down(conn) {
+    await conn.query('DROP TABLE IF EXISTS flight_provider_usage');
+    await conn.query('DROP TABLE IF EXISTS flight_provider_cache');
+  }
+};
+
+export default migration;
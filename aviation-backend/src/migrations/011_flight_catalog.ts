@@ -0,0 +1,112 @@
+// 011_flight_catalog.ts
+// Splits detailed_flights: flight data cached from the provider moves to flight_catalog and the
+// logged rows stay behind as logbook_entries, keeping their ids so signatures and audit entries still match.
+// An unknown departure airport is stored as '' rather than NULL so the unique key still dedupes those flights
+
+import { addColumns, addForeignKey, dropColumns, dropForeignKey, tableExists } from './helpers';
+import type { Migration } from './index';
+
+const createFlightCatalogTable = `
+CREATE TABLE IF NOT EXISTS flight_catalog (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  flight_date DATE,
+  flight_status VARCHAR(50),
+  departure_airport VARCHAR(100),
+  departure_iata VARCHAR(10) NOT NULL DEFAULT '',
+  departure_icao VARCHAR(10),
+  departure_scheduled DATETIME,
+  departure_actual DATETIME NULL,
+  arrival_airport VARCHAR(100),
+  arrival_iata VARCHAR(10),
+  arrival_icao VARCHAR(10),
+  arrival_scheduled DATETIME,
+  arrival_actual DATETIME NULL,
+  airline_name VARCHAR(100),
+  airline_iata VARCHAR(10),
+  flight_number VARCHAR(10),
+  flight_iata VARCHAR(10),
+  flight_icao VARCHAR(10),
+  duration_hours DECIMAL(5,2),
+  moved_from_entry_id INT NULL,
+  updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP,
+  UNIQUE KEY uniq_flight_catalog_flight (flight_iata, flight_date, departure_iata)
+);
+`;
+
+const catalogColumnList = [
+  'flight_date', 'flight_status',
+  'departure_airport', 'departure_iata', 'departure_icao', 'departure_scheduled', 'departure_actual',
+  'arrival_airport', 'arrival_iata', 'arrival_icao', 'arrival_scheduled', 'arrival_actual',
+  'airline_name', 'airline_iata', 'flight_number', 'flight_iata', 'flight_icao', 'duration_hours'
+];
+const catalogColumns = catalogColumnList.join(', ');
+
+// The same columns read from logbook_entries into the catalog, and back again
+const toCatalog = catalogColumnList
+  .map(column => (column === 'departure_iata' ? "COALESCE(departure_iata, '')" : column))
+  .join(', ');
+const fromCatalog = catalogColumnList
+  .map(column => (column === 'departure_iata' ? "NULLIF(departure_iata, '')" : column))
+  .join(', ');
+
+// Columns a logged flight fills in; an unowned row with any of them set is the logbook entry of a deleted pilot
+const logbookContentColumns = [
+  'pic_hours', 'sic_hours', 'dual_received_hours', 'dual_given_hours', 'solo_hours', 'night_hours',
+  'actual_instrument_hours', 'simulated_instrument_hours', 'cross_country_hours',
+  'day_landings', 'night_landings', 'approaches', 'holds', 'course_intercepts'
+];
+
+// Rows nobody owns, signed or logged anything in were cached by /flights-by-date, /search-flight and /fetch-detailed-flights
+const providerRows = [
+  'created_by IS NULL',
+  'id NOT IN (SELECT flight_id FROM flight_signatures)',
+  ...logbookContentColumns.map(column => `COALESCE(${column}, 0) = 0`),
+  'remarks IS NULL',
+  'aircraft_id IS NULL'
+].join(' AND ');
+
+const migration: Migration = {
+  version: 11,
+  name: 'flight_catalog',
+
+  async up(conn) {
+    if (!(await tableExists(conn, 'logbook_entries'))) {
+      await conn.query('RENAME TABLE detailed_flights TO logbook_entries');
+    }
+    await conn.query(createFlightCatalogTable);
+
+    // Newest copy of each cached flight wins; the API cached the same flight many times over.
+    // moved_from_entry_id records where each kept copy came from so down() puts back only those rows
+    await conn.query(`
+      INSERT IGNORE INTO flight_catalog (${catalogColumns}, moved_from_entry_id)
+      SELECT ${toCatalog}, id FROM logbook_entries WHERE ${providerRows} ORDER BY id DESC
+    `);
+    await conn.query(`DELETE FROM logbook_entries WHERE ${providerRows}`);
+
+    await addColumns(conn, 'logbook_entries', ['catalog_flight_id INT NULL']);
+    await addForeignKey(
+      conn, 'logbook_entries', 'fk_logbook_entries_catalog', 'catalog_flight_id', 'flight_catalog(id) ON DELETE SET NULL'
+    );
+    await conn.query(`
+      UPDATE logbook_entries le
+      JOIN flight_catalog fc
+        ON fc.flight_iata = le.flight_iata AND fc.flight_date = le.flight_date AND fc.departure_iata = COALESCE(le.departure_iata, '')
+      SET le.catalog_flight_id = fc.id
+      WHERE le.catalog_flight_id IS NULL
+    `);
+  },
+
+  async down(conn) {
+    await dropForeignKey(conn, 'logbook_entries', 'catalog_flight_id');
+    await dropColumns(conn, 'logbook_entries', ['catalog_flight_id']);
+    // Only the rows up() moved, under their old ids; flights catalogued since never were logbook rows
+    await conn.query(`
+      INSERT IGNORE INTO logbook_entries (id, ${catalogColumns})
+      SELECT moved_from_entry_id, ${fromCatalog} FROM flight_catalog WHERE moved_from_entry_id IS NOT NULL
+    `);
+    await conn.query('DROP TABLE IF EXISTS flight_catalog');
+    await conn.query('RENAME TABLE logbook_entries TO detailed_flights');
+  }
+};
+
+export default migration;
@@ -0,0 +1,43 @@
+// 012_live_positions.ts
+// Indexes for the ADS-B ingestion worker on the prototype's flights table (one row per aircraft position)
+
+import { indexExists } from './helpers';
+import type { Migration } from './index';
+
+const positionIndexes = [
+  { name: 'uniq_flights_position', definition: 'UNIQUE INDEX uniq_flights_position (icao24, time_position)' },
+  { name: 'idx_flights_callsign', definition: 'INDEX idx_flights_callsign (callsign, time_position)' },
+  { name: 'idx_flights_time_position', definition: 'INDEX idx_flights_time_position (time_position)' },
+  { name: 'idx_flights_last_contact', definition: 'INDEX idx_flights_last_contact (last_contact)' }
+];
+
+const migration: Migration = {
+  version: 12,
+  name: 'live_positions',
+
+  async up(conn) {
+    // OpenSky pads callsigns to eight characters; lookups compare them trimmed
+    await conn.query('UPDATE flights SET callsign = TRIM(callsign) WHERE callsign <> TRIM(callsign)');
+    await conn.query(`
+      DELETE later FROM flights later
+      JOIN flights earlier
+        ON earlier.icao24 = later.icao24 AND earlier.time_position = later.time_position AND earlier.id < later.id
+    `);
+
+    for (const { name, definition } of positionIndexes) {
+      if (!(await indexExists(conn, 'flights', name))) {
+        await conn.query(`ALTER TABLE flights ADD ${definition}`);
+      }
+    }
+  },
+
+  async down(conn) {
+    for (const { name } of positionIndexes) {
+      if (await indexExists(conn, 'flights', name)) {
+        await conn.query(`ALTER TABLE flights DROP INDEX ${name}`);
+      }
+    }
+  }
+};
+
+export default migration;
@@ -0,0 +1,88 @@
+// helpers.ts
+// Schema inspection helpers so migrations can adopt databases created before migrations existed
+
+import type { PoolConnection } from 'mysql2/promise';
+import type { RowDataPacket } from 'mysql2';
+
+// Helper function to check whether a column exists in the current database
+export async function columnExists(conn: PoolConnection, table: string, column: string): Promise<boolean> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT 1 FROM information_schema.COLUMNS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ?`,
+    [table, column]
+  );
+  return rows.length > 0;
+}
+
+/**
+ * Add columns given as full definitions ('pic_hours DECIMAL(5,2) DEFAULT 0.00').
+ * Columns that already exist are left alone: databases set up by the old startup code have
+ * some or all of them.
+ */
+export async function addColumns(conn: PoolConnection, table: string, definitions: string[]): Promise<void> {
+  for (const definition of definitions) {
+    const column = definition.split(' ')[0];
+    if (!(await columnExists(conn, table, column))) {
+      await conn.query(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
+    }
+  }
+}
+
+// Drop the given columns, skipping any that are already gone
+export async function dropColumns(conn: PoolConnection, table: string, columns: string[]): Promise<void> {
+  for (const column of columns) {
+    if (await columnExists(conn, table, column)) {
+      await conn.query(`ALTER TABLE ${table} DROP COLUMN ${column}`);
+    }
+  }
+}
+
+// Name of the foreign key on `table.column`, or null if there is none
+export async function findForeignKey(conn: PoolConnection, table: string, column: string): Promise<string | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT CONSTRAINT_NAME FROM information_schema.KEY_COLUMN_USAGE
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND COLUMN_NAME = ? AND REFERENCED_TABLE_NAME IS NOT NULL`,
+    [table, column]
+  );
+  return rows[0] ? rows[0].CONSTRAINT_NAME : null;
+}
+
+// Add a foreign key unless the column already has one (old startup code created them unnamed)
+export async function addForeignKey(
+  conn: PoolConnection,
+  table: string,
+  name: string,
+  column: string,
+  references: string
+): Promise<void> {
+  if (!(await findForeignKey(conn, table, column))) {
+    await conn.query(`ALTER TABLE ${table} ADD CONSTRAINT ${name} FOREIGN KEY (${column}) REFERENCES ${references}`);
+  }
+}
+
+// Drop the foreign key on `table.column`, whatever it is called
+export async function dropForeignKey(conn: PoolConnection, table: string, column: string): Promise<void> {
+  const name = await findForeignKey(conn, table, column);
+  if (name) {
+    await conn.query(`ALTER TABLE ${table} DROP FOREIGN KEY ${name}`);
+  }
+}
+
+// Helper function to check whether an index exists on a table
+export async function indexExists(conn: PoolConnection, table: string, index: string): Promise<boolean> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT 1 FROM information_schema.STATISTICS
+     WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ? AND INDEX_NAME = ?`,
+    [table, index]
+  );
+  return rows.length > 0;
+}
+
+// Helper function to check whether a table exists in the current database
+export async function tableExists(conn: PoolConnection, table: string): Promise<boolean> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT 1 FROM information_schema.TABLES WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = ?',
+    [table]
+  );
+  return rows.length > 0;
+}
@@ -0,0 +1,42 @@
+// index.ts
+// Ordered list of schema migrations. Append new ones; never edit or renumber a migration that has shipped.
+
+import baselineSchema from './001_baseline_schema';
+import pilotAccounts from './002_pilot_accounts';
+import aircraftLogbook from './003_aircraft_logbook';
+import flightSignatures from './004_flight_signatures';
+import pilotCredentials from './005_pilot_credentials';
+import scheduleBlockHours from './006_schedule_block_hours';
+import auditHashChain from './007_audit_hash_chain';
+import backupMetadata from './008_backup_metadata';
+import airports from './009_airports';
+import flightProviderCache from './010_flight_provider_cache';
+import flightCatalog from './011_flight_catalog';
+import livePositions from './012_live_positions';
+import type { PoolConnection } from 'mysql2/promise';
+
+/**
+ * A schema change and its inverse. MySQL commits DDL implicitly, so a migration that fails halfway
+ * is not rolled back; `up` should be safe to run again over its own partial result.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up(conn: PoolConnection): Promise<void>;
+  down(conn: PoolConnection): Promise<void>;
+}
+
+export const migrations: Migration[] = [
+  baselineSchema,
+  pilotAccounts,
+  aircraftLogbook,
+  flightSignatures,
+  pilotCredentials,
+  scheduleBlockHours,
+  auditHashChain,
+  backupMetadata,
+  airports,
+  flightProviderCache,
+  flightCatalog,
+  livePositions
+];
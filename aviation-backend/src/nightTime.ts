@@ -0,0 +1,139 @@
+// nightTime.ts
+// Night time along a great-circle track, using civil twilight (sun 6° below the horizon)
+
+const CIVIL_TWILIGHT_ELEVATION = -6;
+const SAMPLE_INTERVAL_MINUTES = 1;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface NightTimeInput {
+  from: Coordinates | null | undefined;
+  to: Coordinates | null | undefined;
+  departureTime: Date | string | null | undefined;
+  arrivalTime: Date | string | null | undefined;
+}
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Helper function to normalise a Date or a zone-less "YYYY-MM-DD HH:MM:SS" string (treated as UTC)
+export function toUtcDate(value: Date | string | null | undefined): Date | null {
+  if (!value) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  const str = String(value).trim();
+  const hasZone = /([zZ]|[+-]\d{2}:?\d{2})$/.test(str);
+  const date = new Date(hasZone ? str : `${str.replace(' ', 'T')}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+// Sun elevation in degrees above the horizon (low-precision NOAA/USNO algorithm, good to ~0.1°)
+export function solarElevation(date: Date, latitude: number, longitude: number): number {
+  const daysSinceJ2000 = date.getTime() / 86400000 + 2440587.5 - 2451545.0;
+
+  const meanAnomaly = toRadians((357.529 + 0.98560028 * daysSinceJ2000) % 360);
+  const meanLongitude = (280.459 + 0.98564736 * daysSinceJ2000) % 360;
+  const eclipticLongitude = toRadians(
+    meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.020 * Math.sin(2 * meanAnomaly)
+  );
+  const obliquity = toRadians(23.439 - 0.00000036 * daysSinceJ2000);
+
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude)
+  );
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+
+  const gmstHours = (18.697374558 + 24.06570982441908 * daysSinceJ2000) % 24;
+  const hourAngle = toRadians(gmstHours * 15 + longitude) - rightAscension;
+
+  const lat = toRadians(latitude);
+  const elevation = Math.asin(
+    Math.sin(lat) * Math.sin(declination) +
+    Math.cos(lat) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+
+  return toDegrees(elevation);
+}
+
+export function isNight(date: Date, latitude: number, longitude: number): boolean {
+  return solarElevation(date, latitude, longitude) < CIVIL_TWILIGHT_ELEVATION;
+}
+
+// Point at `fraction` (0..1) of the great-circle path between two coordinates
+export function interpolateGreatCircle(from: Coordinates, to: Coordinates, fraction: number): Coordinates {
+  const lat1 = toRadians(from.latitude);
+  const lon1 = toRadians(from.longitude);
+  const lat2 = toRadians(to.latitude);
+  const lon2 = toRadians(to.longitude);
+
+  const angularDistance = 2 * Math.asin(Math.sqrt(
+    Math.sin((lat2 - lat1) / 2) ** 2 +
+    Math.cos(lat1) * Math.cos(lat2) * Math.sin((lon2 - lon1) / 2) ** 2
+  ));
+
+  if (angularDistance === 0) {
+    return { latitude: from.latitude, longitude: from.longitude };
+  }
+
+  const a = Math.sin((1 - fraction) * angularDistance) / Math.sin(angularDistance);
+  const b = Math.sin(fraction * angularDistance) / Math.sin(angularDistance);
+
+  const x = a * Math.cos(lat1) * Math.cos(lon1) + b * Math.cos(lat2) * Math.cos(lon2);
+  const y = a * Math.cos(lat1) * Math.sin(lon1) + b * Math.cos(lat2) * Math.sin(lon2);
+  const z = a * Math.sin(lat1) + b * Math.sin(lat2);
+
+  return {
+    latitude: toDegrees(Math.atan2(z, Math.sqrt(x * x + y * y))),
+    longitude: toDegrees(Math.atan2(y, x))
+  };
+}
+
+/**
+ * Compute night minutes for a flight flown along the great circle between two airports.
+ * `from`/`to` need latitude/longitude; times are Dates or UTC strings.
+ * The single landing at the destination counts as a night landing when it happens
+ * between evening and morning civil twilight.
+ */
+export function computeNightTime({ from, to, departureTime, arrivalTime }: NightTimeInput) {
+  const departure = toUtcDate(departureTime);
+  const arrival = toUtcDate(arrivalTime);
+
+  if (!from || !to || !departure || !arrival) {
+    throw new Error('Departure/arrival airports and times are required');
+  }
+
+  const totalMinutes = Math.round((arrival.getTime() - departure.getTime()) / 60000);
+  if (totalMinutes <= 0) {
+    throw new Error('Arrival time must be after departure time');
+  }
+
+  // Sample the middle of each interval so a flight of N minutes yields N samples
+  let nightMinutes = 0;
+  for (let minute = 0; minute < totalMinutes; minute += SAMPLE_INTERVAL_MINUTES) {
+    const span = Math.min(SAMPLE_INTERVAL_MINUTES, totalMinutes - minute);
+    const elapsed = minute + span / 2;
+    const position = interpolateGreatCircle(from, to, elapsed / totalMinutes);
+    const sampleTime = new Date(departure.getTime() + elapsed * 60000);
+
+    if (isNight(sampleTime, position.latitude, position.longitude)) {
+      nightMinutes += span;
+    }
+  }
+
+  const nightTakeoff = isNight(departure, from.latitude, from.longitude);
+  const nightLanding = isNight(arrival, to.latitude, to.longitude);
+
+  return {
+    totalMinutes,
+    nightMinutes,
+    nightHours: Math.round((nightMinutes / 60) * 100) / 100,
+    nightTakeoff,
+    nightLanding,
+    dayLandings: nightLanding ? 0 : 1,
+    nightLandings: nightLanding ? 1 : 0
+  };
+}
@@ -0,0 +1,56 @@
+// notifications.ts
+// Pilot notifications (schedule reminders, credential expiry reminders)
+
+import { recordAuditLog } from './audit';
+import type { EvaluatedCredential } from './credentials';
+
+export interface NotifiedPilot {
+  id: number;
+  email: string;
+  username?: string;
+}
+
+// The schedule fields a reminder mentions
+export interface ScheduledFlight {
+  flight_number: string;
+  flight_date: Date | string;
+  flight_time: string;
+}
+
+// Helper function to deliver a notification to a pilot
+function sendPilotNotification(pilot: NotifiedPilot, details: Record<string, unknown>): void {
+  console.log(`📬 Sending notification to pilot ${pilot.email}`);
+  // In a real implementation, this would send email/push notification
+  recordAuditLog(
+    'notification_sent',
+    'pilot',
+    pilot.id,
+    'system',
+    details
+  );
+}
+
+// Helper function to send notification
+export function sendScheduleNotification(pilot: NotifiedPilot, schedule: ScheduledFlight): void {
+  console.log(`✈️ Flight ${schedule.flight_number} on ${schedule.flight_date} at ${schedule.flight_time}`);
+  sendPilotNotification(pilot, {
+    message: 'Scheduling notification sent',
+    flight: schedule.flight_number,
+    date: schedule.flight_date,
+    time: schedule.flight_time
+  });
+}
+
+// Helper function to send a credential expiry reminder
+export function sendCredentialReminder(pilot: NotifiedPilot, credential: EvaluatedCredential, thresholdDays: number): void {
+  const label = credential.name || credential.credential_type.replace(/_/g, ' ');
+  console.log(`🪪 ${label} expires on ${credential.computed_expiry} (${credential.days_remaining} days)`);
+  sendPilotNotification(pilot, {
+    message: `Credential expires within ${thresholdDays} days`,
+    credential_id: credential.id,
+    credential_type: credential.credential_type,
+    name: credential.name,
+    expiry_date: credential.computed_expiry,
+    days_remaining: credential.days_remaining
+  });
+}
@@ -0,0 +1,45 @@
+// permissions.ts
+// Role → permission model used by the requirePermission middleware
+
+import type { Permission, Role } from 'aviation-shared';
+
+export const ROLES: Role[] = ['pilot', 'instructor', 'admin'];
+
+/**
+ * Permissions:
+ * - audit:read        browse, verify and export the audit log
+ * - backup:run        back up your own data
+ * - backup:full       full-database backups and restores
+ * - schedule:upload   upload pilot schedules
+ * - flights:read_all  see every pilot's flights and analytics
+ * - flights:edit_all  edit and delete any pilot's flights
+ * - flights:ingest    pull flights from the external flight data API
+ * - flights:sign      sign and amend student logbook entries
+ * - pilots:manage     list pilots, change roles and (de)activate accounts
+ */
+export const PERMISSIONS: Permission[] = [
+  'audit:read',
+  'backup:run',
+  'backup:full',
+  'schedule:upload',
+  'flights:read_all',
+  'flights:edit_all',
+  'flights:ingest',
+  'flights:sign',
+  'pilots:manage'
+];
+
+const rolePermissions: Record<Role, Permission[]> = {
+  pilot: ['backup:run', 'schedule:upload'],
+  instructor: ['backup:run', 'schedule:upload', 'flights:sign'],
+  admin: PERMISSIONS.filter(permission => permission !== 'flights:sign')
+};
+
+// Permissions granted to a role (unknown roles get none)
+export function permissionsFor(role: string | undefined): Permission[] {
+  return rolePermissions[role as Role] || [];
+}
+
+export function hasPermission(role: string | undefined, permission: Permission): boolean {
+  return permissionsFor(role).includes(permission);
+}
@@ -0,0 +1,188 @@
+// providerCache.ts
+// Caching in front of the flight data provider: responses are kept in flight_provider_cache for a
+// time that depends on flight status, identical lookups in progress are shared, and provider calls
+// are counted against a monthly quota. Once the quota is used up, stale responses are served instead.
+
+import moment from 'moment-timezone';
+import {
+  countCachedResponses,
+  findCachedResponse,
+  findProviderUsage,
+  incrementProviderUsage,
+  reserveProviderCall,
+  saveCachedResponse
+} from './repositories/providerCache';
+import type { FlightDataProvider } from './flightProviders';
+import type { ProviderUsageCounter } from './repositories/providerCache';
+import type { Flight } from 'aviation-shared';
+
+// Expired responses are kept this long to fall back on when the provider is out of quota or down
+export const PROVIDER_CACHE_STALE_DAYS = Number(process.env.PROVIDER_CACHE_STALE_DAYS) || 30;
+
+// Provider calls allowed per calendar month (UTC); AviationStack's free plan allows 100
+const DEFAULT_MONTHLY_QUOTAS: Record<string, number> = { aviationstack: 100 };
+
+// How long a flight lookup stays fresh, by the least settled flight status in the response
+const STATUS_TTL_SECONDS: Record<string, number> = {
+  active: 5 * 60,
+  scheduled: 30 * 60,
+  landed: 24 * 60 * 60,
+  cancelled: 24 * 60 * 60,
+  diverted: 24 * 60 * 60,
+  incident: 24 * 60 * 60
+};
+const EMPTY_TTL_SECONDS = 15 * 60;
+const AIRPORT_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// Lookups waiting on the provider, by cache key
+const inFlight = new Map<string, Promise<unknown>>();
+
+export function monthlyQuota(provider: string): number | null {
+  return Number(process.env.FLIGHT_PROVIDER_MONTHLY_QUOTA) || DEFAULT_MONTHLY_QUOTAS[provider] || null;
+}
+
+const currentMonth = () => moment.utc().format('YYYY-MM');
+
+// Helper function to bump a usage counter without holding up the lookup
+function countUsage(provider: string, counter: ProviderUsageCounter) {
+  incrementProviderUsage(provider, currentMonth(), counter).catch(err => {
+    console.error('❌ Provider Usage Error:', err.message);
+  });
+}
+
+function flightsTtl(flights: Flight[]): number {
+  if (flights.length === 0) return EMPTY_TTL_SECONDS;
+  return Math.min(...flights.map(flight => STATUS_TTL_SECONDS[flight.flight_status] || STATUS_TTL_SECONDS.scheduled));
+}
+
+// Helper function to take one provider call out of this month's quota; false once it is used up
+async function reserveCall(provider: string): Promise<boolean> {
+  const quota = monthlyQuota(provider);
+  if (!quota) {
+    countUsage(provider, 'provider_calls');
+    return true;
+  }
+
+  try {
+    return await reserveProviderCall(provider, currentMonth(), quota);
+  } catch (err) {
+    console.error('❌ Provider Usage Error:', err.message);
+    return true;
+  }
+}
+
+async function lookup<T>(provider: FlightDataProvider, key: string, ttlFor: (result: T) => number, fetch: () => Promise<T>): Promise<T> {
+  const cacheKey = `${provider.name}:${key}`;
+
+  let cached = null;
+  try {
+    cached = await findCachedResponse(cacheKey);
+  } catch (err) {
+    console.error('❌ Provider Cache Error:', err.message);
+  }
+
+  if (cached?.fresh) {
+    countUsage(provider.name, 'cache_hits');
+    return cached.response;
+  }
+
+  if (!(await reserveCall(provider.name))) {
+    countUsage(provider.name, 'degraded');
+    if (cached) {
+      console.warn(`⚠️ ${provider.name} monthly quota reached, serving ${key} from ${moment(cached.fetched_at).fromNow()}`);
+      return cached.response;
+    }
+    throw new Error(`Monthly ${provider.name} quota reached`);
+  }
+
+  let result: T;
+  try {
+    result = await fetch();
+  } catch (err) {
+    if (!cached) throw err;
+    console.warn(`⚠️ ${provider.name} lookup failed (${err.message}), serving stale ${key}`);
+    return cached.response;
+  }
+
+  saveCachedResponse(cacheKey, provider.name, result, ttlFor(result)).catch(err => {
+    console.error('❌ Provider Cache Error:', err.message);
+  });
+  return result;
+}
+
+// Helper function to share one lookup between callers asking for the same thing at the same time
+function coalesce<T>(provider: FlightDataProvider, key: string, ttlFor: (result: T) => number, fetch: () => Promise<T>): Promise<T> {
+  const cacheKey = `${provider.name}:${key}`;
+  const pending = inFlight.get(cacheKey);
+  if (pending) {
+    countUsage(provider.name, 'coalesced');
+    return pending as Promise<T>;
+  }
+
+  const result = lookup(provider, key, ttlFor, fetch).finally(() => inFlight.delete(cacheKey));
+  inFlight.set(cacheKey, result);
+  return result;
+}
+
+// Wrap a provider so every lookup goes through the cache, coalescing and quota
+export function withProviderCache(provider: FlightDataProvider): FlightDataProvider {
+  return {
+    ...provider,
+    searchByFlightNumber: (flight, date) => coalesce(
+      provider,
+      `flight:${flight.trim().toUpperCase()}:${date}`,
+      flightsTtl,
+      () => provider.searchByFlightNumber(flight, date)
+    ),
+    searchByRoute: (departure, arrival, date) => coalesce(
+      provider,
+      `route:${departure.trim().toUpperCase()}:${arrival.trim().toUpperCase()}:${date}`,
+      flightsTtl,
+      () => provider.searchByRoute(departure, arrival, date)
+    ),
+    searchByDate: (date, limit) => coalesce(
+      provider,
+      `date:${date}:${limit}`,
+      flightsTtl,
+      () => provider.searchByDate(date, limit)
+    ),
+    getAirportInfo: code => coalesce(
+      provider,
+      `airport:${code.trim().toUpperCase()}`,
+      airport => (airport ? AIRPORT_TTL_SECONDS : EMPTY_TTL_SECONDS),
+      () => provider.getAirportInfo(code)
+    )
+  };
+}
+
+// This month's cache hit rate and remaining quota for a provider
+export async function providerUsageReport(provider: FlightDataProvider) {
+  const month = currentMonth();
+  const quota = monthlyQuota(provider.name);
+  const [usage, cache] = await Promise.all([
+    findProviderUsage(provider.name, month),
+    countCachedResponses(provider.name)
+  ]);
+
+  const providerCalls = usage?.provider_calls || 0;
+  const cacheHits = usage?.cache_hits || 0;
+  const coalesced = usage?.coalesced || 0;
+  const degraded = usage?.degraded || 0;
+  const lookups = providerCalls + cacheHits + coalesced + degraded;
+
+  return {
+    provider: provider.name,
+    cached: !provider.local,
+    month,
+    lookups,
+    cacheHits,
+    coalesced,
+    providerCalls,
+    degraded,
+    hitRate: lookups > 0 ? Math.round(((cacheHits + coalesced) / lookups) * 1000) / 1000 : null,
+    quota,
+    remainingQuota: quota ? Math.max(quota - providerCalls, 0) : null,
+    cacheEntries: cache.entries,
+    freshCacheEntries: cache.fresh
+  };
+}
@@ -0,0 +1,53 @@
+// aircraft.ts
+// Aircraft registry (aircraft)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+// Registry entries by registration; `ownerId` null lists every pilot's aircraft
+export async function listAircraft(ownerId: number | null, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = ownerId === null
+    ? await conn.query<RowDataPacket[]>('SELECT * FROM aircraft ORDER BY registration ASC')
+    : await conn.query<RowDataPacket[]>('SELECT * FROM aircraft WHERE owner_pilot_id = ? ORDER BY registration ASC', [ownerId]);
+  return rows;
+}
+
+export async function findAircraftById(id: number | string, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT * FROM aircraft WHERE id = ?', [id]);
+  return rows[0] || null;
+}
+
+// An aircraft only if the pilot owns it (flights may only link to their pilot's aircraft)
+export async function findOwnedAircraft(id: number, ownerId: number, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT id, registration FROM aircraft WHERE id = ? AND owner_pilot_id = ?',
+    [id, ownerId]
+  );
+  return rows[0] || null;
+}
+
+// Registrations of a pilot's aircraft, for matching imported rows
+export async function listAircraftRegistrations(ownerId: number, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT id, registration FROM aircraft WHERE owner_pilot_id = ?', [ownerId]);
+  return rows;
+}
+
+export async function insertAircraft(aircraft: object, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO aircraft SET ?', aircraft);
+  return result.insertId;
+}
+
+// Update and delete only touch the owner's aircraft and resolve to whether one matched
+export async function updateAircraft(id: number | string, ownerId: number, fields: object, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'UPDATE aircraft SET ? WHERE id = ? AND owner_pilot_id = ?',
+    [fields, id, ownerId]
+  );
+  return result.affectedRows > 0;
+}
+
+export async function deleteAircraft(id: number | string, ownerId: number, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>('DELETE FROM aircraft WHERE id = ? AND owner_pilot_id = ?', [id, ownerId]);
+  return result.affectedRows > 0;
+}
@@ -0,0 +1,54 @@
+// airports.ts
+// Airport reference table (airports), seeded from the bundled CSV
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { Airport } from '../airports';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+const airportColumns = 'icao, iata, name, type, city, country, latitude, longitude, elevation_ft, timezone';
+
+// Up to 20 airports matching a code, name or city; exact code matches first
+export async function searchAirports(query: string, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const code = query.toUpperCase();
+  const pattern = `%${query}%`;
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT ${airportColumns}
+    FROM airports
+    WHERE icao = ? OR iata = ? OR name LIKE ? OR city LIKE ?
+    ORDER BY (icao = ? OR iata = ?) DESC, name ASC
+    LIMIT 20
+  `, [code, code, pattern, pattern, code, code]);
+  return rows;
+}
+
+// Airport by ICAO or IATA code, preferring an ICAO match
+export async function findAirportByCode(code: string, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT ${airportColumns}
+    FROM airports
+    WHERE icao = ? OR iata = ?
+    ORDER BY icao = ? DESC
+    LIMIT 1
+  `, [code, code, code]);
+  return rows[0] || null;
+}
+
+// Insert airports, or update the ones already there (keyed by ICAO code)
+export async function upsertAirports(airports: Airport[], conn: Queryable = db): Promise<void> {
+  if (airports.length === 0) return;
+
+  const values = airports.map(airport => [
+    airport.icao, airport.iata, airport.name, airport.type, airport.city, airport.country,
+    airport.latitude, airport.longitude, airport.elevation_ft, airport.timezone
+  ]);
+
+  await conn.query<ResultSetHeader>(`
+    INSERT INTO airports (${airportColumns}) VALUES ?
+    ON DUPLICATE KEY UPDATE
+      iata = VALUES(iata), name = VALUES(name), type = VALUES(type),
+      city = VALUES(city), country = VALUES(country),
+      latitude = VALUES(latitude), longitude = VALUES(longitude),
+      elevation_ft = VALUES(elevation_ft), timezone = VALUES(timezone)
+  `, [values]);
+}
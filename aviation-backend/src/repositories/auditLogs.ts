@@ -0,0 +1,113 @@
+// auditLogs.ts
+// Audit log entries and their hash chain (audit_logs)
+
+import db, { pool } from '../db';
+import type { Queryable } from '../db';
+import type { ChainedAuditRow } from '../auditChain';
+import type { PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { Readable } from 'stream';
+
+// WHERE and ORDER BY clauses (each with a leading space, or empty) built from search filters
+export interface AuditLogFilter {
+  where: string;
+  params: unknown[];
+  orderBy: string;
+}
+
+// Hash of the newest chained entry, or null before the first one
+export async function findLastAuditHash(conn: Queryable = db): Promise<string | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT entry_hash FROM audit_logs WHERE entry_hash IS NOT NULL ORDER BY id DESC LIMIT 1'
+  );
+  return rows.length > 0 ? rows[0].entry_hash : null;
+}
+
+export async function insertAuditEntry(entry: object, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>('INSERT INTO audit_logs SET ?', entry);
+}
+
+// Every entry about one entity, oldest first
+export async function listEntityAuditLogs(entity: string, entityId: string, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT id, action, user_id, timestamp, details, flight_details
+     FROM audit_logs
+     WHERE entity = ? AND entity_id = ?
+     ORDER BY timestamp ASC, id ASC`,
+    [entity, entityId]
+  );
+  return rows;
+}
+
+export async function countAuditLogs({ where, params }: AuditLogFilter, conn: Queryable = db): Promise<number> {
+  const [rows] = await conn.query<RowDataPacket[]>(`SELECT COUNT(*) as total FROM audit_logs${where}`, params);
+  return rows[0].total;
+}
+
+export async function searchAuditLogs(
+  { where, params, orderBy }: AuditLogFilter,
+  limit: number,
+  offset: number,
+  conn: Queryable = db
+): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT * FROM audit_logs${where}${orderBy} LIMIT ? OFFSET ?`,
+    [...params, limit, offset]
+  );
+  return rows;
+}
+
+// Distinct actions, entities and users for the filter panel
+export async function listAuditFacets(conn: Queryable = db) {
+  const [actions] = await conn.query<RowDataPacket[]>('SELECT DISTINCT action FROM audit_logs ORDER BY action');
+  const [entities] = await conn.query<RowDataPacket[]>('SELECT DISTINCT entity FROM audit_logs ORDER BY entity');
+  const [users] = await conn.query<RowDataPacket[]>('SELECT DISTINCT user_id FROM audit_logs ORDER BY user_id');
+
+  return {
+    actions: actions.map(row => row.action as string),
+    entities: entities.map(row => row.entity as string),
+    users: users.map(row => row.user_id as string)
+  };
+}
+
+// Number of entries per action over the last `hours`, for the given actions
+export async function countRecentActions(actions: string[], hours: number, conn: Queryable = db): Promise<Record<string, number>> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT action, COUNT(*) AS count
+     FROM audit_logs
+     WHERE action IN (?) AND timestamp >= NOW() - INTERVAL ? HOUR
+     GROUP BY action`,
+    [actions, hours]
+  );
+  return Object.fromEntries(actions.map(action => {
+    const row = rows.find(event => event.action === action);
+    return [action, row ? Number(row.count) : 0];
+  }));
+}
+
+/**
+ * Stream matching entries with dates as MySQL strings on a connection of its own from the callback
+ * pool, which can stream rows. The connection goes back to the pool once the stream closes; a stream
+ * destroyed part way through leaves unread rows on it, so that connection is closed instead.
+ */
+export async function streamAuditLogs(columns: string[], { where, params, orderBy }: AuditLogFilter): Promise<Readable> {
+  const conn = await new Promise<PoolConnection>((resolve, reject) => {
+    pool.getConnection((err, connection) => (err ? reject(err) : resolve(connection)));
+  });
+
+  const stream = conn
+    .query<RowDataPacket[]>({ sql: `SELECT ${columns.join(', ')} FROM audit_logs${where}${orderBy}`, values: params, dateStrings: true })
+    .stream({ highWaterMark: 200 });
+  stream.once('close', () => (stream.readableEnded ? conn.release() : conn.destroy()));
+  return stream;
+}
+
+// The next batch of entries after `afterId` with everything the chain hash covers
+export async function listAuditChainBatch(afterId: number, limit: number, conn: Queryable = db): Promise<ChainedAuditRow[]> {
+  const [rows] = await conn.query<(ChainedAuditRow & RowDataPacket)[]>({
+    sql: `SELECT id, action, entity, entity_id, user_id, user_name, timestamp, details, flight_details, prev_hash, entry_hash
+          FROM audit_logs WHERE id > ? ORDER BY id ASC LIMIT ?`,
+    values: [afterId, limit],
+    dateStrings: true
+  });
+  return rows;
+}
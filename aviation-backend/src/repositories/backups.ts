@@ -0,0 +1,83 @@
+// backups.ts
+// Stored backup snapshots (backups)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+// Columns returned when listing backups (the snapshot itself is only read for download and restore)
+const backupListColumns = 'id, timestamp, backup_type, scope, pilot_id, created_by, size_bytes, record_counts';
+
+export interface NewBackup {
+  data: string;
+  backup_type: string;
+  scope: string;
+  pilot_id: number | null;
+  created_by: string;
+  size_bytes: number;
+  record_counts: string;
+}
+
+export async function insertBackup(backup: NewBackup, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO backups SET ?', backup);
+  return result.insertId;
+}
+
+export async function findBackupById(
+  id: number | string,
+  { withData = false }: { withData?: boolean } = {},
+  conn: Queryable = db
+): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT ${backupListColumns}${withData ? ', data' : ''} FROM backups WHERE id = ?`,
+    [id]
+  );
+  return rows[0] || null;
+}
+
+// Newest first; `pilotId` limits the list to that pilot's pilot backups, null lists every backup
+export async function listBackups(pilotId: number | null, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = pilotId === null
+    ? await conn.query<RowDataPacket[]>(`SELECT ${backupListColumns} FROM backups ORDER BY timestamp DESC, id DESC`)
+    : await conn.query<RowDataPacket[]>(
+      `SELECT ${backupListColumns} FROM backups WHERE scope = 'pilot' AND pilot_id = ? ORDER BY timestamp DESC, id DESC`,
+      [pilotId]
+    );
+  return rows;
+}
+
+// Automatic backups, newest first, for retention
+export async function listAutoBackups(conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT id, scope, pilot_id, timestamp
+    FROM backups
+    WHERE backup_type = 'auto'
+    ORDER BY timestamp DESC, id DESC
+  `);
+  return rows;
+}
+
+// Time of the newest automatic full backup, or null if there is none
+export async function findLastFullAutoBackupTime(conn: Queryable = db): Promise<Date | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT MAX(timestamp) AS last_backup FROM backups WHERE backup_type = 'auto' AND scope = 'full'`
+  );
+  return rows[0].last_backup;
+}
+
+// Active pilots with automatic backups on, with the time of their newest automatic pilot backup
+export async function listAutoBackupPilots(conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT p.id, p.email, p.role,
+      (SELECT MAX(b.timestamp) FROM backups b
+        WHERE b.backup_type = 'auto' AND b.scope = 'pilot' AND b.pilot_id = p.id) AS last_backup
+    FROM pilots p
+    WHERE p.is_active = TRUE AND p.auto_backup = TRUE
+  `);
+  return rows;
+}
+
+export async function deleteBackups(ids: number[], conn: Queryable = db): Promise<void> {
+  if (ids.length === 0) return;
+  await conn.query<ResultSetHeader>('DELETE FROM backups WHERE id IN (?)', [ids]);
+}
@@ -0,0 +1,72 @@
+// credentials.ts
+// Pilot credentials (pilot_credentials) and the reminders sent about them (credential_reminders)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { CredentialRow } from '../credentials';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+// A credential with the pilot it belongs to
+export interface ActiveCredentialRow extends CredentialRow {
+  pilot_id: number;
+  email: string;
+  username: string;
+}
+
+export async function listPilotCredentials(pilotId: number | string, conn: Queryable = db): Promise<CredentialRow[]> {
+  const [rows] = await conn.query<(CredentialRow & RowDataPacket)[]>(
+    'SELECT * FROM pilot_credentials WHERE pilot_id = ? ORDER BY credential_type, name',
+    [pilotId]
+  );
+  return rows;
+}
+
+// Credentials of every active pilot, with the pilot to remind
+export async function listActiveCredentials(conn: Queryable = db): Promise<ActiveCredentialRow[]> {
+  const [rows] = await conn.query<(ActiveCredentialRow & RowDataPacket)[]>(`
+    SELECT pc.*, p.email, p.username
+    FROM pilot_credentials pc
+    JOIN pilots p ON pc.pilot_id = p.id
+    WHERE p.is_active = TRUE
+  `);
+  return rows;
+}
+
+export async function insertCredential(credential: object, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO pilot_credentials SET ?', credential);
+  return result.insertId;
+}
+
+// Update and delete only touch the pilot's own credentials and resolve to whether one matched
+export async function updateCredential(id: number | string, pilotId: number, fields: object, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'UPDATE pilot_credentials SET ? WHERE id = ? AND pilot_id = ?',
+    [fields, id, pilotId]
+  );
+  return result.affectedRows > 0;
+}
+
+export async function deleteCredential(id: number | string, pilotId: number, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'DELETE FROM pilot_credentials WHERE id = ? AND pilot_id = ?',
+    [id, pilotId]
+  );
+  return result.affectedRows > 0;
+}
+
+/**
+ * Record that a reminder threshold was reached for a credential's expiry. Resolves to true only
+ * the first time for this threshold and expiry date, so each reminder goes out once.
+ */
+export async function claimCredentialReminder(
+  credentialId: number,
+  thresholdDays: number,
+  expiryDate: string | null,
+  conn: Queryable = db
+): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'INSERT IGNORE INTO credential_reminders (credential_id, threshold_days, expiry_date) VALUES (?, ?, ?)',
+    [credentialId, thresholdDays, expiryDate]
+  );
+  return result.affectedRows > 0;
+}
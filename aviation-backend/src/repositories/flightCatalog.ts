@@ -0,0 +1,60 @@
+// flightCatalog.ts
+// Reference flights from the flight data provider (flight_catalog), shared by every pilot
+
+import moment from 'moment-timezone';
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { Flight } from 'aviation-shared';
+
+const catalogColumns = [
+  'flight_date', 'flight_status',
+  'departure_airport', 'departure_iata', 'departure_icao', 'departure_scheduled', 'departure_actual',
+  'arrival_airport', 'arrival_iata', 'arrival_icao', 'arrival_scheduled', 'arrival_actual',
+  'airline_name', 'airline_iata', 'flight_number', 'flight_iata', 'flight_icao', 'duration_hours'
+];
+
+const dateTimeColumns = ['departure_scheduled', 'departure_actual', 'arrival_scheduled', 'arrival_actual'];
+
+// Columns whose values may change after a flight was first catalogued
+const liveColumns = ['flight_status', 'departure_actual', 'arrival_actual', 'departure_scheduled', 'arrival_scheduled', 'duration_hours'];
+
+/**
+ * Insert a flight, or refresh its status and times if the catalog already has it (same flight
+ * number, date and departure airport). Keys other than the catalog columns are ignored.
+ * An unknown departure airport is stored as '' so the unique key still matches it.
+ */
+export async function upsertCatalogFlight(flight: Record<string, unknown>, conn: Queryable = db): Promise<void> {
+  // Provider times are ISO 8601; store them as UTC wall-clock time like logged flights
+  const values = catalogColumns.map(column => {
+    const value = flight[column] ?? (column === 'departure_iata' ? '' : null);
+    return value && dateTimeColumns.includes(column) ? moment.utc(value).format('YYYY-MM-DD HH:mm:ss') : value;
+  });
+  await conn.query<ResultSetHeader>(`
+    INSERT INTO flight_catalog (${catalogColumns.join(', ')}) VALUES (?)
+    ON DUPLICATE KEY UPDATE ${liveColumns.map(column => `${column} = VALUES(${column})`).join(', ')}
+  `, [values]);
+}
+
+// Catalogued flights with an IATA flight number, latest date first
+export async function findCatalogFlightsByNumber(flightIata: string, conn: Queryable = db): Promise<Flight[]> {
+  const [rows] = await conn.query<(Flight & RowDataPacket)[]>(
+    'SELECT * FROM flight_catalog WHERE flight_iata = ? ORDER BY flight_date DESC, departure_scheduled DESC',
+    [flightIata]
+  );
+  return rows;
+}
+
+// The catalogued flight a logbook entry was flown as, preferring one from the same departure airport
+export async function findCatalogFlight(
+  flightIata: string,
+  flightDate: string,
+  departureIata: string | null,
+  conn: Queryable = db
+): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT id FROM flight_catalog WHERE flight_iata = ? AND flight_date = ? ORDER BY departure_iata = ? DESC LIMIT 1',
+    [flightIata, flightDate, departureIata || '']
+  );
+  return rows[0] || null;
+}
@@ -0,0 +1,210 @@
+// flights.ts
+// Pilot logbook entries (logbook_entries)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { AnalyticsFlightRow } from '../analytics';
+import type { CurrencyFlightRow } from '../currency';
+import type { DutyFlightRow } from '../dutyRest';
+import type { LogbookFlightRow } from '../logbookPdf';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { FlightLog } from 'aviation-shared';
+
+// A /logs row before its signature status is worked out from the current signature's hash
+export type LogRow = Omit<FlightLog, 'signature_status'> & { entry_hash: string | null } & RowDataPacket;
+
+export interface DateRange {
+  from: string | null;
+  to: string | null;
+}
+
+/**
+ * A flight by id. `dateStrings` keeps DATE/DATETIME columns as MySQL strings, which is what
+ * diffing against request bodies and signature hashing expect.
+ */
+export async function findFlightById(
+  id: number | string,
+  { dateStrings = false }: { dateStrings?: boolean } = {},
+  conn: Queryable = db
+): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>({
+    sql: 'SELECT * FROM logbook_entries WHERE id = ?',
+    values: [id],
+    dateStrings
+  });
+  return rows[0] || null;
+}
+
+// Insert one flight given as column/value pairs; resolves to its id
+export async function insertFlight(flight: object, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO logbook_entries SET ?', flight);
+  return result.insertId;
+}
+
+// Bulk insert rows of values in `columns` order
+export async function insertFlightRows(columns: string[], rows: unknown[][], conn: Queryable = db): Promise<void> {
+  if (rows.length === 0) return;
+  await conn.query<ResultSetHeader>(`INSERT INTO logbook_entries (${columns.join(', ')}) VALUES ?`, [rows]);
+}
+
+/**
+ * Write changed fields and the new version; with no changed fields only the version moves on.
+ * With `expectedVersion` the update only applies if nobody changed the flight since it was read;
+ * resolves to false if it did not apply.
+ */
+export async function updateFlight(
+  id: number,
+  values: Record<string, unknown>,
+  version: number,
+  expectedVersion?: number | null,
+  conn: Queryable = db
+): Promise<boolean> {
+  const changed = Object.keys(values).length > 0;
+  const set = changed ? 'SET ?, version = ?' : 'SET version = ?';
+  const params = changed ? [values, version, id] : [version, id];
+
+  const [result] = expectedVersion === undefined
+    ? await conn.query<ResultSetHeader>(`UPDATE logbook_entries ${set} WHERE id = ?`, params)
+    : await conn.query<ResultSetHeader>(
+      `UPDATE logbook_entries ${set} WHERE id = ? AND (version = ? OR version IS NULL)`,
+      [...params, expectedVersion]
+    );
+  return result.affectedRows > 0;
+}
+
+export async function deleteFlight(id: number, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>('DELETE FROM logbook_entries WHERE id = ?', [id]);
+}
+
+// Logbook list with aircraft and current signature; `pilotId` null lists every pilot's entries
+export async function listLogEntries(pilotId: number | null, conn: Queryable = db): Promise<LogRow[]> {
+  let sql = `
+    SELECT
+      le.id, le.flight_iata, le.flight_date,
+      le.departure_iata, le.arrival_iata,
+      le.departure_scheduled, le.arrival_scheduled,
+      le.airline_iata, le.duration_hours,
+      le.pic_hours, le.sic_hours, le.dual_received_hours, le.dual_given_hours, le.solo_hours,
+      le.night_hours, le.actual_instrument_hours, le.simulated_instrument_hours, le.cross_country_hours,
+      le.day_landings, le.night_landings, le.approaches, le.holds, le.course_intercepts, le.remarks,
+      le.aircraft_id, a.registration AS aircraft_registration,
+      a.icao_type AS aircraft_type, a.aircraft_class,
+      le.created_by, fs.entry_hash, fs.instructor_name AS signed_by,
+      fs.certificate_number AS signer_certificate, fs.signed_at
+    FROM logbook_entries le
+    LEFT JOIN aircraft a ON a.id = le.aircraft_id
+    LEFT JOIN flight_signatures fs ON fs.flight_id = le.id AND fs.is_current = TRUE
+  `;
+  const params: number[] = [];
+
+  if (pilotId !== null) {
+    sql += ' WHERE le.created_by = ? ';
+    params.push(pilotId);
+  }
+  sql += ' ORDER BY le.flight_date DESC, le.departure_scheduled DESC';
+
+  const [rows] = await conn.query<LogRow[]>(sql, params);
+  return rows;
+}
+
+// Flights with their aircraft attributes for analytics; `pilotId` null covers every pilot
+export async function listAnalyticsFlights(pilotId: number | null, conn: Queryable = db): Promise<AnalyticsFlightRow[]> {
+  let sql = `
+    SELECT le.*,
+      a.registration AS aircraft_registration,
+      a.icao_type AS aircraft_type,
+      a.category AS aircraft_category,
+      a.aircraft_class,
+      a.is_complex AS aircraft_is_complex,
+      a.is_high_performance AS aircraft_is_high_performance,
+      a.is_turbine AS aircraft_is_turbine
+    FROM logbook_entries le
+    LEFT JOIN aircraft a ON a.id = le.aircraft_id
+  `;
+  const params: number[] = [];
+
+  if (pilotId !== null) {
+    sql += ' WHERE le.created_by = ?';
+    params.push(pilotId);
+  }
+  sql += ' ORDER BY le.flight_date DESC';
+
+  const [rows] = await conn.query<(AnalyticsFlightRow & RowDataPacket)[]>(sql, params);
+  return rows;
+}
+
+// Landings and approaches per flight, newest first, for currency checks
+export async function listCurrencyFlights(pilotId: number | string, conn: Queryable = db): Promise<CurrencyFlightRow[]> {
+  const [rows] = await conn.query<(CurrencyFlightRow & RowDataPacket)[]>(`
+    SELECT flight_date, day_landings, night_landings, approaches, holds, course_intercepts
+    FROM logbook_entries
+    WHERE created_by = ?
+    ORDER BY flight_date DESC
+  `, [pilotId]);
+  return rows;
+}
+
+// Flight and block times since a date, for duty/rest checks
+export async function listDutyFlights(pilotId: number, since: string, conn: Queryable = db): Promise<DutyFlightRow[]> {
+  const [rows] = await conn.query<(DutyFlightRow & RowDataPacket)[]>(`
+    SELECT flight_date, flight_number, flight_iata, departure_scheduled, departure_actual,
+           arrival_scheduled, arrival_actual, duration_hours
+    FROM logbook_entries
+    WHERE created_by = ? AND flight_date >= ?
+  `, [pilotId, since]);
+  return rows;
+}
+
+// Logbook pages for the PDF export, oldest first, optionally limited to a date range
+export async function listExportFlights(pilotId: number, range: DateRange, conn: Queryable = db): Promise<LogbookFlightRow[]> {
+  let sql = `
+    SELECT
+      le.flight_date, le.departure_iata, le.departure_icao, le.arrival_iata, le.arrival_icao,
+      le.duration_hours, le.pic_hours, le.sic_hours, le.dual_received_hours, le.dual_given_hours,
+      le.night_hours, le.actual_instrument_hours, le.simulated_instrument_hours, le.cross_country_hours,
+      le.day_landings, le.night_landings, le.approaches, le.remarks,
+      a.registration AS aircraft_registration, a.icao_type AS aircraft_type
+    FROM logbook_entries le
+    LEFT JOIN aircraft a ON a.id = le.aircraft_id
+    WHERE le.created_by = ?
+  `;
+  const params: (number | string)[] = [pilotId];
+
+  if (range.from) {
+    sql += ' AND le.flight_date >= ?';
+    params.push(range.from);
+  }
+  if (range.to) {
+    sql += ' AND le.flight_date <= ?';
+    params.push(range.to);
+  }
+  sql += ' ORDER BY le.flight_date ASC, le.departure_scheduled ASC, le.id ASC';
+
+  const [rows] = await conn.query<(LogbookFlightRow & RowDataPacket)[]>(sql, params);
+  return rows;
+}
+
+// Sums of the given numeric columns over a pilot's flights before a date (one row)
+export async function sumFlightsBefore(
+  pilotId: number,
+  before: string,
+  fields: string[],
+  conn: Queryable = db
+): Promise<RowDataPacket[]> {
+  const sums = fields.map(field => `COALESCE(SUM(${field}), 0) AS ${field}`).join(', ');
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT ${sums} FROM logbook_entries WHERE created_by = ? AND flight_date < ?`,
+    [pilotId, before]
+  );
+  return rows;
+}
+
+// The columns duplicate detection compares, for every flight of a pilot
+export async function listFlightKeys(pilotId: number, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT flight_date, departure_icao, departure_iata, arrival_icao, arrival_iata, duration_hours
+    FROM logbook_entries
+    WHERE created_by = ?
+  `, [pilotId]);
+  return rows;
+}
@@ -0,0 +1,81 @@
+// livePositions.ts
+// ADS-B aircraft positions (flights), one row per OpenSky state vector
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+// Columns in OpenSky /states/all order; times are epoch seconds, altitudes metres, speeds m/s
+export const positionColumns = [
+  'icao24', 'callsign', 'origin_country', 'time_position', 'last_contact',
+  'longitude', 'latitude', 'baro_altitude', 'on_ground', 'velocity', 'true_track',
+  'vertical_rate', 'sensors', 'geo_altitude', 'squawk', 'spi', 'position_source'
+];
+
+export interface BoundingBox {
+  lamin: number;
+  lomin: number;
+  lamax: number;
+  lomax: number;
+}
+
+// Insert positions as rows of values in `positionColumns` order; positions already stored are skipped
+export async function insertPositions(rows: unknown[][], conn: Queryable = db): Promise<number> {
+  if (rows.length === 0) return 0;
+  const [result] = await conn.query<ResultSetHeader>(
+    `INSERT IGNORE INTO flights (${positionColumns.join(', ')}) VALUES ?`,
+    [rows]
+  );
+  return result.affectedRows;
+}
+
+// Positions reported under a callsign between two epoch times, oldest first
+export async function listCallsignTrack(callsign: string, from: number, to: number, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT ${positionColumns.join(', ')}
+    FROM flights
+    WHERE callsign = ? AND time_position BETWEEN ? AND ?
+    ORDER BY time_position ASC
+  `, [callsign, from, to]);
+  return rows;
+}
+
+// Airframes (icao24) heard under a callsign between two epoch times, most recently heard first
+export async function listCallsignAircraft(callsign: string, from: number, to: number, conn: Queryable = db): Promise<string[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT icao24, MAX(time_position) AS last_seen
+    FROM flights
+    WHERE callsign = ? AND time_position BETWEEN ? AND ?
+    GROUP BY icao24
+    ORDER BY last_seen DESC
+  `, [callsign, from, to]);
+  return rows.map(row => row.icao24);
+}
+
+// Latest position of every aircraft seen inside the box since an epoch time, at most `limit` aircraft
+export async function listLatestPositionsInBox(
+  box: BoundingBox,
+  since: number,
+  limit: number,
+  conn: Queryable = db
+): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT ${positionColumns.map(column => `f.${column}`).join(', ')}
+    FROM flights f
+    JOIN (
+      SELECT icao24, MAX(time_position) AS time_position
+      FROM flights
+      WHERE time_position >= ? AND latitude BETWEEN ? AND ? AND longitude BETWEEN ? AND ?
+      GROUP BY icao24
+    ) latest ON latest.icao24 = f.icao24 AND latest.time_position = f.time_position
+    ORDER BY f.callsign ASC
+    LIMIT ?
+  `, [since, box.lamin, box.lamax, box.lomin, box.lomax, limit]);
+  return rows;
+}
+
+// Delete positions last heard before an epoch time; resolves to the number removed
+export async function deletePositionsBefore(before: number, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('DELETE FROM flights WHERE last_contact < ?', [before]);
+  return result.affectedRows;
+}
@@ -0,0 +1,188 @@
+// pilots.ts
+// Pilot accounts: profile, role, activation, login failure and two-factor state
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+import type { Role } from 'aviation-shared';
+
+// A pilots row; columns not listed here are still there, untyped
+export type PilotRow = RowDataPacket & { id: number; email: string; username: string; role: Role };
+
+export interface NewPilot {
+  email: string;
+  password: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  license_number: string | null;
+  license_type: string;
+  role: string;
+}
+
+export async function findPilotById(id: number | string, conn: Queryable = db): Promise<PilotRow | null> {
+  const [rows] = await conn.query<PilotRow[]>('SELECT * FROM pilots WHERE id = ?', [id]);
+  return rows[0] || null;
+}
+
+export async function findActivePilotById(id: number | string, conn: Queryable = db): Promise<PilotRow | null> {
+  const [rows] = await conn.query<PilotRow[]>('SELECT * FROM pilots WHERE id = ? AND is_active = TRUE', [id]);
+  return rows[0] || null;
+}
+
+export async function findActivePilotByEmail(email: string, conn: Queryable = db): Promise<PilotRow | null> {
+  const [rows] = await conn.query<PilotRow[]>('SELECT * FROM pilots WHERE email = ? AND is_active = TRUE', [email]);
+  return rows[0] || null;
+}
+
+// Pilot matching either the email or the username (registration checks, schedule uploads)
+export async function findPilotByEmailOrUsername(
+  email: string,
+  username: string,
+  conn: Queryable = db
+): Promise<PilotRow | null> {
+  const [rows] = await conn.query<PilotRow[]>(
+    'SELECT id, email, username, role FROM pilots WHERE email = ? OR username = ? LIMIT 1',
+    [email, username]
+  );
+  return rows[0] || null;
+}
+
+export async function insertPilot(pilot: NewPilot, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO pilots SET ?', pilot);
+  return result.insertId;
+}
+
+// Every pilot account for the admin screen (no secrets)
+export async function listPilots(conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT id, email, username, first_name, last_name, license_number, license_type,
+      role, instructor_certificate, is_active, totp_enabled, failed_login_attempts, locked_until,
+      last_login, created_at
+    FROM pilots
+    ORDER BY last_name, first_name
+  `);
+  return rows;
+}
+
+export async function listActivePilots(conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT id, username, email FROM pilots WHERE is_active = TRUE ORDER BY username'
+  );
+  return rows;
+}
+
+export async function countActivePilots(conn: Queryable = db): Promise<number> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT COUNT(*) AS count FROM pilots WHERE is_active = TRUE');
+  return rows[0].count;
+}
+
+// Pilots whose lock is still running at `asOf`
+export async function countLockedPilots(asOf: Date, conn: Queryable = db): Promise<number> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT COUNT(*) AS count FROM pilots WHERE locked_until > ?', [asOf]);
+  return rows[0].count;
+}
+
+// The update helpers below resolve to whether a pilot row matched
+export async function updatePilotRole(
+  id: number | string,
+  role: string,
+  instructorCertificate: string | null,
+  conn: Queryable = db
+): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'UPDATE pilots SET role = ?, instructor_certificate = COALESCE(?, instructor_certificate) WHERE id = ?',
+    [role, instructorCertificate, id]
+  );
+  return result.affectedRows > 0;
+}
+
+export async function setPilotActive(id: number | string, isActive: boolean, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>('UPDATE pilots SET is_active = ? WHERE id = ?', [isActive, id]);
+  return result.affectedRows > 0;
+}
+
+export async function setAutoBackup(id: number, autoBackup: boolean, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>('UPDATE pilots SET auto_backup = ? WHERE id = ?', [autoBackup, id]);
+  return result.affectedRows > 0;
+}
+
+// Setting a password from a reset email also proves the pilot owns the address
+export async function resetPassword(id: number, passwordHash: string, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    `UPDATE pilots SET password = ?, email_verified = TRUE, email_verified_at = COALESCE(email_verified_at, NOW())
+     WHERE id = ?`,
+    [passwordHash, id]
+  );
+  return result.affectedRows > 0;
+}
+
+export async function markEmailVerified(id: number, email: string, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    `UPDATE pilots SET email_verified = TRUE, email_verified_at = COALESCE(email_verified_at, NOW())
+     WHERE id = ? AND email = ?`,
+    [id, email]
+  );
+  return result.affectedRows > 0;
+}
+
+// Successful sign-in: stamp last_login and clear any failed attempts
+export async function recordLogin(id: number, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>(
+    `UPDATE pilots
+     SET last_login = CURRENT_TIMESTAMP, failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL
+     WHERE id = ?`,
+    [id]
+  );
+}
+
+// Clear failed attempts and any lock (expired lock, or unlocked by an administrator)
+export async function clearLoginFailures(id: number | string, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'UPDATE pilots SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL WHERE id = ?',
+    [id]
+  );
+  return result.affectedRows > 0;
+}
+
+// Count one more failed attempt; resolves to the new consecutive failure count
+export async function incrementLoginFailures(id: number, conn: Queryable = db): Promise<number> {
+  await conn.query<ResultSetHeader>(
+    'UPDATE pilots SET failed_login_attempts = failed_login_attempts + 1, last_failed_login_at = ? WHERE id = ?',
+    [new Date(), id]
+  );
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT failed_login_attempts FROM pilots WHERE id = ?', [id]);
+  return rows[0] ? rows[0].failed_login_attempts : 0;
+}
+
+export async function lockPilot(id: number, lockedUntil: Date, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>('UPDATE pilots SET locked_until = ? WHERE id = ?', [lockedUntil, id]);
+}
+
+// Store a new (sealed) TOTP secret, pending until enrollment is confirmed
+export async function setPendingTotpSecret(id: number, sealedSecret: string, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>('UPDATE pilots SET totp_secret = ?, totp_last_step = NULL WHERE id = ?', [sealedSecret, id]);
+}
+
+export async function enableTotp(id: number, step: number, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>(
+    'UPDATE pilots SET totp_enabled = TRUE, totp_enabled_at = NOW(), totp_last_step = ? WHERE id = ?',
+    [step, id]
+  );
+}
+
+export async function disableTotp(id: number, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>(
+    'UPDATE pilots SET totp_enabled = FALSE, totp_secret = NULL, totp_enabled_at = NULL, totp_last_step = NULL WHERE id = ?',
+    [id]
+  );
+}
+
+// Accept each TOTP time step once: resolves to false if this step (or a later one) was already used
+export async function claimTotpStep(id: number, step: number, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'UPDATE pilots SET totp_last_step = ? WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)',
+    [step, id, step]
+  );
+  return result.affectedRows > 0;
+}
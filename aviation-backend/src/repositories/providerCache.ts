@@ -0,0 +1,85 @@
+// providerCache.ts
+// Cached flight data provider responses (flight_provider_cache) and monthly usage counters (flight_provider_usage)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export type ProviderUsageCounter = 'provider_calls' | 'cache_hits' | 'coalesced' | 'degraded';
+
+// Cached response for a key whether or not it has expired; `fresh` tells which
+export async function findCachedResponse(cacheKey: string, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT response, fetched_at, expires_at, expires_at > NOW() AS fresh FROM flight_provider_cache WHERE cache_key = ?',
+    [cacheKey]
+  );
+  return rows[0] || null;
+}
+
+export async function saveCachedResponse(
+  cacheKey: string,
+  provider: string,
+  response: unknown,
+  ttlSeconds: number,
+  conn: Queryable = db
+): Promise<void> {
+  await conn.query<ResultSetHeader>(`
+    INSERT INTO flight_provider_cache (cache_key, provider, response, fetched_at, expires_at)
+    VALUES (?, ?, ?, NOW(), DATE_ADD(NOW(), INTERVAL ? SECOND))
+    ON DUPLICATE KEY UPDATE
+      response = VALUES(response), fetched_at = VALUES(fetched_at), expires_at = VALUES(expires_at)
+  `, [cacheKey, provider, JSON.stringify(response), ttlSeconds]);
+}
+
+// Delete responses that expired more than `days` ago; resolves to the number removed
+export async function deleteExpiredResponses(days: number, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'DELETE FROM flight_provider_cache WHERE expires_at < DATE_SUB(NOW(), INTERVAL ? DAY)',
+    [days]
+  );
+  return result.affectedRows;
+}
+
+export async function countCachedResponses(provider: string, conn: Queryable = db): Promise<{ entries: number; fresh: number }> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT COUNT(*) AS entries, COALESCE(SUM(expires_at > NOW()), 0) AS fresh FROM flight_provider_cache WHERE provider = ?',
+    [provider]
+  );
+  return { entries: Number(rows[0].entries), fresh: Number(rows[0].fresh) };
+}
+
+// Add one to a usage counter of a provider for a month ('YYYY-MM')
+export async function incrementProviderUsage(
+  provider: string,
+  month: string,
+  counter: ProviderUsageCounter,
+  conn: Queryable = db
+): Promise<void> {
+  await conn.query<ResultSetHeader>(
+    `INSERT INTO flight_provider_usage (provider, month, ${counter}) VALUES (?, ?, 1)
+     ON DUPLICATE KEY UPDATE ${counter} = ${counter} + 1`,
+    [provider, month]
+  );
+}
+
+/**
+ * Count a provider call against the month's quota, in one statement so concurrent lookups cannot
+ * both take the last call. Resolves to false, counting nothing, once `quota` calls have been made.
+ */
+export async function reserveProviderCall(provider: string, month: string, quota: number, conn: Queryable = db): Promise<boolean> {
+  await conn.query<ResultSetHeader>('INSERT IGNORE INTO flight_provider_usage (provider, month) VALUES (?, ?)', [provider, month]);
+  const [result] = await conn.query<ResultSetHeader>(
+    `UPDATE flight_provider_usage SET provider_calls = provider_calls + 1
+     WHERE provider = ? AND month = ? AND provider_calls < ?`,
+    [provider, month, quota]
+  );
+  return result.affectedRows === 1;
+}
+
+export async function findProviderUsage(provider: string, month: string, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT provider_calls, cache_hits, coalesced, degraded FROM flight_provider_usage WHERE provider = ? AND month = ?',
+    [provider, month]
+  );
+  return rows[0] || null;
+}
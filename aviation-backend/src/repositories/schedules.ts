@@ -0,0 +1,49 @@
+// schedules.ts
+// Uploaded pilot schedules (pilot_schedules)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { DutyScheduleRow } from '../dutyRest';
+import type { ScheduledFlight } from '../notifications';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+// A schedule with the pilot to notify
+export interface StandbyScheduleRow extends ScheduledFlight {
+  pilot_id: number;
+  email: string;
+  username: string;
+}
+
+export async function insertSchedule(schedule: object, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO pilot_schedules SET ?', schedule);
+  return result.insertId;
+}
+
+export async function listPilotSchedules(pilotId: number, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT * FROM pilot_schedules WHERE pilot_id = ? ORDER BY flight_date, flight_time',
+    [pilotId]
+  );
+  return rows;
+}
+
+// Duty-relevant columns of a pilot's schedules since a date
+export async function listDutySchedules(pilotId: number, since: string, conn: Queryable = db): Promise<DutyScheduleRow[]> {
+  const [rows] = await conn.query<(DutyScheduleRow & RowDataPacket)[]>(`
+    SELECT id, flight_date, flight_time, flight_number, standby_time, block_hours
+    FROM pilot_schedules
+    WHERE pilot_id = ? AND flight_date >= ?
+  `, [pilotId, since]);
+  return rows;
+}
+
+// Schedules whose standby time falls in a window, with the pilot to notify
+export async function listStandbySchedules(from: Date, to: Date, conn: Queryable = db): Promise<StandbyScheduleRow[]> {
+  const [rows] = await conn.query<(StandbyScheduleRow & RowDataPacket)[]>(`
+    SELECT ps.*, p.email, p.username
+    FROM pilot_schedules ps
+    JOIN pilots p ON ps.pilot_id = p.id
+    WHERE ps.standby_time BETWEEN ? AND ?
+  `, [from, to]);
+  return rows;
+}
@@ -0,0 +1,97 @@
+// sessions.ts
+// Login sessions and their rotating refresh-token hashes
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export interface NewSession {
+  pilot_id: number;
+  refresh_token_hash: string;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | undefined;
+}
+
+// Insert a session expiring `ttlDays` from now; resolves to its id
+export async function insertSession(session: NewSession, ttlDays: number, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>(
+    `INSERT INTO sessions (pilot_id, refresh_token_hash, device_name, user_agent, ip_address, expires_at)
+     VALUES (?, ?, ?, ?, ?, DATE_ADD(NOW(), INTERVAL ? DAY))`,
+    [session.pilot_id, session.refresh_token_hash, session.device_name, session.user_agent, session.ip_address, ttlDays]
+  );
+  return result.insertId;
+}
+
+// Whether a session is still usable by the pilot's access tokens
+export async function isSessionLive(id: number, pilotId: number, conn: Queryable = db): Promise<boolean> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT id FROM sessions WHERE id = ? AND pilot_id = ? AND revoked_at IS NULL AND expires_at > NOW()',
+    [id, pilotId]
+  );
+  return rows.length > 0;
+}
+
+// Session whose current or previous refresh token has this hash, joined with its pilot
+export async function findSessionByTokenHash(tokenHash: string, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    `SELECT s.id, s.pilot_id, s.refresh_token_hash, s.revoked_at, s.expires_at > NOW() AS is_live,
+      p.email, p.username, p.first_name, p.last_name, p.license_number, p.license_type,
+      p.total_hours, p.last_login, p.role, p.is_active, p.email_verified
+     FROM sessions s
+     JOIN pilots p ON p.id = s.pilot_id
+     WHERE s.refresh_token_hash = ? OR s.previous_token_hash = ?`,
+    [tokenHash, tokenHash]
+  );
+  return rows[0] || null;
+}
+
+/**
+ * Move a session on to a new refresh token. Matching on the current hash makes two concurrent
+ * refreshes with the same token rotate only once; resolves to false for the loser.
+ */
+export async function rotateSessionToken(
+  id: number,
+  currentHash: string,
+  nextHash: string,
+  { userAgent, ipAddress }: { userAgent: string | null; ipAddress: string | undefined },
+  conn: Queryable = db
+): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    `UPDATE sessions
+     SET previous_token_hash = refresh_token_hash, refresh_token_hash = ?,
+       last_used_at = NOW(), user_agent = COALESCE(?, user_agent), ip_address = ?
+     WHERE id = ? AND refresh_token_hash = ?`,
+    [nextHash, userAgent, ipAddress, id, currentHash]
+  );
+  return result.affectedRows > 0;
+}
+
+// Active sessions (devices) of a pilot, most recently used first
+export async function listActiveSessions(pilotId: number, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT id, device_name, user_agent, ip_address, created_at, last_used_at, expires_at
+    FROM sessions
+    WHERE pilot_id = ? AND revoked_at IS NULL AND expires_at > NOW()
+    ORDER BY last_used_at DESC
+  `, [pilotId]);
+  return rows;
+}
+
+// Revoke sessions matching a WHERE clause; resolves to the number revoked
+export async function revokeSessions(where: string, params: unknown[], conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>(
+    `UPDATE sessions SET revoked_at = NOW() WHERE revoked_at IS NULL AND ${where}`,
+    params
+  );
+  return result.affectedRows;
+}
+
+// Delete sessions revoked or expired more than `days` ago; resolves to the number deleted
+export async function purgeSessionsOlderThan(days: number, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'DELETE FROM sessions WHERE COALESCE(revoked_at, expires_at) < DATE_SUB(NOW(), INTERVAL ? DAY)',
+    [days]
+  );
+  return result.affectedRows;
+}
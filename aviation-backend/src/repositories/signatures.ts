@@ -0,0 +1,77 @@
+// signatures.ts
+// Instructor signatures on logbook entries (flight_signatures)
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+// A flight_signatures row
+export interface SignatureRow {
+  id: number;
+  flight_id: number;
+  pilot_id: number | null;
+  instructor_id: number;
+  instructor_name: string | null;
+  certificate_number: string;
+  entry_hash: string;
+  endorsement: string | null;
+  amendment_of: number | null;
+  is_current: number;
+  signed_at: Date;
+}
+
+export type NewSignature = Omit<SignatureRow, 'id' | 'is_current' | 'signed_at'>;
+
+// Helper function to fetch the signature currently in force for a flight
+export async function findCurrentSignature(flightId: number, conn: Queryable = db): Promise<SignatureRow | null> {
+  const [rows] = await conn.query<(SignatureRow & RowDataPacket)[]>(
+    'SELECT * FROM flight_signatures WHERE flight_id = ? AND is_current = TRUE ORDER BY id DESC LIMIT 1',
+    [flightId]
+  );
+  return rows[0] || null;
+}
+
+// Every signature of a flight, oldest first (amendments retire the one before them)
+export async function listFlightSignatures(flightId: number, conn: Queryable = db): Promise<SignatureRow[]> {
+  const [rows] = await conn.query<(SignatureRow & RowDataPacket)[]>(
+    'SELECT * FROM flight_signatures WHERE flight_id = ? ORDER BY id ASC',
+    [flightId]
+  );
+  return rows;
+}
+
+// Signatures in force on a pilot's flights (checked before a pilot restore replaces them)
+export async function listPilotCurrentSignatures(pilotId: number, conn: Queryable = db): Promise<SignatureRow[]> {
+  const [rows] = await conn.query<(SignatureRow & RowDataPacket)[]>(`
+    SELECT fs.*
+    FROM flight_signatures fs
+    JOIN logbook_entries le ON le.id = fs.flight_id
+    WHERE le.created_by = ? AND fs.is_current = TRUE
+  `, [pilotId]);
+  return rows;
+}
+
+export async function insertSignature(signature: NewSignature, conn: Queryable = db): Promise<number> {
+  const [result] = await conn.query<ResultSetHeader>('INSERT INTO flight_signatures SET ?', signature);
+  return result.insertId;
+}
+
+// Retire a signature superseded by a signed amendment
+export async function retireSignature(id: number, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>('UPDATE flight_signatures SET is_current = FALSE WHERE id = ?', [id]);
+}
+
+// Unsigned flights with dual received time, excluding the instructor's own
+export async function listPendingSignatures(instructorId: number, conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>(`
+    SELECT le.id, le.flight_date, le.flight_iata, le.departure_iata, le.arrival_iata,
+      le.duration_hours, le.dual_received_hours, le.remarks,
+      p.id AS pilot_id, p.first_name, p.last_name, p.email
+    FROM logbook_entries le
+    JOIN pilots p ON p.id = le.created_by
+    LEFT JOIN flight_signatures fs ON fs.flight_id = le.id AND fs.is_current = TRUE
+    WHERE le.dual_received_hours > 0 AND fs.id IS NULL AND le.created_by <> ?
+    ORDER BY le.flight_date DESC
+  `, [instructorId]);
+  return rows;
+}
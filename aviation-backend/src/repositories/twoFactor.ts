@@ -0,0 +1,54 @@
+// twoFactor.ts
+// Two-factor recovery codes and the per-role two-factor policy
+
+import db from '../db';
+import type { Queryable } from '../db';
+import type { ResultSetHeader, RowDataPacket } from 'mysql2';
+
+export async function deleteRecoveryCodes(pilotId: number, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>('DELETE FROM two_factor_recovery_codes WHERE pilot_id = ?', [pilotId]);
+}
+
+// Replace every recovery code of a pilot with the given hashes
+export async function replaceRecoveryCodeHashes(pilotId: number, codeHashes: string[], conn: Queryable = db): Promise<void> {
+  await deleteRecoveryCodes(pilotId, conn);
+  await conn.query<ResultSetHeader>(
+    'INSERT INTO two_factor_recovery_codes (pilot_id, code_hash) VALUES ?',
+    [codeHashes.map(codeHash => [pilotId, codeHash])]
+  );
+}
+
+// Use up an unused recovery code; resolves to false if there is none with this hash
+export async function useRecoveryCode(pilotId: number, codeHash: string, conn: Queryable = db): Promise<boolean> {
+  const [result] = await conn.query<ResultSetHeader>(
+    'UPDATE two_factor_recovery_codes SET used_at = NOW() WHERE pilot_id = ? AND code_hash = ? AND used_at IS NULL LIMIT 1',
+    [pilotId, codeHash]
+  );
+  return result.affectedRows > 0;
+}
+
+export async function countUnusedRecoveryCodes(pilotId: number, conn: Queryable = db): Promise<number> {
+  const [rows] = await conn.query<RowDataPacket[]>(
+    'SELECT COUNT(*) AS remaining FROM two_factor_recovery_codes WHERE pilot_id = ? AND used_at IS NULL',
+    [pilotId]
+  );
+  return rows[0].remaining;
+}
+
+export async function listTwoFactorPolicies(conn: Queryable = db): Promise<RowDataPacket[]> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT role, required, updated_by, updated_at FROM two_factor_policy');
+  return rows;
+}
+
+export async function findTwoFactorPolicy(role: string, conn: Queryable = db): Promise<RowDataPacket | null> {
+  const [rows] = await conn.query<RowDataPacket[]>('SELECT required FROM two_factor_policy WHERE role = ?', [role]);
+  return rows[0] || null;
+}
+
+export async function saveTwoFactorPolicy(role: string, required: boolean, updatedBy: string, conn: Queryable = db): Promise<void> {
+  await conn.query<ResultSetHeader>(
+    `INSERT INTO two_factor_policy (role, required, updated_by) VALUES (?, ?, ?)
+     ON DUPLICATE KEY UPDATE required = VALUES(required), updated_by = VALUES(updated_by)`,
+    [role, required, updatedBy]
+  );
+}
@@ -0,0 +1,160 @@
+// accountRecovery.ts
+// Password reset and email verification endpoints
+
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import {
+  PASSWORD_RESET_TTL,
+  APP_AUTH_URL,
+  passwordFingerprint,
+  verifyAccountToken,
+  sendVerificationEmail,
+  confirmEmailVerification
+} from '../accountEmails';
+import { recordAuditLog } from '../audit';
+import { JWT_SECRET } from '../config';
+import { sendMail } from '../mailer';
+import { authenticateToken } from '../middleware/auth';
+import { findActivePilotByEmail, findActivePilotById, findPilotById, resetPassword } from '../repositories/pilots';
+import { revokeSessions } from '../repositories/sessions';
+
+const router = express.Router();
+
+// Start a password reset. The response is the same whether or not the email has an account.
+router.post('/auth/forgot-password', async (req, res) => {
+  const email = String(req.body?.email || '').trim();
+  if (!email) {
+    return res.status(400).json({ success: false, message: 'Email is required' });
+  }
+
+  const response = { success: true, message: 'If an account exists for that email, a reset link has been sent' };
+
+  try {
+    const pilot = await findActivePilotByEmail(email);
+    if (!pilot) {
+      return res.json(response);
+    }
+
+    const token = jwt.sign(
+      { id: pilot.id, email: pilot.email, purpose: 'password_reset', pwd: passwordFingerprint(pilot.password) },
+      JWT_SECRET,
+      { expiresIn: PASSWORD_RESET_TTL }
+    );
+
+    await sendMail({
+      to: pilot.email,
+      subject: 'Reset your FlightLog password',
+      text: [
+        `Hi ${pilot.first_name || 'pilot'},`,
+        '',
+        'Someone asked to reset the password for your FlightLog account.',
+        'Open this link on your device within 1 hour to choose a new password:',
+        `${APP_AUTH_URL}?mode=reset&token=${encodeURIComponent(token)}`,
+        '',
+        'Or enter this reset code in the app:',
+        token,
+        '',
+        'If you did not ask for this, ignore this email; your password stays the same.'
+      ].join('\n')
+    });
+
+    recordAuditLog('password_reset_requested', 'pilot', pilot.id, pilot.email, { message: 'Password reset email sent', ip: req.ip });
+    res.json(response);
+  } catch (err) {
+    console.error('❌ Forgot Password Error:', err);
+    res.status(500).json({ success: false, message: 'Could not send the reset email' });
+  }
+});
+
+// Choose a new password with a reset token. Every session is signed out afterwards.
+router.post('/auth/reset-password', async (req, res) => {
+  const { token, password } = req.body || {};
+  if (!token || !password) {
+    return res.status(400).json({ success: false, message: 'Reset code and new password are required' });
+  }
+  if (typeof password !== 'string') {
+    return res.status(400).json({ success: false, message: 'Password must be a string' });
+  }
+  if (password.length < 6) {
+    return res.status(400).json({ success: false, message: 'Password must be at least 6 characters long' });
+  }
+
+  const payload = verifyAccountToken(token, 'password_reset');
+  if (!payload) {
+    return res.status(400).json({ success: false, message: 'Reset link is invalid or has expired' });
+  }
+
+  try {
+    const pilot = await findActivePilotById(payload.id);
+    if (!pilot || pilot.email !== payload.email || passwordFingerprint(pilot.password) !== payload.pwd) {
+      return res.status(400).json({ success: false, message: 'Reset link is invalid or has already been used' });
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    await resetPassword(pilot.id, hashedPassword);
+    const revoked = await revokeSessions('pilot_id = ?', [pilot.id]);
+
+    recordAuditLog('password_reset', 'pilot', pilot.id, pilot.email, { message: 'Password reset by email', sessionsRevoked: revoked });
+
+    sendMail({
+      to: pilot.email,
+      subject: 'Your FlightLog password was changed',
+      text: 'The password for your FlightLog account was just changed and all devices were signed out.\n\nIf this was not you, reset your password again and contact your administrator.'
+    }).catch(mailErr => console.error('❌ Mail Error:', mailErr));
+
+    res.json({ success: true, message: 'Password updated. Sign in with your new password.' });
+  } catch (err) {
+    console.error('❌ Reset Password Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Verify an email address with the code from the verification email (used by the app)
+router.post('/auth/verify-email', async (req, res) => {
+  if (!req.body?.token) {
+    return res.status(400).json({ success: false, message: 'Verification code is required' });
+  }
+
+  try {
+    const { status, message } = await confirmEmailVerification(req.body.token);
+    res.status(status).json({ success: status === 200, message });
+  } catch (err) {
+    console.error('❌ Verify Email Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Same as above for the link in the email, which opens in a browser
+router.get('/auth/verify-email', async (req, res) => {
+  try {
+    const { status, message } = await confirmEmailVerification(req.query.token || '');
+    res.status(status).type('text/plain').send(
+      status === 200 ? `${message}. You can return to the FlightLog app.` : message
+    );
+  } catch (err) {
+    console.error('❌ Verify Email Error:', err);
+    res.status(500).type('text/plain').send('Server error');
+  }
+});
+
+// Send the verification email again to the logged-in pilot
+router.post('/auth/resend-verification', authenticateToken, async (req, res) => {
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+    if (pilot.email_verified) {
+      return res.status(400).json({ success: false, message: 'Email is already verified' });
+    }
+
+    await sendVerificationEmail(pilot, req);
+    res.json({ success: true, message: `Verification email sent to ${pilot.email}` });
+  } catch (err) {
+    console.error('❌ Resend Verification Error:', err);
+    res.status(500).json({ success: false, message: 'Could not send the verification email' });
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+// aircraft.ts
+// Aircraft registry endpoints
+
+import express from 'express';
+import { recordAuditLog } from '../audit';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import {
+  deleteAircraft,
+  findAircraftById,
+  insertAircraft,
+  listAircraft,
+  updateAircraft
+} from '../repositories/aircraft';
+
+const router = express.Router();
+
+// Category → class codes accepted for an aircraft (14 CFR 61.5 / EASA equivalents)
+const aircraftCategoryClasses: Record<string, string[]> = {
+  'Airplane': ['SEL', 'MEL', 'SES', 'MES'],
+  'Rotorcraft': ['Helicopter', 'Gyroplane'],
+  'Glider': ['Glider'],
+  'Lighter-than-air': ['Airship', 'Balloon'],
+  'Powered-lift': ['Powered-lift']
+};
+
+// Helper function to validate and normalise aircraft fields from a request body
+function parseAircraftFields(data: Record<string, unknown>) {
+  const registration = String(data.registration || '').trim().toUpperCase();
+  if (!registration) {
+    return { error: 'Registration is required' };
+  }
+
+  const category = String(data.category || 'Airplane');
+  const allowedClasses = aircraftCategoryClasses[category];
+  if (!allowedClasses) {
+    return { error: `Unknown category: ${category}` };
+  }
+
+  const aircraftClass = String(data.aircraft_class || allowedClasses[0]);
+  if (!allowedClasses.includes(aircraftClass)) {
+    return { error: `Class ${aircraftClass} is not valid for category ${category}` };
+  }
+
+  return {
+    fields: {
+      registration,
+      icao_type: data.icao_type ? String(data.icao_type).trim().toUpperCase() : null,
+      make: data.make ? String(data.make).trim() : null,
+      model: data.model ? String(data.model).trim() : null,
+      category,
+      aircraft_class: aircraftClass,
+      is_complex: Boolean(data.is_complex),
+      is_high_performance: Boolean(data.is_high_performance),
+      is_turbine: Boolean(data.is_turbine)
+    }
+  };
+}
+
+// List the pilot's aircraft (flights:read_all sees every registry entry)
+router.get('/aircraft', authenticateToken, loadCurrentRole, async (req, res) => {
+  const readAll = hasPermission(req.user.role, 'flights:read_all');
+
+  try {
+    res.json(await listAircraft(!readAll || req.query.mine === 'true' ? req.user.id : null));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Get a single aircraft
+router.get('/aircraft/:id', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    const aircraft = await findAircraftById(req.params.id);
+    if (!aircraft) {
+      return res.status(404).json({ message: 'Aircraft not found' });
+    }
+
+    if (!hasPermission(req.user.role, 'flights:read_all') && aircraft.owner_pilot_id !== req.user.id) {
+      return res.status(403).json({ message: 'Not allowed to view this aircraft' });
+    }
+
+    res.json(aircraft);
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Add an aircraft to the pilot's registry
+router.post('/aircraft', authenticateToken, async (req, res) => {
+  const { fields, error } = parseAircraftFields(req.body);
+  if (!fields) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const aircraft = { ...fields, owner_pilot_id: req.user.id };
+
+  try {
+    const id = await insertAircraft(aircraft);
+
+    recordAuditLog(
+      'created',
+      'aircraft',
+      id,
+      req.user.email,
+      { message: 'Aircraft added to registry', registration: fields.registration }
+    );
+
+    res.status(201).json({ success: true, aircraft: { id, ...aircraft } });
+  } catch (err) {
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({
+        success: false,
+        message: `Aircraft ${fields.registration} is already in your registry`
+      });
+    }
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Update an aircraft the pilot owns
+router.put('/aircraft/:id', authenticateToken, async (req, res) => {
+  const { fields, error } = parseAircraftFields(req.body);
+  if (!fields) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  try {
+    if (!await updateAircraft(req.params.id, req.user.id, fields)) {
+      return res.status(404).json({ success: false, message: 'Aircraft not found' });
+    }
+
+    recordAuditLog(
+      'updated',
+      'aircraft',
+      req.params.id,
+      req.user.email,
+      { message: 'Aircraft updated', changes: fields }
+    );
+
+    res.json({ success: true, aircraft: { id: Number(req.params.id), ...fields, owner_pilot_id: req.user.id } });
+  } catch (err) {
+    if (err.code === 'ER_DUP_ENTRY') {
+      return res.status(409).json({
+        success: false,
+        message: `Aircraft ${fields.registration} is already in your registry`
+      });
+    }
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Remove an aircraft; logged flights keep their data but lose the link
+router.delete('/aircraft/:id', authenticateToken, async (req, res) => {
+  try {
+    if (!await deleteAircraft(req.params.id, req.user.id)) {
+      return res.status(404).json({ success: false, message: 'Aircraft not found' });
+    }
+
+    recordAuditLog(
+      'deleted',
+      'aircraft',
+      req.params.id,
+      req.user.email,
+      { message: 'Aircraft removed from registry' }
+    );
+
+    res.json({ success: true, message: 'Aircraft deleted' });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,139 @@
+// airports.ts
+// Airport lookup and night-time endpoints
+
+import express from 'express';
+import { findAirport } from '../airports';
+import { getFlightProvider } from '../flightProviders';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { computeNightTime } from '../nightTime';
+import { hasPermission } from '../permissions';
+import { findAirportByCode, searchAirports } from '../repositories/airports';
+import { findFlightById } from '../repositories/flights';
+
+const router = express.Router();
+
+// Search the airport database by ICAO/IATA code, name or city
+router.get('/airports/search', authenticateToken, async (req, res) => {
+  const q = String(req.query.q || '').trim();
+
+  if (q.length < 2) {
+    return res.status(400).json({ message: 'Search query must be at least 2 characters' });
+  }
+
+  try {
+    res.json(await searchAirports(q));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Look up a single airport by ICAO or IATA code
+router.get('/airports/:code', authenticateToken, async (req, res) => {
+  const code = req.params.code.trim().toUpperCase();
+
+  let airport;
+  try {
+    airport = await findAirportByCode(code);
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    // Fall back to the bundled CSV so lookups keep working without the table
+    const fallback = await findAirport(code).catch(() => null);
+    return fallback
+      ? res.json(fallback)
+      : res.status(500).json({ message: 'Database error' });
+  }
+
+  if (!airport) {
+    // Not in the reference table; the flight data provider may still know it
+    const providerAirport = await getFlightProvider().getAirportInfo(code).catch(() => null);
+    return providerAirport
+      ? res.json(providerAirport)
+      : res.status(404).json({ message: 'Airport not found' });
+  }
+
+  res.json(airport);
+});
+
+// Helper function to compute night time between two airports from the bundled airport database
+async function calculateRouteNightTime(departureCode: string, arrivalCode: string, departureTime: string, arrivalTime: string) {
+  const [from, to] = await Promise.all([findAirport(departureCode), findAirport(arrivalCode)]);
+
+  if (!from || !to) {
+    const missing = [!from && departureCode, !to && arrivalCode].filter(Boolean).join(', ');
+    return { error: `Unknown airport code(s): ${missing || 'not provided'}` };
+  }
+
+  try {
+    const result = computeNightTime({ from, to, departureTime, arrivalTime });
+    return {
+      departure: { code: from.icao, iata: from.iata, name: from.name },
+      arrival: { code: to.icao, iata: to.iata, name: to.name },
+      ...result
+    };
+  } catch (err) {
+    return { error: err.message };
+  }
+}
+
+// Compute night time for an ad-hoc route (used by the autofill form)
+router.post('/night-time', authenticateToken, async (req, res) => {
+  try {
+    const { departure, arrival, departure_time, arrival_time } = req.body;
+
+    if (!departure || !arrival || !departure_time || !arrival_time) {
+      return res.status(400).json({
+        message: 'departure, arrival, departure_time and arrival_time are required'
+      });
+    }
+
+    const result = await calculateRouteNightTime(departure, arrival, departure_time, arrival_time);
+    if (result.error) {
+      return res.status(400).json({ message: result.error });
+    }
+
+    res.json(result);
+  } catch (err) {
+    console.error('❌ Night Time Error:', err.message);
+    res.status(500).json({ message: 'Server error computing night time' });
+  }
+});
+
+// Compute night time for a stored flight, preferring actual over scheduled times
+router.get('/flights/:id/night-time', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    let flight;
+    try {
+      flight = await findFlightById(req.params.id);
+    } catch (err) {
+      console.error('❌ Database Error:', err);
+      return res.status(500).json({ message: 'Database error' });
+    }
+
+    if (!flight) {
+      return res.status(404).json({ message: 'Flight not found' });
+    }
+
+    if (!hasPermission(req.user.role, 'flights:read_all') && flight.created_by && flight.created_by !== req.user.id) {
+      return res.status(403).json({ message: 'Not allowed to access this flight' });
+    }
+
+    const result = await calculateRouteNightTime(
+      flight.departure_icao || flight.departure_iata,
+      flight.arrival_icao || flight.arrival_iata,
+      flight.departure_actual || flight.departure_scheduled,
+      flight.arrival_actual || flight.arrival_scheduled
+    );
+
+    if (result.error) {
+      return res.status(422).json({ message: result.error });
+    }
+
+    res.json({ flightId: flight.id, ...result });
+  } catch (err) {
+    console.error('❌ Night Time Error:', err.message);
+    res.status(500).json({ message: 'Server error computing night time' });
+  }
+});
+
+export default router;
@@ -0,0 +1,47 @@
+// analytics.ts
+// Analytics endpoint
+
+import express from 'express';
+import { processFlightAnalytics } from '../analytics';
+import { recordAuditLog } from '../audit';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { listAnalyticsFlights } from '../repositories/flights';
+
+const router = express.Router();
+
+router.get('/analytics', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    console.log(`📊 Fetching analytics for user: ${req.user.email}`);
+
+    const isAdmin = hasPermission(req.user.role, 'flights:read_all');
+
+    // If not admin, only the current pilot's flights
+    let flights;
+    try {
+      flights = await listAnalyticsFlights(isAdmin ? null : req.user.id);
+    } catch (err) {
+      console.error('❌ Database Error:', err);
+      return res.status(500).json({ message: 'Database error' });
+    }
+
+    console.log(`✅ Processing analytics for ${flights.length} flights`);
+
+    const analytics = processFlightAnalytics(flights);
+
+    recordAuditLog(
+      'analytics_viewed',
+      'system',
+      'analytics',
+      req.user.email,
+      { message: 'Analytics data requested', flightCount: flights.length }
+    );
+
+    res.json(analytics);
+  } catch (err) {
+    console.error('❌ Analytics Error:', err);
+    res.status(500).json({ message: 'Server error generating analytics' });
+  }
+});
+
+export default router;
@@ -0,0 +1,320 @@
+// auditLogs.ts
+// Audit log search, export and verification endpoints
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import moment from 'moment-timezone';
+import { auditChainTail, recordAuditLog, safeParse } from '../audit';
+import { GENESIS_HASH, verifyAuditBatch } from '../auditChain';
+import { JWT_SECRET } from '../config';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import {
+  countAuditLogs,
+  countRecentActions,
+  listAuditChainBatch,
+  listAuditFacets,
+  searchAuditLogs,
+  streamAuditLogs
+} from '../repositories/auditLogs';
+import { countActivePilots, countLockedPilots } from '../repositories/pilots';
+import type { AuditLogFilter } from '../repositories/auditLogs';
+import type { NextFunction, Request, Response } from 'express';
+import type { Readable } from 'stream';
+
+const router = express.Router();
+
+const AUDIT_SORT_COLUMNS = ['timestamp', 'id', 'action', 'entity', 'user_id'];
+
+// Largest page a search returns; the CSV/JSON export streams everything instead
+const AUDIT_MAX_PAGE_SIZE = 200;
+
+// Search and export parameters; each takes a single value
+const AUDIT_FILTER_KEYS = ['entity', 'filter', 'userId', 'action', 'from', 'to', 'q', 'sort', 'order', 'format'];
+
+const AUDIT_EXPORT_COLUMNS = ['id', 'timestamp', 'action', 'entity', 'entity_id', 'user_id', 'user_name', 'details', 'flight_details', 'entry_hash'];
+
+// Payload of the short-lived token issued by /audit-logs/export-link
+interface AuditExportToken {
+  id: number;
+  email: string;
+  role?: string;
+  purpose: string;
+  filters?: Record<string, unknown>;
+}
+
+// Helper function to turn audit log query parameters into a WHERE clause.
+// Supports entity (or the older `filter`), userId, action (comma separated), from/to dates,
+// free text `q` over the JSON columns, and sort/order.
+function buildAuditLogQuery(query: Record<string, unknown>): AuditLogFilter | { error: string } {
+  // Repeated parameters (?userId=1&userId=2) arrive as arrays and nested ones as objects
+  const repeated = AUDIT_FILTER_KEYS.find(key => query[key] !== null && typeof query[key] === 'object');
+  if (repeated) {
+    return { error: `${repeated} must be a single value` };
+  }
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+
+  const entity = query.entity || query.filter;
+  if (entity && entity !== 'all') {
+    conditions.push('entity = ?');
+    params.push(entity);
+  }
+
+  if (query.userId) {
+    conditions.push('user_id = ?');
+    params.push(query.userId);
+  }
+
+  if (query.action) {
+    const actions = String(query.action).split(',').map(action => action.trim()).filter(Boolean);
+    if (actions.length > 0) {
+      conditions.push('action IN (?)');
+      params.push(actions);
+    }
+  }
+
+  const isDate = (value: unknown) => !value || moment(String(value), 'YYYY-MM-DD', true).isValid();
+  if (!isDate(query.from) || !isDate(query.to)) {
+    return { error: 'from and to must be in YYYY-MM-DD format' };
+  }
+  if (query.from) {
+    conditions.push('timestamp >= ?');
+    params.push(`${query.from} 00:00:00`);
+  }
+  if (query.to) {
+    conditions.push('timestamp <= ?');
+    params.push(`${query.to} 23:59:59`);
+  }
+
+  if (query.q) {
+    const pattern = `%${String(query.q).trim()}%`;
+    conditions.push(`(
+      CAST(details AS CHAR) LIKE ? OR CAST(flight_details AS CHAR) LIKE ?
+      OR action LIKE ? OR entity_id LIKE ? OR user_id LIKE ?
+    )`);
+    params.push(pattern, pattern, pattern, pattern, pattern);
+  }
+
+  const sort = typeof query.sort === 'string' && AUDIT_SORT_COLUMNS.includes(query.sort) ? query.sort : 'timestamp';
+  const order = String(query.order).toLowerCase() === 'asc' ? 'ASC' : 'DESC';
+
+  return {
+    where: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+    params,
+    orderBy: ` ORDER BY ${sort} ${order}, id ${order}`
+  };
+}
+
+router.get('/audit-logs', authenticateToken, requirePermission('audit:read'), async (req, res) => {
+  try {
+    const page = Math.max(parseInt(String(req.query.page)) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit)) || 20, 1), AUDIT_MAX_PAGE_SIZE);
+    const offset = (page - 1) * limit;
+
+    const filter = buildAuditLogQuery(req.query);
+    if ('error' in filter) {
+      return res.status(400).json({ message: filter.error });
+    }
+
+    const total = await countAuditLogs(filter);
+    const totalPages = Math.ceil(total / limit);
+    const results = await searchAuditLogs(filter, limit, offset);
+
+    // Safely parse JSON fields
+    const logs = results.map(log => ({
+      ...log,
+      details: safeParse(log.details),
+      flight_details: safeParse(log.flight_details)
+    }));
+
+    res.json({
+      logs,
+      pagination: {
+        currentPage: page,
+        totalPages,
+        totalItems: total,
+        itemsPerPage: limit
+      }
+    });
+  } catch (err) {
+    console.error('❌ Query Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Distinct values for the audit screen filter panel
+router.get('/audit-logs/facets', authenticateToken, requirePermission('audit:read'), async (req, res) => {
+  try {
+    res.json(await listAuditFacets());
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Failed sign-ins and lockouts over the last day, plus pilots still locked, for the audit screen's Security Summary
+router.get('/audit-logs/security-summary', authenticateToken, requirePermission('audit:read'), async (req, res) => {
+  try {
+    const events = await countRecentActions(['login_failed', 'account_locked'], 24);
+    const locked = await countLockedPilots(new Date());
+    const active = await countActivePilots();
+
+    res.json({
+      failedLogins: events.login_failed,
+      accountLockouts: events.account_locked,
+      lockedAccounts: Number(locked),
+      activeUsers: Number(active),
+      windowHours: 24
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Helper function to quote a value for CSV output
+function toCsvValue(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Accept either a Bearer token or the short-lived ?token= issued by /audit-logs/export-link
+const authenticateAuditExport = <P>(req: Request<P>, res: Response, next: NextFunction) => {
+  if (!req.query.token) {
+    req.exportFilters = req.query;
+    return authenticateToken(req, res, next);
+  }
+
+  jwt.verify(String(req.query.token), JWT_SECRET, (err, decoded) => {
+    const payload = decoded as AuditExportToken;
+    if (err || payload.purpose !== 'audit_export') {
+      return res.status(403).json({ message: 'Invalid or expired download link' });
+    }
+    req.user = { id: payload.id, email: payload.email, role: payload.role };
+    req.exportFilters = payload.filters || {};
+    next();
+  });
+};
+
+// Issue a download link carrying the current filters, for clients that cannot send an Authorization header
+router.post('/audit-logs/export-link', authenticateToken, requirePermission('audit:read'), (req, res) => {
+  const filters = req.body || {};
+  const filter = buildAuditLogQuery(filters);
+  if ('error' in filter) {
+    return res.status(400).json({ success: false, message: filter.error });
+  }
+
+  const token = jwt.sign(
+    { id: req.user.id, email: req.user.email, role: req.user.role, purpose: 'audit_export', filters },
+    JWT_SECRET,
+    { expiresIn: '5m' }
+  );
+
+  res.json({
+    success: true,
+    url: `${req.protocol}://${req.get('host')}/audit-logs/export?token=${encodeURIComponent(token)}`,
+    expiresIn: 300
+  });
+});
+
+// Stream the filtered audit log as CSV (default) or JSON, without paging
+router.get('/audit-logs/export', authenticateAuditExport, requirePermission('audit:read'), async (req, res) => {
+  const filters = req.exportFilters || {};
+  const format = filters.format === 'json' ? 'json' : 'csv';
+  const filter = buildAuditLogQuery(filters);
+  if ('error' in filter) {
+    return res.status(400).json({ message: filter.error });
+  }
+
+  let stream: Readable;
+  try {
+    stream = await streamAuditLogs(AUDIT_EXPORT_COLUMNS, filter);
+  } catch (err) {
+    console.error('❌ Audit Export Error:', err);
+    return res.status(500).json({ message: 'Database error' });
+  }
+
+  const filename = `audit-logs-${moment().format('YYYYMMDD-HHmmss')}.${format}`;
+  res.setHeader('Content-Type', format === 'json' ? 'application/json' : 'text/csv');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+  let rowCount = 0;
+  res.write(format === 'json' ? '[' : `${AUDIT_EXPORT_COLUMNS.join(',')}\n`);
+
+  const resume = () => stream.resume();
+
+  stream.on('data', (row) => {
+    const line = format === 'json'
+      ? `${rowCount > 0 ? ',' : ''}\n${JSON.stringify({ ...row, details: safeParse(row.details), flight_details: safeParse(row.flight_details) })}`
+      : `${AUDIT_EXPORT_COLUMNS.map(column => toCsvValue(row[column])).join(',')}\n`;
+    rowCount += 1;
+
+    // Respect back-pressure from slow clients
+    if (!res.write(line)) {
+      stream.pause();
+      res.once('drain', resume);
+    }
+  });
+
+  // A client that disconnects mid-export must not leave the query paused on its connection
+  res.on('close', () => {
+    res.off('drain', resume);
+    stream.destroy();
+  });
+
+  stream.on('error', (err) => {
+    console.error('❌ Audit Export Error:', err);
+    res.end();
+  });
+
+  stream.on('end', () => {
+    res.end(format === 'json' ? '\n]\n' : '');
+
+    recordAuditLog(
+      'data_export',
+      'system',
+      'audit_logs',
+      req.user.email,
+      { message: `Audit log exported as ${format.toUpperCase()} (${rowCount} entries)`, filters }
+    );
+  });
+});
+
+// Walk the audit hash chain from the oldest entry and report the first broken link
+const AUDIT_VERIFY_BATCH_SIZE = 1000;
+
+router.get('/audit-logs/verify', authenticateToken, requirePermission('audit:read'), async (req, res) => {
+  try {
+    // Let pending appends land first so they are part of the check
+    await auditChainTail;
+
+    const state = { previousHash: GENESIS_HASH, checked: 0, skipped: 0, started: false };
+    let lastId = 0;
+    let broken = null;
+
+    while (!broken) {
+      const rows = await listAuditChainBatch(lastId, AUDIT_VERIFY_BATCH_SIZE);
+      if (rows.length === 0) break;
+
+      broken = verifyAuditBatch(rows, state);
+      lastId = rows[rows.length - 1].id;
+    }
+
+    res.json({
+      valid: !broken,
+      checkedEntries: state.checked,
+      unchainedEntries: state.skipped,
+      headHash: state.started ? state.previousHash : null,
+      firstBrokenId: broken ? broken.id : null,
+      reason: broken ? broken.reason : null,
+      verifiedAt: new Date().toISOString()
+    });
+  } catch (err) {
+    console.error('❌ Audit Verify Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,365 @@
+// auth.ts
+// Registration, login, token refresh and logout endpoints
+
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import { sendVerificationEmail } from '../accountEmails';
+import { recordAuditLog } from '../audit';
+import {
+  signAccessToken,
+  sessionDevice,
+  createSession,
+  completeLogin,
+  sendTooManyAttempts,
+  sendLoginBlocked,
+  checkAccountLock,
+  recordLoginFailure
+} from '../login';
+import { ipRetryAfter } from '../loginThrottle';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { permissionsFor } from '../permissions';
+import { findActivePilotByEmail, findPilotByEmailOrUsername, findPilotById, insertPilot } from '../repositories/pilots';
+import { findSessionByTokenHash, revokeSessions, rotateSessionToken } from '../repositories/sessions';
+import { ACCESS_TOKEN_TTL_SECONDS, generateRefreshToken, hashRefreshToken } from '../sessions';
+import { signTwoFactorToken, isTwoFactorRequired } from '../twoFactor';
+
+const router = express.Router();
+
+// Register new pilot
+router.post('/auth/register', async (req, res) => {
+  try {
+    const { email, password, username, firstName, lastName, licenseNumber, licenseType } = req.body;
+
+    // Validation
+    if (!email || !password || !username || !firstName || !lastName) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Email, password, username, first name, and last name are required' 
+      });
+    }
+
+    if (password.length < 6) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Password must be at least 6 characters long' 
+      });
+    }
+
+    // for admin
+    const adminEmails = ['admin@company.com']; // Configure admin emails
+    const role = adminEmails.includes(email) ? 'admin' : 'pilot';
+
+    // Check if pilot already exists
+    if (await findPilotByEmailOrUsername(email, username)) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Pilot with this email or username already exists' 
+      });
+    }
+
+    // Hash password
+    const saltRounds = 10;
+    const hashedPassword = await bcrypt.hash(password, saltRounds);
+
+    // Insert new pilot
+    let pilotId;
+    try {
+      pilotId = await insertPilot({
+        email,
+        password: hashedPassword,
+        username,
+        first_name: firstName,
+        last_name: lastName,
+        license_number: licenseNumber || null,
+        license_type: licenseType || 'PPL',
+        role
+      });
+    } catch (insertErr) {
+      console.error('❌ Insert Error:', insertErr);
+      return res.status(500).json({ success: false, message: 'Failed to create pilot account' });
+    }
+
+    // Record audit log
+    recordAuditLog(
+      'registered',
+      'pilot',
+      pilotId,
+      email,
+      { message: 'New pilot account created' }
+    );
+
+    let session;
+    try {
+      session = await createSession({ id: pilotId, email, username, firstName, lastName, role }, req);
+    } catch (sessionErr) {
+      console.error('❌ Session Error:', sessionErr);
+      return res.status(500).json({ success: false, message: 'Account created, but signing in failed' });
+    }
+
+    sendVerificationEmail({ id: pilotId, email, first_name: firstName }, req).catch(mailErr => {
+      console.error('❌ Mail Error:', mailErr);
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Pilot account created successfully. Check your email to verify your address.',
+      ...session,
+      pilot: {
+        id: pilotId,
+        email,
+        username,
+        firstName,
+        lastName,
+        licenseNumber,
+        licenseType: licenseType || 'PPL',
+        role,
+        permissions: permissionsFor(role),
+        emailVerified: false
+      }
+    });
+  } catch (err) {
+    console.error('❌ Registration Error:', err);
+    res.status(500).json({ success: false, message: 'Server error during registration' });
+  }
+});
+
+// Login pilot
+router.post('/auth/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Email and password are required' 
+      });
+    }
+
+    const ipRetry = ipRetryAfter(req.ip);
+    if (ipRetry > 0) {
+      return sendTooManyAttempts(res, ipRetry);
+    }
+
+    // Find pilot by email
+    const pilot = await findActivePilotByEmail(email);
+    if (!pilot) {
+      await recordLoginFailure(null, email, req, 'Unknown email address');
+      return res.status(401).json({ 
+        success: false, 
+        message: 'Invalid email or password' 
+      });
+    }
+
+    const blocked = await checkAccountLock(pilot, req);
+    if (blocked) {
+      return sendLoginBlocked(res, blocked);
+    }
+
+    // Verify password
+    const isValidPassword = await bcrypt.compare(password, pilot.password);
+    if (!isValidPassword) {
+      await recordLoginFailure(pilot, email, req, 'Invalid password');
+      return res.status(401).json({ 
+        success: false, 
+        message: 'Invalid email or password' 
+      });
+    }
+
+    // Pilots with two-factor authentication finish at /auth/login/2fa; pilots whose role
+    // requires it but who have not set it up must enroll before a session is created
+    if (pilot.totp_enabled) {
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        challengeToken: signTwoFactorToken(pilot, '2fa_challenge'),
+        message: 'Enter the code from your authenticator app'
+      });
+    }
+    if (await isTwoFactorRequired(pilot.role)) {
+      return res.json({
+        success: true,
+        twoFactorSetupRequired: true,
+        enrollmentToken: signTwoFactorToken(pilot, '2fa_enroll'),
+        message: 'Your role requires two-factor authentication. Set it up to continue.'
+      });
+    }
+
+    res.json(await completeLogin(pilot, req, 'password'));
+  } catch (err) {
+    console.error('❌ Login Error:', err);
+    res.status(500).json({ success: false, message: 'Server error during login' });
+  }
+});
+
+// Verify token endpoint
+router.get('/auth/verify', authenticateToken, loadCurrentRole, (req, res) => {
+  res.json({
+    success: true,
+    message: 'Token is valid',
+    pilot: {
+      id: req.user.id,
+      email: req.user.email,
+      username: req.user.username,
+      firstName: req.user.firstName,
+      lastName: req.user.lastName,
+      role: req.user.role,
+      permissions: permissionsFor(req.user.role)
+    }
+  });
+});
+
+// Get current pilot profile
+router.get('/auth/profile', authenticateToken, async (req, res) => {
+  try {
+    let pilot;
+    try {
+      pilot = await findPilotById(req.user.id);
+    } catch (err) {
+      console.error('❌ Database Error:', err);
+      return res.status(500).json({ success: false, message: 'Database error' });
+    }
+
+    if (!pilot) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+
+    res.json({
+      success: true,
+      pilot: {
+        id: pilot.id,
+        email: pilot.email,
+        username: pilot.username,
+        firstName: pilot.first_name,
+        lastName: pilot.last_name,
+        licenseNumber: pilot.license_number,
+        licenseType: pilot.license_type,
+        totalHours: pilot.total_hours,
+        createdAt: pilot.created_at,
+        lastLogin: pilot.last_login,
+        role: pilot.role,
+        permissions: permissionsFor(pilot.role),
+        emailVerified: Boolean(pilot.email_verified)
+      }
+    });
+  } catch (err) {
+    console.error('❌ Profile Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Exchange a refresh token for a new access token. The refresh token rotates on every call;
+// presenting an already-rotated token means it was copied, so the session is revoked.
+router.post('/auth/refresh', async (req, res) => {
+  const { refreshToken } = req.body || {};
+  if (!refreshToken) {
+    return res.status(400).json({ success: false, message: 'Refresh token is required' });
+  }
+
+  const tokenHash = hashRefreshToken(refreshToken);
+
+  try {
+    const session = await findSessionByTokenHash(tokenHash);
+    if (!session || session.revoked_at || !session.is_live) {
+      return res.status(401).json({ success: false, message: 'Session expired, please log in again' });
+    }
+
+    if (session.refresh_token_hash !== tokenHash) {
+      await revokeSessions('id = ?', [session.id]);
+      recordAuditLog(
+        'token_reuse_detected',
+        'session',
+        session.id,
+        session.email,
+        { message: 'A rotated refresh token was presented again; session revoked', ip: req.ip }
+      );
+      return res.status(401).json({ success: false, message: 'Session expired, please log in again' });
+    }
+
+    if (!session.is_active) {
+      await revokeSessions('id = ?', [session.id]);
+      return res.status(403).json({ success: false, message: 'Account is deactivated' });
+    }
+
+    const nextRefreshToken = generateRefreshToken();
+    const { userAgent, ipAddress } = sessionDevice(req);
+
+    const rotated = await rotateSessionToken(session.id, tokenHash, hashRefreshToken(nextRefreshToken), { userAgent, ipAddress });
+    if (!rotated) {
+      return res.status(409).json({ success: false, message: 'Session was refreshed by another request' });
+    }
+
+    const pilot = {
+      id: session.pilot_id,
+      email: session.email,
+      username: session.username,
+      firstName: session.first_name,
+      lastName: session.last_name,
+      role: session.role
+    };
+
+    res.json({
+      success: true,
+      token: signAccessToken(pilot, session.id),
+      refreshToken: nextRefreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      pilot: {
+        ...pilot,
+        licenseNumber: session.license_number,
+        licenseType: session.license_type,
+        totalHours: session.total_hours,
+        lastLogin: session.last_login,
+        permissions: permissionsFor(session.role),
+        emailVerified: Boolean(session.email_verified)
+      }
+    });
+  } catch (err) {
+    console.error('❌ Refresh Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Logout revokes the current session so its refresh token can no longer be used
+router.post('/auth/logout', authenticateToken, async (req, res) => {
+  try {
+    await revokeSessions('id = ?', [req.user.sid]);
+
+    // Record audit log
+    recordAuditLog(
+      'logout',
+      'pilot',
+      req.user.id,
+      req.user.email,
+      { message: 'Pilot logged out', sessionId: req.user.sid }
+    );
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (err) {
+    console.error('❌ Logout Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Log out everywhere: revoke every session of the pilot, including this one
+router.post('/auth/logout-all', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeSessions('pilot_id = ?', [req.user.id]);
+
+    recordAuditLog(
+      'logout_all',
+      'pilot',
+      req.user.id,
+      req.user.email,
+      { message: `Logged out of ${revoked} session(s)`, revoked }
+    );
+
+    res.json({ success: true, message: 'Logged out of all devices', revoked });
+  } catch (err) {
+    console.error('❌ Logout Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
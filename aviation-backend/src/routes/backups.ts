@@ -0,0 +1,235 @@
+// backups.ts
+// Backup and restore endpoints
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import moment from 'moment-timezone';
+import { recordAuditLog } from '../audit';
+import { BACKUP_RETENTION_DAYS, BACKUP_MIN_KEEP, createBackup, restoreBackup } from '../backups';
+import type { BackupPilot } from '../backups';
+import { JWT_SECRET } from '../config';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { deleteBackups, findBackupById, listBackups } from '../repositories/backups';
+import { findPilotById, setAutoBackup } from '../repositories/pilots';
+import type { NextFunction, Request, Response } from 'express';
+
+const router = express.Router();
+
+// Payload of the short-lived token issued by /backups/:id/download-link
+interface BackupDownloadToken {
+  id: number;
+  email: string;
+  role?: string;
+  purpose: string;
+  backupId: number;
+}
+
+// Helper function to load a backup the user may access; full backups are admin-only
+async function findAccessibleBackup(req: Request<{ id: string }>, res: Response, withData = false) {
+  const backup = await findBackupById(req.params.id, { withData });
+  const isAdmin = hasPermission(req.user.role, 'backup:full');
+
+  if (!backup || (!isAdmin && (backup.scope !== 'pilot' || backup.pilot_id !== req.user.id))) {
+    res.status(404).json({ success: false, message: 'Backup not found' });
+    return null;
+  }
+  return backup;
+}
+
+// Create a backup: admins back up everything (or one pilot with scope=pilot), pilots their own data
+router.post('/perform-backup', authenticateToken, requirePermission('backup:run'), async (req, res) => {
+  try {
+    const isAdmin = hasPermission(req.user.role, 'backup:full');
+    const scope = isAdmin && req.body.scope !== 'pilot' ? 'full' : 'pilot';
+    const pilotId = isAdmin && req.body.pilotId ? req.body.pilotId : req.user.id;
+
+    let pilot: BackupPilot | null = null;
+    if (scope === 'pilot') {
+      pilot = await findPilotById(pilotId);
+      if (!pilot) {
+        return res.status(404).json({ success: false, message: 'Pilot not found' });
+      }
+    }
+
+    const backup = await createBackup({ scope, pilot, backupType: 'manual', createdBy: req.user.email });
+
+    // Record audit log for backup
+    recordAuditLog(
+      'backup',
+      'system',
+      backup.id,
+      req.user.email,
+      { message: 'Manual backup performed', scope, pilot_id: backup.pilot_id, record_counts: backup.record_counts }
+    );
+
+    res.json({ success: true, message: 'Backup completed successfully', backup });
+  } catch (err) {
+    console.error('❌ Backup Error:', err);
+    res.status(500).json({ success: false, message: 'Backup failed' });
+  }
+});
+
+// Automatic backup preference of the logged-in pilot
+router.get('/backups/settings', authenticateToken, async (req, res) => {
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot) {
+      return res.status(404).json({ message: 'Pilot not found' });
+    }
+    res.json({
+      autoBackup: Boolean(pilot.auto_backup),
+      retentionDays: BACKUP_RETENTION_DAYS,
+      minKeep: BACKUP_MIN_KEEP
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+router.put('/backups/settings', authenticateToken, async (req, res) => {
+  if (typeof req.body.autoBackup !== 'boolean') {
+    return res.status(400).json({ success: false, message: 'autoBackup must be true or false' });
+  }
+
+  try {
+    await setAutoBackup(req.user.id, req.body.autoBackup);
+
+    recordAuditLog(
+      'updated',
+      'pilot',
+      req.user.id,
+      req.user.email,
+      { message: `Automatic backups ${req.body.autoBackup ? 'enabled' : 'disabled'}` }
+    );
+
+    res.json({ success: true, autoBackup: req.body.autoBackup });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// List backups: admins see every backup, pilots their own pilot backups
+router.get('/backups', authenticateToken, requirePermission('backup:run'), async (req, res) => {
+  try {
+    res.json(await listBackups(hasPermission(req.user.role, 'backup:full') ? null : req.user.id));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Accept either a Bearer token or the short-lived ?token= issued by /backups/:id/download-link
+const authenticateBackupDownload = (req: Request<{ id: string }>, res: Response, next: NextFunction) => {
+  if (!req.query.token) {
+    return authenticateToken(req, res, next);
+  }
+
+  jwt.verify(String(req.query.token), JWT_SECRET, (err, decoded) => {
+    const payload = decoded as BackupDownloadToken;
+    if (err || payload.purpose !== 'backup_download' || String(payload.backupId) !== req.params.id) {
+      return res.status(403).json({ message: 'Invalid or expired download link' });
+    }
+    req.user = { id: payload.id, email: payload.email, role: payload.role };
+    next();
+  });
+};
+
+// Issue a download link for mobile clients that cannot send an Authorization header
+router.post('/backups/:id/download-link', authenticateToken, requirePermission('backup:run'), async (req, res) => {
+  try {
+    const backup = await findAccessibleBackup(req, res);
+    if (!backup) return;
+
+    const token = jwt.sign(
+      { id: req.user.id, email: req.user.email, role: req.user.role, purpose: 'backup_download', backupId: backup.id },
+      JWT_SECRET,
+      { expiresIn: '5m' }
+    );
+
+    res.json({
+      success: true,
+      url: `${req.protocol}://${req.get('host')}/backups/${backup.id}/download?token=${encodeURIComponent(token)}`,
+      expiresIn: 300
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Download a backup as a JSON archive
+router.get('/backups/:id/download', authenticateBackupDownload, requirePermission('backup:run'), async (req, res) => {
+  try {
+    const backup = await findAccessibleBackup(req, res, true);
+    if (!backup) return;
+
+    const filename = `backup-${backup.id}-${moment(backup.timestamp).format('YYYYMMDD-HHmmss')}.json`;
+    res.setHeader('Content-Type', 'application/json');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.send(JSON.stringify(backup.data, null, 2));
+  } catch (err) {
+    console.error('❌ Backup Download Error:', err);
+    res.status(500).json({ success: false, message: 'Backup download failed' });
+  }
+});
+
+// Restore a backup in one transaction; scope 'full' (admins, full backups only) or 'pilot'
+router.post('/backups/:id/restore', authenticateToken, requirePermission('backup:run'), async (req, res) => {
+  try {
+    const backup = await findAccessibleBackup(req, res, true);
+    if (!backup) return;
+
+    const isAdmin = hasPermission(req.user.role, 'backup:full');
+    const scope = req.body.scope === 'full' ? 'full' : 'pilot';
+    const pilotId = isAdmin
+      ? Number(req.body.pilotId || backup.pilot_id)
+      : req.user.id;
+
+    if (scope === 'full' && (!isAdmin || backup.scope === 'pilot')) {
+      return res.status(403).json({ success: false, message: 'Full restore requires an admin and a full backup' });
+    }
+    if (scope === 'pilot' && !pilotId) {
+      return res.status(400).json({ success: false, message: 'pilotId is required for a pilot restore' });
+    }
+
+    const result = await restoreBackup(backup.data, { scope, pilotId });
+    if ('error' in result) {
+      return res.status(409).json({ success: false, message: result.error });
+    }
+    const { restored } = result;
+
+    recordAuditLog(
+      'backup_restored',
+      'system',
+      backup.id,
+      req.user.email,
+      { message: `Backup restored (${scope})`, scope, pilot_id: scope === 'pilot' ? pilotId : null, restored }
+    );
+
+    res.json({ success: true, message: 'Backup restored successfully', scope, restored });
+  } catch (err) {
+    console.error('❌ Restore Error:', err);
+    res.status(500).json({ success: false, message: 'Restore failed; no changes were made' });
+  }
+});
+
+// Delete a backup
+router.delete('/backups/:id', authenticateToken, requirePermission('backup:run'), async (req, res) => {
+  try {
+    const backup = await findAccessibleBackup(req, res);
+    if (!backup) return;
+
+    await deleteBackups([backup.id]);
+    recordAuditLog('deleted', 'backup', backup.id, req.user.email, { message: 'Backup deleted', scope: backup.scope });
+
+    res.json({ success: true, message: 'Backup deleted' });
+  } catch (err) {
+    console.error('❌ Backup Delete Error:', err);
+    res.status(500).json({ success: false, message: 'Backup delete failed' });
+  }
+});
+
+export default router;
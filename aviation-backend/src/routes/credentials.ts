@@ -0,0 +1,160 @@
+// credentials.ts
+// Pilot credential endpoints (medicals, ratings, reviews, ...)
+
+import express from 'express';
+import moment from 'moment-timezone';
+import { recordAuditLog } from '../audit';
+import { CREDENTIAL_TYPES, CREDENTIAL_AUTHORITIES, evaluateCredential } from '../credentials';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import {
+  deleteCredential,
+  insertCredential,
+  listPilotCredentials,
+  updateCredential
+} from '../repositories/credentials';
+
+const router = express.Router();
+
+// Helper function to validate and normalise credential fields from a request body
+function parseCredentialFields(data: Record<string, unknown>) {
+  const credentialType = String(data.credential_type);
+  if (!CREDENTIAL_TYPES.includes(credentialType)) {
+    return { error: `Credential type must be one of: ${CREDENTIAL_TYPES.join(', ')}` };
+  }
+
+  const authority = String(data.authority || 'FAA');
+  if (!CREDENTIAL_AUTHORITIES.includes(authority)) {
+    return { error: `Authority must be one of: ${CREDENTIAL_AUTHORITIES.join(', ')}` };
+  }
+
+  const medicalClass = credentialType === 'medical' ? parseInt(String(data.medical_class), 10) : null;
+  if (credentialType === 'medical' && ![1, 2, 3].includes(Number(medicalClass))) {
+    return { error: 'Medical class must be 1, 2 or 3' };
+  }
+
+  const isDate = (value: unknown) => !value || moment(String(value), 'YYYY-MM-DD', true).isValid();
+  if (!isDate(data.issue_date) || !isDate(data.expiry_date)) {
+    return { error: 'Dates must be in YYYY-MM-DD format' };
+  }
+
+  if (!data.issue_date && !data.expiry_date) {
+    return { error: 'An issue date or an expiry date is required' };
+  }
+
+  const age = parseInt(String(data.age_at_issue), 10);
+
+  return {
+    fields: {
+      credential_type: credentialType,
+      authority,
+      name: data.name ? String(data.name).trim() : null,
+      medical_class: medicalClass,
+      age_at_issue: isNaN(age) ? null : age,
+      reference_number: data.reference_number ? String(data.reference_number).trim() : null,
+      issue_date: data.issue_date ? String(data.issue_date) : null,
+      expiry_date: data.expiry_date ? String(data.expiry_date) : null,
+      notes: data.notes ? String(data.notes).trim() : null
+    }
+  };
+}
+
+// List the pilot's credentials with computed expiry and status
+router.get('/credentials', authenticateToken, loadCurrentRole, async (req, res) => {
+  const pilotId = hasPermission(req.user.role, 'pilots:manage') && req.query.pilotId ? String(req.query.pilotId) : req.user.id;
+
+  try {
+    const credentials = (await listPilotCredentials(pilotId))
+      .map(credential => evaluateCredential(credential))
+      .sort((a, b) => (a.days_remaining ?? Infinity) - (b.days_remaining ?? Infinity));
+
+    res.json(credentials);
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Add a credential
+router.post('/credentials', authenticateToken, async (req, res) => {
+  const { fields, error } = parseCredentialFields(req.body);
+  if (!fields) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const credential = { ...fields, pilot_id: req.user.id };
+
+  try {
+    const id = await insertCredential(credential);
+
+    recordAuditLog(
+      'created',
+      'credential',
+      id,
+      req.user.email,
+      { message: 'Credential added', credential_type: fields.credential_type, name: fields.name }
+    );
+
+    res.status(201).json({
+      success: true,
+      credential: evaluateCredential({ id, ...credential })
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Update a credential the pilot owns
+router.put('/credentials/:id', authenticateToken, async (req, res) => {
+  const { fields, error } = parseCredentialFields(req.body);
+  if (!fields) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  try {
+    if (!await updateCredential(req.params.id, req.user.id, fields)) {
+      return res.status(404).json({ success: false, message: 'Credential not found' });
+    }
+
+    recordAuditLog(
+      'updated',
+      'credential',
+      req.params.id,
+      req.user.email,
+      { message: 'Credential updated', changes: fields }
+    );
+
+    res.json({
+      success: true,
+      credential: evaluateCredential({ id: Number(req.params.id), ...fields, pilot_id: req.user.id })
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Delete a credential the pilot owns
+router.delete('/credentials/:id', authenticateToken, async (req, res) => {
+  try {
+    if (!await deleteCredential(req.params.id, req.user.id)) {
+      return res.status(404).json({ success: false, message: 'Credential not found' });
+    }
+
+    recordAuditLog(
+      'deleted',
+      'credential',
+      req.params.id,
+      req.user.email,
+      { message: 'Credential deleted' }
+    );
+
+    res.json({ success: true, message: 'Credential deleted' });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+export default router;
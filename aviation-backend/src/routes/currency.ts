@@ -0,0 +1,42 @@
+// currency.ts
+// Recent-experience (currency) endpoint
+
+import express from 'express';
+import { currencyRuleSets, DEFAULT_RULE_SET, evaluateCurrency } from '../currency';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { listCurrencyFlights } from '../repositories/flights';
+
+const router = express.Router();
+
+// Currency status for the logged-in pilot (pilots with flights:read_all may pass ?pilotId=)
+router.get('/currency', authenticateToken, loadCurrentRole, async (req, res) => {
+  const ruleSet = String(req.query.ruleSet || DEFAULT_RULE_SET);
+  if (!currencyRuleSets[ruleSet]) {
+    return res.status(400).json({
+      message: `Unknown rule set. Available: ${Object.keys(currencyRuleSets).join(', ')}`
+    });
+  }
+
+  const pilotId = hasPermission(req.user.role, 'flights:read_all') && req.query.pilotId ? String(req.query.pilotId) : req.user.id;
+
+  let flights;
+  try {
+    flights = await listCurrencyFlights(pilotId);
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    return res.status(500).json({ message: 'Database error' });
+  }
+
+  try {
+    res.json({
+      ...evaluateCurrency(flights, ruleSet),
+      availableRuleSets: Object.keys(currencyRuleSets)
+    });
+  } catch (evalErr) {
+    console.error('❌ Currency Error:', evalErr.message);
+    res.status(500).json({ message: 'Server error evaluating currency' });
+  }
+});
+
+export default router;
@@ -0,0 +1,50 @@
+// duty.ts
+// Duty and rest endpoint
+
+import express from 'express';
+import { loadDutyData } from '../dutyData';
+import { dutyRuleSets, DEFAULT_DUTY_RULE_SET, evaluateDutyStatus } from '../dutyRest';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { findPilotById, listActivePilots } from '../repositories/pilots';
+
+const router = express.Router();
+
+// Remaining legal duty for the logged-in pilot; flights:read_all gets every active pilot (or ?pilotId=)
+router.get('/duty-status', authenticateToken, loadCurrentRole, async (req, res) => {
+  const ruleSet = String(req.query.ruleSet || DEFAULT_DUTY_RULE_SET);
+  if (!dutyRuleSets[ruleSet]) {
+    return res.status(400).json({
+      message: `Unknown rule set. Available: ${Object.keys(dutyRuleSets).join(', ')}`
+    });
+  }
+
+  try {
+    const readAll = hasPermission(req.user.role, 'flights:read_all');
+    let pilots;
+    if (readAll && !req.query.pilotId) {
+      pilots = await listActivePilots();
+    } else {
+      const pilotId = readAll ? String(req.query.pilotId) : req.user.id;
+      const pilot = await findPilotById(pilotId);
+      pilots = pilot ? [pilot] : [];
+    }
+
+    const statuses = [];
+    for (const pilot of pilots) {
+      const status = evaluateDutyStatus(await loadDutyData(pilot.id), ruleSet);
+      statuses.push({ pilot_id: pilot.id, username: pilot.username, email: pilot.email, ...status });
+    }
+
+    res.json({
+      ruleSet,
+      availableRuleSets: Object.keys(dutyRuleSets),
+      pilots: statuses
+    });
+  } catch (err) {
+    console.error('❌ Duty Status Error:', err);
+    res.status(500).json({ message: 'Server error evaluating duty status' });
+  }
+});
+
+export default router;
@@ -0,0 +1,154 @@
+// flightEdits.ts
+// Logbook entry edit, delete and history endpoints
+
+import express from 'express';
+import { recordAuditLog, safeParse } from '../audit';
+import { parseFlightUpdates, diffFlight } from '../flightFields';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { findOwnedAircraft } from '../repositories/aircraft';
+import { listEntityAuditLogs } from '../repositories/auditLogs';
+import { deleteFlight, findFlightById, updateFlight } from '../repositories/flights';
+import { findCurrentSignature } from '../repositories/signatures';
+import type { Request, Response } from 'express';
+
+const router = express.Router();
+
+// Helper function to read a JSON audit column as an object; anything else reads as empty
+function parseAuditObject(value: unknown): Record<string, unknown> {
+  const parsed = safeParse(value);
+  return parsed !== null && typeof parsed === 'object' ? parsed as Record<string, unknown> : {};
+}
+
+// Helper function to load a flight the user may change; dates stay as MySQL strings for diffing
+async function findEditableFlight(req: Request<{ id: string }>, res: Response) {
+  const flight = await findFlightById(req.params.id, { dateStrings: true });
+
+  if (!flight) {
+    res.status(404).json({ success: false, message: 'Flight not found' });
+    return null;
+  }
+
+  if (!hasPermission(req.user.role, 'flights:edit_all') && flight.created_by !== req.user.id) {
+    res.status(403).json({ success: false, message: 'Not allowed to change this flight' });
+    return null;
+  }
+
+  if (await findCurrentSignature(flight.id)) {
+    res.status(423).json({ success: false, message: 'This entry is signed; changes require a signed amendment by an instructor' });
+    return null;
+  }
+  return flight;
+}
+
+// Edit a saved flight; every change bumps the version and stores a field-level diff in the audit log
+router.put('/flights/:id', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    const flight = await findEditableFlight(req, res);
+    if (!flight) return;
+
+    const { updates, error } = parseFlightUpdates(req.body || {});
+    if (!updates) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    // Only allow linking to an aircraft the flight's pilot owns
+    if (typeof updates.aircraft_id === 'number') {
+      if (!await findOwnedAircraft(updates.aircraft_id, flight.created_by)) {
+        return res.status(400).json({ success: false, message: 'Aircraft not found in your registry' });
+      }
+    }
+
+    const changes = diffFlight(flight, updates);
+    if (Object.keys(changes).length === 0) {
+      return res.json({ success: true, message: 'No changes', version: flight.version });
+    }
+
+    const values = Object.fromEntries(Object.keys(changes).map(field => [field, changes[field].to]));
+    const version = (flight.version || 1) + 1;
+
+    // The version check rejects an edit based on a stale copy of the flight
+    if (!await updateFlight(flight.id, values, version, flight.version)) {
+      return res.status(409).json({ success: false, message: 'Flight was changed by someone else; reload and try again' });
+    }
+
+    recordAuditLog(
+      'updated',
+      'flight',
+      flight.id,
+      req.user.email,
+      { message: `Flight updated (${Object.keys(changes).join(', ')})`, version, changes },
+      { ...flight, ...values, version }
+    );
+
+    res.json({ success: true, message: 'Flight updated successfully', version, changes });
+  } catch (err) {
+    console.error('❌ Flight Update Error:', err);
+    res.status(500).json({ success: false, message: err.sqlMessage || 'Database error' });
+  }
+});
+
+// Delete a saved flight; the final snapshot stays in the audit log
+router.delete('/flights/:id', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    const flight = await findEditableFlight(req, res);
+    if (!flight) return;
+
+    await deleteFlight(flight.id);
+
+    recordAuditLog(
+      'deleted',
+      'flight',
+      flight.id,
+      req.user.email,
+      { message: 'Flight deleted from logbook', version: (flight.version || 1) + 1 },
+      flight
+    );
+
+    res.json({ success: true, message: 'Flight deleted successfully' });
+  } catch (err) {
+    console.error('❌ Flight Delete Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Revision history of a flight (also available after it was deleted), oldest first
+router.get('/flights/:id/history', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    const logs = await listEntityAuditLogs('flight', req.params.id);
+    const flight = await findFlightById(req.params.id);
+
+    const revisions = logs.map(log => {
+      const details = parseAuditObject(log.details);
+      return {
+        id: log.id,
+        version: Number(details.version) || 1,
+        action: log.action,
+        user: log.user_id,
+        timestamp: log.timestamp,
+        message: details.message || null,
+        changes: details.changes || {},
+        snapshot: log.flight_details ? parseAuditObject(log.flight_details) : null
+      };
+    });
+
+    if (!flight && revisions.length === 0) {
+      return res.status(404).json({ message: 'Flight not found' });
+    }
+
+    // Ownership comes from the flight, or from the last snapshot once it has been deleted
+    const lastSnapshot = [...revisions].reverse().find(revision => revision.snapshot && revision.snapshot.created_by);
+    const ownerId = flight ? flight.created_by : lastSnapshot?.snapshot?.created_by;
+    const isOwner = ownerId ? ownerId === req.user.id : revisions.some(revision => revision.user === req.user.email);
+    if (!hasPermission(req.user.role, 'flights:read_all') && !isOwner) {
+      return res.status(403).json({ message: 'Not allowed to access this flight' });
+    }
+
+    res.json({ flightId: Number(req.params.id), deleted: !flight, current: flight, revisions });
+  } catch (err) {
+    console.error('❌ Flight History Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,266 @@
+// flights.ts
+// Flight lookup, saving and logbook listing endpoints
+
+import express from 'express';
+import { recordAuditLog } from '../audit';
+import { formatDate, withAirportDetails, generateMockFlights } from '../flightData';
+import { parseLogbookFields } from '../flightFields';
+import { getFlightProvider } from '../flightProviders';
+import { authenticateToken, loadCurrentRole, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { providerUsageReport } from '../providerCache';
+import { findOwnedAircraft } from '../repositories/aircraft';
+import { findCatalogFlight, findCatalogFlightsByNumber, upsertCatalogFlight } from '../repositories/flightCatalog';
+import { insertFlight, listLogEntries } from '../repositories/flights';
+import { signatureStatus } from '../signatures';
+import type { Flight, FlightLog, SaveFlightRequest, SaveFlightResponse } from 'aviation-shared';
+
+const router = express.Router();
+
+// Helper function to add a provider flight to the catalog without holding up the response
+function catalogFlight(flight: Flight) {
+  upsertCatalogFlight({ ...flight }).catch(insertErr => {
+    console.error('❌ Catalog Error:', insertErr.sqlMessage || insertErr.message);
+  });
+}
+
+router.get('/flights-by-date', authenticateToken, async (req, res) => {
+  try {
+    const date = req.query.date as string | undefined;
+    if (!date) {
+      return res.status(400).json({ message: 'Date parameter is required' });
+    }
+
+    console.log(`📅 Fetching flights for date: ${date} (User: ${req.user.email})`);
+
+    try {
+      const provider = getFlightProvider();
+      let flights = await provider.searchByDate(date, 10);
+
+      if (flights.length > 0) {
+        console.log(`✅ Fetched ${flights.length} flights from ${provider.name}`);
+        flights.forEach(catalogFlight);
+      } else {
+        console.log('🎭 Provider returned no data, using mock flights');
+        flights = generateMockFlights(date);
+      }
+
+      res.json(flights.map(withAirportDetails));
+
+    } catch (apiError) {
+      console.error('❌ Provider Error:', apiError.message);
+      console.log('🎭 Provider failed, returning mock data');
+      // If the provider fails or is out of quota, return mock data
+      res.json(generateMockFlights(date).map(withAirportDetails));
+    }
+  } catch (err) {
+    console.error('❌ Server Error:', err.message);
+    // Even if everything fails, return mock data instead of error
+    res.json(generateMockFlights(String(req.query.date || formatDate(new Date()))));
+  }
+});
+
+router.get('/search-flight', authenticateToken, async (req, res) => {
+  try {
+    const flight_iata = req.query.flight_iata as string | undefined;
+    const date = req.query.date as string | undefined;
+
+    if (!flight_iata || !date) {
+      return res.status(400).json({ message: 'Flight IATA code and date are required' });
+    }
+
+    console.log(`🔍 Searching for flight: ${flight_iata} on ${date} (User: ${req.user.email})`);
+
+    try {
+      const flights = await getFlightProvider().searchByFlightNumber(flight_iata, date);
+
+      if (flights.length > 0) {
+        console.log(`✅ Found flight via provider`);
+        flights.forEach(catalogFlight);
+        return res.json(flights.map(withAirportDetails));
+      }
+
+      console.log('❌ Flight not found');
+      res.json([]);
+
+    } catch (apiError) {
+      console.error('❌ Provider Error:', apiError.message);
+      res.json([]);
+    }
+  } catch (err) {
+    console.error('❌ Error:', err.message);
+    res.json([]);
+  }
+});
+
+// Flights between two airports (IATA or ICAO codes), straight from the flight data provider
+router.get('/flights-by-route', authenticateToken, async (req, res) => {
+  const departure = String(req.query.departure || '').trim();
+  const arrival = String(req.query.arrival || '').trim();
+  const date = String(req.query.date || formatDate(new Date()));
+
+  if (!departure || !arrival) {
+    return res.status(400).json({ message: 'Departure and arrival airports are required' });
+  }
+
+  try {
+    const flights = await getFlightProvider().searchByRoute(departure, arrival, date);
+    res.json(flights.map(withAirportDetails));
+  } catch (err) {
+    console.error('❌ Provider Error:', err.message);
+    res.status(502).json({ message: 'Flight data provider unavailable' });
+  }
+});
+
+// Save Flight Route
+router.post('/save-flight', authenticateToken, async (req, res) => {
+  try {
+    const flightData: SaveFlightRequest = req.body;
+    const duration = parseFloat(String(flightData.duration_hours)) || 0;
+    const logbook = parseLogbookFields(flightData);
+    const aircraftId = parseInt(String(flightData.aircraft_id), 10) || null;
+
+    // Only allow linking to an aircraft the pilot owns
+    let aircraftRegistration = null;
+    if (aircraftId) {
+      const aircraft = await findOwnedAircraft(aircraftId, req.user.id);
+      if (!aircraft) {
+        return res.status(400).json({ success: false, message: 'Aircraft not found in your registry' });
+      }
+      aircraftRegistration = aircraft.registration;
+    }
+
+    // Link the entry to the catalogued flight it was picked from, if there is one
+    const catalogEntry = flightData.flight_iata && flightData.flight_date
+      ? await findCatalogFlight(flightData.flight_iata, flightData.flight_date, flightData.departure_iata || null)
+      : null;
+
+    const flight = {
+      flight_iata: flightData.flight_iata,
+      flight_icao: flightData.flight_icao,
+      flight_date: flightData.flight_date,
+      flight_status: flightData.flight_status,
+      departure_airport: flightData.departure_airport,
+      departure_iata: flightData.departure_iata,
+      departure_icao: flightData.departure_icao,
+      departure_scheduled: flightData.departure_scheduled,
+      arrival_airport: flightData.arrival_airport,
+      arrival_iata: flightData.arrival_iata,
+      arrival_icao: flightData.arrival_icao,
+      arrival_scheduled: flightData.arrival_scheduled,
+      airline_name: flightData.airline_name,
+      airline_iata: flightData.airline_iata,
+      duration_hours: duration,
+      ...logbook,
+      aircraft_id: aircraftId,
+      catalog_flight_id: catalogEntry ? catalogEntry.id : null,
+      created_by: req.user.id  // Track which user created this flight
+    };
+
+    let id: number;
+    try {
+      id = await insertFlight(flight);
+    } catch (err) {
+      console.error('❌ Save Error:', err);
+      return res.status(500).json({
+        success: false,
+        message: err.sqlMessage || 'Database error'
+      });
+    }
+
+    // Record audit log for flight creation (optional)
+    recordAuditLog(
+      'created',
+      'flight',
+      id,
+      req.user.email,
+      { message: 'Flight saved to logbook', version: 1 },
+      {
+        flight_iata: flightData.flight_iata,
+        departure_iata: flightData.departure_iata,
+        arrival_iata: flightData.arrival_iata,
+        flight_date: flightData.flight_date,
+        duration_hours: duration,
+        pic_hours: logbook.pic_hours,
+        night_hours: logbook.night_hours,
+        day_landings: logbook.day_landings,
+        night_landings: logbook.night_landings,
+        aircraft_registration: aircraftRegistration
+      }
+    );
+
+    const response: SaveFlightResponse = {
+      success: true,
+      message: 'Flight saved successfully',
+      id
+    };
+    res.json(response);
+  } catch (err) {
+    console.error('❌ Error:', err.message);
+    res.status(500).json({
+      success: false,
+      message: 'Server error: ' + err.message
+    });
+  }
+});
+
+// Get Logs Route
+router.get('/logs', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    const isAdmin = hasPermission(req.user.role, 'flights:read_all');
+    const results = await listLogEntries(isAdmin ? null : req.user.id);
+
+    // Re-hash signed entries so edits made behind the API show up as tampered
+    const logs: FlightLog[] = results.map(({ entry_hash, ...log }) => ({
+      ...log,
+      signature_status: signatureStatus(log, entry_hash ? { entry_hash } : null)
+    }));
+
+    console.log(`✅ Fetched ${logs.length} logs`);
+    res.json(logs);
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Pull a handful of flights for a date (default today) from the provider into the flight catalog
+router.get('/fetch-detailed-flights', authenticateToken, requirePermission('flights:ingest'), async (req, res) => {
+  try {
+    const date = String(req.query.date || formatDate(new Date()));
+    const flights = await getFlightProvider().searchByDate(date, 5);
+
+    flights.forEach(catalogFlight);
+
+    res.json({ message: '✅ Flights stored successfully', count: flights.length });
+  } catch (err) {
+    console.error('❌ Error:', err.message);
+    res.status(500).json({ message: 'Failed to fetch flights' });
+  }
+});
+
+// Response cache hit rate and remaining monthly quota of the flight data provider
+router.get('/admin/flight-provider-usage', authenticateToken, requirePermission('flights:ingest'), async (req, res) => {
+  try {
+    res.json(await providerUsageReport(getFlightProvider()));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+router.get('/flight/:flightNumber', authenticateToken, async (req, res) => {
+  try {
+    const results = await findCatalogFlightsByNumber(req.params.flightNumber);
+    if (results.length === 0) {
+      return res.status(404).json({ message: 'Flight not found' });
+    }
+
+    res.json(withAirportDetails(results[0]));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,112 @@
+// live.ts
+// ADS-B position endpoints: an aircraft's track by callsign and the traffic inside a bounding box
+
+import express from 'express';
+import moment from 'moment-timezone';
+import { ADSB_RETENTION_HOURS } from '../adsb';
+import { authenticateToken, loadCurrentRole } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { findFlightById } from '../repositories/flights';
+import { listCallsignTrack, listLatestPositionsInBox } from '../repositories/livePositions';
+import type { RowDataPacket } from 'mysql2';
+
+const router = express.Router();
+
+// Margin around a logged flight's times when looking up its track
+const TRACK_MARGIN_MINUTES = 30;
+
+// Most aircraft returned for one bounding box
+const BBOX_LIMIT = 1000;
+
+// Helper function to shape a stored ADS-B position (flights table) for the API
+function toPosition(row: RowDataPacket) {
+  return {
+    ...row,
+    on_ground: Boolean(row.on_ground),
+    spi: Boolean(row.spi),
+    sensors: row.sensors ? JSON.parse(row.sensors) : null,
+    timestamp: moment.unix(row.time_position).utc().toISOString()
+  };
+}
+
+/**
+ * Aircraft seen inside ?lamin=&lomin=&lamax=&lomax= in the last ?minutes= (default 15, at most the
+ * retention period), latest position each, up to BBOX_LIMIT aircraft
+ */
+router.get('/live/bbox', authenticateToken, async (req, res) => {
+  const [lamin, lomin, lamax, lomax] = ['lamin', 'lomin', 'lamax', 'lomax'].map(key => Number(req.query[key]));
+  const minutes = Math.min(Math.max(Number(req.query.minutes) || 15, 1), ADSB_RETENTION_HOURS * 60);
+
+  const valid = [lamin, lomin, lamax, lomax].every(Number.isFinite)
+    && lamin >= -90 && lamax <= 90 && lamin <= lamax
+    && lomin >= -180 && lomax <= 180 && lomin <= lomax;
+  if (!valid) {
+    return res.status(400).json({ message: 'lamin, lomin, lamax and lomax must describe a valid bounding box' });
+  }
+
+  try {
+    const since = moment().subtract(minutes, 'minutes').unix();
+    const rows = await listLatestPositionsInBox({ lamin, lomin, lamax, lomax }, since, BBOX_LIMIT);
+    res.json(rows.map(toPosition));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+/**
+ * Track flown under an ICAO callsign (e.g. BAW117). The window is ?from=&to= (ISO times), the
+ * times of a logbook entry given as ?flight_id= plus a margin, or else the whole retention period.
+ */
+router.get('/live/:callsign', authenticateToken, loadCurrentRole, async (req, res) => {
+  const callsign = req.params.callsign.trim().toUpperCase();
+
+  try {
+    let from = moment().subtract(ADSB_RETENTION_HOURS, 'hours');
+    let to = moment();
+
+    if (req.query.flight_id) {
+      const flight = await findFlightById(String(req.query.flight_id), { dateStrings: true });
+      if (!flight) {
+        return res.status(404).json({ message: 'Flight not found' });
+      }
+      if (!hasPermission(req.user.role, 'flights:read_all') && flight.created_by !== req.user.id) {
+        return res.status(403).json({ message: 'Not allowed to access this flight' });
+      }
+
+      const departure = flight.departure_actual || flight.departure_scheduled;
+      const arrival = flight.arrival_actual || flight.arrival_scheduled;
+      if (!departure || !arrival) {
+        return res.status(422).json({ message: 'Flight has no departure and arrival times to match a track against' });
+      }
+      // Logged times are UTC
+      from = moment.utc(departure).subtract(TRACK_MARGIN_MINUTES, 'minutes');
+      to = moment.utc(arrival).add(TRACK_MARGIN_MINUTES, 'minutes');
+    } else {
+      if (req.query.from) from = moment.utc(String(req.query.from));
+      if (req.query.to) to = moment.utc(String(req.query.to));
+    }
+
+    if (!from.isValid() || !to.isValid() || from.isAfter(to)) {
+      return res.status(400).json({ message: 'from and to must be ISO times with from before to' });
+    }
+
+    const rows = await listCallsignTrack(callsign, from.unix(), to.unix());
+    if (rows.length === 0) {
+      return res.status(404).json({ message: 'No positions recorded for this callsign' });
+    }
+
+    res.json({
+      callsign,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      icao24: [...new Set(rows.map(row => row.icao24))],
+      positions: rows.map(toPosition)
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,131 @@
+// logbookExport.ts
+// Logbook PDF export endpoints
+
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import moment from 'moment-timezone';
+import { recordAuditLog } from '../audit';
+import { JWT_SECRET } from '../config';
+import { emptyTotals, addToTotals, renderLogbookPdf, logbookTotalFields } from '../logbookPdf';
+import type { LogbookPilot } from '../logbookPdf';
+import { authenticateToken } from '../middleware/auth';
+import { listExportFlights, sumFlightsBefore } from '../repositories/flights';
+import { findPilotById } from '../repositories/pilots';
+import type { NextFunction, Request, Response } from 'express';
+
+const router = express.Router();
+
+const LOGBOOK_CERTIFICATION = 'I certify that the entries in this logbook are true and correct.';
+
+interface ExportRange {
+  from: string | null;
+  to: string | null;
+}
+
+// Payload of the short-lived token issued by /logbook/export-link
+interface LogbookExportToken extends Partial<ExportRange> {
+  id: number;
+  email: string;
+  role?: string;
+  purpose: string;
+}
+
+// Helper function to validate an optional from/to date range (YYYY-MM-DD)
+function parseExportRange({ from, to }: { from?: unknown; to?: unknown }) {
+  const isDate = (value: unknown) => !value || (typeof value === 'string' && moment(value, 'YYYY-MM-DD', true).isValid());
+  if (!isDate(from) || !isDate(to)) {
+    return { error: 'from and to must be dates in YYYY-MM-DD format' };
+  }
+  const range: ExportRange = { from: from ? String(from) : null, to: to ? String(to) : null };
+  if (range.from && range.to && range.from > range.to) {
+    return { error: 'from must not be after to' };
+  }
+  return { range };
+}
+
+// Accept either a Bearer token or the short-lived ?token= issued by /logbook/export-link
+const authenticateLogbookExport = <P>(req: Request<P>, res: Response, next: NextFunction) => {
+  if (!req.query.token) {
+    return authenticateToken(req, res, next);
+  }
+
+  jwt.verify(String(req.query.token), JWT_SECRET, (err, decoded) => {
+    const payload = decoded as LogbookExportToken;
+    if (err || payload.purpose !== 'logbook_export') {
+      return res.status(403).json({ message: 'Invalid or expired download link' });
+    }
+    req.user = { id: payload.id, email: payload.email, role: payload.role };
+    req.exportRange = { from: payload.from, to: payload.to };
+    next();
+  });
+};
+
+// Issue a download link for browsers and mobile clients that cannot send an Authorization header
+router.post('/logbook/export-link', authenticateToken, (req, res) => {
+  const { range, error } = parseExportRange(req.body || {});
+  if (!range) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const token = jwt.sign(
+    { id: req.user.id, email: req.user.email, role: req.user.role, purpose: 'logbook_export', ...range },
+    JWT_SECRET,
+    { expiresIn: '5m' }
+  );
+
+  res.json({
+    success: true,
+    url: `${req.protocol}://${req.get('host')}/logbook/export?token=${encodeURIComponent(token)}`,
+    expiresIn: 300
+  });
+});
+
+// Paginated PDF logbook of the pilot's logbook_entries, optionally limited to ?from=&to=
+router.get('/logbook/export', authenticateLogbookExport, async (req, res) => {
+  const { range, error } = parseExportRange(req.exportRange || req.query);
+  if (!range) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot) {
+      return res.status(404).json({ message: 'Pilot not found' });
+    }
+
+    const flights = await listExportFlights(req.user.id, range);
+
+    // Everything logged before the range is carried onto the first page as amount forwarded
+    let broughtForward = emptyTotals();
+    if (range.from) {
+      const earlier = await sumFlightsBefore(req.user.id, range.from, logbookTotalFields);
+      broughtForward = addToTotals(broughtForward, earlier);
+    }
+
+    recordAuditLog(
+      'logbook_exported',
+      'pilot',
+      req.user.id,
+      req.user.email,
+      { message: 'Logbook exported to PDF', from: range.from, to: range.to, entries: flights.length }
+    );
+
+    const filename = `logbook-${pilot.username}-${moment().format('YYYYMMDD')}.pdf`;
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    renderLogbookPdf(res, {
+      pilot: pilot as LogbookPilot,
+      flights,
+      broughtForward,
+      from: range.from,
+      to: range.to,
+      certification: LOGBOOK_CERTIFICATION
+    });
+  } catch (err) {
+    console.error('❌ Logbook Export Error:', err);
+    res.status(500).json({ message: 'Server error exporting logbook' });
+  }
+});
+
+export default router;
@@ -0,0 +1,166 @@
+// logbookImport.ts
+// Logbook import endpoints
+
+import express from 'express';
+import fs from 'fs';
+import path from 'path';
+import { recordAuditLog } from '../audit';
+import { logbookHourFields } from '../flightFields';
+import { importProfiles, readLogbookFile, flightFingerprint, mapLogbookRow } from '../logbookImport';
+import { authenticateToken } from '../middleware/auth';
+import { listAircraftRegistrations } from '../repositories/aircraft';
+import { insertFlightRows, listFlightKeys } from '../repositories/flights';
+import { upload } from '../uploads';
+
+const router = express.Router();
+
+const IMPORT_FILE_EXTENSIONS = ['.csv', '.tsv', '.txt', '.xlsx'];
+
+// Columns written for each imported flight, in insert order
+const importFlightColumns = [
+  'flight_iata', 'flight_date', 'flight_status',
+  'departure_airport', 'departure_iata', 'departure_icao', 'departure_scheduled',
+  'arrival_airport', 'arrival_iata', 'arrival_icao', 'arrival_scheduled',
+  'duration_hours', ...logbookHourFields, 'day_landings', 'night_landings', 'approaches', 'holds',
+  'remarks', 'aircraft_id', 'created_by'
+];
+
+// Source apps the importer understands
+router.get('/import-logbook/profiles', authenticateToken, (req, res) => {
+  res.json(Object.entries(importProfiles).map(([id, profile]) => ({
+    id,
+    name: profile.name,
+    dateFormats: profile.dateFormats,
+    durationUnit: profile.durationUnit
+  })));
+});
+
+// Import another app's logbook export; dryRun (the default) only previews what would be imported
+router.post('/import-logbook', authenticateToken, upload.single('logbookFile'), async (req, res) => {
+  if (!req.file) {
+    return res.status(400).json({ success: false, message: 'No file uploaded' });
+  }
+
+  const filePath = req.file.path;
+  const profileId = req.body.profile || 'generic';
+  const profile = importProfiles[profileId];
+  const dryRun = req.body.dryRun !== 'false' && req.body.dryRun !== false;
+  const extension = path.extname(req.file.originalname || '').toLowerCase();
+
+  if (!profile || !IMPORT_FILE_EXTENSIONS.includes(extension)) {
+    fs.unlinkSync(filePath);
+    return res.status(400).json({
+      success: false,
+      message: `Unsupported profile or file type. Profiles: ${Object.keys(importProfiles).join(', ')}; files: ${IMPORT_FILE_EXTENSIONS.join(', ')}`
+    });
+  }
+
+  let sourceRows;
+  try {
+    sourceRows = await readLogbookFile(filePath, req.file.originalname, profile);
+  } catch (err) {
+    console.error('❌ Import Parse Error:', err.message);
+    return res.status(400).json({ success: false, message: err.message });
+  } finally {
+    fs.unlinkSync(filePath);
+  }
+
+  try {
+    const existing = await listFlightKeys(req.user.id);
+    const aircraft = await listAircraftRegistrations(req.user.id);
+
+    const existingKeys = new Set(existing.map(flight => flightFingerprint({
+      flight_date: flight.flight_date,
+      departure: flight.departure_icao || flight.departure_iata,
+      arrival: flight.arrival_icao || flight.arrival_iata,
+      duration_hours: flight.duration_hours
+    })));
+    const aircraftByRegistration = new Map(aircraft.map(row => [row.registration.toUpperCase(), row.id]));
+    const fileKeys = new Set();
+
+    const rows = sourceRows.map(({ line, values }) => {
+      const { flight, errors, warnings } = mapLogbookRow(values, profile);
+      let status = errors.length > 0 ? 'invalid' : 'valid';
+
+      if (status === 'valid') {
+        const key = flightFingerprint({
+          flight_date: flight.flight_date,
+          departure: flight.departure_icao || flight.departure_iata,
+          arrival: flight.arrival_icao || flight.arrival_iata,
+          duration_hours: flight.duration_hours
+        });
+
+        if (existingKeys.has(key)) {
+          status = 'duplicate';
+          warnings.push('Already in your logbook');
+        } else if (fileKeys.has(key)) {
+          status = 'duplicate';
+          warnings.push('Repeated earlier in this file');
+        }
+        fileKeys.add(key);
+      }
+
+      flight.aircraft_id = null;
+      if (flight.aircraft_registration) {
+        flight.aircraft_id = aircraftByRegistration.get(flight.aircraft_registration.toUpperCase()) || null;
+        if (!flight.aircraft_id) {
+          warnings.push(`Aircraft ${flight.aircraft_registration} is not in your aircraft registry`);
+        }
+      }
+
+      return { row: line, status, errors, warnings, flight };
+    });
+
+    const toImport = rows.filter(row => row.status === 'valid');
+    const summary = {
+      total: rows.length,
+      valid: toImport.length,
+      invalid: rows.filter(row => row.status === 'invalid').length,
+      duplicates: rows.filter(row => row.status === 'duplicate').length,
+      imported: 0
+    };
+
+    if (!dryRun && toImport.length > 0) {
+      const values = toImport.map(({ flight }) => importFlightColumns.map(column => {
+        if (column === 'flight_status') return 'landed';
+        if (column === 'created_by') return req.user.id;
+        return flight[column] ?? null;
+      }));
+
+      // A single multi-row INSERT, so either every flight is imported or none is
+      await insertFlightRows(importFlightColumns, values);
+
+      summary.imported = toImport.length;
+
+      // One audit entry for the whole batch rather than one per flight
+      recordAuditLog(
+        'logbook_imported',
+        'pilot',
+        req.user.id,
+        req.user.email,
+        {
+          message: `Imported ${summary.imported} flights from ${profile.name}`,
+          profile: profileId,
+          file: req.file.originalname,
+          ...summary
+        }
+      );
+    }
+
+    res.json({
+      success: true,
+      dryRun,
+      profile: profileId,
+      message: dryRun
+        ? `${summary.valid} of ${summary.total} rows ready to import`
+        : `Imported ${summary.imported} of ${summary.total} rows`,
+      summary,
+      rows
+    });
+  } catch (err) {
+    console.error('❌ Import Error:', err);
+    res.status(500).json({ success: false, message: 'Logbook import failed' });
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+// pilots.ts
+// Pilot management endpoints
+
+import express from 'express';
+import { recordAuditLog } from '../audit';
+import { authenticateToken, loadCurrentRole, requirePermission } from '../middleware/auth';
+import { ROLES, permissionsFor } from '../permissions';
+import { clearLoginFailures, listPilots, setPilotActive, updatePilotRole } from '../repositories/pilots';
+import { revokeSessions } from '../repositories/sessions';
+
+const router = express.Router();
+
+// Role and permissions of the logged-in pilot, used by the app to show or hide admin screens
+router.get('/auth/permissions', authenticateToken, loadCurrentRole, (req, res) => {
+  res.json({ role: req.user.role, permissions: permissionsFor(req.user.role) });
+});
+
+// List every pilot account
+router.get('/pilots', authenticateToken, requirePermission('pilots:manage'), async (req, res) => {
+  try {
+    const pilots = await listPilots();
+    res.json(pilots.map(pilot => ({
+      ...pilot,
+      is_active: Boolean(pilot.is_active),
+      totp_enabled: Boolean(pilot.totp_enabled),
+      is_locked: Boolean(pilot.locked_until && new Date(pilot.locked_until) > new Date())
+    })));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Change a pilot's role; instructors also need their instructor certificate number
+router.put('/pilots/:id/role', authenticateToken, requirePermission('pilots:manage'), async (req, res) => {
+  const { role, instructorCertificate } = req.body;
+  if (!ROLES.includes(role)) {
+    return res.status(400).json({ success: false, message: `Role must be one of: ${ROLES.join(', ')}` });
+  }
+  if (role === 'instructor' && !instructorCertificate) {
+    return res.status(400).json({ success: false, message: 'Instructor certificate number is required' });
+  }
+  if (Number(req.params.id) === req.user.id && role !== req.user.role) {
+    return res.status(400).json({ success: false, message: 'You cannot change your own role' });
+  }
+
+  const certificate = instructorCertificate ? String(instructorCertificate).trim().toUpperCase() : null;
+  try {
+    if (!(await updatePilotRole(req.params.id, role, certificate))) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+
+    recordAuditLog('updated', 'pilot', req.params.id, req.user.email, { message: `Role changed to ${role}`, role, instructor_certificate: certificate });
+    res.json({ success: true, message: 'Role updated' });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Activate or deactivate a pilot account; deactivated pilots cannot log in or use protected routes
+router.put('/pilots/:id/status', authenticateToken, requirePermission('pilots:manage'), async (req, res) => {
+  if (typeof req.body.isActive !== 'boolean') {
+    return res.status(400).json({ success: false, message: 'isActive must be true or false' });
+  }
+  if (Number(req.params.id) === req.user.id) {
+    return res.status(400).json({ success: false, message: 'You cannot deactivate your own account' });
+  }
+
+  try {
+    if (!(await setPilotActive(req.params.id, req.body.isActive))) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    return res.status(500).json({ success: false, message: 'Database error' });
+  }
+
+  // A deactivated pilot is signed out of every device straight away
+  if (!req.body.isActive) {
+    revokeSessions('pilot_id = ?', [req.params.id]).catch(revokeErr => {
+      console.error('❌ Session Error:', revokeErr);
+    });
+  }
+
+  recordAuditLog(
+    req.body.isActive ? 'activated' : 'deactivated',
+    'pilot',
+    req.params.id,
+    req.user.email,
+    { message: `Account ${req.body.isActive ? 'activated' : 'deactivated'}` }
+  );
+  res.json({ success: true, message: `Pilot ${req.body.isActive ? 'activated' : 'deactivated'}` });
+});
+
+// Unlock an account locked by failed sign-in attempts and reset its failure count
+router.put('/pilots/:id/unlock', authenticateToken, requirePermission('pilots:manage'), async (req, res) => {
+  try {
+    if (!(await clearLoginFailures(req.params.id))) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+
+    recordAuditLog('account_unlocked', 'pilot', req.params.id, req.user.email, { message: 'Account unlocked by administrator' });
+    res.json({ success: true, message: 'Account unlocked' });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+export default router;
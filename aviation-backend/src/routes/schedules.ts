@@ -0,0 +1,168 @@
+// schedules.ts
+// Pilot schedule upload and listing endpoints
+
+import express from 'express';
+import fs from 'fs';
+import csv from 'csv-parser';
+import { recordAuditLog } from '../audit';
+import { DUTY_UPLOAD_MODE } from '../config';
+import { loadDutyData } from '../dutyData';
+import { dutyRuleSets, DEFAULT_DUTY_RULE_SET, checkScheduleRow } from '../dutyRest';
+import type { DutyBreach, DutyData } from '../dutyRest';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import type { AuthUser } from '../middleware/auth';
+import { sendScheduleNotification } from '../notifications';
+import { findPilotByEmailOrUsername } from '../repositories/pilots';
+import { insertSchedule, listPilotSchedules } from '../repositories/schedules';
+import { upload } from '../uploads';
+
+const router = express.Router();
+
+// An uploaded schedule row that breaches the pilot's duty/rest limits
+interface ScheduleBreach {
+  row: number;
+  pilot: string;
+  flightNumber: string;
+  flightDate: string;
+  breaches: DutyBreach[];
+}
+
+// Upload and process schedule file
+router.post('/upload-schedule', authenticateToken, requirePermission('schedule:upload'), upload.single('scheduleFile'), (req, res) => {
+  try {
+    if (!req.file) {
+      return res.status(400).json({ success: false, message: 'No file uploaded' });
+    }
+
+    const filePath = req.file.path;
+    const fileType = req.file.mimetype;
+    const results: Record<string, string>[] = [];
+
+    // 'warn' saves rows that breach duty/rest limits and reports them, 'reject' skips them
+    const dutyMode = req.body.dutyMode || DUTY_UPLOAD_MODE;
+    const ruleSet = req.body.ruleSet || DEFAULT_DUTY_RULE_SET;
+    if (!['warn', 'reject'].includes(dutyMode) || !dutyRuleSets[ruleSet]) {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ success: false, message: 'Invalid dutyMode or ruleSet' });
+    }
+
+    // Process CSV file
+    if (fileType === 'text/csv') {
+      fs.createReadStream(filePath)
+        .pipe(csv())
+        .on('data', (data) => results.push(data))
+        .on('end', async () => {
+          fs.unlinkSync(filePath); // Remove temp file
+          const summary = await processScheduleData(results, req.user, { dutyMode, ruleSet });
+
+          let message = `Processed ${results.length} schedules`;
+          if (summary.warnings.length > 0) {
+            message += `, ${summary.warnings.length} breach duty/rest limits`;
+          }
+          if (summary.rejected.length > 0) {
+            message += `, ${summary.rejected.length} rejected`;
+          }
+
+          res.json({ success: true, message, ruleSet, dutyMode, ...summary });
+        });
+    } 
+    // Process PDF file (stub implementation)
+    else if (fileType === 'application/pdf') {
+      // In real implementation, use a PDF parsing library
+      console.log('PDF processing would be implemented here');
+      fs.unlinkSync(filePath);
+      res.json({ success: true, message: 'PDF processing would be implemented in production' });
+    } 
+    else {
+      fs.unlinkSync(filePath);
+      return res.status(400).json({ success: false, message: 'Unsupported file type' });
+    }
+  } catch (err) {
+    console.error('❌ Upload Error:', err);
+    res.status(500).json({ success: false, message: 'File processing failed' });
+  }
+});
+
+// Save uploaded schedule rows, checking each against the pilot's duty/rest limits first
+async function processScheduleData(
+  data: Record<string, string>[],
+  user: AuthUser,
+  { dutyMode = DUTY_UPLOAD_MODE, ruleSet = DEFAULT_DUTY_RULE_SET }: { dutyMode?: string; ruleSet?: string } = {}
+) {
+  const summary: { inserted: number; warnings: ScheduleBreach[]; rejected: ScheduleBreach[] } = { inserted: 0, warnings: [], rejected: [] };
+  const dutyData = new Map<number, Required<DutyData>>();
+
+  for (const [index, row] of data.entries()) {
+    try {
+      const { name, email, flightDate, flightTime, flightNumber, flightName, standbyTime, blockHours } = row;
+      
+      // Find pilot by name or email
+      const pilot = await findPilotByEmailOrUsername(email, name);
+
+      if (pilot) {
+        const scheduleData = {
+          pilot_id: pilot.id,
+          flight_date: flightDate,
+          flight_time: flightTime,
+          flight_number: flightNumber,
+          flight_name: flightName,
+          standby_time: standbyTime || null,
+          block_hours: parseFloat(blockHours) || null
+        };
+
+        // Earlier rows of the same upload count towards the limits of later ones
+        if (!dutyData.has(pilot.id)) {
+          dutyData.set(pilot.id, await loadDutyData(pilot.id));
+        }
+        const pilotDuty = dutyData.get(pilot.id)!;
+
+        const breaches = checkScheduleRow(pilotDuty, scheduleData, ruleSet);
+        if (breaches.length > 0) {
+          const entry = { row: index + 1, pilot: email || name, flightNumber, flightDate, breaches };
+          if (dutyMode === 'reject') {
+            summary.rejected.push(entry);
+            continue;
+          }
+          summary.warnings.push(entry);
+        }
+        
+        // Save to database
+        await insertSchedule(scheduleData);
+        pilotDuty.schedules.push(scheduleData);
+        summary.inserted++;
+        
+        // Send notification
+        sendScheduleNotification(pilot, scheduleData);
+        
+        recordAuditLog(
+          'schedule_created',
+          'pilot_schedule',
+          pilot.id,
+          user.email,
+          { 
+            message: 'Schedule created from uploaded file',
+            flight: flightNumber,
+            date: flightDate,
+            duty_breaches: breaches.map(breach => breach.message)
+          }
+        );
+      }
+    } catch (err) {
+      console.error('❌ Schedule Processing Error:', err);
+    }
+  }
+
+  return summary;
+}
+
+// New endpoint to get schedules
+router.get('/pilot-schedules', authenticateToken, async (req, res) => {
+  try {
+    res.json(await listPilotSchedules(req.user.id));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+export default router;
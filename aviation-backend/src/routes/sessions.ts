@@ -0,0 +1,45 @@
+// sessions.ts
+// Session (device) list and revocation endpoints
+
+import express from 'express';
+import { recordAuditLog } from '../audit';
+import { authenticateToken } from '../middleware/auth';
+import { listActiveSessions, revokeSessions } from '../repositories/sessions';
+
+const router = express.Router();
+
+// Active sessions (devices) of the logged-in pilot
+router.get('/auth/sessions', authenticateToken, async (req, res) => {
+  try {
+    const sessions = await listActiveSessions(req.user.id);
+    res.json(sessions.map(session => ({ ...session, current: session.id === req.user.sid })));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Revoke one of the pilot's own sessions, e.g. a lost phone
+router.delete('/auth/sessions/:id', authenticateToken, async (req, res) => {
+  try {
+    const revoked = await revokeSessions('id = ? AND pilot_id = ?', [req.params.id, req.user.id]);
+    if (revoked === 0) {
+      return res.status(404).json({ success: false, message: 'Session not found' });
+    }
+
+    recordAuditLog(
+      'session_revoked',
+      'session',
+      req.params.id,
+      req.user.email,
+      { message: 'Session revoked', current: Number(req.params.id) === req.user.sid }
+    );
+
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (err) {
+    console.error('❌ Session Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,216 @@
+// signatures.ts
+// Instructor signature endpoints
+
+import express from 'express';
+import db, { withTransaction } from '../db';
+import type { Queryable } from '../db';
+import { recordAuditLog } from '../audit';
+import { parseFlightUpdates, diffFlight } from '../flightFields';
+import { authenticateToken, loadCurrentRole, requirePermission } from '../middleware/auth';
+import { hasPermission } from '../permissions';
+import { findOwnedAircraft } from '../repositories/aircraft';
+import { findFlightById, updateFlight } from '../repositories/flights';
+import { findPilotById } from '../repositories/pilots';
+import {
+  findCurrentSignature,
+  insertSignature,
+  listFlightSignatures,
+  listPendingSignatures,
+  retireSignature
+} from '../repositories/signatures';
+import { hashFlightEntry, signatureStatus } from '../signatures';
+import type { RowDataPacket } from 'mysql2';
+import type { Request, Response } from 'express';
+
+const router = express.Router();
+
+// Helper function to load the signing instructor; the role is read from the database, not the token
+async function findSigningInstructor(req: Request, res: Response) {
+  const instructor = await findPilotById(req.user.id);
+
+  if (!instructor || !hasPermission(instructor.role, 'flights:sign')) {
+    res.status(403).json({ success: false, message: 'Only instructors can sign logbook entries' });
+    return null;
+  }
+  if (!instructor.instructor_certificate) {
+    res.status(400).json({ success: false, message: 'Add your instructor certificate number before signing' });
+    return null;
+  }
+  return instructor;
+}
+
+// Helper function to load a flight for signing with dates as MySQL strings
+async function findFlightForSigning(req: Request<{ id: string }>, res: Response, instructor: RowDataPacket) {
+  const flight = await findFlightById(req.params.id, { dateStrings: true });
+
+  if (!flight) {
+    res.status(404).json({ success: false, message: 'Flight not found' });
+    return null;
+  }
+  if (flight.created_by === instructor.id) {
+    res.status(403).json({ success: false, message: 'Instructors cannot sign their own entries' });
+    return null;
+  }
+  if (!(Number(flight.dual_received_hours) > 0)) {
+    res.status(400).json({ success: false, message: 'Only entries with dual received time can be endorsed' });
+    return null;
+  }
+  return flight;
+}
+
+// Helper function to sign the flight as it is now
+async function signFlight(
+  flight: RowDataPacket,
+  instructor: RowDataPacket,
+  endorsement: unknown,
+  amendmentOf: number | null = null,
+  conn: Queryable = db
+) {
+  const signature = {
+    flight_id: flight.id,
+    pilot_id: flight.created_by,
+    instructor_id: instructor.id,
+    instructor_name: `${instructor.first_name} ${instructor.last_name}`,
+    certificate_number: instructor.instructor_certificate,
+    entry_hash: hashFlightEntry(flight),
+    endorsement: endorsement ? String(endorsement).trim() : null,
+    amendment_of: amendmentOf
+  };
+  const id = await insertSignature(signature, conn);
+  return { id, ...signature };
+}
+
+// Flights with dual received time awaiting an instructor signature
+router.get('/signatures/pending', authenticateToken, requirePermission('flights:sign'), async (req, res) => {
+  try {
+    res.json(await listPendingSignatures(req.user.id));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Sign a dual-received entry; from then on it can only change through a signed amendment
+router.post('/flights/:id/sign', authenticateToken, async (req, res) => {
+  try {
+    const instructor = await findSigningInstructor(req, res);
+    if (!instructor) return;
+
+    const flight = await findFlightForSigning(req, res, instructor);
+    if (!flight) return;
+
+    if (await findCurrentSignature(flight.id)) {
+      return res.status(409).json({ success: false, message: 'This entry is already signed; use an amendment to change it' });
+    }
+
+    const signature = await signFlight(flight, instructor, req.body.endorsement);
+
+    recordAuditLog(
+      'signed',
+      'flight',
+      flight.id,
+      req.user.email,
+      { message: `Entry signed by ${signature.instructor_name} (${signature.certificate_number})`, entry_hash: signature.entry_hash },
+      flight
+    );
+
+    res.json({ success: true, message: 'Entry signed', signature });
+  } catch (err) {
+    console.error('❌ Sign Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+// Signed amendment: the instructor changes a signed entry and signs the result in one transaction.
+// An amendment without changes re-signs an entry whose hash no longer matches.
+router.post('/flights/:id/amend', authenticateToken, async (req, res) => {
+  try {
+    const instructor = await findSigningInstructor(req, res);
+    if (!instructor) return;
+
+    const flight = await findFlightForSigning(req, res, instructor);
+    if (!flight) return;
+
+    const previous = await findCurrentSignature(flight.id);
+    if (!previous) {
+      return res.status(400).json({ success: false, message: 'Entry is not signed; sign it instead of amending' });
+    }
+
+    const { updates, error } = parseFlightUpdates(req.body || {});
+    if (!updates) {
+      return res.status(400).json({ success: false, message: error });
+    }
+
+    // Only allow linking to an aircraft the flight's pilot owns
+    if (typeof updates.aircraft_id === 'number') {
+      if (!await findOwnedAircraft(updates.aircraft_id, flight.created_by)) {
+        return res.status(400).json({ success: false, message: 'Aircraft not found in the pilot\'s registry' });
+      }
+    }
+
+    const changes = diffFlight(flight, updates);
+    const tampered = signatureStatus(flight, previous) === 'tampered';
+    if (Object.keys(changes).length === 0 && !tampered) {
+      return res.status(400).json({ success: false, message: 'No changes to amend' });
+    }
+
+    const values = Object.fromEntries(Object.keys(changes).map(field => [field, changes[field].to]));
+    const version = (flight.version || 1) + 1;
+    const amended = { ...flight, ...values, version };
+
+    const signature = await withTransaction(async conn => {
+      await updateFlight(flight.id, values, version, undefined, conn);
+      await retireSignature(previous.id, conn);
+      return signFlight(amended, instructor, req.body.endorsement, previous.id, conn);
+    });
+
+    recordAuditLog(
+      'amended',
+      'flight',
+      flight.id,
+      req.user.email,
+      {
+        message: `Signed amendment by ${signature.instructor_name} (${signature.certificate_number})`,
+        version,
+        changes,
+        amendment_of: previous.id,
+        entry_hash: signature.entry_hash
+      },
+      amended
+    );
+
+    res.json({ success: true, message: 'Amendment signed', version, changes, signature });
+  } catch (err) {
+    console.error('❌ Amend Error:', err);
+    res.status(500).json({ success: false, message: err.sqlMessage || 'Database error' });
+  }
+});
+
+// Signature chain of a flight with the verification result of the current signature
+router.get('/flights/:id/signatures', authenticateToken, loadCurrentRole, async (req, res) => {
+  try {
+    const flight = await findFlightById(req.params.id, { dateStrings: true });
+    if (!flight) {
+      return res.status(404).json({ message: 'Flight not found' });
+    }
+    const canReadAll = hasPermission(req.user.role, 'flights:read_all') || hasPermission(req.user.role, 'flights:sign');
+    if (!canReadAll && flight.created_by !== req.user.id) {
+      return res.status(403).json({ message: 'Not allowed to access this flight' });
+    }
+
+    const signatures = await listFlightSignatures(flight.id);
+    const current = signatures.find(signature => signature.is_current) || null;
+
+    res.json({
+      flightId: flight.id,
+      status: signatureStatus(flight, current),
+      entryHash: hashFlightEntry(flight),
+      signatures
+    });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+export default router;
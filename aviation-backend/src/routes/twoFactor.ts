@@ -0,0 +1,257 @@
+// twoFactor.ts
+// Two-factor authentication endpoints, including the per-role policy
+
+import express from 'express';
+import bcrypt from 'bcryptjs';
+import QRCode from 'qrcode';
+import { verifyAccountToken } from '../accountEmails';
+import { recordAuditLog } from '../audit';
+import { completeLogin, sendTooManyAttempts, sendLoginBlocked, checkAccountLock, recordLoginFailure } from '../login';
+import { ipRetryAfter } from '../loginThrottle';
+import { authenticateToken, requirePermission } from '../middleware/auth';
+import { ROLES } from '../permissions';
+import {
+  findPilotById,
+  findActivePilotById,
+  setPendingTotpSecret,
+  enableTotp,
+  disableTotp
+} from '../repositories/pilots';
+import {
+  countUnusedRecoveryCodes,
+  deleteRecoveryCodes,
+  listTwoFactorPolicies,
+  saveTwoFactorPolicy
+} from '../repositories/twoFactor';
+import { RECOVERY_CODE_COUNT, generateSecret, verifyTotp, otpauthUri, sealSecret, openSecret } from '../totp';
+import {
+  TWO_FACTOR_ISSUER,
+  TOTP_SECRET_KEY,
+  isTwoFactorRequired,
+  checkSecondFactor,
+  replaceRecoveryCodes,
+  authenticateTwoFactorEnrollment
+} from '../twoFactor';
+import type { Role } from 'aviation-shared';
+
+const router = express.Router();
+
+// Two-factor state of the logged-in pilot
+router.get('/auth/2fa/status', authenticateToken, async (req, res) => {
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+
+    res.json({
+      enabled: Boolean(pilot.totp_enabled),
+      enabledAt: pilot.totp_enabled_at,
+      required: await isTwoFactorRequired(pilot.role),
+      recoveryCodesRemaining: pilot.totp_enabled ? await countUnusedRecoveryCodes(req.user.id) : 0
+    });
+  } catch (err) {
+    console.error('❌ Two-Factor Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Start enrollment: generate a new secret (kept pending until /auth/2fa/enable confirms a code)
+router.post('/auth/2fa/setup', authenticateTwoFactorEnrollment, async (req, res) => {
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot) {
+      return res.status(404).json({ success: false, message: 'Pilot not found' });
+    }
+    if (pilot.totp_enabled) {
+      return res.status(400).json({ success: false, message: 'Two-factor authentication is already enabled' });
+    }
+
+    const secret = generateSecret();
+    await setPendingTotpSecret(req.user.id, sealSecret(secret, TOTP_SECRET_KEY));
+
+    const uri = otpauthUri({ secret, accountName: pilot.email, issuer: TWO_FACTOR_ISSUER });
+    res.json({
+      success: true,
+      secret,
+      otpauthUri: uri,
+      qrCode: await QRCode.toDataURL(uri, { margin: 1, width: 240 })
+    });
+  } catch (err) {
+    console.error('❌ Two-Factor Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Confirm enrollment with a code from the authenticator app. Returns recovery codes (shown once);
+// during login enrollment the response also carries the new session.
+router.post('/auth/2fa/enable', authenticateTwoFactorEnrollment, async (req, res) => {
+  try {
+    const pilot = await findActivePilotById(req.user.id);
+    if (!pilot || !pilot.totp_secret) {
+      return res.status(400).json({ success: false, message: 'Start two-factor setup first' });
+    }
+    if (pilot.totp_enabled) {
+      return res.status(400).json({ success: false, message: 'Two-factor authentication is already enabled' });
+    }
+
+    const step = verifyTotp(openSecret(pilot.totp_secret, TOTP_SECRET_KEY), req.body?.code);
+    if (step === null) {
+      return res.status(400).json({ success: false, message: 'Invalid verification code' });
+    }
+
+    await enableTotp(pilot.id, step);
+    const recoveryCodes = await replaceRecoveryCodes(pilot.id);
+
+    recordAuditLog('two_factor_enabled', 'pilot', pilot.id, pilot.email, { message: 'Two-factor authentication enabled' });
+
+    if (req.enrolling) {
+      const login = await completeLogin(pilot, req, 'totp_enrollment');
+      return res.json({ ...login, recoveryCodes });
+    }
+    res.json({ success: true, message: 'Two-factor authentication enabled', recoveryCodes });
+  } catch (err) {
+    console.error('❌ Two-Factor Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Turn two-factor authentication off; needs the password and a current code or recovery code
+router.post('/auth/2fa/disable', authenticateToken, async (req, res) => {
+  const { password, code } = req.body || {};
+  if (!password || !code) {
+    return res.status(400).json({ success: false, message: 'Password and verification code are required' });
+  }
+
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot || !pilot.totp_enabled) {
+      return res.status(400).json({ success: false, message: 'Two-factor authentication is not enabled' });
+    }
+    if (await isTwoFactorRequired(pilot.role)) {
+      return res.status(403).json({ success: false, message: 'Two-factor authentication is required for your role' });
+    }
+    if (!(await bcrypt.compare(password, pilot.password)) || !(await checkSecondFactor(pilot, code))) {
+      return res.status(401).json({ success: false, message: 'Invalid password or verification code' });
+    }
+
+    await disableTotp(pilot.id);
+    await deleteRecoveryCodes(pilot.id);
+
+    recordAuditLog('two_factor_disabled', 'pilot', pilot.id, pilot.email, { message: 'Two-factor authentication disabled' });
+    res.json({ success: true, message: 'Two-factor authentication disabled' });
+  } catch (err) {
+    console.error('❌ Two-Factor Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Replace all recovery codes; needs a current TOTP code
+router.post('/auth/2fa/recovery-codes', authenticateToken, async (req, res) => {
+  try {
+    const pilot = await findPilotById(req.user.id);
+    if (!pilot || !pilot.totp_enabled) {
+      return res.status(400).json({ success: false, message: 'Two-factor authentication is not enabled' });
+    }
+    if (!/^\d{6}$/.test(String(req.body?.code || '').trim()) || !(await checkSecondFactor(pilot, req.body.code))) {
+      return res.status(401).json({ success: false, message: 'Invalid verification code' });
+    }
+
+    const recoveryCodes = await replaceRecoveryCodes(pilot.id);
+    recordAuditLog('recovery_codes_regenerated', 'pilot', pilot.id, pilot.email, { message: `${RECOVERY_CODE_COUNT} new recovery codes issued` });
+    res.json({ success: true, recoveryCodes });
+  } catch (err) {
+    console.error('❌ Two-Factor Error:', err);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// Second login step: exchange the challenge token and a TOTP or recovery code for a session
+router.post('/auth/login/2fa', async (req, res) => {
+  const { challengeToken, code } = req.body || {};
+  if (!challengeToken || !code) {
+    return res.status(400).json({ success: false, message: 'Verification code is required' });
+  }
+
+  // Same IP backoff as the password step; wrong codes count towards it through recordLoginFailure
+  const ipRetry = ipRetryAfter(req.ip);
+  if (ipRetry > 0) {
+    return sendTooManyAttempts(res, ipRetry);
+  }
+
+  const payload = verifyAccountToken(challengeToken, '2fa_challenge');
+  if (!payload) {
+    return res.status(401).json({ success: false, message: 'Login expired, please sign in again' });
+  }
+
+  try {
+    const pilot = await findActivePilotById(payload.id);
+    if (!pilot || !pilot.totp_enabled) {
+      return res.status(401).json({ success: false, message: 'Login expired, please sign in again' });
+    }
+
+    const blocked = await checkAccountLock(pilot, req);
+    if (blocked) {
+      return sendLoginBlocked(res, blocked);
+    }
+
+    const method = await checkSecondFactor(pilot, code);
+    if (!method) {
+      await recordLoginFailure(pilot, pilot.email, req, 'Invalid two-factor code');
+      return res.status(401).json({ success: false, message: 'Invalid verification code' });
+    }
+
+    const login = await completeLogin(pilot, req, method);
+    if (method === 'recovery_code') {
+      login.recoveryCodesRemaining = await countUnusedRecoveryCodes(pilot.id);
+    }
+    res.json(login);
+  } catch (err) {
+    console.error('❌ Two-Factor Login Error:', err);
+    res.status(500).json({ success: false, message: 'Server error during login' });
+  }
+});
+
+// Which roles must use two-factor authentication
+router.get('/admin/two-factor-policy', authenticateToken, requirePermission('pilots:manage'), async (req, res) => {
+  try {
+    const rows = await listTwoFactorPolicies();
+    res.json(ROLES.map(role => {
+      const policy = rows.find(row => row.role === role);
+      return {
+        role,
+        required: Boolean(policy && policy.required),
+        updatedBy: policy ? policy.updated_by : null,
+        updatedAt: policy ? policy.updated_at : null
+      };
+    }));
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ message: 'Database error' });
+  }
+});
+
+// Require (or stop requiring) two-factor authentication for a role; applies from each pilot's next login
+router.put('/admin/two-factor-policy/:role', authenticateToken, requirePermission('pilots:manage'), async (req, res) => {
+  if (!ROLES.includes(req.params.role as Role)) {
+    return res.status(400).json({ success: false, message: `Role must be one of: ${ROLES.join(', ')}` });
+  }
+  if (typeof req.body?.required !== 'boolean') {
+    return res.status(400).json({ success: false, message: 'required must be true or false' });
+  }
+
+  try {
+    await saveTwoFactorPolicy(req.params.role, req.body.required, req.user.email);
+
+    recordAuditLog('updated', 'two_factor_policy', req.params.role, req.user.email, {
+      message: `Two-factor authentication ${req.body.required ? 'required' : 'optional'} for ${req.params.role}s`,
+      required: req.body.required
+    });
+    res.json({ success: true, role: req.params.role, required: req.body.required });
+  } catch (err) {
+    console.error('❌ Database Error:', err);
+    res.status(500).json({ success: false, message: 'Database error' });
+  }
+});
+
+export default router;
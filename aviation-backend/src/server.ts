@@ -0,0 +1,104 @@
+// server.ts
+import 'dotenv/config';
+import express from 'express';
+import cors from 'cors';
+import fs from 'fs';
+import path from 'path';
+import { waitForDatabase } from './db';
+import { PORT, JWT_SECRET } from './config';
+import { startAdsbIngestion } from './adsb';
+import { loadAirports, seedAirportsTable } from './airports';
+import { getFlightProvider } from './flightProviders';
+import { startScheduledJobs } from './jobs';
+import { migrateToLatest } from './migrate';
+import analyticsRoutes from './routes/analytics';
+import authRoutes from './routes/auth';
+import sessionRoutes from './routes/sessions';
+import accountRecoveryRoutes from './routes/accountRecovery';
+import twoFactorRoutes from './routes/twoFactor';
+import flightRoutes from './routes/flights';
+import flightEditRoutes from './routes/flightEdits';
+import signatureRoutes from './routes/signatures';
+import pilotRoutes from './routes/pilots';
+import logbookExportRoutes from './routes/logbookExport';
+import logbookImportRoutes from './routes/logbookImport';
+import currencyRoutes from './routes/currency';
+import dutyRoutes from './routes/duty';
+import credentialRoutes from './routes/credentials';
+import aircraftRoutes from './routes/aircraft';
+import airportRoutes from './routes/airports';
+import liveRoutes from './routes/live';
+import auditLogRoutes from './routes/auditLogs';
+import backupRoutes from './routes/backups';
+import scheduleRoutes from './routes/schedules';
+
+// Initialize express first
+const app = express();
+
+// Then use middleware
+app.use(express.json()); // Parse JSON bodies
+app.use(cors()); // Enable CORS
+
+// Routers keep their full paths, so they are mounted at the root
+app.use(analyticsRoutes);
+app.use(authRoutes);
+app.use(sessionRoutes);
+app.use(accountRecoveryRoutes);
+app.use(twoFactorRoutes);
+app.use(flightRoutes);
+app.use(flightEditRoutes);
+app.use(signatureRoutes);
+app.use(pilotRoutes);
+app.use(logbookExportRoutes);
+app.use(logbookImportRoutes);
+app.use(currencyRoutes);
+app.use(dutyRoutes);
+app.use(credentialRoutes);
+app.use(aircraftRoutes);
+app.use(airportRoutes);
+app.use(liveRoutes);
+app.use(auditLogRoutes);
+app.use(backupRoutes);
+app.use(scheduleRoutes);
+
+// Create uploads directory if it doesn't exist
+const uploadsDir = path.join(__dirname, '..', 'uploads');
+if (!fs.existsSync(uploadsDir)) {
+  fs.mkdirSync(uploadsDir);
+}
+
+// Wait for MySQL and bring the schema up to date before serving requests or running jobs
+async function start(): Promise<void> {
+  await waitForDatabase();
+  await migrateToLatest();
+
+  try {
+    const count = await seedAirportsTable();
+    console.log(`✅ airports table seeded with ${count} airports`);
+  } catch (seedErr) {
+    console.error('❌ Error seeding airports table:', seedErr.message);
+  }
+
+  startScheduledJobs();
+  const adsbSource = startAdsbIngestion();
+
+  // Fail here rather than on the first lookup if FLIGHT_PROVIDER is misconfigured
+  const flightProvider = getFlightProvider();
+
+  app.listen(PORT, () => {
+    console.log(`🚀 Server running at http://localhost:${PORT}`);
+    console.log(`📊 Database connection: ✅ Connected`);
+    console.log(`🛫 Flight data provider: ✅ ${flightProvider.name}`);
+    console.log(`🛰️ ADS-B ingestion: ${adsbSource ? `✅ ${adsbSource.name}` : '❌ Off (set ADSB_SOURCE)'}`);
+    console.log(`🔐 JWT Secret: ${JWT_SECRET ? '✅ Configured' : '❌ Not configured'}`);
+    console.log(`📈 Analytics endpoint: ✅ Available at /analytics`);
+    console.log(`📁 Uploads directory: ✅ ${uploadsDir}`);
+
+    loadAirports().catch(err => console.error('❌ Error loading airport database:', err.message));
+  });
+}
+
+start().catch(err => {
+  console.error('❌ Startup Error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,47 @@
+// sessions.ts
+// Login sessions: short-lived access tokens plus rotating refresh tokens stored (hashed) server-side
+
+import crypto from 'crypto';
+
+// Access tokens are only checked against the sessions table, so keep them short
+export const ACCESS_TOKEN_TTL_SECONDS = Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+export const REFRESH_TOKEN_TTL_DAYS = Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+
+// Revoked and expired sessions are deleted after this many days
+export const SESSION_HISTORY_DAYS = 30;
+
+// Opaque refresh token handed to the client; only its hash is stored
+export function generateRefreshToken(): string {
+  return crypto.randomBytes(48).toString('hex');
+}
+
+export function hashRefreshToken(refreshToken: unknown): string {
+  return crypto.createHash('sha256').update(String(refreshToken)).digest('hex');
+}
+
+// Helper function to turn a user-agent string into a short device label for the sessions list
+export function describeDevice(userAgent: string | null | undefined): string {
+  if (!userAgent) return 'Unknown device';
+
+  const platforms: [RegExp, string][] = [
+    [/iPad/i, 'iPad'],
+    [/iPhone|iOS/i, 'iPhone'],
+    [/Android/i, 'Android'],
+    [/Windows/i, 'Windows'],
+    [/Macintosh|Mac OS X/i, 'Mac'],
+    [/Linux/i, 'Linux']
+  ];
+  const clients: [RegExp, string][] = [
+    [/Expo|okhttp|CFNetwork|Darwin/i, 'App'],
+    [/Edg\//i, 'Edge'],
+    [/Chrome\//i, 'Chrome'],
+    [/Firefox\//i, 'Firefox'],
+    [/Safari\//i, 'Safari']
+  ];
+
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent));
+  const client = clients.find(([pattern]) => pattern.test(userAgent));
+
+  if (!platform && !client) return userAgent.substring(0, 60);
+  return [client && client[1], platform && platform[1]].filter(Boolean).join(' on ');
+}
@@ -0,0 +1,90 @@
+// signatures.ts
+// Instructor signatures on logbook entries: canonical entry hashing and tamper checks
+
+import crypto from 'crypto';
+import moment from 'moment-timezone';
+import type { SignatureStatus } from 'aviation-shared';
+
+/**
+ * Fields covered by a signature. Any change to one of these after signing makes the
+ * stored hash stop matching, which is how tampering is detected.
+ */
+const signedDateFields = ['flight_date'];
+const signedDateTimeFields = ['departure_scheduled', 'arrival_scheduled'];
+const signedTextFields = ['flight_iata', 'departure_iata', 'arrival_iata', 'remarks'];
+const signedHourFields = [
+  'duration_hours',
+  'pic_hours',
+  'sic_hours',
+  'dual_received_hours',
+  'dual_given_hours',
+  'solo_hours',
+  'night_hours',
+  'actual_instrument_hours',
+  'simulated_instrument_hours',
+  'cross_country_hours'
+];
+const signedCountFields = ['day_landings', 'night_landings', 'approaches', 'holds', 'course_intercepts'];
+const signedIdFields = ['id', 'created_by', 'aircraft_id'];
+
+export const SIGNED_FIELDS = [
+  ...signedIdFields,
+  ...signedDateFields,
+  ...signedDateTimeFields,
+  ...signedTextFields,
+  ...signedHourFields,
+  ...signedCountFields
+];
+
+// A logbook_entries row as read from the database (dates may be Date objects or strings)
+type FlightEntry = Record<string, unknown>;
+
+// Helper function to format a DATE/DATETIME the same way whether it came back as a Date or a string
+function canonicalDate(value: unknown, format: string): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = moment(value as moment.MomentInput);
+  return parsed.isValid() ? parsed.format(format) : String(value);
+}
+
+/**
+ * Canonical form of a logbook_entries row: fixed field order and fixed number/date formats,
+ * so rows read with or without `dateStrings` hash identically.
+ */
+function canonicalEntry(flight: FlightEntry): Record<string, string | number | null> {
+  const entry: Record<string, string | number | null> = {};
+
+  signedIdFields.forEach(field => {
+    entry[field] = flight[field] === null || flight[field] === undefined ? null : Number(flight[field]);
+  });
+  signedDateFields.forEach(field => {
+    entry[field] = canonicalDate(flight[field], 'YYYY-MM-DD');
+  });
+  signedDateTimeFields.forEach(field => {
+    entry[field] = canonicalDate(flight[field], 'YYYY-MM-DD HH:mm');
+  });
+  signedTextFields.forEach(field => {
+    entry[field] = flight[field] ? String(flight[field]).trim() : null;
+  });
+  signedHourFields.forEach(field => {
+    entry[field] = (Number(flight[field]) || 0).toFixed(2);
+  });
+  signedCountFields.forEach(field => {
+    entry[field] = Math.round(Number(flight[field]) || 0);
+  });
+
+  return entry;
+}
+
+// SHA-256 of the canonical entry, hex encoded
+export function hashFlightEntry(flight: FlightEntry): string {
+  return crypto.createHash('sha256').update(JSON.stringify(canonicalEntry(flight))).digest('hex');
+}
+
+/**
+ * Signature status of a flight given its current signature row (or null):
+ * 'unsigned', 'signed' when the hash still matches, 'tampered' when it does not.
+ */
+export function signatureStatus(flight: FlightEntry, signature: { entry_hash: string } | null): SignatureStatus {
+  if (!signature) return 'unsigned';
+  return hashFlightEntry(flight) === signature.entry_hash ? 'signed' : 'tampered';
+}
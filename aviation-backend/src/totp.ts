@@ -0,0 +1,136 @@
+// totp.ts
+// Time-based one-time passwords (RFC 6238, SHA-1, 6 digits, 30 s) and recovery codes for two-factor login
+
+import crypto from 'crypto';
+
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+// Codes from one step either side are accepted to allow for clock drift
+const TOTP_WINDOW = 1;
+export const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  const clean = String(text).toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// New 160-bit shared secret, base32 encoded as authenticator apps expect
+export function generateSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+// HOTP value (RFC 4226) for one counter step
+function hotp(secret: string, counter: number): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const digest = crypto.createHmac('sha1', base32Decode(secret)).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+function currentStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * Check a 6-digit code against the secret. Returns the matching time step, or null.
+ * Callers store the step and reject codes whose step is not newer, so a code cannot be replayed.
+ */
+export function verifyTotp(secret: string, code: unknown, time: number = Date.now()): number | null {
+  const normalised = String(code || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalised)) return null;
+
+  const step = currentStep(time);
+  for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+    const candidate = Buffer.from(hotp(secret, step + offset));
+    if (crypto.timingSafeEqual(candidate, Buffer.from(normalised))) {
+      return step + offset;
+    }
+  }
+  return null;
+}
+
+// otpauth:// URI understood by Google Authenticator, 1Password, Authy, etc.
+export function otpauthUri({ secret, accountName, issuer }: { secret: string; accountName: string; issuer: string }): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Single-use recovery codes in the form xxxxx-xxxxx
+export function generateRecoveryCodes(count: number = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const hex = crypto.randomBytes(5).toString('hex');
+    return `${hex.substring(0, 5)}-${hex.substring(5)}`;
+  });
+}
+
+export function hashRecoveryCode(code: unknown): string {
+  const normalised = String(code).toLowerCase().replace(/[^0-9a-f]/g, '');
+  return crypto.createHash('sha256').update(normalised).digest('hex');
+}
+
+// Helper function to derive the AES key that encrypts stored secrets
+function secretKey(keyMaterial: unknown): Buffer {
+  return crypto.createHash('sha256').update(String(keyMaterial)).digest();
+}
+
+// Encrypt a TOTP secret for storage (AES-256-GCM; iv.tag.ciphertext, base64)
+export function sealSecret(secret: string, keyMaterial: unknown): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', secretKey(keyMaterial), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join('.');
+}
+
+export function openSecret(sealed: unknown, keyMaterial: unknown): string {
+  const [iv, tag, encrypted] = String(sealed).split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', secretKey(keyMaterial), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
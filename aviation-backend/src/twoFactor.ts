@@ -0,0 +1,71 @@
+// twoFactor.ts
+// Two-factor authentication helpers shared by the login and 2FA endpoints
+
+import jwt from 'jsonwebtoken';
+import { verifyAccountToken } from './accountEmails';
+import { JWT_SECRET } from './config';
+import { authenticateToken } from './middleware/auth';
+import { claimTotpStep } from './repositories/pilots';
+import { findTwoFactorPolicy, replaceRecoveryCodeHashes, useRecoveryCode } from './repositories/twoFactor';
+import { verifyTotp, generateRecoveryCodes, hashRecoveryCode, openSecret } from './totp';
+import type { RowDataPacket } from 'mysql2';
+import type { NextFunction, Request, Response } from 'express';
+
+export const TWO_FACTOR_ISSUER = process.env.TWO_FACTOR_ISSUER || 'FlightLog';
+
+const TWO_FACTOR_TOKEN_TTL = '5m';
+
+// TOTP secrets are stored encrypted with a key derived from this value
+export const TOTP_SECRET_KEY = process.env.TOTP_SECRET_KEY || JWT_SECRET;
+
+// Helper function to sign the short-lived token for the second login step ('2fa_challenge')
+// or for enrolling before the first session ('2fa_enroll')
+export function signTwoFactorToken(pilot: { id: number; email: string }, purpose: '2fa_challenge' | '2fa_enroll'): string {
+  return jwt.sign({ id: pilot.id, email: pilot.email, purpose }, JWT_SECRET, { expiresIn: TWO_FACTOR_TOKEN_TTL });
+}
+
+export async function isTwoFactorRequired(role: string): Promise<boolean> {
+  const policy = await findTwoFactorPolicy(role);
+  return Boolean(policy && policy.required);
+}
+
+/**
+ * Check a second factor for a pilot row with two-factor enabled. A 6-digit value is checked as a
+ * TOTP code (each time step is accepted once), anything else as a recovery code (used up on success).
+ * Resolves to 'totp', 'recovery_code' or null.
+ */
+export async function checkSecondFactor(pilot: RowDataPacket, code: unknown): Promise<'totp' | 'recovery_code' | null> {
+  const value = String(code || '').replace(/\s/g, '');
+
+  if (/^\d{6}$/.test(value)) {
+    const step = verifyTotp(openSecret(pilot.totp_secret, TOTP_SECRET_KEY), value);
+    if (step === null) return null;
+
+    return (await claimTotpStep(pilot.id, step)) ? 'totp' : null;
+  }
+
+  return (await useRecoveryCode(pilot.id, hashRecoveryCode(value))) ? 'recovery_code' : null;
+}
+
+// Helper function to replace a pilot's recovery codes; resolves to the new plain-text codes
+export async function replaceRecoveryCodes(pilotId: number): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await replaceRecoveryCodeHashes(pilotId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+// Enrollment accepts a normal access token, or the enrollmentToken from /auth/login when the
+// pilot's role requires two-factor authentication and it is not set up yet
+export const authenticateTwoFactorEnrollment = <P>(req: Request<P>, res: Response, next: NextFunction) => {
+  if (!req.body?.enrollmentToken) {
+    return authenticateToken(req, res, next);
+  }
+
+  const payload = verifyAccountToken(req.body.enrollmentToken, '2fa_enroll');
+  if (!payload) {
+    return res.status(401).json({ success: false, message: 'Setup expired, please sign in again' });
+  }
+  req.user = { id: payload.id, email: payload.email };
+  req.enrolling = true;
+  next();
+};
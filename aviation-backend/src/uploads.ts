@@ -0,0 +1,7 @@
+// uploads.ts
+// Multer storage for uploaded schedule and logbook files
+
+import multer from 'multer';
+
+// Configure multer for file uploads
+export const upload = multer({ dest: 'uploads/' });
@@ -0,0 +1,111 @@
+// adsb.test.ts
+// ADS-B state vectors stored as positions, replayed recordings shifted to the present, and bounding box queries
+
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, it, mock } from 'node:test';
+import { ADSB_RETENTION_HOURS, createReplaySource, toPositionRow } from '../src/adsb';
+import liveRoutes from '../src/routes/live';
+import { fakeDb, request, tokenFor } from './support';
+
+// An OpenSky /states/all row
+const state = ['a1b2c3', 'BAW117  ', 'United Kingdom', 1777600000, 1777600005, -0.45, 51.47, 1200, false, 110.5, 270, 5.2, null, 1250, '7000', false, 0];
+
+describe('toPositionRow', () => {
+  it('keeps the OpenSky column order with a trimmed callsign', () => {
+    const row = toPositionRow(state);
+    assert.deepEqual(row, ['a1b2c3', 'BAW117', ...state.slice(2)]);
+  });
+
+  it('stores sensors as JSON and fills missing trailing columns with null', () => {
+    const row = toPositionRow([...state.slice(0, 12), [3, 7]]);
+    assert.ok(row);
+    assert.equal(row[12], '[3,7]');
+    assert.deepEqual(row.slice(13), [null, null, null, null]);
+  });
+
+  it('drops states without a position and blank callsigns', () => {
+    assert.equal(toPositionRow(['a1b2c3', 'BAW117', 'United Kingdom', null, 1777600005, -0.45, 51.47]), null);
+    assert.equal(toPositionRow(['a1b2c3', 'BAW117', 'United Kingdom', 1777600000, 1777600005, null, 51.47]), null);
+    assert.equal(toPositionRow(['', 'BAW117', 'United Kingdom', 1777600000, 1777600005, -0.45, 51.47]), null);
+    assert.equal(toPositionRow(['a1b2c3', '        ', ...state.slice(2)])?.[1], null);
+  });
+});
+
+describe('createReplaySource', () => {
+  const replayFile = path.join(os.tmpdir(), `adsb-replay-${process.pid}.jsonl`);
+
+  afterEach(() => {
+    mock.restoreAll();
+    fs.rmSync(replayFile, { force: true });
+    delete process.env.ADSB_REPLAY_FILE;
+  });
+
+  it('shifts recorded times to the present and starts over at the end', async () => {
+    fs.writeFileSync(replayFile, [
+      JSON.stringify({ time: 1000, states: [['a1b2c3', 'BAW117', 'United Kingdom', 990, 995, -0.45, 51.47]] }),
+      '',
+      JSON.stringify({ time: 1060, states: [['a1b2c3', 'BAW117', 'United Kingdom', 1050, null, -0.5, 51.5]] })
+    ].join('\n'));
+    process.env.ADSB_REPLAY_FILE = replayFile;
+
+    let now = 5_000_000_000;
+    mock.method(Date, 'now', () => now);
+    const source = createReplaySource();
+
+    const first = await source.fetchStates();
+    assert.equal(first.time, 5_000_000);
+    assert.deepEqual(first.states, [['a1b2c3', 'BAW117', 'United Kingdom', 4_999_990, 4_999_995, -0.45, 51.47]]);
+
+    now += 60_000;
+    const second = await source.fetchStates();
+    assert.equal(second.time, 5_000_060);
+    assert.deepEqual(second.states?.[0].slice(3, 6), [5_000_050, null, -0.5]);
+
+    now += 120_000;
+    const again = await source.fetchStates();
+    assert.equal(again.time, 5_000_180);
+    assert.equal(again.states?.[0][3], 5_000_170);
+  });
+});
+
+describe('GET /live/bbox', () => {
+  afterEach(() => mock.restoreAll());
+
+  const pilot = { id: 1, email: 'pilot@example.com', role: 'pilot' };
+  const box = 'lamin=51&lomin=-1&lamax=52&lomax=0';
+
+  // Helper function to run a bounding box query and return the time window and limit it used
+  async function bboxQuery(query: string) {
+    const { queries } = fakeDb(sql => (sql.startsWith('SELECT id FROM sessions') ? [{ id: 1 }] : undefined));
+    const before = Math.floor(Date.now() / 1000);
+
+    const res = await request(liveRoutes, 'GET', `/live/bbox?${box}${query}`, { token: tokenFor(pilot) });
+    assert.equal(res.status, 200);
+
+    const sql = queries.find(statement => statement.startsWith('SELECT f.icao24'));
+    assert.ok(sql);
+    const [, since, limit] = sql.match(/WHERE time_position >= (\d+) .* LIMIT (\d+)$/) || [];
+    return { minutes: Math.round((before - Number(since)) / 60), limit: Number(limit) };
+  }
+
+  it('looks back 15 minutes by default and at most the retention period', async () => {
+    assert.equal((await bboxQuery('')).minutes, 15);
+    mock.restoreAll();
+    assert.equal((await bboxQuery('&minutes=60')).minutes, 60);
+    mock.restoreAll();
+    assert.equal((await bboxQuery('&minutes=1000000')).minutes, ADSB_RETENTION_HOURS * 60);
+  });
+
+  it('limits the number of aircraft returned', async () => {
+    assert.equal((await bboxQuery('')).limit, 1000);
+  });
+
+  it('rejects an inverted box', async () => {
+    fakeDb(sql => (sql.startsWith('SELECT id FROM sessions') ? [{ id: 1 }] : undefined));
+    const res = await request(liveRoutes, 'GET', '/live/bbox?lamin=52&lomin=-1&lamax=51&lomax=0', { token: tokenFor(pilot) });
+    assert.equal(res.status, 400);
+  });
+});
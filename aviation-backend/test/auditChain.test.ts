@@ -0,0 +1,85 @@
+// auditChain.test.ts
+// Audit hash chain: hashing, verification across batches and detection of edited, removed or unchained rows
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GENESIS_HASH, hashAuditEntry, verifyAuditBatch } from '../src/auditChain';
+import type { ChainState, ChainedAuditRow } from '../src/auditChain';
+
+const newState = (): ChainState => ({ previousHash: GENESIS_HASH, checked: 0, skipped: 0, started: false });
+
+// Helper function to build `count` rows chained the way audit.ts appends them
+function buildChain(count: number, firstId: number = 1): ChainedAuditRow[] {
+  const rows: ChainedAuditRow[] = [];
+  let previousHash = GENESIS_HASH;
+
+  for (let i = 0; i < count; i++) {
+    const row: ChainedAuditRow = {
+      id: firstId + i,
+      action: 'updated',
+      entity: 'flight',
+      entity_id: String(100 + i),
+      user_id: 'pilot@example.com',
+      user_name: 'Pilot User',
+      timestamp: `2026-06-01 10:00:0${i}`,
+      details: JSON.stringify({ message: `Edit ${i}`, version: i + 1 }),
+      flight_details: null,
+      prev_hash: previousHash,
+      entry_hash: null
+    };
+    row.entry_hash = hashAuditEntry(row);
+    previousHash = row.entry_hash;
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('hashAuditEntry', () => {
+  it('does not depend on the key order of JSON columns', () => {
+    const [row] = buildChain(1);
+    const reordered = { ...row, details: { version: 1, message: 'Edit 0' } };
+    assert.equal(hashAuditEntry(reordered), row.entry_hash);
+  });
+});
+
+describe('verifyAuditBatch', () => {
+  it('accepts an intact chain split over several batches', () => {
+    const rows = buildChain(5);
+    const state = newState();
+
+    assert.equal(verifyAuditBatch(rows.slice(0, 2), state), null);
+    assert.equal(verifyAuditBatch(rows.slice(2), state), null);
+    assert.equal(state.checked, 5);
+    assert.equal(state.previousHash, rows[4].entry_hash);
+  });
+
+  it('reports an entry whose content was changed', () => {
+    const rows = buildChain(3);
+    rows[1].details = JSON.stringify({ message: 'Edit 1', version: 99 });
+
+    const broken = verifyAuditBatch(rows, newState());
+    assert.equal(broken?.id, 2);
+    assert.match(broken!.reason, /content does not match/);
+  });
+
+  it('reports the entry after one that was deleted', () => {
+    const rows = buildChain(3);
+
+    const broken = verifyAuditBatch([rows[0], rows[2]], newState());
+    assert.equal(broken?.id, 3);
+    assert.match(broken!.reason, /Previous-hash link/);
+  });
+
+  it('skips unchained rows before the chain starts but not after', () => {
+    const legacy = { ...buildChain(1)[0], id: 1, prev_hash: null, entry_hash: null };
+    const rows = buildChain(2, 2);
+    const state = newState();
+
+    assert.equal(verifyAuditBatch([legacy, ...rows], state), null);
+    assert.equal(state.skipped, 1);
+    assert.equal(state.checked, 2);
+
+    const inserted = { ...legacy, id: 4 };
+    assert.equal(verifyAuditBatch([inserted], state)?.id, 4);
+  });
+});
@@ -0,0 +1,44 @@
+// auditLogs.test.ts
+// Audit log search paging
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import auditLogRoutes from '../src/routes/auditLogs';
+import { fakeDb, request, tokenFor } from './support';
+
+describe('GET /audit-logs', () => {
+  afterEach(() => mock.restoreAll());
+
+  const admin = { id: 9, email: 'admin@example.com', role: 'admin' };
+
+  // Helper function to search with `query` and return the LIMIT and OFFSET the search ran with
+  async function pageQuery(query: string) {
+    const { queries } = fakeDb(sql => {
+      if (sql.startsWith('SELECT id FROM sessions')) return [{ id: 1 }];
+      if (sql.startsWith('SELECT * FROM pilots WHERE id = 9')) return [{ ...admin, is_active: 1 }];
+      if (sql.startsWith('SELECT COUNT(*) as total')) return [{ total: 1000 }];
+      return undefined;
+    });
+
+    const res = await request(auditLogRoutes, 'GET', `/audit-logs?${query}`, { token: tokenFor(admin) });
+    assert.equal(res.status, 200);
+
+    const [, limit, offset] = queries.find(sql => sql.startsWith('SELECT * FROM audit_logs'))?.match(/LIMIT (-?\d+) OFFSET (-?\d+)$/) || [];
+    return { limit: Number(limit), offset: Number(offset), pagination: res.body.pagination as Record<string, number> };
+  }
+
+  it('pages through the results', async () => {
+    const { limit, offset, pagination } = await pageQuery('page=3&limit=50');
+    assert.deepEqual({ limit, offset }, { limit: 50, offset: 100 });
+    assert.deepEqual(pagination, { currentPage: 3, totalPages: 20, totalItems: 1000, itemsPerPage: 50 });
+  });
+
+  it('starts at the first page and caps the page size', async () => {
+    const negative = await pageQuery('page=-2&limit=-5');
+    assert.deepEqual([negative.limit, negative.offset, negative.pagination.currentPage], [1, 0, 1]);
+    mock.restoreAll();
+
+    const large = await pageQuery('page=0&limit=100000');
+    assert.deepEqual([large.limit, large.offset, large.pagination.itemsPerPage], [200, 0, 200]);
+  });
+});
@@ -0,0 +1,124 @@
+// backups.test.ts
+// Backup contents and restores: what pilot backups leave out, and restores that would undo a signature
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { createBackup, restoreBackup } from '../src/backups';
+import { hashFlightEntry } from '../src/signatures';
+import { fakeDb } from './support';
+
+const signedFlight = {
+  id: 10,
+  created_by: 1,
+  aircraft_id: null,
+  flight_date: '2026-05-01',
+  departure_scheduled: '2026-05-01 09:00:00',
+  arrival_scheduled: '2026-05-01 10:30:00',
+  departure_iata: 'BOS',
+  arrival_iata: 'JFK',
+  remarks: 'Steep turns',
+  duration_hours: '1.50',
+  dual_received_hours: '1.50',
+  day_landings: 1
+};
+const unsignedFlight = { ...signedFlight, id: 11, remarks: null, dual_received_hours: '0.00' };
+
+describe('createBackup', () => {
+  afterEach(() => mock.restoreAll());
+
+  it("leaves the password, TOTP secret and lockout state out of a pilot's backup", async () => {
+    const { queries } = fakeDb(sql => {
+      if (sql.startsWith('SELECT * FROM pilots')) {
+        return [{
+          id: 1,
+          email: 'pilot@example.com',
+          first_name: 'Sam',
+          password: '$2a$10$hash',
+          totp_enabled: 1,
+          totp_secret: 'JBSWY3DPEHPK3PXP',
+          totp_last_step: 5000,
+          failed_login_attempts: 3,
+          last_failed_login_at: '2026-05-01 10:00:00',
+          locked_until: '2026-05-01 10:15:00'
+        }];
+      }
+      if (sql.startsWith('INSERT INTO backups')) return { affectedRows: 1, insertId: 7 };
+      return undefined;
+    });
+
+    await createBackup({ scope: 'pilot', pilot: { id: 1, email: 'pilot@example.com' } });
+
+    const insert = queries.find(sql => sql.startsWith('INSERT INTO backups'));
+    assert.ok(insert);
+    assert.ok(insert.includes('\\"first_name\\":\\"Sam\\"'));
+    for (const column of ['password', 'totp_secret', 'totp_last_step', 'failed_login_attempts', 'last_failed_login_at', 'locked_until']) {
+      assert.equal(insert.includes(`\\"${column}\\"`), false, column);
+    }
+  });
+});
+
+describe('restoreBackup', () => {
+  afterEach(() => mock.restoreAll());
+
+  // Helper function to answer the restore's queries with flight 10 signed as `signedFlight`
+  const signedDb = () => fakeDb(sql =>
+    sql.includes('FROM flight_signatures fs')
+      ? [{ id: 5, flight_id: 10, entry_hash: hashFlightEntry(signedFlight), is_current: 1 }]
+      : undefined);
+
+  it('replaces the pilot\'s rows when signed entries come back unchanged', async () => {
+    const { queries } = signedDb();
+
+    const result = await restoreBackup(
+      { version: 2, tables: { logbook_entries: [signedFlight, unsignedFlight, { ...signedFlight, id: 12, created_by: 2 }] } },
+      { scope: 'pilot', pilotId: 1 }
+    );
+
+    assert.deepEqual(result, { restored: { logbook_entries: 2 } });
+    assert.ok(queries.includes('DELETE FROM logbook_entries WHERE created_by = 1'));
+    assert.equal(queries.at(-1), 'COMMIT');
+  });
+
+  it('refuses a pilot restore that would drop or change a signed entry', async () => {
+    for (const flights of [[unsignedFlight], [{ ...signedFlight, remarks: 'Stalls' }, unsignedFlight]]) {
+      const { queries } = signedDb();
+
+      const result = await restoreBackup({ version: 2, tables: { logbook_entries: flights } }, { scope: 'pilot', pilotId: 1 });
+
+      assert.deepEqual(result, { error: 'The backup would remove or change 1 signed logbook entry; no changes were made' });
+      assert.equal(queries.some(sql => sql.startsWith('DELETE') || sql.startsWith('INSERT')), false);
+      mock.restoreAll();
+    }
+  });
+
+  it('leaves signed entries alone when the backup has no logbook entries', async () => {
+    const { queries } = signedDb();
+
+    const result = await restoreBackup(
+      { version: 2, tables: { aircraft: [{ id: 3, owner_pilot_id: 1, registration: 'N1' }] } },
+      { scope: 'pilot', pilotId: 1 }
+    );
+
+    assert.deepEqual(result, { restored: { aircraft: 1 } });
+    assert.equal(queries.some(sql => sql.includes('flight_signatures') || sql.includes('logbook_entries')), false);
+  });
+
+  it('reloads every restorable table in a full restore, keeping the audit log and clearing orphans', async () => {
+    const { queries } = fakeDb();
+
+    const result = await restoreBackup({
+      version: 2,
+      tables: {
+        pilots: [{ id: 1, email: 'pilot@example.com' }],
+        logbook_entries: [signedFlight],
+        flight_signatures: [],
+        audit_logs: [{ id: 1, action: 'created' }]
+      }
+    }, { scope: 'full' });
+
+    assert.deepEqual(result, { restored: { pilots: 1, logbook_entries: 1, flight_signatures: 0 } });
+    assert.equal(queries.some(sql => sql.includes('audit_logs')), false);
+    assert.ok(queries.includes('DELETE FROM sessions WHERE pilot_id NOT IN (SELECT id FROM pilots)'));
+    assert.equal(queries.at(-2), 'SET FOREIGN_KEY_CHECKS = 1');
+  });
+});
@@ -0,0 +1,73 @@
+// credentials.test.ts
+// Credential expiry per authority, explicit expiry dates, status bands and reminder thresholds
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { dueReminderThreshold, evaluateCredential } from '../src/credentials';
+import type { CredentialRow } from '../src/credentials';
+
+// Helper function to evaluate a credential issued on 2026-01-15 and return its computed expiry
+function expiryOf(credential: Omit<CredentialRow, 'issue_date'>): string | null {
+  return evaluateCredential({ ...credential, issue_date: '2026-01-15' }, new Date('2026-01-20T12:00:00')).computed_expiry;
+}
+
+describe('evaluateCredential', () => {
+  it('runs FAA medicals to the end of the month by class and age', () => {
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'FAA', medical_class: 1, age_at_issue: 35 }), '2027-01-31');
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'FAA', medical_class: 1, age_at_issue: 45 }), '2026-07-31');
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'FAA', medical_class: 3, age_at_issue: 30 }), '2031-01-31');
+  });
+
+  it('runs EASA medicals to the same day of the month', () => {
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'EASA', medical_class: 1, age_at_issue: 30 }), '2027-01-15');
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'EASA', medical_class: 2, age_at_issue: 45 }), '2028-01-15');
+  });
+
+  it('gives a medical of unknown age the older-pilot validity', () => {
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'FAA', medical_class: 1 }), '2026-07-31');
+    assert.equal(expiryOf({ credential_type: 'medical', authority: 'EASA', medical_class: 1 }), '2026-07-15');
+  });
+
+  it('prefers an explicit expiry date and otherwise reports no expiry', () => {
+    const passport = evaluateCredential({ credential_type: 'passport', authority: 'FAA', expiry_date: new Date(2030, 2, 1) }, new Date('2026-01-20T12:00:00'));
+    assert.equal(passport.expiry_date, '2030-03-01');
+    assert.equal(passport.computed_expiry, '2030-03-01');
+    assert.equal(passport.expiry_source, 'explicit');
+    assert.equal(passport.regulation, null);
+
+    const undated = evaluateCredential({ credential_type: 'passport', authority: 'FAA', issue_date: '2026-01-15' });
+    assert.equal(undated.status, 'no_expiry');
+    assert.equal(undated.days_remaining, null);
+  });
+
+  it('is expiring inside the largest reminder threshold and expired the day after', () => {
+    const review: CredentialRow = { credential_type: 'flight_review', authority: 'FAA', issue_date: '2024-05-10' };
+
+    const valid = evaluateCredential(review, new Date('2026-03-01T12:00:00'));
+    assert.equal(valid.computed_expiry, '2026-05-31');
+    assert.equal(valid.regulation, '14 CFR 61.56');
+    assert.deepEqual([valid.status, valid.days_remaining], ['valid', 91]);
+
+    const expiring = evaluateCredential(review, new Date('2026-03-02T12:00:00'));
+    assert.deepEqual([expiring.status, expiring.days_remaining], ['expiring', 90]);
+
+    const lastDay = evaluateCredential(review, new Date('2026-05-31T23:00:00'));
+    assert.deepEqual([lastDay.status, lastDay.days_remaining], ['expiring', 0]);
+
+    const expired = evaluateCredential(review, new Date('2026-06-01T00:30:00'));
+    assert.deepEqual([expired.status, expired.days_remaining], ['expired', -1]);
+  });
+});
+
+describe('dueReminderThreshold', () => {
+  it('returns the smallest threshold crossed, and none once expired', () => {
+    assert.equal(dueReminderThreshold(91), null);
+    assert.equal(dueReminderThreshold(90), 90);
+    assert.equal(dueReminderThreshold(31), 90);
+    assert.equal(dueReminderThreshold(30), 30);
+    assert.equal(dueReminderThreshold(7), 7);
+    assert.equal(dueReminderThreshold(0), 7);
+    assert.equal(dueReminderThreshold(-1), null);
+    assert.equal(dueReminderThreshold(null), null);
+  });
+});
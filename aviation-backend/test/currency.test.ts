@@ -0,0 +1,73 @@
+// currency.test.ts
+// Recent-experience windows, expiry and lapse handling of the FAA and EASA rule sets
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { evaluateCurrency } from '../src/currency';
+import type { CurrencyFlightRow } from '../src/currency';
+
+// Helper function to pick one rule's result out of an evaluation
+function currency(flights: CurrencyFlightRow[], ruleSet: string, asOf: string, id: string) {
+  const result = evaluateCurrency(flights, ruleSet, new Date(`${asOf}T12:00:00`));
+  const rule = result.currencies.find(item => item.id === id);
+  assert.ok(rule, `no ${id} rule in ${ruleSet}`);
+  return rule;
+}
+
+describe('evaluateCurrency', () => {
+  // Counts come back from MySQL as strings as well as numbers
+  const landings: CurrencyFlightRow[] = [{ flight_date: '2026-05-01', day_landings: '2', night_landings: 1 }];
+
+  it('is current for 90 days after the third landing', () => {
+    const rule = currency(landings, 'FAA', '2026-06-15', 'passenger_day');
+
+    assert.equal(rule.status, 'current');
+    assert.equal(rule.expiresOn, '2026-07-30');
+    assert.equal(rule.daysRemaining, 45);
+    assert.deepEqual(rule.progress, [{ label: 'takeoffs and landings', required: 3, logged: 3 }]);
+    assert.deepEqual(rule.needed, []);
+  });
+
+  it('warns in the last 30 days and lists what is missing once expired', () => {
+    assert.equal(currency(landings, 'FAA', '2026-07-10', 'passenger_day').status, 'expiring');
+
+    const expired = currency(landings, 'FAA', '2026-07-31', 'passenger_day');
+    assert.equal(expired.status, 'expired');
+    assert.deepEqual(expired.needed, ['3 more takeoffs and landings']);
+  });
+
+  it('counts night landings on their own', () => {
+    assert.deepEqual(currency(landings, 'FAA', '2026-06-15', 'passenger_night').needed, ['2 more night takeoffs and full-stop landings']);
+    assert.equal(currency(landings, 'EASA', '2026-06-15', 'passenger_night').status, 'current');
+  });
+
+  it('ignores future-dated flights', () => {
+    const scheduled: CurrencyFlightRow[] = [{ flight_date: '2026-06-20', day_landings: 3 }];
+    assert.equal(currency(scheduled, 'FAA', '2026-06-15', 'passenger_day').status, 'expired');
+  });
+
+  it('runs IFR currency to the end of the sixth calendar month', () => {
+    const flights: CurrencyFlightRow[] = [{ flight_date: '2026-01-10', approaches: 6, holds: 1, course_intercepts: 1 }];
+    const rule = currency(flights, 'FAA', '2026-06-15', 'ifr');
+
+    assert.equal(rule.status, 'current');
+    assert.equal(rule.expiresOn, '2026-07-31');
+  });
+
+  it('asks for an IPC once IFR currency has lapsed for six months', () => {
+    const flights: CurrencyFlightRow[] = [{ flight_date: '2026-01-10', approaches: 6, holds: 1, course_intercepts: 1 }];
+
+    assert.deepEqual(currency(flights, 'FAA', '2026-12-15', 'ifr').needed, [
+      '6 more instrument approaches',
+      '1 more holding procedures',
+      '1 more intercepting and tracking courses'
+    ]);
+    assert.deepEqual(currency(flights, 'FAA', '2027-02-01', 'ifr').needed, [
+      'Instrument proficiency check (IPC) required (14 CFR 61.57(d))'
+    ]);
+  });
+
+  it('rejects an unknown rule set', () => {
+    assert.throws(() => evaluateCurrency([], 'XYZ'), /Unknown currency rule set: XYZ/);
+  });
+});
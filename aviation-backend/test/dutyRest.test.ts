@@ -0,0 +1,85 @@
+// dutyRest.test.ts
+// Duty periods, FDP and rest limits and schedule checks of the EASA and FAR 117 rule sets (times in UTC)
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { checkScheduleRow, evaluateDutyStatus } from '../src/dutyRest';
+import type { DutyData } from '../src/dutyRest';
+
+// A two-hour sector departing at 08:00 UTC that was also on the roster
+const loggedDay: DutyData = {
+  flights: [{
+    flight_date: '2026-06-01',
+    flight_iata: 'BA1',
+    departure_scheduled: '2026-06-01 08:00:00',
+    arrival_scheduled: '2026-06-01 10:00:00',
+    duration_hours: 2
+  }],
+  schedules: [{ id: 5, flight_date: '2026-06-01', flight_time: '08:00', flight_number: 'ba1', block_hours: 2 }]
+};
+
+describe('evaluateDutyStatus', () => {
+  it('reports the FDP used so far in the current duty, counting a logged schedule row once', () => {
+    const status = evaluateDutyStatus(loggedDay, 'EASA', new Date('2026-06-01T09:00:00Z'));
+
+    assert.equal(status.onDuty, true);
+    assert.equal(status.currentDuty?.sectors.length, 1);
+    assert.equal(status.currentDuty?.report, '2026-06-01T07:00:00.000Z');
+    assert.deepEqual(status.fdp, { maxHours: 13, usedHours: 2, remainingHours: 11 });
+  });
+
+  it('reports the rest owed after the duty ends', () => {
+    const status = evaluateDutyStatus(loggedDay, 'EASA', new Date('2026-06-01T12:00:00Z'));
+
+    assert.equal(status.onDuty, false);
+    assert.equal(status.rest?.lastDutyEnd, '2026-06-01T10:30:00.000Z');
+    assert.equal(status.rest?.requiredHours, 12);
+    assert.equal(status.rest?.nextLegalReport, '2026-06-01T22:30:00.000Z');
+    assert.equal(status.rest?.restRemainingHours, 10.5);
+    assert.equal(status.flightTime.last7Days, 2);
+  });
+
+  it('rejects an unknown rule set', () => {
+    assert.throws(() => evaluateDutyStatus({}, 'XYZ'), /Unknown duty rule set: XYZ/);
+  });
+});
+
+describe('checkScheduleRow', () => {
+  it('flags a third sector that takes the FDP past the reduced limit', () => {
+    const roster: DutyData = {
+      schedules: [
+        { id: 1, flight_date: '2026-06-02', flight_time: '06:00', flight_number: 'X1', block_hours: 4 },
+        { id: 2, flight_date: '2026-06-02', flight_time: '10:30', flight_number: 'X2', block_hours: 4 }
+      ]
+    };
+    const breaches = checkScheduleRow(roster, { flight_date: '2026-06-02', flight_time: '15:00', flight_number: 'X3', block_hours: 4 }, 'EASA');
+
+    assert.equal(breaches.length, 1);
+    assert.equal(breaches[0].type, 'fdp');
+    assert.equal(breaches[0].limitHours, 11.5);
+    assert.equal(breaches[0].actualHours, 14);
+  });
+
+  it('flags a duty that reports before the minimum rest is over', () => {
+    const logged: DutyData = {
+      flights: [{
+        flight_date: '2026-06-02',
+        flight_iata: 'X9',
+        departure_actual: '2026-06-02 08:00:00',
+        arrival_actual: '2026-06-02 18:00:00',
+        duration_hours: 10
+      }]
+    };
+    const earlyStart = { flight_date: '2026-06-03', flight_time: '03:00', flight_number: 'X10', block_hours: 2 };
+
+    const easa = checkScheduleRow(logged, earlyStart, 'EASA');
+    assert.deepEqual(easa.map(breach => [breach.type, breach.limitHours, breach.actualHours]), [['rest', 12, 7.5]]);
+
+    const far117 = checkScheduleRow(logged, earlyStart, 'FAR117');
+    assert.deepEqual(far117.map(breach => [breach.type, breach.limitHours, breach.actualHours]), [['rest', 10, 7.75]]);
+  });
+
+  it('ignores a row without a departure time', () => {
+    assert.deepEqual(checkScheduleRow(loggedDay, { flight_date: '2026-06-02', flight_time: null }, 'EASA'), []);
+  });
+});
@@ -0,0 +1,29 @@
+// flightCatalog.test.ts
+// Catalogued provider flights keyed by flight number, date and departure airport
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { findCatalogFlight, upsertCatalogFlight } from '../src/repositories/flightCatalog';
+import { fakeDb } from './support';
+
+describe('flight catalog', () => {
+  afterEach(() => mock.restoreAll());
+
+  it("stores an unknown departure airport as '' so the unique key dedupes it", async () => {
+    const { queries } = fakeDb();
+
+    await upsertCatalogFlight({ flight_iata: 'AA100', flight_date: '2026-05-01', departure_iata: null, departure_scheduled: '2026-05-01T13:00:00+00:00' });
+
+    assert.match(queries[0], /^INSERT INTO flight_catalog \(.*\) VALUES \('2026-05-01', NULL, NULL, '', NULL, '2026-05-01 13:00:00',/);
+    assert.match(queries[0], /ON DUPLICATE KEY UPDATE flight_status = VALUES\(flight_status\)/);
+  });
+
+  it('prefers a flight from the same departure airport, or one with none', async () => {
+    const { queries } = fakeDb();
+
+    await findCatalogFlight('AA100', '2026-05-01', 'BOS');
+    await findCatalogFlight('AA100', '2026-05-01', null);
+
+    assert.deepEqual(queries.map(sql => sql.match(/ORDER BY (.*) DESC/)?.[1]), ["departure_iata = 'BOS'", "departure_iata = ''"]);
+  });
+});
@@ -0,0 +1,151 @@
+// flightEdits.test.ts
+// Flight edit parsing and diffing, versioned edits, revision history and current-role permission checks
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { diffFlight, parseFlightUpdates } from '../src/flightFields';
+import flightEditRoutes from '../src/routes/flightEdits';
+import { fakeDb, request, tokenFor } from './support';
+import type { QueryHandler } from './support';
+
+const pilot = { id: 1, email: 'pilot@example.com', role: 'pilot' };
+const admin = { id: 9, email: 'admin@example.com', role: 'admin' };
+
+const savedFlight = {
+  id: 10,
+  created_by: 1,
+  flight_date: '2026-05-01',
+  departure_iata: 'BOS',
+  arrival_iata: 'JFK',
+  duration_hours: '1.50',
+  pic_hours: '1.50',
+  remarks: null,
+  aircraft_id: null,
+  version: 2
+};
+
+describe('parseFlightUpdates', () => {
+  it('keeps only the fields present, trimmed, with empty text as null', () => {
+    assert.deepEqual(parseFlightUpdates({ arrival_iata: ' LGA ', departure_iata: '', pic_hours: '1.2', ignored: 'x' }), {
+      updates: { departure_iata: null, arrival_iata: 'LGA', pic_hours: 1.2 }
+    });
+  });
+
+  it('rejects a malformed flight_date and reads aircraft_id as a number', () => {
+    assert.deepEqual(parseFlightUpdates({ flight_date: '05/01/2026' }), { error: 'flight_date must be in YYYY-MM-DD format' });
+    assert.deepEqual(parseFlightUpdates({ aircraft_id: '3' }), { updates: { aircraft_id: 3 } });
+    assert.deepEqual(parseFlightUpdates({ aircraft_id: '' }), { updates: { aircraft_id: null } });
+  });
+});
+
+describe('diffFlight', () => {
+  it('compares numbers as numbers and text as text', () => {
+    assert.deepEqual(diffFlight(savedFlight, { duration_hours: 1.5, pic_hours: 1.2, arrival_iata: 'JFK', remarks: 'Night' }), {
+      pic_hours: { from: '1.50', to: 1.2 },
+      remarks: { from: null, to: 'Night' }
+    });
+  });
+});
+
+// Helper function to answer the flight edit routes; `roles` is what the pilots table says now
+function flightDb(roles: Record<number, { role: string; is_active: number }>, extra: QueryHandler = () => undefined) {
+  return fakeDb(sql => {
+    const result = extra(sql);
+    if (result !== undefined) return result;
+
+    if (sql.startsWith('SELECT id FROM sessions')) return [{ id: 1 }];
+    const pilotLookup = sql.match(/^SELECT \* FROM pilots WHERE id = (\d+)/);
+    if (pilotLookup) {
+      const id = Number(pilotLookup[1]);
+      return roles[id] ? [{ id, ...roles[id] }] : [];
+    }
+    if (sql.startsWith("SELECT * FROM logbook_entries WHERE id = '10'")) return [savedFlight];
+    return undefined;
+  });
+}
+
+describe('PUT /flights/:id', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('writes the diff against the version that was read', async () => {
+    const { queries } = flightDb({ 1: { role: 'pilot', is_active: 1 } }, sql =>
+      sql.startsWith('UPDATE logbook_entries') ? { affectedRows: 1 } : undefined);
+
+    const res = await request(flightEditRoutes, 'PUT', '/flights/10', { token: tokenFor(pilot), body: { remarks: 'Gusty', pic_hours: '1.50' } });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.version, 3);
+    assert.deepEqual(res.body.changes, { remarks: { from: null, to: 'Gusty' } });
+    assert.ok(queries.includes(
+      "UPDATE logbook_entries SET `remarks` = 'Gusty', version = 3 WHERE id = 10 AND (version = 2 OR version IS NULL)"
+    ));
+    assert.ok(queries.some(sql => sql.startsWith('INSERT INTO audit_logs') && sql.includes('Flight updated (remarks)')));
+  });
+
+  it('reports a conflict when the flight changed since it was read', async () => {
+    flightDb({ 1: { role: 'pilot', is_active: 1 } });
+
+    const res = await request(flightEditRoutes, 'PUT', '/flights/10', { token: tokenFor(pilot), body: { remarks: 'Gusty' } });
+    assert.equal(res.status, 409);
+  });
+
+  it("uses the current role rather than the token's to edit another pilot's flight", async () => {
+    flightDb({ 9: { role: 'admin', is_active: 1 } }, sql =>
+      sql.startsWith('UPDATE logbook_entries') ? { affectedRows: 1 } : undefined);
+    assert.equal((await request(flightEditRoutes, 'PUT', '/flights/10', { token: tokenFor(admin), body: { remarks: 'x' } })).status, 200);
+    mock.restoreAll();
+
+    flightDb({ 9: { role: 'pilot', is_active: 1 } });
+    assert.equal((await request(flightEditRoutes, 'PUT', '/flights/10', { token: tokenFor(admin), body: { remarks: 'x' } })).status, 403);
+    mock.restoreAll();
+
+    flightDb({ 9: { role: 'admin', is_active: 0 } });
+    const deactivated = await request(flightEditRoutes, 'PUT', '/flights/10', { token: tokenFor(admin), body: { remarks: 'x' } });
+    assert.equal(deactivated.status, 403);
+    assert.equal(deactivated.body.message, 'Account is deactivated');
+  });
+
+  it('refuses to change a signed entry', async () => {
+    flightDb({ 1: { role: 'pilot', is_active: 1 } }, sql =>
+      sql.startsWith('SELECT * FROM flight_signatures') ? [{ id: 5, entry_hash: 'abc' }] : undefined);
+
+    const res = await request(flightEditRoutes, 'PUT', '/flights/10', { token: tokenFor(pilot), body: { remarks: 'x' } });
+    assert.equal(res.status, 423);
+  });
+});
+
+describe('GET /flights/:id/history', () => {
+  afterEach(() => mock.restoreAll());
+
+  const auditEntries = [
+    { id: 1, action: 'created', user_id: 'pilot@example.com', timestamp: '2026-05-01 10:00:00', details: '{"message":"Flight saved to logbook","version":1}', flight_details: '{"id":11,"created_by":1}' },
+    { id: 2, action: 'deleted', user_id: 'pilot@example.com', timestamp: '2026-05-02 10:00:00', details: { message: 'Flight deleted from logbook', version: 2 }, flight_details: '{"id":11,"created_by":1}' }
+  ];
+  const deletedFlightDb = (roles: Record<number, { role: string; is_active: number }>) =>
+    flightDb(roles, sql => (sql.startsWith('SELECT id, action, user_id') ? auditEntries : undefined));
+
+  it('lists the revisions of a deleted flight to its owner', async () => {
+    deletedFlightDb({ 1: { role: 'pilot', is_active: 1 } });
+
+    const res = await request(flightEditRoutes, 'GET', '/flights/11/history', { token: tokenFor(pilot) });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.deleted, true);
+    const revisions = res.body.revisions as { version: number; action: string; message: string }[];
+    assert.deepEqual(revisions.map(({ version, action, message }) => [version, action, message]), [
+      [1, 'created', 'Flight saved to logbook'],
+      [2, 'deleted', 'Flight deleted from logbook']
+    ]);
+  });
+
+  it('hides it from other pilots unless their current role can read all flights', async () => {
+    const other = { id: 5, email: 'other@example.com', role: 'admin' };
+
+    deletedFlightDb({ 5: { role: 'pilot', is_active: 1 } });
+    assert.equal((await request(flightEditRoutes, 'GET', '/flights/11/history', { token: tokenFor(other) })).status, 403);
+    mock.restoreAll();
+
+    deletedFlightDb({ 5: { role: 'admin', is_active: 1 } });
+    assert.equal((await request(flightEditRoutes, 'GET', '/flights/11/history', { token: tokenFor(other) })).status, 200);
+  });
+});
@@ -0,0 +1,121 @@
+// logbookImport.test.ts
+// Mapping of ForeFlight, LogTen Pro, MCC PILOTLOG and generic rows to logbook_entries rows
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import moment from 'moment-timezone';
+import { loadAirports } from '../src/airports';
+import { flightFingerprint, importProfiles, mapLogbookRow } from '../src/logbookImport';
+
+const today = moment('2026-06-01');
+
+describe('mapLogbookRow', () => {
+  before(() => loadAirports());
+
+  it('maps a ForeFlight row, summing approaches and resolving airport codes', () => {
+    const { errors, warnings, flight } = mapLogbookRow({
+      Date: '2026-03-01',
+      AircraftID: 'N12345',
+      From: 'KBOS',
+      To: 'JFK',
+      TimeOut: '1300',
+      TimeIn: '14:30',
+      TotalTime: '1.5',
+      PIC: '1.5',
+      Night: '0.5',
+      DayLandingsFullStop: '1',
+      Approach1: '1;ILS;4R;KJFK;;',
+      Approach2: '2;RNAV (GPS);22L;KJFK;;',
+      PilotComments: ' Training flight '
+    }, importProfiles.foreflight, today);
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(warnings, []);
+    assert.equal(flight.flight_date, '2026-03-01');
+    assert.deepEqual([flight.departure_icao, flight.departure_iata], ['KBOS', 'BOS']);
+    assert.deepEqual([flight.arrival_icao, flight.arrival_iata], ['KJFK', 'JFK']);
+    assert.equal(flight.departure_scheduled, '2026-03-01 13:00:00');
+    assert.equal(flight.arrival_scheduled, '2026-03-01 14:30:00');
+    assert.equal(flight.duration_hours, 1.5);
+    assert.equal(flight.night_hours, 0.5);
+    assert.equal(flight.day_landings, 1);
+    assert.equal(flight.approaches, 3);
+    assert.equal(flight.remarks, 'Training flight');
+    assert.equal(flight.aircraft_registration, 'N12345');
+  });
+
+  it('reads LogTen Pro export headers, short dates and h:mm times', () => {
+    const { errors, flight } = mapLogbookRow({
+      flight_flightDate: '3/5/26',
+      'Flight #': 'DL100',
+      flight_from: 'KJFK',
+      flight_to: 'KBOS',
+      flight_totalTime: '1:20'
+    }, importProfiles.logten, today);
+
+    assert.deepEqual(errors, []);
+    assert.equal(flight.flight_date, '2026-03-05');
+    assert.equal(flight.flight_iata, 'DL100');
+    assert.equal(flight.duration_hours, 1.33);
+  });
+
+  it('reads MCC PILOTLOG minutes and carries an arrival past midnight to the next day', () => {
+    const { errors, flight } = mapLogbookRow({
+      mcc_DATE: '15/02/2026',
+      AF_DEP: 'EGLL',
+      AF_ARR: 'LFPG',
+      TIME_DEP: '23:30',
+      TIME_ARR: '00:45',
+      TIME_TOTAL: '75',
+      TIME_PIC: '75',
+      LDG_NIGHT: '1'
+    }, importProfiles.mccpilotlog, today);
+
+    assert.deepEqual(errors, []);
+    assert.equal(flight.flight_date, '2026-02-15');
+    assert.equal(flight.duration_hours, 1.25);
+    assert.equal(flight.pic_hours, 1.25);
+    assert.equal(flight.night_landings, 1);
+    assert.equal(flight.arrival_scheduled, '2026-02-16 00:45:00');
+  });
+
+  it('reports rows that cannot be imported', () => {
+    const { errors } = mapLogbookRow({
+      flight_date: '2026-07-01',
+      departure_icao: 'KBOS',
+      duration_hours: '1',
+      day_landings: '1.5'
+    }, importProfiles.generic, today);
+
+    assert.deepEqual(errors, ['Date is in the future', 'Missing departure or arrival airport', 'Invalid day landings "1.5"']);
+    assert.deepEqual(
+      mapLogbookRow({ flight_date: '01/03/2026', departure_icao: 'KBOS', arrival_icao: 'KJFK', duration_hours: '1' }, importProfiles.generic, today).errors,
+      ['Invalid date "01/03/2026" (expected YYYY-MM-DD)']
+    );
+  });
+
+  it('warns about unknown airports and times above the total', () => {
+    const { errors, warnings, flight } = mapLogbookRow({
+      flight_date: '2026-03-01',
+      departure_icao: 'ZZZZ',
+      arrival_icao: 'KJFK',
+      duration_hours: '1',
+      pic_hours: '2'
+    }, importProfiles.generic, today);
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(warnings, ['Airport ZZZZ is not in the airport database', 'pic time exceeds total time']);
+    assert.deepEqual([flight.departure_icao, flight.departure_iata], ['ZZZZ', null]);
+  });
+});
+
+describe('flightFingerprint', () => {
+  before(() => loadAirports());
+
+  it('matches the same flight logged with IATA or ICAO codes', () => {
+    assert.equal(
+      flightFingerprint({ flight_date: '2026-03-01', departure: 'BOS', arrival: 'JFK', duration_hours: 1.52 }),
+      flightFingerprint({ flight_date: '2026-03-01', departure: 'KBOS', arrival: 'KJFK', duration_hours: '1.5' })
+    );
+  });
+});
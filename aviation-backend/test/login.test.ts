@@ -0,0 +1,183 @@
+// login.test.ts
+// Sign-in backoff per account and per IP (password and two-factor steps), account lockout and timed unlock
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import bcrypt from 'bcryptjs';
+import { LOCKOUT_MINUTES, LOCKOUT_THRESHOLD, ipRetryAfter, pruneIpFailures, recordIpFailure, retryAfterSeconds } from '../src/loginThrottle';
+import { registerTransport } from '../src/mailer';
+import authRoutes from '../src/routes/auth';
+import twoFactorRoutes from '../src/routes/twoFactor';
+import { signTwoFactorToken } from '../src/twoFactor';
+import { fakeDb, request } from './support';
+import type { MailMessage } from '../src/mailer';
+
+// Lockout emails are collected here rather than written to the outbox
+const sentMail: MailMessage[] = [];
+registerTransport('test', () => ({ name: 'test', send: async message => { sentMail.push(message); return {}; } }));
+process.env.MAIL_TRANSPORT = 'test';
+
+const password = 'correct horse';
+const pilot = {
+  id: 1,
+  email: 'pilot@example.com',
+  username: 'pilot',
+  first_name: 'Sam',
+  last_name: 'Hill',
+  role: 'pilot',
+  password: bcrypt.hashSync(password, 4),
+  totp_enabled: 0,
+  failed_login_attempts: 0,
+  last_failed_login_at: null as Date | null,
+  locked_until: null as Date | null
+};
+
+// Forget every IP's failures between tests
+const clearAllIpFailures = () => pruneIpFailures(Date.now() + 24 * 60 * 60 * 1000);
+
+describe('retryAfterSeconds', () => {
+  const now = Date.parse('2026-05-01T10:00:00Z');
+
+  it('doubles the wait for each failure past the free attempts, up to 15 minutes', () => {
+    assert.equal(retryAfterSeconds(2, now, 3, now), 0);
+    assert.equal(retryAfterSeconds(3, now, 3, now), 1);
+    assert.equal(retryAfterSeconds(5, now, 3, now), 4);
+    assert.equal(retryAfterSeconds(30, now, 3, now), 15 * 60);
+  });
+
+  it('counts down from the last failure', () => {
+    assert.equal(retryAfterSeconds(6, new Date(now - 5000), 3, now), 3);
+    assert.equal(retryAfterSeconds(6, new Date(now - 8000), 3, now), 0);
+    assert.equal(retryAfterSeconds(6, null, 3, now), 0);
+  });
+});
+
+describe('IP backoff', () => {
+  afterEach(clearAllIpFailures);
+
+  it('starts after ten failures and is forgotten after a quiet hour', () => {
+    const start = Date.parse('2026-05-01T10:00:00Z');
+    for (let i = 0; i < 9; i++) recordIpFailure('203.0.113.7', start);
+    assert.equal(ipRetryAfter('203.0.113.7', start), 0);
+
+    recordIpFailure('203.0.113.7', start);
+    assert.equal(ipRetryAfter('203.0.113.7', start), 1);
+    assert.equal(ipRetryAfter('198.51.100.1', start), 0);
+
+    const hourLater = start + 60 * 60 * 1000;
+    recordIpFailure('203.0.113.7', hourLater);
+    assert.equal(ipRetryAfter('203.0.113.7', hourLater), 0);
+  });
+});
+
+describe('POST /auth/login', () => {
+  afterEach(() => {
+    mock.restoreAll();
+    clearAllIpFailures();
+    sentMail.length = 0;
+  });
+
+  // Helper function to answer the login queries for `stored`, counting up to `attempts` failures
+  function loginDb(stored: typeof pilot, attempts = 1) {
+    return fakeDb(sql => {
+      if (sql.startsWith("SELECT * FROM pilots WHERE email = 'pilot@example.com'")) return [{ ...stored }];
+      if (sql.startsWith('SELECT failed_login_attempts FROM pilots')) return [{ failed_login_attempts: attempts }];
+      if (sql.startsWith('INSERT INTO sessions')) return { affectedRows: 1, insertId: 3 };
+      return undefined;
+    });
+  }
+
+  it('counts a wrong password against the account and locks it at the threshold', async () => {
+    const { queries } = loginDb(pilot, LOCKOUT_THRESHOLD);
+
+    const res = await request(authRoutes, 'POST', '/auth/login', { body: { email: pilot.email, password: 'wrong' } });
+
+    assert.equal(res.status, 401);
+    assert.ok(queries.some(sql => sql.startsWith('UPDATE pilots SET failed_login_attempts = failed_login_attempts + 1')));
+    assert.ok(queries.some(sql => sql.startsWith('UPDATE pilots SET locked_until =')));
+    assert.ok(queries.some(sql => sql.startsWith('INSERT INTO audit_logs') && sql.includes(`Account locked for ${LOCKOUT_MINUTES} minutes`)));
+    assert.deepEqual(sentMail.map(mail => mail.subject), ['Your FlightLog account was locked']);
+  });
+
+  it('does not lock the account below the threshold', async () => {
+    const { queries } = loginDb(pilot, LOCKOUT_THRESHOLD - 1);
+
+    await request(authRoutes, 'POST', '/auth/login', { body: { email: pilot.email, password: 'wrong' } });
+
+    assert.equal(queries.some(sql => sql.startsWith('UPDATE pilots SET locked_until =')), false);
+    assert.equal(sentMail.length, 0);
+  });
+
+  it('refuses a locked account even with the right password', async () => {
+    const lockedUntil = new Date(Date.now() + 10 * 60 * 1000);
+    const { queries } = loginDb({ ...pilot, failed_login_attempts: LOCKOUT_THRESHOLD, locked_until: lockedUntil });
+
+    const res = await request(authRoutes, 'POST', '/auth/login', { body: { email: pilot.email, password } });
+
+    assert.equal(res.status, 423);
+    assert.equal(res.body.lockedUntil, lockedUntil.toISOString());
+    assert.equal(queries.some(sql => sql.startsWith('INSERT INTO sessions')), false);
+  });
+
+  it('clears an expired lock and signs the pilot in', async () => {
+    const { queries } = loginDb({
+      ...pilot,
+      failed_login_attempts: LOCKOUT_THRESHOLD,
+      last_failed_login_at: new Date(Date.now() - 31 * 60 * 1000),
+      locked_until: new Date(Date.now() - 60 * 1000)
+    });
+
+    const res = await request(authRoutes, 'POST', '/auth/login', { body: { email: pilot.email, password } });
+
+    assert.equal(res.status, 200);
+    assert.ok(queries.includes('UPDATE pilots SET failed_login_attempts = 0, last_failed_login_at = NULL, locked_until = NULL WHERE id = 1'));
+    assert.ok(queries.some(sql => sql.startsWith('INSERT INTO audit_logs') && sql.includes('Account lock expired')));
+    assert.ok(queries.some(sql => sql.startsWith('INSERT INTO sessions')));
+  });
+
+  it('makes the account wait after repeated failures', async () => {
+    loginDb({ ...pilot, failed_login_attempts: 5, last_failed_login_at: new Date() });
+
+    const res = await request(authRoutes, 'POST', '/auth/login', { body: { email: pilot.email, password } });
+
+    assert.equal(res.status, 429);
+    assert.ok(Number(res.body.retryAfter) > 0 && Number(res.body.retryAfter) <= 4);
+  });
+
+  it('makes the IP wait after repeated failures on unknown accounts', async () => {
+    fakeDb();
+    for (let i = 0; i < 10; i++) {
+      const res = await request(authRoutes, 'POST', '/auth/login', { body: { email: `nobody${i}@example.com`, password } });
+      assert.equal(res.status, 401);
+    }
+
+    const res = await request(authRoutes, 'POST', '/auth/login', { body: { email: pilot.email, password } });
+    assert.equal(res.status, 429);
+  });
+});
+
+describe('POST /auth/login/2fa', () => {
+  afterEach(() => {
+    mock.restoreAll();
+    clearAllIpFailures();
+  });
+
+  it('counts wrong codes against the IP and makes it wait like the password step', async () => {
+    const { queries } = fakeDb(sql => {
+      if (sql.startsWith('SELECT * FROM pilots WHERE id = 1')) return [{ ...pilot, totp_enabled: 1 }];
+      if (sql.startsWith('SELECT failed_login_attempts FROM pilots')) return [{ failed_login_attempts: 1 }];
+      return undefined;
+    });
+    const challengeToken = signTwoFactorToken(pilot, '2fa_challenge');
+
+    for (let i = 0; i < 10; i++) {
+      const res = await request(twoFactorRoutes, 'POST', '/auth/login/2fa', { body: { challengeToken, code: 'WRONG-CODE' } });
+      assert.equal(res.status, 401);
+    }
+    const lookups = queries.length;
+
+    const res = await request(twoFactorRoutes, 'POST', '/auth/login/2fa', { body: { challengeToken, code: 'WRONG-CODE' } });
+    assert.equal(res.status, 429);
+    assert.equal(queries.length, lookups);
+  });
+});
@@ -0,0 +1,72 @@
+// nightTime.test.ts
+// Night time and night landings along a great-circle track
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { computeNightTime, toUtcDate } from '../src/nightTime';
+
+const heathrow = { latitude: 51.4706, longitude: -0.461941 };
+const charlesDeGaulle = { latitude: 49.012798, longitude: 2.55 };
+
+describe('computeNightTime', () => {
+  it('logs no night time for a midsummer midday flight', () => {
+    const result = computeNightTime({
+      from: heathrow,
+      to: charlesDeGaulle,
+      departureTime: '2026-06-21 12:00:00',
+      arrivalTime: '2026-06-21 13:00:00'
+    });
+
+    assert.equal(result.totalMinutes, 60);
+    assert.equal(result.nightMinutes, 0);
+    assert.equal(result.nightTakeoff, false);
+    assert.deepEqual([result.dayLandings, result.nightLandings], [1, 0]);
+  });
+
+  it('logs the whole of a midwinter midnight flight as night', () => {
+    const result = computeNightTime({
+      from: heathrow,
+      to: charlesDeGaulle,
+      departureTime: new Date('2026-12-21T00:00:00Z'),
+      arrivalTime: new Date('2026-12-21T01:00:00Z')
+    });
+
+    assert.equal(result.nightMinutes, 60);
+    assert.equal(result.nightHours, 1);
+    assert.equal(result.nightTakeoff, true);
+    assert.deepEqual([result.dayLandings, result.nightLandings], [0, 1]);
+  });
+
+  it('splits a flight through evening twilight', () => {
+    const result = computeNightTime({
+      from: heathrow,
+      to: charlesDeGaulle,
+      departureTime: '2026-12-21T15:30:00Z',
+      arrivalTime: '2026-12-21T17:30:00Z'
+    });
+
+    assert.ok(result.nightMinutes > 0 && result.nightMinutes < 120);
+    assert.equal(result.nightTakeoff, false);
+    assert.equal(result.nightLanding, true);
+  });
+
+  it('requires both airports and an arrival after departure', () => {
+    assert.throws(
+      () => computeNightTime({ from: heathrow, to: null, departureTime: '2026-06-21 12:00', arrivalTime: '2026-06-21 13:00' }),
+      /airports and times are required/
+    );
+    assert.throws(
+      () => computeNightTime({ from: heathrow, to: charlesDeGaulle, departureTime: '2026-06-21 13:00', arrivalTime: '2026-06-21 12:00' }),
+      /Arrival time must be after departure time/
+    );
+  });
+});
+
+describe('toUtcDate', () => {
+  it('reads zone-less times as UTC and keeps explicit offsets', () => {
+    assert.equal(toUtcDate('2026-06-21 12:00:00')?.toISOString(), '2026-06-21T12:00:00.000Z');
+    assert.equal(toUtcDate('2026-06-21T12:00:00+02:00')?.toISOString(), '2026-06-21T10:00:00.000Z');
+    assert.equal(toUtcDate('not a date'), null);
+    assert.equal(toUtcDate(null), null);
+  });
+});
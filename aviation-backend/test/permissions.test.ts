@@ -0,0 +1,53 @@
+// permissions.test.ts
+// Role permissions, and routes that widen access by permission checking the role stored now rather than the token's
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { hasPermission, permissionsFor } from '../src/permissions';
+import aircraftRoutes from '../src/routes/aircraft';
+import pilotRoutes from '../src/routes/pilots';
+import { fakeDb, request, tokenFor } from './support';
+
+describe('hasPermission', () => {
+  it('grants each role its permissions and unknown roles none', () => {
+    assert.equal(hasPermission('admin', 'flights:read_all'), true);
+    assert.equal(hasPermission('admin', 'flights:sign'), false);
+    assert.equal(hasPermission('instructor', 'flights:sign'), true);
+    assert.equal(hasPermission('pilot', 'flights:edit_all'), false);
+    assert.deepEqual(permissionsFor('owner'), []);
+    assert.deepEqual(permissionsFor(undefined), []);
+  });
+});
+
+describe('current role checks', () => {
+  afterEach(() => mock.restoreAll());
+
+  const admin = { id: 9, email: 'admin@example.com', role: 'admin' };
+
+  // Helper function to answer the auth queries with the role the pilots table holds for the admin
+  const rolesDb = (role: string, isActive: number = 1) => fakeDb(sql => {
+    if (sql.startsWith('SELECT id FROM sessions')) return [{ id: 1 }];
+    if (sql.startsWith('SELECT * FROM pilots WHERE id = 9')) return [{ ...admin, role, is_active: isActive }];
+    if (sql.startsWith("SELECT * FROM aircraft WHERE id = '4'")) return [{ id: 4, owner_pilot_id: 1, registration: 'N4' }];
+    return undefined;
+  });
+
+  it("lets another pilot's aircraft be read only while the stored role allows it", async () => {
+    rolesDb('admin');
+    assert.equal((await request(aircraftRoutes, 'GET', '/aircraft/4', { token: tokenFor(admin) })).status, 200);
+    mock.restoreAll();
+
+    rolesDb('pilot');
+    assert.equal((await request(aircraftRoutes, 'GET', '/aircraft/4', { token: tokenFor(admin) })).status, 403);
+  });
+
+  it('reports the stored role and rejects deactivated accounts', async () => {
+    rolesDb('pilot');
+    const res = await request(pilotRoutes, 'GET', '/auth/permissions', { token: tokenFor(admin) });
+    assert.deepEqual(res.body, { role: 'pilot', permissions: permissionsFor('pilot') });
+    mock.restoreAll();
+
+    rolesDb('admin', 0);
+    assert.equal((await request(pilotRoutes, 'GET', '/auth/permissions', { token: tokenFor(admin) })).status, 403);
+  });
+});
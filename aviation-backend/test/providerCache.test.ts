@@ -0,0 +1,142 @@
+// providerCache.test.ts
+// Provider response cache: freshness by flight status, shared lookups and the monthly quota
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { providerUsageReport, withProviderCache } from '../src/providerCache';
+import { fakeDb } from './support';
+import type { QueryHandler } from './support';
+import type { Airport } from '../src/airports';
+import type { FlightDataProvider } from '../src/flightProviders';
+import type { Flight } from 'aviation-shared';
+
+const flight = (status: string) => ({ flight_iata: 'AA100', flight_status: status }) as Flight;
+
+// Helper function to build a metered provider whose lookups are counted in `calls`
+function fakeProvider(flights: Flight[] = [flight('scheduled')]) {
+  const calls: string[] = [];
+  const provider: FlightDataProvider = {
+    name: 'aviationstack',
+    searchByFlightNumber: async (code, date) => { calls.push(`${code} ${date}`); return flights; },
+    searchByRoute: async () => flights,
+    searchByDate: async () => flights,
+    getAirportInfo: async code => { calls.push(code); return null; }
+  };
+  return { provider, calls };
+}
+
+// Helper function to answer the cache and usage queries; `quotaLeft` decides whether a call is reserved
+function cacheDb({ cached = null, quotaLeft = true }: { cached?: object | null; quotaLeft?: boolean } = {}, extra: QueryHandler = () => undefined) {
+  return fakeDb(sql => {
+    const result = extra(sql);
+    if (result !== undefined) return result;
+
+    if (sql.startsWith('SELECT response, fetched_at')) return cached ? [cached] : [];
+    if (sql.startsWith('UPDATE flight_provider_usage SET provider_calls')) return { affectedRows: quotaLeft ? 1 : 0 };
+    return undefined;
+  });
+}
+
+// Usage counters bumped by the statements run so far
+const countersOf = (queries: string[]) => queries
+  .map(sql => sql.match(/^INSERT INTO flight_provider_usage \(provider, month, (\w+)\)/)?.[1] || (sql.startsWith('UPDATE flight_provider_usage') ? 'provider_calls' : null))
+  .filter(Boolean);
+
+// TTL in seconds of the cached response written so far
+const savedTtl = (queries: string[]) => Number(queries.find(sql => sql.startsWith('INSERT INTO flight_provider_cache'))?.match(/INTERVAL (\d+) SECOND/)?.[1]);
+
+describe('withProviderCache', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('keeps a response for as long as its least settled flight', async () => {
+    for (const [statuses, ttl] of [[['landed', 'active'], 5 * 60], [['landed', 'scheduled'], 30 * 60], [['cancelled'], 24 * 60 * 60], [[], 15 * 60]] as const) {
+      const { queries } = cacheDb();
+      await withProviderCache(fakeProvider(statuses.map(flight)).provider).searchByFlightNumber('aa100', '2026-05-01');
+
+      assert.equal(savedTtl(queries), ttl, statuses.join(','));
+      assert.ok(queries.some(sql => sql.includes("VALUES ('aviationstack:flight:AA100:2026-05-01', 'aviationstack'")));
+      mock.restoreAll();
+    }
+  });
+
+  it('keeps airports for 30 days and unknown airports for 15 minutes', async () => {
+    const { provider } = fakeProvider();
+    const { queries } = cacheDb();
+    await withProviderCache({ ...provider, getAirportInfo: async () => ({ iata: 'BOS', icao: 'KBOS', name: 'Boston Logan' }) as Airport }).getAirportInfo('bos');
+    assert.equal(savedTtl(queries), 30 * 24 * 60 * 60);
+    mock.restoreAll();
+
+    const unknown = cacheDb();
+    await withProviderCache(provider).getAirportInfo('zzz');
+    assert.equal(savedTtl(unknown.queries), 15 * 60);
+  });
+
+  it('answers from a fresh cached response without calling the provider', async () => {
+    const { provider, calls } = fakeProvider();
+    const { queries } = cacheDb({ cached: { response: [flight('landed')], fresh: 1 } });
+
+    assert.deepEqual(await withProviderCache(provider).searchByFlightNumber('AA100', '2026-05-01'), [flight('landed')]);
+    assert.deepEqual(calls, []);
+    assert.deepEqual(countersOf(queries), ['cache_hits']);
+  });
+
+  it('shares one provider call between identical lookups in progress', async () => {
+    const { provider, calls } = fakeProvider();
+    const { queries } = cacheDb();
+    const cached = withProviderCache(provider);
+
+    const results = await Promise.all([
+      cached.searchByFlightNumber('AA100', '2026-05-01'),
+      cached.searchByFlightNumber(' aa100 ', '2026-05-01'),
+      cached.searchByFlightNumber('AA100', '2026-05-02')
+    ]);
+
+    assert.deepEqual(calls, ['AA100 2026-05-01', 'AA100 2026-05-02']);
+    assert.equal(results[0], results[1]);
+    assert.deepEqual(countersOf(queries).sort(), ['coalesced', 'provider_calls', 'provider_calls']);
+  });
+
+  it('serves a stale response once the monthly quota is used up', async () => {
+    const { provider, calls } = fakeProvider();
+    const { queries } = cacheDb({ cached: { response: [flight('landed')], fetched_at: new Date(), fresh: 0 }, quotaLeft: false });
+
+    assert.deepEqual(await withProviderCache(provider).searchByFlightNumber('AA100', '2026-05-01'), [flight('landed')]);
+    assert.deepEqual(calls, []);
+    assert.ok(queries.some(sql => sql.includes('AND provider_calls < 100')));
+    assert.ok(countersOf(queries).includes('degraded'));
+  });
+
+  it('fails a lookup over quota with nothing cached', async () => {
+    const { provider } = fakeProvider();
+    cacheDb({ quotaLeft: false });
+
+    await assert.rejects(withProviderCache(provider).searchByFlightNumber('AA100', '2026-05-01'), /Monthly aviationstack quota reached/);
+  });
+
+  it('falls back on a stale response when the provider fails', async () => {
+    const { provider } = fakeProvider();
+    cacheDb({ cached: { response: [flight('landed')], fetched_at: new Date(), fresh: 0 } });
+
+    const failing = { ...provider, searchByFlightNumber: async () => { throw new Error('timeout'); } };
+    assert.deepEqual(await withProviderCache(failing).searchByFlightNumber('AA100', '2026-05-01'), [flight('landed')]);
+  });
+});
+
+describe('providerUsageReport', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('reports the hit rate and remaining quota for the month', async () => {
+    fakeDb(sql => {
+      if (sql.startsWith('SELECT provider_calls')) return [{ provider_calls: 40, cache_hits: 50, coalesced: 10, degraded: 0 }];
+      if (sql.startsWith('SELECT COUNT(*)')) return [{ entries: '12', fresh: '3' }];
+      return undefined;
+    });
+
+    const report = await providerUsageReport(fakeProvider().provider);
+
+    assert.equal(report.lookups, 100);
+    assert.equal(report.hitRate, 0.6);
+    assert.equal(report.remainingQuota, 60);
+    assert.deepEqual([report.cacheEntries, report.freshCacheEntries], [12, 3]);
+  });
+});
@@ -0,0 +1,120 @@
+// signatures.test.ts
+// Signed entry hashing, tamper detection and signed amendments
+
+import assert from 'node:assert/strict';
+import { afterEach, describe, it, mock } from 'node:test';
+import { updateFlight } from '../src/repositories/flights';
+import signatureRoutes from '../src/routes/signatures';
+import { hashFlightEntry, signatureStatus } from '../src/signatures';
+import { fakeDb, request, tokenFor } from './support';
+
+const signedFlight = {
+  id: 10,
+  created_by: 1,
+  aircraft_id: null,
+  flight_date: '2026-05-01',
+  departure_scheduled: '2026-05-01 09:00:00',
+  arrival_scheduled: '2026-05-01 10:30:00',
+  flight_iata: null,
+  departure_iata: 'BOS',
+  arrival_iata: 'JFK',
+  remarks: 'Steep turns',
+  duration_hours: '1.50',
+  dual_received_hours: '1.50',
+  day_landings: 1,
+  version: 1
+};
+
+describe('hashFlightEntry', () => {
+  it('hashes rows read with or without dateStrings the same way', () => {
+    const withDates = { ...signedFlight, flight_date: new Date(2026, 4, 1), departure_scheduled: new Date(2026, 4, 1, 9, 0) };
+    assert.equal(hashFlightEntry(withDates), hashFlightEntry(signedFlight));
+  });
+
+  it('only covers the signed fields', () => {
+    assert.equal(hashFlightEntry({ ...signedFlight, version: 7, updated_at: '2026-06-01' }), hashFlightEntry(signedFlight));
+    assert.notEqual(hashFlightEntry({ ...signedFlight, remarks: 'Stalls' }), hashFlightEntry(signedFlight));
+  });
+});
+
+describe('signatureStatus', () => {
+  it('tells unsigned, signed and tampered entries apart', () => {
+    const signature = { entry_hash: hashFlightEntry(signedFlight) };
+
+    assert.equal(signatureStatus(signedFlight, null), 'unsigned');
+    assert.equal(signatureStatus(signedFlight, signature), 'signed');
+    assert.equal(signatureStatus({ ...signedFlight, duration_hours: '2.50' }, signature), 'tampered');
+  });
+});
+
+describe('updateFlight', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('writes the changed fields with the new version', async () => {
+    const { queries } = fakeDb(() => ({ affectedRows: 1 }));
+
+    assert.equal(await updateFlight(10, { remarks: 'Stalls' }, 2, 1), true);
+    assert.deepEqual(queries, [
+      "UPDATE logbook_entries SET `remarks` = 'Stalls', version = 2 WHERE id = 10 AND (version = 1 OR version IS NULL)"
+    ]);
+  });
+
+  it('only moves the version on when no field changed', async () => {
+    const { queries } = fakeDb(() => ({ affectedRows: 1 }));
+
+    await updateFlight(10, {}, 2);
+    assert.deepEqual(queries, ['UPDATE logbook_entries SET version = 2 WHERE id = 10']);
+  });
+});
+
+describe('POST /flights/:id/amend', () => {
+  afterEach(() => mock.restoreAll());
+
+  const instructor = { id: 2, email: 'cfi@example.com', role: 'instructor' };
+
+  // Helper function to answer the amend route's queries for a flight edited after it was signed
+  function tamperedEntryDb(ownedAircraft: number[] = []) {
+    return fakeDb(sql => {
+      if (sql.startsWith('SELECT id FROM sessions')) return [{ id: 1 }];
+      if (sql.startsWith('SELECT * FROM pilots WHERE id = 2')) {
+        return [{ ...instructor, first_name: 'Ann', last_name: 'Lee', instructor_certificate: 'CFI123', is_active: 1 }];
+      }
+      if (sql.startsWith("SELECT * FROM logbook_entries WHERE id = '10'")) return [{ ...signedFlight, remarks: 'Edited after signing' }];
+      if (sql.startsWith('SELECT * FROM flight_signatures')) return [{ id: 5, entry_hash: hashFlightEntry(signedFlight) }];
+      if (sql.startsWith('SELECT id, registration FROM aircraft')) {
+        return ownedAircraft.filter(id => sql.includes(`WHERE id = ${id} AND owner_pilot_id = 1`)).map(id => ({ id, registration: 'N1' }));
+      }
+      if (sql.startsWith('INSERT INTO flight_signatures')) return { affectedRows: 1, insertId: 6 };
+      return undefined;
+    });
+  }
+
+  it('re-signs a tampered entry without changes by moving only the version on', async () => {
+    const { queries } = tamperedEntryDb();
+
+    const res = await request(signatureRoutes, 'POST', '/flights/10/amend', {
+      token: tokenFor(instructor),
+      body: { endorsement: 'Reviewed with the student' }
+    });
+
+    assert.equal(res.status, 200);
+    assert.equal(res.body.version, 2);
+    assert.deepEqual(res.body.changes, {});
+    assert.ok(queries.includes('UPDATE logbook_entries SET version = 2 WHERE id = 10'));
+    assert.ok(queries.includes('UPDATE flight_signatures SET is_current = FALSE WHERE id = 5'));
+    assert.ok(queries.includes('COMMIT'));
+  });
+
+  it("refuses to link an aircraft outside the pilot's registry", async () => {
+    const { queries } = tamperedEntryDb([3]);
+    const token = tokenFor(instructor);
+
+    const res = await request(signatureRoutes, 'POST', '/flights/10/amend', { token, body: { aircraft_id: 4 } });
+    assert.equal(res.status, 400);
+    assert.equal(queries.some(sql => sql.startsWith('UPDATE logbook_entries')), false);
+
+    const owned = await request(signatureRoutes, 'POST', '/flights/10/amend', { token, body: { aircraft_id: 3 } });
+    assert.equal(owned.status, 200);
+    assert.ok(queries.includes('UPDATE logbook_entries SET `aircraft_id` = 3, version = 2 WHERE id = 10'));
+  });
+});
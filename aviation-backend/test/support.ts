@@ -0,0 +1,84 @@
+// support.ts
+// Test helpers: a stand-in for the MySQL pool that answers from a handler, and requests against one router
+
+import { once } from 'node:events';
+import { mock } from 'node:test';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import mysql from 'mysql2';
+import { auditChainTail } from '../src/audit';
+import { JWT_SECRET } from '../src/config';
+import db from '../src/db';
+import type { Router } from 'express';
+import type { AddressInfo } from 'node:net';
+
+// Rows for a SELECT, or a partial result header for other statements; undefined falls back to an empty result
+export type QueryHandler = (sql: string) => unknown;
+
+/**
+ * Replace the pool's query and getConnection (transactions included) until mock.restoreAll().
+ * The handler sees each statement with its values filled in and whitespace collapsed;
+ * `queries` lists them in the order they ran.
+ */
+export function fakeDb(handler: QueryHandler = () => undefined) {
+  const queries: string[] = [];
+
+  const query = async (options: string | { sql: string; values?: unknown }, values?: unknown) => {
+    const sql = typeof options === 'string' ? options : options.sql;
+    const params = values ?? (typeof options === 'string' ? undefined : options.values);
+    const statement = mysql.format(sql, params as object).replace(/\s+/g, ' ').trim();
+    queries.push(statement);
+
+    const result = handler(statement);
+    if (result !== undefined) return [result, []];
+    return [/^SELECT/i.test(statement) ? [] : { affectedRows: 0, insertId: 0 }, []];
+  };
+
+  const conn = {
+    query,
+    beginTransaction: async () => { queries.push('BEGIN'); },
+    commit: async () => { queries.push('COMMIT'); },
+    rollback: async () => { queries.push('ROLLBACK'); },
+    release: () => {}
+  };
+
+  mock.method(db, 'query', query);
+  mock.method(db, 'getConnection', async () => conn);
+  return { queries };
+}
+
+// Access token for a pilot; authenticateToken also needs the sessions lookup to return a row
+export function tokenFor(user: { id: number; email: string; role?: string }): string {
+  return jwt.sign({ ...user, sid: 1 }, JWT_SECRET, { expiresIn: '5m' });
+}
+
+// Send one request to `router` mounted on its own app; waits for audit log writes before returning
+export async function request(
+  router: Router,
+  method: string,
+  path: string,
+  { token, body }: { token?: string; body?: unknown } = {}
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const app = express();
+  app.use(express.json());
+  app.use(router);
+
+  const server = app.listen(0, '127.0.0.1');
+  await once(server, 'listening');
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {})
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+    const text = await response.text();
+    await auditChainTail;
+    return { status: response.status, body: text ? JSON.parse(text) : null };
+  } finally {
+    server.close();
+  }
+}
@@ -0,0 +1,39 @@
+// totp.test.ts
+// TOTP codes against the RFC 6238 SHA-1 test vectors, clock drift window and malformed input
+
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { verifyTotp } from '../src/totp';
+
+// The RFC 6238 SHA-1 seed "12345678901234567890", base32 encoded
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 Appendix B: time in seconds and the 8-digit code; 6-digit codes are its last six digits
+const rfcVectors = [
+  { seconds: 59, code: '94287082' },
+  { seconds: 1111111109, code: '07081804' },
+  { seconds: 1111111111, code: '14050471' },
+  { seconds: 1234567890, code: '89005924' },
+  { seconds: 2000000000, code: '69279037' },
+  { seconds: 20000000000, code: '65353130' }
+];
+
+describe('verifyTotp', () => {
+  for (const { seconds, code } of rfcVectors) {
+    it(`accepts the RFC 6238 code at T=${seconds}`, () => {
+      assert.equal(verifyTotp(RFC_SECRET, code.slice(-6), seconds * 1000), Math.floor(seconds / 30));
+    });
+  }
+
+  it('accepts a code from one step either side and rejects older ones', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '287082', 59000 + 30000), 1);
+    assert.equal(verifyTotp(RFC_SECRET, '287082', 59000 + 90000), null);
+  });
+
+  it('ignores spaces and rejects anything but six digits', () => {
+    assert.equal(verifyTotp(RFC_SECRET, '287 082', 59000), 1);
+    assert.equal(verifyTotp(RFC_SECRET, '28708', 59000), null);
+    assert.equal(verifyTotp(RFC_SECRET, 'abcdef', 59000), null);
+    assert.equal(verifyTotp(RFC_SECRET, null, 59000), null);
+  });
+});
@@ -41,9 +41,20 @@ interface FlightAnalytics {
   onTimePercentage: number;
   monthlyTrend: Array<{ month: string; flights: number; hours: number }>;
   aircraftBreakdown: Array<{ type: string; count: number; hours: number; percentage: number }>;
+  classBreakdown: Array<{ class: string; count: number; hours: number; percentage: number }>;
+  aircraftCharacteristics: { complex: number; highPerformance: number; turbine: number };
   routeAnalysis: Array<{ route: string; frequency: number; avgDuration: number }>;
   statusDistribution: { scheduled: number; active: number; completed: number; cancelled: number };
-  timeDistribution: { day: number; night: number; ifr: number; crossCountry: number };
+  timeDistribution: {
+    day: number;
+    night: number;
+    ifr: number;
+    actualInstrument: number;
+    simulatedInstrument: number;
+    crossCountry: number;
+  };
+  pilotFunction: { pic: number; sic: number; dualReceived: number; dualGiven: number; solo: number };
+  landings: { day: number; night: number; approaches: number };
   airlineAnalysis: Array<{ airline: string; flights: number; reliability: number }>;
 }
 
@@ -98,9 +109,13 @@ export default function Analytics() {
         onTimePercentage: 0,
         monthlyTrend: [],
         aircraftBreakdown: [],
+        classBreakdown: [],
+        aircraftCharacteristics: { complex: 0, highPerformance: 0, turbine: 0 },
         routeAnalysis: [],
         statusDistribution: { scheduled: 0, active: 0, completed: 0, cancelled: 0 },
-        timeDistribution: { day: 0, night: 0, ifr: 0, crossCountry: 0 },
+        timeDistribution: { day: 0, night: 0, ifr: 0, actualInstrument: 0, simulatedInstrument: 0, crossCountry: 0 },
+        pilotFunction: { pic: 0, sic: 0, dualReceived: 0, dualGiven: 0, solo: 0 },
+        landings: { day: 0, night: 0, approaches: 0 },
         airlineAnalysis: []
       };
       setAnalytics(emptyAnalytics);
@@ -127,8 +142,8 @@ export default function Analytics() {
       insights.push(`On-time performance needs improvement at ${data.onTimePercentage.toFixed(1)}%. Review operational procedures.`);
     }
 
-    if (data.aircraftBreakdown.length > 0) {
-      const topAircraft = data.aircraftBreakdown[0];
+    const topAircraft = data.aircraftBreakdown.find(aircraft => aircraft.type !== 'Unassigned');
+    if (topAircraft) {
       insights.push(`${topAircraft.type} dominates your fleet usage (${topAircraft.percentage.toFixed(1)}%). Consider diversifying for operational flexibility.`);
     }
 
@@ -967,6 +982,53 @@ export default function Analytics() {
           </View>
         )}
 
+        {/* Category & Class Breakdown */}
+        {analytics.classBreakdown.length > 0 && (
+          <View style={styles.card}>
+            <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 16 }}>
+              <Plane size={20} color={colors.primary} style={{ marginRight: 8 }} />
+              <Text style={styles.sectionTitle}>Category & Class</Text>
+            </View>
+            {analytics.classBreakdown.map((aircraftClass, index) => (
+              <View key={index} style={styles.aircraftItem}>
+                <View style={styles.aircraftInfo}>
+                  <Text style={styles.aircraftName}>{aircraftClass.class}</Text>
+                  <Text style={styles.aircraftDetails}>
+                    {aircraftClass.count} flights • {aircraftClass.hours.toFixed(1)} hours
+                  </Text>
+                </View>
+                <View style={styles.progressContainer}>
+                  <View style={styles.progressBar}>
+                    <View 
+                      style={[
+                        styles.progressFill, 
+                        { width: `${Math.min(aircraftClass.percentage, 100)}%` }
+                      ]} 
+                    />
+                  </View>
+                  <Text style={styles.percentage}>{aircraftClass.percentage.toFixed(1)}%</Text>
+                </View>
+              </View>
+            ))}
+            <View style={[styles.distributionGrid, { marginTop: 16 }]}>
+              <View style={styles.distributionCard}>
+                <Text style={styles.distributionValue}>{analytics.aircraftCharacteristics.complex}h</Text>
+                <Text style={styles.distributionLabel}>Complex</Text>
+              </View>
+
+              <View style={styles.distributionCard}>
+                <Text style={styles.distributionValue}>{analytics.aircraftCharacteristics.highPerformance}h</Text>
+                <Text style={styles.distributionLabel}>High Performance</Text>
+              </View>
+
+              <View style={styles.distributionCard}>
+                <Text style={styles.distributionValue}>{analytics.aircraftCharacteristics.turbine}h</Text>
+                <Text style={styles.distributionLabel}>Turbine</Text>
+              </View>
+            </View>
+          </View>
+        )}
+
         {/* Route Analysis */}
         {analytics.routeAnalysis.length > 0 && (
           <View style={styles.card}>
@@ -1061,6 +1123,52 @@ export default function Analytics() {
           </View>
         </View>
 
+        {/* Pilot Function & Landings */}
+        <View style={styles.card}>
+          <View style={{ flexDirection: 'row', alignItems: 'center', marginBottom: 16 }}>
+            <Target size={20} color={colors.primary} style={{ marginRight: 8 }} />
+            <Text style={styles.sectionTitle}>Pilot Function & Landings</Text>
+          </View>
+          <View style={styles.distributionGrid}>
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>{analytics.pilotFunction.pic}h</Text>
+              <Text style={styles.distributionLabel}>PIC</Text>
+            </View>
+
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>{analytics.pilotFunction.sic}h</Text>
+              <Text style={styles.distributionLabel}>SIC</Text>
+            </View>
+
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>{analytics.pilotFunction.dualReceived}h</Text>
+              <Text style={styles.distributionLabel}>Dual Received</Text>
+            </View>
+
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>{analytics.pilotFunction.dualGiven}h</Text>
+              <Text style={styles.distributionLabel}>Dual Given</Text>
+            </View>
+
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>{analytics.pilotFunction.solo}h</Text>
+              <Text style={styles.distributionLabel}>Solo</Text>
+            </View>
+
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>
+                {analytics.landings.day}/{analytics.landings.night}
+              </Text>
+              <Text style={styles.distributionLabel}>Landings Day/Night</Text>
+            </View>
+
+            <View style={styles.distributionCard}>
+              <Text style={styles.distributionValue}>{analytics.landings.approaches}</Text>
+              <Text style={styles.distributionLabel}>Approaches</Text>
+            </View>
+          </View>
+        </View>
+
         {/* Airline Performance */}
         {analytics.airlineAnalysis.length > 0 && (
           <View style={styles.card}>
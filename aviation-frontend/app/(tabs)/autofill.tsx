@@ -20,6 +20,10 @@ import {
   MapPin, 
   Calendar as CalendarIcon, 
   Menu, 
+  Clock,
+  Moon,
+  Plus,
+  X,
   CircleCheck as CheckCircle 
 } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
@@ -48,13 +52,136 @@ interface FlightData {
   arrivalIata: string;
   arrivalIcao: string;
   arrivalTime: string;
+  departureCity: string;
+  departureLocalTime: string;
+  arrivalCity: string;
+  arrivalLocalTime: string;
   airlineName: string;
   airlineIata: string;
   duration: string;
+  picHours: string;
+  sicHours: string;
+  dualReceivedHours: string;
+  dualGivenHours: string;
+  soloHours: string;
+  nightHours: string;
+  actualInstrumentHours: string;
+  simulatedInstrumentHours: string;
+  crossCountryHours: string;
+  dayLandings: string;
+  nightLandings: string;
+  approaches: string;
+  holds: string;
+  courseIntercepts: string;
+  remarks: string;
+  aircraftId: string;
+}
+
+interface Aircraft {
+  id: number;
+  registration: string;
+  icao_type: string | null;
+  make: string | null;
+  model: string | null;
+  category: string;
+  aircraft_class: string;
+  is_complex: boolean | number;
+  is_high_performance: boolean | number;
+  is_turbine: boolean | number;
+}
+
+interface NewAircraft {
+  registration: string;
+  icao_type: string;
+  make: string;
+  model: string;
+  category: string;
+  aircraft_class: string;
+  is_complex: boolean;
+  is_high_performance: boolean;
+  is_turbine: boolean;
+}
+
+interface Airport {
+  icao: string;
+  iata: string | null;
+  name: string;
+  city: string | null;
+  country: string | null;
+  timezone: string | null;
+}
+
+interface NightTimeResult {
+  totalMinutes: number;
+  nightMinutes: number;
+  nightHours: number;
+  nightTakeoff: boolean;
+  nightLanding: boolean;
+  dayLandings: number;
+  nightLandings: number;
 }
 
 type Mode = 'autofill' | 'manual';
 
+// Mirrors aircraftCategoryClasses on the backend
+const AIRCRAFT_CATEGORY_CLASSES: Record<string, string[]> = {
+  'Airplane': ['SEL', 'MEL', 'SES', 'MES'],
+  'Rotorcraft': ['Helicopter', 'Gyroplane'],
+  'Glider': ['Glider'],
+  'Lighter-than-air': ['Airship', 'Balloon'],
+  'Powered-lift': ['Powered-lift'],
+};
+
+const initialNewAircraft: NewAircraft = {
+  registration: '',
+  icao_type: '',
+  make: '',
+  model: '',
+  category: 'Airplane',
+  aircraft_class: 'SEL',
+  is_complex: false,
+  is_high_performance: false,
+  is_turbine: false,
+};
+
+const initialFlightData: FlightData = {
+  flightIata: '',
+  flightIcao: '',
+  date: '',
+  status: 'scheduled',
+  departureAirport: '',
+  departureIata: '',
+  departureIcao: '',
+  departureTime: '',
+  arrivalAirport: '',
+  arrivalIata: '',
+  arrivalIcao: '',
+  arrivalTime: '',
+  departureCity: '',
+  departureLocalTime: '',
+  arrivalCity: '',
+  arrivalLocalTime: '',
+  airlineName: '',
+  airlineIata: '',
+  duration: '',
+  picHours: '',
+  sicHours: '',
+  dualReceivedHours: '',
+  dualGivenHours: '',
+  soloHours: '',
+  nightHours: '',
+  actualInstrumentHours: '',
+  simulatedInstrumentHours: '',
+  crossCountryHours: '',
+  dayLandings: '',
+  nightLandings: '',
+  approaches: '',
+  holds: '',
+  courseIntercepts: '',
+  remarks: '',
+  aircraftId: '',
+};
+
 // ============================================================================
 // MAIN COMPONENT
 // ============================================================================
@@ -81,23 +208,11 @@ export default function AutoFill() {
   const [mode, setMode] = useState<Mode>('autofill');
   const [sidebarVisible, setSidebarVisible] = useState(false);
   
-  const [flightData, setFlightData] = useState<FlightData>({
-    flightIata: '',
-    flightIcao: '',
-    date: '',
-    status: 'scheduled',
-    departureAirport: '',
-    departureIata: '',
-    departureIcao: '',
-    departureTime: '',
-    arrivalAirport: '',
-    arrivalIata: '',
-    arrivalIcao: '',
-    arrivalTime: '',
-    airlineName: '',
-    airlineIata: '',
-    duration: '',
-  });
+  const [flightData, setFlightData] = useState<FlightData>(initialFlightData);
+  const [aircraftList, setAircraftList] = useState<Aircraft[]>([]);
+  const [showAircraftPicker, setShowAircraftPicker] = useState(false);
+  const [newAircraft, setNewAircraft] = useState<NewAircraft>(initialNewAircraft);
+  const [isSavingAircraft, setIsSavingAircraft] = useState(false);
 
   // ========================================================================
   // CONSTANTS & CONFIGURATION
@@ -163,23 +278,7 @@ export default function AutoFill() {
   }, []);
 
   const resetFlightData = useCallback(() => {
-    setFlightData({
-      flightIata: '',
-      flightIcao: '',
-      date: '',
-      status: 'scheduled',
-      departureAirport: '',
-      departureIata: '',
-      departureIcao: '',
-      departureTime: '',
-      arrivalAirport: '',
-      arrivalIata: '',
-      arrivalIcao: '',
-      arrivalTime: '',
-      airlineName: '',
-      airlineIata: '',
-      duration: '',
-    });
+    setFlightData(initialFlightData);
   }, []);
 
   const handleReset = useCallback(() => {
@@ -191,6 +290,134 @@ export default function AutoFill() {
   // ========================================================================
   // API OPERATIONS
   // ========================================================================
+  const fetchNightTime = useCallback(async (
+    departure: string,
+    arrival: string,
+    departureTime: string,
+    arrivalTime: string
+  ): Promise<NightTimeResult | null> => {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/night-time`,
+        {
+          departure,
+          arrival,
+          departure_time: departureTime,
+          arrival_time: arrivalTime
+        },
+        { headers: getAuthHeaders() }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.warn('Night time calculation failed:', error.response?.data?.message || error.message);
+      return null;
+    }
+  }, [getAuthHeaders]);
+
+  const fetchAircraft = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get<Aircraft[]>(
+        `${API_BASE_URL}/aircraft`,
+        { params: { mine: true }, headers: getAuthHeaders() }
+      );
+      setAircraftList(response.data);
+    } catch (error: any) {
+      console.error('Aircraft fetch error:', error.response?.data?.message || error.message);
+    }
+  }, [token, getAuthHeaders]);
+
+  const handleAddAircraft = useCallback(async () => {
+    if (!newAircraft.registration.trim()) {
+      Alert.alert('Error', 'Please enter the aircraft registration');
+      return;
+    }
+
+    setIsSavingAircraft(true);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/aircraft`,
+        newAircraft,
+        { headers: getAuthHeaders() }
+      );
+      const created: Aircraft = response.data.aircraft;
+
+      setAircraftList(prev =>
+        [...prev, created].sort((a, b) => a.registration.localeCompare(b.registration))
+      );
+      setFlightData(prev => ({ ...prev, aircraftId: String(created.id) }));
+      setNewAircraft(initialNewAircraft);
+      setShowAircraftPicker(false);
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to add aircraft');
+    } finally {
+      setIsSavingAircraft(false);
+    }
+  }, [newAircraft, getAuthHeaders]);
+
+  const lookupAirport = useCallback(async (type: 'departure' | 'arrival', code: string) => {
+    const trimmed = code.trim().toUpperCase();
+    if (trimmed.length < 3 || !token) return;
+
+    try {
+      const response = await axios.get<Airport>(
+        `${API_BASE_URL}/airports/${encodeURIComponent(trimmed)}`,
+        { headers: getAuthHeaders() }
+      );
+      const airport = response.data;
+      const isDeparture = type === 'departure';
+
+      setFlightData(prev => ({
+        ...prev,
+        [isDeparture ? 'departureAirport' : 'arrivalAirport']: airport.name,
+        [isDeparture ? 'departureIata' : 'arrivalIata']: airport.iata || prev[isDeparture ? 'departureIata' : 'arrivalIata'],
+        [isDeparture ? 'departureIcao' : 'arrivalIcao']: airport.icao,
+        [isDeparture ? 'departureCity' : 'arrivalCity']: airport.city || '',
+      }));
+    } catch (error: any) {
+      // Unknown codes are fine in manual mode; the pilot can still type the name
+      console.warn('Airport lookup failed:', error.response?.data?.message || error.message);
+    }
+  }, [token, getAuthHeaders]);
+
+  const applyNightTime = useCallback((result: NightTimeResult) => {
+    setFlightData(prev => ({
+      ...prev,
+      nightHours: result.nightHours.toFixed(2),
+      dayLandings: result.dayLandings.toString(),
+      nightLandings: result.nightLandings.toString(),
+    }));
+  }, []);
+
+  const handleComputeNightTime = useCallback(async () => {
+    const departure = flightData.departureIcao || flightData.departureIata;
+    const arrival = flightData.arrivalIcao || flightData.arrivalIata;
+
+    if (!departure || !arrival || !flightData.date || !flightData.departureTime || !flightData.arrivalTime) {
+      Alert.alert('Error', 'Enter the date, both airports and both times (UTC) to compute night time');
+      return;
+    }
+
+    const departureClock = formatTimeForDB(flightData.departureTime) || '';
+    const arrivalClock = formatTimeForDB(flightData.arrivalTime) || '';
+    const arrivalDate = new Date(`${flightData.date}T00:00:00Z`);
+    // Arrival earlier in the day than departure means the flight landed after midnight UTC
+    if (arrivalClock < departureClock) {
+      arrivalDate.setUTCDate(arrivalDate.getUTCDate() + 1);
+    }
+    const departureTime = `${flightData.date} ${departureClock}`;
+    const arrivalTime = `${formatDate(arrivalDate)} ${arrivalClock}`;
+
+    const result = await fetchNightTime(departure, arrival, departureTime, arrivalTime);
+    if (!result) {
+      Alert.alert('Night Time', 'Could not compute night time for this route');
+      return;
+    }
+
+    applyNightTime(result);
+  }, [flightData, formatDate, formatTimeForDB, fetchNightTime, applyNightTime]);
+
   const handleSearch = useCallback(async () => {
     if (!flightNumber.trim()) {
       Alert.alert('Error', 'Please enter a flight number');
@@ -230,6 +457,7 @@ export default function AutoFill() {
       }
       
       setFlightData({
+        ...initialFlightData,
         flightIata: data.flight_iata || '',
         flightIcao: data.flight_icao || '',
         date: data.flight_date || formattedDate,
@@ -242,11 +470,29 @@ export default function AutoFill() {
         arrivalIata: data.arrival_iata || '',
         arrivalIcao: data.arrival_icao || '',
         arrivalTime: formatTime(data.arrival_scheduled),
+        departureCity: data.departure_city || '',
+        departureLocalTime: formatTime(data.departure_local),
+        arrivalCity: data.arrival_city || '',
+        arrivalLocalTime: formatTime(data.arrival_local),
         airlineName: data.airline_name || '',
         airlineIata: data.airline_iata || '',
         duration: data.duration_hours?.toString() || '',
       });
 
+      const departureTime = data.departure_actual || data.departure_scheduled;
+      const arrivalTime = data.arrival_actual || data.arrival_scheduled;
+      if (departureTime && arrivalTime) {
+        const nightTime = await fetchNightTime(
+          data.departure_icao || data.departure_iata,
+          data.arrival_icao || data.arrival_iata,
+          departureTime,
+          arrivalTime
+        );
+        if (nightTime) {
+          applyNightTime(nightTime);
+        }
+      }
+
       Alert.alert(
         'Flight Found!', 
         `Successfully loaded data for ${data.flight_iata}\n${data.departure_iata} → ${data.arrival_iata}`,
@@ -274,7 +520,7 @@ export default function AutoFill() {
     } finally {
       setIsLoading(false);
     }
-  }, [flightNumber, token, searchDate, formatDate, getAuthHeaders, formatTime]);
+  }, [flightNumber, token, searchDate, formatDate, getAuthHeaders, formatTime, fetchNightTime, applyNightTime]);
 
   const handleSave = useCallback(async () => {
     if (!flightData.flightIata || !flightData.departureIata || !flightData.arrivalIata || !flightData.date) {
@@ -312,7 +558,23 @@ export default function AutoFill() {
           : null,
         airline_name: flightData.airlineName,
         airline_iata: flightData.airlineIata,
-        duration_hours: parseFloat(flightData.duration) || 0
+        duration_hours: parseFloat(flightData.duration) || 0,
+        pic_hours: parseFloat(flightData.picHours) || 0,
+        sic_hours: parseFloat(flightData.sicHours) || 0,
+        dual_received_hours: parseFloat(flightData.dualReceivedHours) || 0,
+        dual_given_hours: parseFloat(flightData.dualGivenHours) || 0,
+        solo_hours: parseFloat(flightData.soloHours) || 0,
+        night_hours: parseFloat(flightData.nightHours) || 0,
+        actual_instrument_hours: parseFloat(flightData.actualInstrumentHours) || 0,
+        simulated_instrument_hours: parseFloat(flightData.simulatedInstrumentHours) || 0,
+        cross_country_hours: parseFloat(flightData.crossCountryHours) || 0,
+        day_landings: parseInt(flightData.dayLandings, 10) || 0,
+        night_landings: parseInt(flightData.nightLandings, 10) || 0,
+        approaches: parseInt(flightData.approaches, 10) || 0,
+        holds: parseInt(flightData.holds, 10) || 0,
+        course_intercepts: parseInt(flightData.courseIntercepts, 10) || 0,
+        remarks: flightData.remarks.trim(),
+        aircraft_id: flightData.aircraftId ? parseInt(flightData.aircraftId, 10) : null
       };
 
       console.log('Saving flight data:', saveData);
@@ -380,6 +642,10 @@ export default function AutoFill() {
     handleReset();
   }, [mode, handleReset]);
 
+  useEffect(() => {
+    fetchAircraft();
+  }, [fetchAircraft]);
+
   // ========================================================================
   // STYLES
   // ========================================================================
@@ -455,6 +721,17 @@ export default function AutoFill() {
       color: colors.textSecondary,
       marginBottom: 8,
     },
+    localTimeText: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      paddingVertical: 12,
+    },
+    airportCityText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 4,
+    },
     input: {
       backgroundColor: colors.surface,
       borderRadius: 8,
@@ -464,6 +741,70 @@ export default function AutoFill() {
       borderWidth: 1,
       borderColor: colors.border,
     },
+    aircraftSelector: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    aircraftMeta: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    aircraftPickerCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 420,
+      maxHeight: '85%',
+    },
+    aircraftOption: {
+      paddingVertical: 12,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    aircraftOptionSelected: {
+      backgroundColor: colors.primary + '20',
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+      marginBottom: 12,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: '#fff',
+    },
+    computeButton: {
+      flex: 0,
+      marginBottom: 16,
+    },
+    remarksInput: {
+      minHeight: 80,
+      textAlignVertical: 'top',
+    },
     dateInput: {
       flexDirection: 'row',
       alignItems: 'center',
@@ -826,6 +1167,198 @@ export default function AutoFill() {
     </View>
   );
 
+  const describeAircraft = (aircraft: Aircraft) => {
+    const makeModel = [aircraft.make, aircraft.model].filter(Boolean).join(' ');
+    const flags = [
+      aircraft.is_complex && 'Complex',
+      aircraft.is_high_performance && 'HP',
+      aircraft.is_turbine && 'Turbine',
+    ].filter(Boolean).join(' • ');
+    return [aircraft.icao_type, makeModel, `${aircraft.category} ${aircraft.aircraft_class}`, flags]
+      .filter(Boolean)
+      .join(' • ');
+  };
+
+  const renderAircraftSection = () => {
+    const selected = aircraftList.find(a => String(a.id) === flightData.aircraftId);
+
+    return (
+      <View style={styles.card}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <Plane size={20} color={colors.primary} style={{ marginRight: 8 }} />
+          <Text style={styles.sectionTitle}>Aircraft</Text>
+        </View>
+
+        <TouchableOpacity
+          style={styles.aircraftSelector}
+          onPress={() => setShowAircraftPicker(true)}
+        >
+          <View style={{ flex: 1 }}>
+            <Text style={selected ? styles.dateText : styles.placeholderText}>
+              {selected ? selected.registration : 'Select aircraft'}
+            </Text>
+            {selected && (
+              <Text style={styles.aircraftMeta}>{describeAircraft(selected)}</Text>
+            )}
+          </View>
+          {selected && (
+            <TouchableOpacity onPress={() => updateField('aircraftId', '')}>
+              <X size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderAircraftPicker = () => (
+    <Modal
+      visible={showAircraftPicker}
+      transparent
+      animationType="fade"
+      onRequestClose={() => setShowAircraftPicker(false)}
+    >
+      <View style={styles.modalOverlay}>
+        <View style={styles.aircraftPickerCard}>
+          <View style={styles.flightHeader}>
+            <Text style={[styles.sectionTitle, { marginBottom: 0 }]}>Select Aircraft</Text>
+            <TouchableOpacity onPress={() => setShowAircraftPicker(false)}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {aircraftList.length === 0 && (
+              <Text style={[styles.aircraftMeta, { marginBottom: 12 }]}>
+                No aircraft in your registry yet. Add one below.
+              </Text>
+            )}
+
+            {aircraftList.map(aircraft => (
+              <TouchableOpacity
+                key={aircraft.id}
+                style={[
+                  styles.aircraftOption,
+                  String(aircraft.id) === flightData.aircraftId && styles.aircraftOptionSelected
+                ]}
+                onPress={() => {
+                  updateField('aircraftId', String(aircraft.id));
+                  setShowAircraftPicker(false);
+                }}
+              >
+                <Text style={styles.dateText}>{aircraft.registration}</Text>
+                <Text style={styles.aircraftMeta}>{describeAircraft(aircraft)}</Text>
+              </TouchableOpacity>
+            ))}
+
+            <Text style={[styles.inputLabel, { marginTop: 20 }]}>Add Aircraft</Text>
+
+            <View style={styles.row}>
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={styles.input}
+                  value={newAircraft.registration}
+                  onChangeText={(v) => setNewAircraft(prev => ({ ...prev, registration: v }))}
+                  autoCapitalize="characters"
+                  placeholder="N12345"
+                  placeholderTextColor={colors.textSecondary}
+                />
+              </View>
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={styles.input}
+                  value={newAircraft.icao_type}
+                  onChangeText={(v) => setNewAircraft(prev => ({ ...prev, icao_type: v }))}
+                  autoCapitalize="characters"
+                  placeholder="C172"
+                  placeholderTextColor={colors.textSecondary}
+                />
+              </View>
+            </View>
+
+            <View style={styles.row}>
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={styles.input}
+                  value={newAircraft.make}
+                  onChangeText={(v) => setNewAircraft(prev => ({ ...prev, make: v }))}
+                  placeholder="Cessna"
+                  placeholderTextColor={colors.textSecondary}
+                />
+              </View>
+              <View style={styles.inputGroup}>
+                <TextInput
+                  style={styles.input}
+                  value={newAircraft.model}
+                  onChangeText={(v) => setNewAircraft(prev => ({ ...prev, model: v }))}
+                  placeholder="172S"
+                  placeholderTextColor={colors.textSecondary}
+                />
+              </View>
+            </View>
+
+            <View style={styles.chipRow}>
+              {Object.keys(AIRCRAFT_CATEGORY_CLASSES).map(category =>
+                renderChip(category, newAircraft.category === category, () =>
+                  setNewAircraft(prev => ({
+                    ...prev,
+                    category,
+                    aircraft_class: AIRCRAFT_CATEGORY_CLASSES[category][0],
+                  }))
+                )
+              )}
+            </View>
+
+            <View style={styles.chipRow}>
+              {AIRCRAFT_CATEGORY_CLASSES[newAircraft.category].map(aircraftClass =>
+                renderChip(aircraftClass, newAircraft.aircraft_class === aircraftClass, () =>
+                  setNewAircraft(prev => ({ ...prev, aircraft_class: aircraftClass }))
+                )
+              )}
+            </View>
+
+            <View style={styles.chipRow}>
+              {renderChip('Complex', newAircraft.is_complex, () =>
+                setNewAircraft(prev => ({ ...prev, is_complex: !prev.is_complex }))
+              )}
+              {renderChip('High Performance', newAircraft.is_high_performance, () =>
+                setNewAircraft(prev => ({ ...prev, is_high_performance: !prev.is_high_performance }))
+              )}
+              {renderChip('Turbine', newAircraft.is_turbine, () =>
+                setNewAircraft(prev => ({ ...prev, is_turbine: !prev.is_turbine }))
+              )}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.button, styles.primaryButton, styles.computeButton]}
+              onPress={handleAddAircraft}
+              disabled={isSavingAircraft}
+            >
+              {isSavingAircraft ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <>
+                  <Plus size={18} color="#fff" />
+                  <Text style={[styles.buttonText, { color: '#fff' }]}>Add Aircraft</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+
   const renderAirportSection = (type: 'departure' | 'arrival') => {
     const isDeparture = type === 'departure';
     const title = isDeparture ? 'Departure' : 'Arrival';
@@ -833,6 +1366,8 @@ export default function AutoFill() {
     const iataField = isDeparture ? 'departureIata' : 'arrivalIata';
     const icaoField = isDeparture ? 'departureIcao' : 'arrivalIcao';
     const timeField = isDeparture ? 'departureTime' : 'arrivalTime';
+    const city = isDeparture ? flightData.departureCity : flightData.arrivalCity;
+    const localTime = isDeparture ? flightData.departureLocalTime : flightData.arrivalLocalTime;
     const airportPlaceholder = isDeparture 
       ? 'John F. Kennedy International Airport' 
       : 'Los Angeles International Airport';
@@ -865,6 +1400,7 @@ export default function AutoFill() {
               style={styles.input}
               value={flightData[iataField]}
               onChangeText={(v) => updateField(iataField, v)}
+              onBlur={() => lookupAirport(type, flightData[iataField])}
               autoCapitalize="characters"
               placeholder={iataPlaceholder}
             />
@@ -875,6 +1411,7 @@ export default function AutoFill() {
               style={styles.input}
               value={flightData[icaoField]}
               onChangeText={(v) => updateField(icaoField, v)}
+              onBlur={() => lookupAirport(type, flightData[icaoField])}
               autoCapitalize="characters"
               placeholder={icaoPlaceholder}
             />
@@ -883,7 +1420,7 @@ export default function AutoFill() {
 
         <View style={styles.row}>
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Scheduled Time</Text>
+            <Text style={styles.inputLabel}>Scheduled Time (UTC)</Text>
             <TextInput
               style={styles.input}
               value={flightData[timeField]}
@@ -891,11 +1428,101 @@ export default function AutoFill() {
               placeholder="HH:MM"
             />
           </View>
+          {localTime !== '' && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Local Time</Text>
+              <Text style={styles.localTimeText}>{localTime}</Text>
+            </View>
+          )}
         </View>
+
+        {city !== '' && (
+          <Text style={styles.airportCityText}>{city}</Text>
+        )}
       </View>
     );
   };
 
+  const renderLogbookInput = (label: string, field: keyof FlightData, placeholder = '0.0') => (
+    <View style={styles.inputGroup}>
+      <Text style={styles.inputLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={flightData[field]}
+        onChangeText={(v) => updateField(field, v)}
+        keyboardType="numeric"
+        placeholder={placeholder}
+        placeholderTextColor={colors.textSecondary}
+      />
+    </View>
+  );
+
+  const renderLogbookSection = () => (
+    <View style={styles.card}>
+      <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+        <Clock size={20} color={colors.primary} style={{ marginRight: 8 }} />
+        <Text style={styles.sectionTitle}>Logbook Times</Text>
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('PIC (hrs)', 'picHours')}
+        {renderLogbookInput('SIC (hrs)', 'sicHours')}
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('Dual Received', 'dualReceivedHours')}
+        {renderLogbookInput('Dual Given', 'dualGivenHours')}
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('Solo (hrs)', 'soloHours')}
+        {renderLogbookInput('Night (hrs)', 'nightHours')}
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('Actual Instrument', 'actualInstrumentHours')}
+        {renderLogbookInput('Simulated Instrument', 'simulatedInstrumentHours')}
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('Cross-Country (hrs)', 'crossCountryHours')}
+        {renderLogbookInput('Approaches', 'approaches', '0')}
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('Day Landings', 'dayLandings', '0')}
+        {renderLogbookInput('Night Landings', 'nightLandings', '0')}
+      </View>
+
+      <View style={styles.row}>
+        {renderLogbookInput('Holds', 'holds', '0')}
+        {renderLogbookInput('Course Intercepts', 'courseIntercepts', '0')}
+      </View>
+
+      <TouchableOpacity
+        style={[styles.button, styles.secondaryButton, styles.computeButton]}
+        onPress={handleComputeNightTime}
+      >
+        <Moon size={18} color={colors.text} />
+        <Text style={[styles.buttonText, { color: colors.text }]}>
+          Compute Night Time
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Remarks</Text>
+        <TextInput
+          style={[styles.input, styles.remarksInput]}
+          value={flightData.remarks}
+          onChangeText={(v) => updateField('remarks', v)}
+          placeholder="Endorsements, training notes, conditions..."
+          placeholderTextColor={colors.textSecondary}
+          multiline
+        />
+      </View>
+    </View>
+  );
+
   const renderActionButtons = () => (
     <View style={styles.actionButtons}>
       <TouchableOpacity 
@@ -1018,8 +1645,10 @@ export default function AutoFill() {
         {shouldShowForm && (
           <>
             {renderFlightInformation()}
+            {renderAircraftSection()}
             {renderAirportSection('departure')}
             {renderAirportSection('arrival')}
+            {renderLogbookSection()}
           </>
         )}
       </ScrollView>
@@ -1046,6 +1675,7 @@ export default function AutoFill() {
       )}
 
       {renderSuccessModal()}
+      {renderAircraftPicker()}
 
       <Sidebar visible={sidebarVisible} onClose={() => setSidebarVisible(false)} />
     </SafeAreaView>
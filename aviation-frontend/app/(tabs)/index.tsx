@@ -6,18 +6,26 @@ import { useAuth } from '@/contexts/AuthContext';
 import Sidebar from '@/components/Sidebar';
 import axios from 'axios';
 import { format } from 'date-fns';
+import type { FlightLog } from 'aviation-shared';
 
-// Define FlightLog interface
-interface FlightLog {
+interface CredentialAlert {
   id: number;
-  flight_iata: string;
-  flight_date: string;
-  departure_iata: string;
-  arrival_iata: string;
-  departure_scheduled: string;
-  arrival_scheduled: string;
-  airline_iata: string;
-  duration_hours: number;
+  credential_type: string;
+  name: string | null;
+  computed_expiry: string | null;
+  days_remaining: number | null;
+  status: 'valid' | 'expiring' | 'expired' | 'no_expiry';
+}
+
+interface CurrencyItem {
+  id: string;
+  title: string;
+  regulation: string;
+  status: 'current' | 'expiring' | 'expired';
+  isCurrent: boolean;
+  expiresOn: string | null;
+  daysRemaining: number | null;
+  needed: string[];
 }
 
 export default function Dashboard() {
@@ -27,6 +35,8 @@ export default function Dashboard() {
   const [loading, setLoading] = useState(true);
   const [recentFlights, setRecentFlights] = useState<FlightLog[]>([]);
   const [upcomingFlights, setUpcomingFlights] = useState<FlightLog[]>([]);
+  const [currency, setCurrency] = useState<CurrencyItem[]>([]);
+  const [credentialAlerts, setCredentialAlerts] = useState<CredentialAlert[]>([]);
   
   // Create display name with username priority
   const displayName = pilot?.username || 
@@ -343,9 +353,58 @@ export default function Dashboard() {
     }
   }, [token]);
 
+  const fetchCurrency = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get(`${API_BASE_URL}/currency`, {
+        headers: getAuthHeaders()
+      });
+      setCurrency(response.data.currencies || []);
+    } catch (error: any) {
+      console.error('Error fetching currency:', error.response?.data?.message || error.message);
+    }
+  }, [token]);
+
+  const fetchCredentialAlerts = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get(`${API_BASE_URL}/credentials`, {
+        headers: getAuthHeaders()
+      });
+      setCredentialAlerts(
+        response.data.filter((credential: CredentialAlert) =>
+          credential.status === 'expiring' || credential.status === 'expired'
+        )
+      );
+    } catch (error: any) {
+      console.error('Error fetching credentials:', error.response?.data?.message || error.message);
+    }
+  }, [token]);
+
   useEffect(() => {
     fetchFlightData();
-  }, [fetchFlightData]);
+    fetchCurrency();
+    fetchCredentialAlerts();
+  }, [fetchFlightData, fetchCurrency, fetchCredentialAlerts]);
+
+  const describeCredential = (credential: CredentialAlert) => {
+    const label = credential.name || credential.credential_type.replace(/_/g, ' ');
+    return credential.status === 'expired'
+      ? `${label} expired on ${formatDate(credential.computed_expiry || '')}`
+      : `${label} due for renewal in ${credential.days_remaining} days`;
+  };
+
+  const describeCurrency = (item: CurrencyItem) => {
+    if (item.status === 'expired') {
+      return `${item.title}: not current — ${item.needed.join(', ') || 'see logbook'}`;
+    }
+    const expiry = item.expiresOn ? formatDate(item.expiresOn) : '';
+    return item.status === 'expiring'
+      ? `${item.title}: expires in ${item.daysRemaining} days (${expiry})`
+      : `${item.title}: current until ${expiry}`;
+  };
 
   // Show authentication warning if no token
   if (!token) {
@@ -520,18 +579,35 @@ export default function Dashboard() {
 
         <View style={styles.alertsSection}>
           <Text style={styles.sectionTitle}>Flight Alerts</Text>
-          <View style={styles.alertItem}>
-            <CheckCircle size={16} color={colors.success} />
-            <Text style={styles.alertText}>All certifications current</Text>
-          </View>
-          <View style={styles.alertItem}>
-            <AlertTriangle size={16} color={colors.warning} />
-            <Text style={styles.alertText}>Medical renewal due in 45 days</Text>
-          </View>
-          <View style={styles.alertItem}>
-            <CheckCircle size={16} color={colors.success} />
-            <Text style={styles.alertText}>Currency requirements met</Text>
-          </View>
+          {credentialAlerts.length === 0 ? (
+            <View style={styles.alertItem}>
+              <CheckCircle size={16} color={colors.success} />
+              <Text style={styles.alertText}>All certifications current</Text>
+            </View>
+          ) : (
+            credentialAlerts.map(credential => (
+              <View key={`credential-${credential.id}`} style={styles.alertItem}>
+                <AlertTriangle
+                  size={16}
+                  color={credential.status === 'expired' ? colors.error : colors.warning}
+                />
+                <Text style={styles.alertText}>{describeCredential(credential)}</Text>
+              </View>
+            ))
+          )}
+          {currency.map(item => (
+            <View key={item.id} style={styles.alertItem}>
+              {item.status === 'current' ? (
+                <CheckCircle size={16} color={colors.success} />
+              ) : (
+                <AlertTriangle
+                  size={16}
+                  color={item.status === 'expired' ? colors.error : colors.warning}
+                />
+              )}
+              <Text style={styles.alertText}>{describeCurrency(item)}</Text>
+            </View>
+          ))}
         </View>
       </ScrollView>
 
@@ -8,30 +8,35 @@ import {
   ActivityIndicator, 
   Alert 
 } from 'react-native';
-import { Menu } from 'lucide-react-native';
+import { Menu, Pencil, Trash2, History, Lock, ShieldCheck, ShieldAlert } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import axios from 'axios';
 import { format } from 'date-fns';
+import { useRouter } from 'expo-router';
 import DataTable from '@/components/DataTable';
 import Sidebar from '@/components/Sidebar';
+import EditFlightModal from '@/components/EditFlightModal';
+import PendingEndorsements from '@/components/PendingEndorsements';
+import type { FlightLog } from 'aviation-shared';
 
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-interface FlightLog {
-  id: number;
-  flight_iata: string;
-  flight_date: string;
-  departure_iata: string;
-  arrival_iata: string;
-  departure_scheduled: string;
-  arrival_scheduled: string;
-  airline_iata: string;
-  duration_hours: number;
-}
+const HOUR_FIELDS = [
+  'duration_hours',
+  'pic_hours',
+  'sic_hours',
+  'dual_received_hours',
+  'dual_given_hours',
+  'solo_hours',
+  'night_hours',
+  'actual_instrument_hours',
+  'simulated_instrument_hours',
+  'cross_country_hours',
+] as const;
 
 // ============================================================================
 // MAIN COMPONENT
@@ -42,8 +47,9 @@ export default function LogsScreen() {
   // HOOKS & CONTEXT
   // ========================================================================
   const { colors } = useTheme();
-  const { token } = useAuth();
+  const { token, pilot } = useAuth();
   const insets = useSafeAreaInsets();
+  const router = useRouter();
 
   // ========================================================================
   // STATE MANAGEMENT
@@ -54,6 +60,7 @@ export default function LogsScreen() {
   const [refreshing, setRefreshing] = useState(false);
   const [sortKey, setSortKey] = useState<keyof FlightLog>('flight_date');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  const [editingFlight, setEditingFlight] = useState<FlightLog | null>(null);
 
   // ========================================================================
   // CONSTANTS & CONFIGURATION
@@ -98,6 +105,10 @@ export default function LogsScreen() {
     }
   }, []);
 
+  const formatHours = useCallback((value: number): string => {
+    return typeof value === 'number' && !isNaN(value) ? value.toFixed(1) : '0.0';
+  }, []);
+
   // ========================================================================
   // DATA MANAGEMENT
   // ========================================================================
@@ -116,12 +127,15 @@ export default function LogsScreen() {
 
       console.log('Fetched logs:', response.data);
 
-      const logsWithNumbers = response.data.map((log: any) => ({
-        ...log,
-        duration_hours: typeof log.duration_hours === 'string'
-          ? parseFloat(log.duration_hours)
-          : log.duration_hours
-      }));
+      const logsWithNumbers = response.data.map((log: any) => {
+        const parsed = { ...log };
+        HOUR_FIELDS.forEach((field) => {
+          parsed[field] = typeof log[field] === 'string'
+            ? parseFloat(log[field]) || 0
+            : log[field] || 0;
+        });
+        return parsed;
+      });
 
       setLogs(logsWithNumbers);
     } catch (error: any) {
@@ -153,13 +167,39 @@ export default function LogsScreen() {
     fetchLogs();
   }, [fetchLogs]);
 
+  const handleDelete = useCallback((flight: FlightLog) => {
+    Alert.alert(
+      'Delete flight',
+      `Delete ${flight.flight_iata || 'this flight'} (${flight.departure_iata || '-'} → ${flight.arrival_iata || '-'})? Its history stays in the audit log.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await axios.delete(`${API_BASE_URL}/flights/${flight.id}`, { headers: getAuthHeaders() });
+              setLogs(prev => prev.filter(log => log.id !== flight.id));
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.message || 'Failed to delete flight');
+            }
+          }
+        }
+      ]
+    );
+  }, [getAuthHeaders]);
+
+  const handleShowHistory = useCallback((flight: FlightLog) => {
+    router.push({ pathname: '/audit', params: { flightId: String(flight.id) } });
+  }, [router]);
+
   // ========================================================================
   // COMPUTED VALUES
   // ========================================================================
   const sortedLogs = useCallback(() => {
     return [...logs].sort((a, b) => {
-      const aValue = a[sortKey];
-      const bValue = b[sortKey];
+      const aValue = a[sortKey] ?? '';
+      const bValue = b[sortKey] ?? '';
       if (aValue === bValue) return 0;
       const comparison = aValue < bValue ? -1 : 1;
       return sortDirection === 'asc' ? comparison : -comparison;
@@ -200,6 +240,26 @@ export default function LogsScreen() {
       sortable: true,
       width: 100,
     },
+    {
+      key: 'aircraft_registration',
+      title: 'Aircraft',
+      sortable: true,
+      width: 130,
+      render: (value: string | null, row: FlightLog) => (
+        <Text style={styles.cellText} numberOfLines={2}>
+          {value ? `${value}${row.aircraft_type ? ` (${row.aircraft_type})` : ''}` : '-'}
+        </Text>
+      )
+    },
+    {
+      key: 'aircraft_class',
+      title: 'Class',
+      sortable: true,
+      width: 80,
+      render: (value: string | null) => (
+        <Text style={styles.cellText}>{value || '-'}</Text>
+      )
+    },
     {
       key: 'duration_hours',
       title: 'Duration',
@@ -210,6 +270,89 @@ export default function LogsScreen() {
         return <Text style={styles.cellText}>{duration}h</Text>;
       }
     },
+    {
+      key: 'pic_hours',
+      title: 'PIC',
+      sortable: true,
+      width: 80,
+      render: (value: number) => <Text style={styles.cellText}>{formatHours(value)}</Text>
+    },
+    {
+      key: 'sic_hours',
+      title: 'SIC',
+      sortable: true,
+      width: 80,
+      render: (value: number) => <Text style={styles.cellText}>{formatHours(value)}</Text>
+    },
+    {
+      key: 'dual',
+      title: 'Dual Rcvd/Given',
+      width: 140,
+      render: (_: any, row: FlightLog) => (
+        <Text style={styles.cellText}>
+          {formatHours(row.dual_received_hours)} / {formatHours(row.dual_given_hours)}
+        </Text>
+      )
+    },
+    {
+      key: 'solo_hours',
+      title: 'Solo',
+      sortable: true,
+      width: 80,
+      render: (value: number) => <Text style={styles.cellText}>{formatHours(value)}</Text>
+    },
+    {
+      key: 'night_hours',
+      title: 'Night',
+      sortable: true,
+      width: 80,
+      render: (value: number) => <Text style={styles.cellText}>{formatHours(value)}</Text>
+    },
+    {
+      key: 'instrument',
+      title: 'Instr Act/Sim',
+      width: 130,
+      render: (_: any, row: FlightLog) => (
+        <Text style={styles.cellText}>
+          {formatHours(row.actual_instrument_hours)} / {formatHours(row.simulated_instrument_hours)}
+        </Text>
+      )
+    },
+    {
+      key: 'cross_country_hours',
+      title: 'XC',
+      sortable: true,
+      width: 80,
+      render: (value: number) => <Text style={styles.cellText}>{formatHours(value)}</Text>
+    },
+    {
+      key: 'landings',
+      title: 'Ldg Day/Night',
+      width: 130,
+      render: (_: any, row: FlightLog) => (
+        <Text style={styles.cellText}>{row.day_landings || 0} / {row.night_landings || 0}</Text>
+      )
+    },
+    {
+      key: 'approaches',
+      title: 'Appr',
+      sortable: true,
+      width: 80,
+    },
+    {
+      key: 'holds',
+      title: 'Holds',
+      sortable: true,
+      width: 80,
+    },
+    {
+      key: 'remarks',
+      title: 'Remarks',
+      width: 200,
+      render: (value: string | null) => (
+        <Text style={styles.cellText} numberOfLines={2}>{value || '-'}</Text>
+      )
+    },
     {
       key: 'flight_date',
       title: 'Date',
@@ -220,7 +363,58 @@ export default function LogsScreen() {
         return <Text style={styles.cellText}>{formattedDate}</Text>;
       }
     },
-  ], [formatTime, formatDate]);
+    {
+      key: 'signature_status',
+      title: 'Signature',
+      sortable: true,
+      width: 170,
+      render: (value: FlightLog['signature_status'], row: FlightLog) => {
+        if (value === 'tampered') {
+          return (
+            <View style={styles.actionsCell}>
+              <ShieldAlert size={16} color={colors.error} />
+              <Text style={[styles.cellText, { color: colors.error }]}>Hash mismatch</Text>
+            </View>
+          );
+        }
+        if (value === 'signed') {
+          return (
+            <View style={styles.actionsCell}>
+              <ShieldCheck size={16} color={colors.success} />
+              <Text style={styles.cellText} numberOfLines={2}>
+                {row.signed_by} ({row.signer_certificate})
+              </Text>
+            </View>
+          );
+        }
+        return <Text style={styles.cellText}>-</Text>;
+      }
+    },
+    {
+      key: 'actions',
+      title: 'Actions',
+      width: 120,
+      render: (_: any, row: FlightLog) => (
+        <View style={styles.actionsCell}>
+          {row.signature_status === 'unsigned' ? (
+            <TouchableOpacity onPress={() => setEditingFlight(row)}>
+              <Pencil size={18} color={colors.primary} />
+            </TouchableOpacity>
+          ) : (
+            <Lock size={18} color={colors.textSecondary} />
+          )}
+          <TouchableOpacity onPress={() => handleShowHistory(row)}>
+            <History size={18} color={colors.textSecondary} />
+          </TouchableOpacity>
+          {row.signature_status === 'unsigned' && (
+            <TouchableOpacity onPress={() => handleDelete(row)}>
+              <Trash2 size={18} color={colors.error} />
+            </TouchableOpacity>
+          )}
+        </View>
+      )
+    },
+  ], [formatTime, formatDate, formatHours, colors, handleDelete, handleShowHistory]);
 
   // ========================================================================
   // EFFECTS
@@ -309,6 +503,11 @@ export default function LogsScreen() {
       fontSize: 14,
       color: colors.text,
     },
+    actionsCell: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 16,
+    },
     authWarning: {
       backgroundColor: '#fee2e2',
       borderColor: '#fecaca',
@@ -447,9 +646,17 @@ export default function LogsScreen() {
 
       {/* Main Content */}
       <View style={styles.content}>
+        {pilot?.role === 'instructor' && <PendingEndorsements onSigned={fetchLogs} />}
         {logs.length > 0 ? renderDataTable() : renderEmptyState()}
       </View>
 
+      <EditFlightModal
+        visible={editingFlight !== null}
+        flight={editingFlight}
+        onClose={() => setEditingFlight(null)}
+        onSaved={fetchLogs}
+      />
+
       {/* Sidebar */}
       <Sidebar visible={sidebarVisible} onClose={() => setSidebarVisible(false)} />
     </SafeAreaView>
@@ -74,6 +74,46 @@ interface UpcomingFlightsProps {
   colors: any;
 }
 
+interface DutyLimit {
+  id: string;
+  label: string;
+  maxHours: number;
+  usedHours: number;
+  remainingHours: number;
+}
+
+interface DutyBreach {
+  type: 'fdp' | 'rest' | 'cumulative';
+  regulation: string;
+  message: string;
+}
+
+interface PilotDutyStatus {
+  pilot_id: number;
+  username: string;
+  ruleSetName: string;
+  onDuty: boolean;
+  fdp: { maxHours: number; usedHours: number; remainingHours: number };
+  rest: { requiredHours: number; nextLegalReport: string; restRemainingHours: number } | null;
+  cumulative: DutyLimit[];
+  flightTime: { last7Days: number; last28Days: number; last365Days: number };
+  remainingDutyHours: number;
+  upcomingDuties: { report: string; breaches: DutyBreach[] }[];
+}
+
+interface DutyStatusCardProps {
+  statuses: PilotDutyStatus[];
+  colors: any;
+}
+
+interface ScheduleUploadIssue {
+  row: number;
+  pilot: string;
+  flightNumber: string;
+  flightDate: string;
+  breaches: DutyBreach[];
+}
+
 // ============================================================================
 // FLIGHT CARD COMPONENT
 // ============================================================================
@@ -550,6 +590,151 @@ const UpcomingFlights: React.FC<UpcomingFlightsProps> = ({ schedules, colors })
   );
 };
 
+// ============================================================================
+// DUTY STATUS COMPONENT
+// ============================================================================
+
+const formatDutyHours = (hours: number) => {
+  const h = Math.floor(hours);
+  const m = Math.round((hours - h) * 60);
+  return `${h}:${String(m).padStart(2, '0')}`;
+};
+
+const DutyStatusCard: React.FC<DutyStatusCardProps> = ({ statuses, colors }) => {
+  if (statuses.length === 0) return null;
+
+  const styles = StyleSheet.create({
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      marginBottom: 20,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '700',
+      color: colors.text,
+    },
+    subtitle: {
+      fontSize: 12,
+      color: colors.textSecondary,
+    },
+    pilotBlock: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      marginTop: 10,
+    },
+    pilotRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      alignItems: 'center',
+      marginBottom: 8,
+    },
+    pilotName: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    remainingValue: {
+      fontSize: 20,
+      fontWeight: '700',
+    },
+    detailText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 4,
+    },
+    limitRow: {
+      flexDirection: 'row',
+      justifyContent: 'space-between',
+      paddingVertical: 3,
+    },
+    limitLabel: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    limitValue: {
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    breachText: {
+      fontSize: 13,
+      color: colors.error,
+      marginTop: 4,
+    },
+  });
+
+  const limitColor = (limit: DutyLimit) => {
+    if (limit.remainingHours <= 0) return colors.error;
+    if (limit.remainingHours < limit.maxHours * 0.1) return colors.warning;
+    return colors.success;
+  };
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Remaining Legal Duty</Text>
+        <Clock color={colors.primary} size={22} />
+      </View>
+      <Text style={styles.subtitle}>{statuses[0].ruleSetName}</Text>
+
+      {statuses.map((status) => {
+        const breaches = status.upcomingDuties.flatMap(duty => duty.breaches);
+        const resting = status.rest && status.rest.restRemainingHours > 0;
+
+        return (
+          <View key={status.pilot_id} style={styles.pilotBlock}>
+            <View style={styles.pilotRow}>
+              <Text style={styles.pilotName}>{status.username}</Text>
+              <Text
+                style={[
+                  styles.remainingValue,
+                  { color: status.remainingDutyHours > 0 ? colors.success : colors.error }
+                ]}
+              >
+                {formatDutyHours(status.remainingDutyHours)}
+              </Text>
+            </View>
+
+            <Text style={styles.detailText}>
+              {status.onDuty
+                ? `On duty • FDP ${formatDutyHours(status.fdp.usedHours)} of ${formatDutyHours(status.fdp.maxHours)}`
+                : resting && status.rest
+                  ? `Resting • legal to report ${new Date(status.rest.nextLegalReport).toLocaleString()}`
+                  : `Off duty • max FDP ${formatDutyHours(status.fdp.maxHours)}`}
+            </Text>
+            <Text style={styles.detailText}>
+              Flight time 7d {status.flightTime.last7Days}h • 28d {status.flightTime.last28Days}h • 365d {status.flightTime.last365Days}h
+            </Text>
+
+            {status.cumulative.map((limit) => (
+              <View key={limit.id} style={styles.limitRow}>
+                <Text style={styles.limitLabel}>{limit.label}</Text>
+                <Text style={[styles.limitValue, { color: limitColor(limit) }]}>
+                  {limit.usedHours} / {limit.maxHours}h
+                </Text>
+              </View>
+            ))}
+
+            {breaches.map((breach, index) => (
+              <Text key={index} style={styles.breachText}>
+                ⚠ {breach.message} ({breach.regulation})
+              </Text>
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
 // ============================================================================
 // MAIN SCHEDULE COMPONENT
 // ============================================================================
@@ -571,6 +756,7 @@ function Schedule() {
   const [error, setError] = useState<string | null>(null);
   const [showDatePicker, setShowDatePicker] = useState(false);
   const [schedules, setSchedules] = useState<any[]>([]);
+  const [dutyStatuses, setDutyStatuses] = useState<PilotDutyStatus[]>([]);
   const [sidebarVisible, setSidebarVisible] = useState(false);
 
   // ========================================================================
@@ -651,6 +837,20 @@ function Schedule() {
     }
   }, [token]);
 
+  const fetchDutyStatus = useCallback(async () => {
+    try {
+      if (!token) return;
+
+      const response = await axios.get('/duty-status', {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setDutyStatuses(Array.isArray(response.data?.pilots) ? response.data.pilots : []);
+    } catch (err) {
+      console.error('Failed to fetch duty status', err);
+      setDutyStatuses([]);
+    }
+  }, [token]);
+
   // ========================================================================
   // EVENT HANDLERS
   // ========================================================================
@@ -725,7 +925,8 @@ function Schedule() {
   // ========================================================================
   useEffect(() => {
     fetchSchedules();
-  }, [fetchSchedules]);
+    fetchDutyStatus();
+  }, [fetchSchedules, fetchDutyStatus]);
 
   // ========================================================================
   // STYLES
@@ -1347,6 +1548,9 @@ function Schedule() {
         {/* Schedule Upload Card */}
         <ScheduleUploadCard colors={colors} />
 
+        {/* Remaining Legal Duty */}
+        <DutyStatusCard statuses={dutyStatuses} colors={colors} />
+
         {/* Search Section */}
         {renderSearchSection()}
 
@@ -1405,6 +1609,8 @@ export function ScheduleUploadScreen() {
   const [file, setFile] = useState<any>(null);
   const [uploading, setUploading] = useState(false);
   const [schedules, setSchedules] = useState<any[]>([]);
+  const [dutyMode, setDutyMode] = useState<'warn' | 'reject'>('warn');
+  const [dutyIssues, setDutyIssues] = useState<{ warnings: ScheduleUploadIssue[]; rejected: ScheduleUploadIssue[] } | null>(null);
 
   // ========================================================================
   // UTILITY FUNCTIONS
@@ -1461,6 +1667,7 @@ export function ScheduleUploadScreen() {
         name: file.name,
         type: file.mimeType,
       } as any);
+      formData.append('dutyMode', dutyMode);
       
       const response = await axios.post('/upload-schedule', formData, {
         headers: {
@@ -1471,6 +1678,10 @@ export function ScheduleUploadScreen() {
       
       if (response.data.success) {
         Alert.alert('Success', response.data.message);
+        setDutyIssues({
+          warnings: response.data.warnings || [],
+          rejected: response.data.rejected || []
+        });
         fetchSchedules();
       }
     } catch (err) {
@@ -1478,7 +1689,7 @@ export function ScheduleUploadScreen() {
     } finally {
       setUploading(false);
     }
-  }, [file, token, fetchSchedules]);
+  }, [file, token, dutyMode, fetchSchedules]);
 
   // ========================================================================
   // EFFECTS
@@ -1572,8 +1783,64 @@ export function ScheduleUploadScreen() {
       marginBottom: 15,
       color: colors.text,
     },
+    modeRow: {
+      flexDirection: 'row',
+      gap: 10,
+      marginBottom: 20,
+    },
+    modeChip: {
+      flex: 1,
+      paddingVertical: 10,
+      borderRadius: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+      alignItems: 'center',
+    },
+    modeChipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    modeChipText: {
+      color: colors.text,
+      fontWeight: '600',
+    },
+    issueItem: {
+      backgroundColor: colors.surface,
+      borderRadius: 12,
+      padding: 14,
+      marginBottom: 10,
+    },
+    issueTitle: {
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 4,
+    },
+    issueText: {
+      fontSize: 13,
+      color: colors.textSecondary,
+    },
   });
 
+  const renderIssues = (title: string, issues: ScheduleUploadIssue[], color: string) => (
+    issues.length > 0 && (
+      <View style={styles.card}>
+        <Text style={[styles.sectionTitle, { color }]}>{title}</Text>
+        {issues.map((issue) => (
+          <View key={`${issue.row}-${issue.flightNumber}`} style={styles.issueItem}>
+            <Text style={styles.issueTitle}>
+              Row {issue.row} • {issue.flightNumber} on {issue.flightDate} • {issue.pilot}
+            </Text>
+            {issue.breaches.map((breach, index) => (
+              <Text key={index} style={styles.issueText}>
+                {breach.message} ({breach.regulation})
+              </Text>
+            ))}
+          </View>
+        ))}
+      </View>
+    )
+  );
+
   // ========================================================================
   // RENDER
   // ========================================================================
@@ -1592,7 +1859,25 @@ export function ScheduleUploadScreen() {
           <Text style={{ color: colors.textSecondary, marginBottom: 20 }}>
             Upload a CSV file with pilot schedules. The file should include columns:
             name, email, flightDate, flightTime, flightNumber, flightName
+            (optional: standbyTime, blockHours)
           </Text>
+
+          <Text style={{ color: colors.text, fontWeight: '600', marginBottom: 10 }}>
+            Rows breaching duty/rest limits
+          </Text>
+          <View style={styles.modeRow}>
+            {(['warn', 'reject'] as const).map((mode) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.modeChip, dutyMode === mode && styles.modeChipActive]}
+                onPress={() => setDutyMode(mode)}
+              >
+                <Text style={[styles.modeChipText, dutyMode === mode && { color: '#fff' }]}>
+                  {mode === 'warn' ? 'Save and warn' : 'Reject'}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
           
           <TouchableOpacity 
             style={styles.dropZone}
@@ -1614,6 +1899,9 @@ export function ScheduleUploadScreen() {
             color={colors.primary}
           />
         </View>
+
+        {dutyIssues && renderIssues('Rejected rows', dutyIssues.rejected, colors.error)}
+        {dutyIssues && renderIssues('Duty/rest warnings', dutyIssues.warnings, colors.warning)}
         
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Your Upcoming Flights</Text>
@@ -0,0 +1,533 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SafeAreaView,
+  ScrollView,
+  TouchableOpacity,
+  Platform,
+  ActivityIndicator,
+  TextInput,
+  Switch,
+  Modal,
+  Alert,
+  RefreshControl
+} from 'react-native';
+import { Menu, Users, ShieldAlert, ShieldCheck, Lock, X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import Sidebar from '@/components/Sidebar';
+import axios from 'axios';
+import type { ManagedPilot, Role, TwoFactorPolicy } from 'aviation-shared';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+const ROLE_OPTIONS: { key: Role; label: string }[] = [
+  { key: 'pilot', label: 'Pilot' },
+  { key: 'instructor', label: 'Instructor' },
+  { key: 'admin', label: 'Admin' },
+];
+
+// Admin screen: list pilot accounts, change their role and activate or deactivate them
+export default function AdminScreen() {
+  const { colors } = useTheme();
+  const { token, pilot: currentPilot } = useAuth();
+  const [sidebarVisible, setSidebarVisible] = useState(false);
+  const [pilots, setPilots] = useState<ManagedPilot[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [forbidden, setForbidden] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [certificateFor, setCertificateFor] = useState<ManagedPilot | null>(null);
+  const [certificate, setCertificate] = useState('');
+  const [policies, setPolicies] = useState<TwoFactorPolicy[]>([]);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const fetchPilots = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get<ManagedPilot[]>(`${API_BASE_URL}/pilots`, {
+        headers: getAuthHeaders()
+      });
+      setPilots(response.data);
+      setForbidden(false);
+    } catch (error: any) {
+      if (error.response?.status === 403) {
+        setForbidden(true);
+      } else {
+        console.error('Error fetching pilots:', error.response?.data?.message || error.message);
+      }
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [token, getAuthHeaders]);
+
+  const fetchPolicies = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get<TwoFactorPolicy[]>(`${API_BASE_URL}/admin/two-factor-policy`, {
+        headers: getAuthHeaders()
+      });
+      setPolicies(response.data);
+    } catch (error: any) {
+      if (error.response?.status !== 403) {
+        console.error('Error fetching two-factor policy:', error.response?.data?.message || error.message);
+      }
+    }
+  }, [token, getAuthHeaders]);
+
+  useEffect(() => {
+    fetchPilots();
+    fetchPolicies();
+  }, [fetchPilots, fetchPolicies]);
+
+  const handleUnlock = async (target: ManagedPilot) => {
+    setUpdatingId(target.id);
+    try {
+      await axios.put(`${API_BASE_URL}/pilots/${target.id}/unlock`, {}, { headers: getAuthHeaders() });
+      setPilots(prev => prev.map(item =>
+        item.id === target.id ? { ...item, is_locked: false, locked_until: null, failed_login_attempts: 0 } : item
+      ));
+    } catch (error: any) {
+      Alert.alert('Unlock failed', error.response?.data?.message || 'Could not unlock the account');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleTogglePolicy = async (role: Role, required: boolean) => {
+    setPolicies(prev => prev.map(policy => policy.role === role ? { ...policy, required } : policy));
+    try {
+      await axios.put(
+        `${API_BASE_URL}/admin/two-factor-policy/${role}`,
+        { required },
+        { headers: getAuthHeaders() }
+      );
+    } catch (error: any) {
+      Alert.alert('Policy change failed', error.response?.data?.message || 'Could not update the two-factor policy');
+      fetchPolicies();
+    }
+  };
+
+  const updateRole = async (target: ManagedPilot, role: Role, instructorCertificate?: string) => {
+    setUpdatingId(target.id);
+    try {
+      await axios.put(
+        `${API_BASE_URL}/pilots/${target.id}/role`,
+        { role, instructorCertificate },
+        { headers: getAuthHeaders() }
+      );
+      setPilots(prev => prev.map(item =>
+        item.id === target.id
+          ? { ...item, role, instructor_certificate: instructorCertificate?.trim().toUpperCase() || item.instructor_certificate }
+          : item
+      ));
+    } catch (error: any) {
+      Alert.alert('Role change failed', error.response?.data?.message || 'Could not change the role');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleRolePress = (target: ManagedPilot, role: Role) => {
+    if (role === target.role) return;
+
+    // Instructors sign logbook entries with their certificate number, so ask for it first
+    if (role === 'instructor') {
+      setCertificate(target.instructor_certificate || '');
+      setCertificateFor(target);
+      return;
+    }
+    updateRole(target, role);
+  };
+
+  const handleConfirmInstructor = async () => {
+    if (!certificateFor) return;
+    if (!certificate.trim()) {
+      Alert.alert('Certificate required', 'Enter the instructor certificate number.');
+      return;
+    }
+
+    const target = certificateFor;
+    setCertificateFor(null);
+    await updateRole(target, 'instructor', certificate);
+  };
+
+  const handleToggleActive = async (target: ManagedPilot, isActive: boolean) => {
+    setUpdatingId(target.id);
+    try {
+      await axios.put(
+        `${API_BASE_URL}/pilots/${target.id}/status`,
+        { isActive },
+        { headers: getAuthHeaders() }
+      );
+      setPilots(prev => prev.map(item => item.id === target.id ? { ...item, is_active: isActive } : item));
+    } catch (error: any) {
+      Alert.alert('Update failed', error.response?.data?.message || 'Could not update the account');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      flex: 1,
+      backgroundColor: colors.background,
+      paddingBottom: Platform.OS === 'ios' ? 85 : 70,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingHorizontal: 16,
+      paddingVertical: 12,
+      paddingTop: 50,
+      backgroundColor: colors.primary,
+      marginBottom: 20,
+    },
+    headerLeft: {
+      flexDirection: 'row',
+      alignItems: 'center',
+    },
+    headerTitle: {
+      fontSize: 20,
+      fontWeight: '600',
+      color: '#ffffff',
+      marginLeft: 12,
+    },
+    menuButton: {
+      padding: 8,
+      borderRadius: 8,
+      backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    content: {
+      flex: 1,
+      padding: 16,
+    },
+    summary: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 16,
+    },
+    summaryText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 12,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    inactiveCard: {
+      opacity: 0.6,
+    },
+    cardHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    name: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    details: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 12,
+    },
+    chip: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: '#ffffff',
+    },
+    emptyState: {
+      alignItems: 'center',
+      padding: 32,
+      gap: 12,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 420,
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 15,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginTop: 8,
+    },
+    confirmButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      alignItems: 'center',
+      marginTop: 16,
+    },
+    confirmButtonText: {
+      color: '#ffffff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    lockedRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginTop: 4,
+    },
+    lockedText: {
+      fontSize: 13,
+      color: colors.error,
+    },
+    unlockText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    policyTitle: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    policyRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      paddingVertical: 4,
+    },
+    policyLabel: {
+      fontSize: 15,
+      color: colors.text,
+    },
+  });
+
+  const renderPilot = (item: ManagedPilot) => {
+    const isSelf = item.id === currentPilot?.id;
+    const busy = updatingId === item.id;
+
+    return (
+      <View key={item.id} style={[styles.card, !item.is_active && styles.inactiveCard]}>
+        <View style={styles.cardHeader}>
+          <View style={{ flex: 1 }}>
+            <Text style={styles.name}>
+              {item.first_name} {item.last_name}{isSelf ? ' (you)' : ''}
+            </Text>
+            <Text style={styles.details}>{item.email}</Text>
+            <Text style={styles.details}>
+              {item.license_type || 'No licence'}{item.license_number ? ` • ${item.license_number}` : ''}
+              {item.instructor_certificate ? ` • CFI ${item.instructor_certificate}` : ''}
+            </Text>
+            <Text style={styles.details}>
+              Last login: {item.last_login ? new Date(item.last_login).toLocaleString() : 'never'}
+              {item.totp_enabled ? ' • 2FA on' : ''}
+            </Text>
+            {item.is_locked && item.locked_until && (
+              <View style={styles.lockedRow}>
+                <Lock size={14} color={colors.error} />
+                <Text style={styles.lockedText}>
+                  Locked until {new Date(item.locked_until).toLocaleTimeString()}
+                </Text>
+                <TouchableOpacity onPress={() => handleUnlock(item)} disabled={busy}>
+                  <Text style={styles.unlockText}>Unlock</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+          {busy ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <Switch
+              value={item.is_active}
+              disabled={isSelf}
+              onValueChange={(value) => handleToggleActive(item, value)}
+              trackColor={{ false: colors.border, true: colors.primary + '80' }}
+              thumbColor={item.is_active ? colors.primary : colors.textSecondary}
+            />
+          )}
+        </View>
+
+        <View style={styles.chipRow}>
+          {ROLE_OPTIONS.map(option => {
+            const active = item.role === option.key;
+            return (
+              <TouchableOpacity
+                key={option.key}
+                style={[styles.chip, active && styles.chipActive]}
+                disabled={isSelf || busy}
+                onPress={() => handleRolePress(item, option.key)}
+              >
+                <Text style={[styles.chipText, active && styles.chipTextActive]}>{option.label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const activeCount = pilots.filter(item => item.is_active).length;
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <View style={styles.headerLeft}>
+          <TouchableOpacity
+            style={styles.menuButton}
+            onPress={() => setSidebarVisible(true)}
+          >
+            <Menu size={24} color="#ffffff" />
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>User Management</Text>
+        </View>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              fetchPilots();
+              fetchPolicies();
+            }}
+          />
+        }
+      >
+        {loading ? (
+          <ActivityIndicator size="large" color={colors.primary} />
+        ) : forbidden ? (
+          <View style={styles.emptyState}>
+            <ShieldAlert size={40} color={colors.textSecondary} />
+            <Text style={styles.emptyText}>You do not have permission to manage pilot accounts.</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.summary}>
+              <Users size={18} color={colors.primary} />
+              <Text style={styles.summaryText}>
+                {pilots.length} pilots • {activeCount} active
+              </Text>
+            </View>
+            {policies.length > 0 && (
+              <View style={styles.card}>
+                <View style={styles.policyTitle}>
+                  <ShieldCheck size={18} color={colors.primary} />
+                  <Text style={styles.name}>Require two-factor authentication</Text>
+                </View>
+                {policies.map(policy => (
+                  <View key={policy.role} style={styles.policyRow}>
+                    <Text style={styles.policyLabel}>
+                      {ROLE_OPTIONS.find(option => option.key === policy.role)?.label}s
+                    </Text>
+                    <Switch
+                      value={policy.required}
+                      onValueChange={(value) => handleTogglePolicy(policy.role, value)}
+                      trackColor={{ false: colors.border, true: colors.primary + '80' }}
+                      thumbColor={policy.required ? colors.primary : colors.textSecondary}
+                    />
+                  </View>
+                ))}
+              </View>
+            )}
+            {pilots.map(renderPilot)}
+          </>
+        )}
+      </ScrollView>
+
+      <Modal
+        visible={certificateFor !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setCertificateFor(null)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.name}>Make Instructor</Text>
+              <TouchableOpacity onPress={() => setCertificateFor(null)}>
+                <X size={22} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.details}>
+              {certificateFor?.first_name} {certificateFor?.last_name} will be able to sign student logbook entries.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={certificate}
+              onChangeText={setCertificate}
+              placeholder="Instructor certificate number"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="characters"
+            />
+            <TouchableOpacity style={styles.confirmButton} onPress={handleConfirmInstructor}>
+              <Text style={styles.confirmButtonText}>Save</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+
+      <Sidebar
+        visible={sidebarVisible}
+        onClose={() => setSidebarVisible(false)}
+      />
+    </SafeAreaView>
+  );
+}
@@ -11,10 +11,14 @@ import {
   TextInput,
   Dimensions
 } from 'react-native';
-import { Shield, User, Clock, FileText, Download, Filter, ChevronDown, ChevronUp, Plane, Calendar, MapPin, Menu, Search, TriangleAlert as AlertTriangle, CircleCheck as CheckCircle, Info, Circle as XCircle, Database, Activity, Eye } from 'lucide-react-native';
+import { Shield, User, Clock, FileText, Download, Filter, ChevronDown, ChevronUp, Plane, Calendar, MapPin, Menu, Search, TriangleAlert as AlertTriangle, CircleCheck as CheckCircle, Info, Circle as XCircle, Database, Activity, Eye, History, Lock, X } from 'lucide-react-native';
+import { useLocalSearchParams } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import Sidebar from '@/components/Sidebar';
+import AuditFilterPanel, { AuditFilters, AuditFacets, EMPTY_AUDIT_FILTERS } from '@/components/AuditFilterPanel';
+import * as WebBrowser from 'expo-web-browser';
+import type { SecuritySummary } from 'aviation-shared';
 import axios from 'axios';
 
 const { width } = Dimensions.get('window');
@@ -31,6 +35,33 @@ interface AuditLog {
   flight_details: any;
 }
 
+interface FlightRevision {
+  id: number;
+  version: number;
+  action: string;
+  user: string;
+  timestamp: string;
+  message: string | null;
+  changes: { [field: string]: { from: any; to: any } };
+  snapshot: any;
+}
+
+interface FlightHistory {
+  flightId: number;
+  deleted: boolean;
+  revisions: FlightRevision[];
+}
+
+interface ChainStatus {
+  valid: boolean;
+  checkedEntries: number;
+  unchainedEntries: number;
+  headHash: string | null;
+  firstBrokenId: number | null;
+  reason: string | null;
+  verifiedAt: string;
+}
+
 interface PaginationInfo {
   currentPage: number;
   totalPages: number;
@@ -41,13 +72,16 @@ interface PaginationInfo {
 export default function AuditScreen() {
   const { colors } = useTheme();
   const { token } = useAuth();
+  const params = useLocalSearchParams<{ flightId?: string }>();
   const [sidebarVisible, setSidebarVisible] = useState(false);
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [loading, setLoading] = useState(true);
   const [backupLoading, setBackupLoading] = useState(false);
   const [backupStatus, setBackupStatus] = useState('Healthy');
-  const [filter, setFilter] = useState('all');
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_AUDIT_FILTERS);
+  const [facets, setFacets] = useState<AuditFacets>({ actions: [], entities: [], users: [] });
   const [searchQuery, setSearchQuery] = useState('');
+  const [appliedQuery, setAppliedQuery] = useState('');
   const [expandedLogs, setExpandedLogs] = useState<{[key: string]: boolean}>({});
   const [pagination, setPagination] = useState<PaginationInfo>({
     currentPage: 1,
@@ -56,11 +90,150 @@ export default function AuditScreen() {
     itemsPerPage: 20
   });
   const [error, setError] = useState<string | null>(null);
+  const [historyFlightId, setHistoryFlightId] = useState<string | null>(params.flightId || null);
+  const [flightHistory, setFlightHistory] = useState<FlightHistory | null>(null);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [chainStatus, setChainStatus] = useState<ChainStatus | null>(null);
+  const [chainLoading, setChainLoading] = useState(false);
+  const [securitySummary, setSecuritySummary] = useState<SecuritySummary | null>(null);
   const tabBarHeight = Platform.OS === 'ios' ? 85 : 70;
 
   useEffect(() => {
     fetchAuditLogs();
-  }, [filter, pagination.currentPage, token]);
+  }, [filters, appliedQuery, pagination.currentPage, token]);
+
+  useEffect(() => {
+    fetchFacets();
+    fetchSecuritySummary();
+  }, [token]);
+
+  useEffect(() => {
+    if (params.flightId) setHistoryFlightId(params.flightId);
+  }, [params.flightId]);
+
+  useEffect(() => {
+    verifyAuditChain();
+  }, [token]);
+
+  const verifyAuditChain = async () => {
+    if (!token) return;
+
+    setChainLoading(true);
+    try {
+      const response = await axios.get(
+        'http://192.168.36.138:5000/audit-logs/verify',
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: 30000
+        }
+      );
+      setChainStatus(response.data);
+    } catch (error: any) {
+      console.error('Error verifying audit chain:', error);
+      setChainStatus(null);
+    } finally {
+      setChainLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchFlightHistory();
+  }, [historyFlightId, token]);
+
+  const fetchFlightHistory = async () => {
+    if (!historyFlightId || !token) {
+      setFlightHistory(null);
+      return;
+    }
+
+    setHistoryLoading(true);
+    try {
+      const response = await axios.get(
+        `http://192.168.36.138:5000/flights/${historyFlightId}/history`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          },
+          timeout: 10000
+        }
+      );
+      setFlightHistory(response.data);
+    } catch (error: any) {
+      console.error('Error fetching flight history:', error);
+      setError(error.response?.data?.message || 'Failed to fetch flight history');
+      setFlightHistory(null);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  // Filters and the free-text search are applied on the server
+  const buildQueryParams = () => ({
+    entity: filters.entity,
+    action: filters.actions.join(',') || undefined,
+    userId: filters.userId || undefined,
+    from: filters.from || undefined,
+    to: filters.to || undefined,
+    q: appliedQuery || undefined,
+    sort: filters.sort,
+    order: filters.order
+  });
+
+  const fetchFacets = async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get(
+        'http://192.168.36.138:5000/audit-logs/facets',
+        { headers: { Authorization: `Bearer ${token}` }, timeout: 10000 }
+      );
+      setFacets(response.data);
+    } catch (error: any) {
+      console.error('Error fetching audit facets:', error);
+    }
+  };
+
+  const fetchSecuritySummary = async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get(
+        'http://192.168.36.138:5000/audit-logs/security-summary',
+        { headers: { Authorization: `Bearer ${token}` }, timeout: 10000 }
+      );
+      setSecuritySummary(response.data);
+    } catch (error: any) {
+      console.error('Error fetching security summary:', error);
+    }
+  };
+
+  const applyFilters = (next: AuditFilters) => {
+    setFilters(next);
+    setPagination(prev => ({ ...prev, currentPage: 1 }));
+  };
+
+  const exportAuditLogs = async (format: 'csv' | 'json') => {
+    try {
+      const response = await axios.post(
+        'http://192.168.36.138:5000/audit-logs/export-link',
+        { ...buildQueryParams(), format },
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'Content-Type': 'application/json'
+          }
+        }
+      );
+      await WebBrowser.openBrowserAsync(response.data.url);
+    } catch (error: any) {
+      console.error('Error exporting audit logs:', error);
+      setError(error.response?.data?.message || 'Failed to export audit logs');
+    }
+  };
 
   const fetchAuditLogs = async () => {
     setLoading(true);
@@ -81,7 +254,7 @@ export default function AuditScreen() {
           params: {
             page: pagination.currentPage,
             limit: pagination.itemsPerPage,
-            filter: filter
+            ...buildQueryParams()
           },
           timeout: 10000
         }
@@ -149,10 +322,21 @@ export default function AuditScreen() {
       case 'logout':
       case 'registered':
         return User;
+      case 'login_failed':
+        return AlertTriangle;
+      case 'account_locked':
+      case 'account_unlocked':
+        return Lock;
       case 'created':
+      case 'updated':
       case 'flight_added': 
       case 'flight_updated': 
         return Plane;
+      case 'deleted':
+        return XCircle;
+      case 'signed':
+      case 'amended':
+        return CheckCircle;
       case 'schedule_modified': 
         return Clock;
       case 'backup':
@@ -173,6 +357,7 @@ export default function AuditScreen() {
       case 'login':
       case 'registered':
       case 'created':
+      case 'signed':
       case 'backup_completed':
       case 'backup':
         return '#10b981'; // Green
@@ -180,11 +365,17 @@ export default function AuditScreen() {
       case 'data_export':
       case 'analytics_viewed':
         return colors.primary; // Blue
+      case 'updated':
+      case 'amended':
       case 'flight_updated':
       case 'schedule_modified':
+      case 'account_unlocked':
         return '#f59e0b'; // Orange
+      case 'deleted':
       case 'error':
       case 'failed':
+      case 'login_failed':
+      case 'account_locked':
         return '#ef4444'; // Red
       default: 
         return '#6b7280'; // Gray
@@ -206,19 +397,6 @@ export default function AuditScreen() {
     }
   };
 
-  const filteredLogs = auditLogs.filter(log => {
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      return (
-        log.user_name.toLowerCase().includes(query) ||
-        log.action.toLowerCase().includes(query) ||
-        log.entity.toLowerCase().includes(query) ||
-        (log.details && JSON.stringify(log.details).toLowerCase().includes(query))
-      );
-    }
-    return true;
-  });
-
   const AuditLogCard = ({ log }: { log: AuditLog }) => {
     const Icon = getActionIcon(log.action);
     const isExpanded = expandedLogs[log.id.toString()];
@@ -311,12 +489,114 @@ export default function AuditScreen() {
                 </Text>
               </View>
             </View>
+
+            {log.entity === 'flight' && (
+              <TouchableOpacity
+                style={styles.historyLink}
+                onPress={() => setHistoryFlightId(log.entity_id)}
+              >
+                <History size={16} color={colors.primary} />
+                <Text style={styles.historyLinkText}>View revision history</Text>
+              </TouchableOpacity>
+            )}
           </View>
         )}
       </TouchableOpacity>
     );
   };
 
+  const formatValue = (value: any) => (value === null || value === undefined || value === '' ? '—' : String(value));
+
+  const FlightHistoryCard = () => {
+    if (!historyFlightId) return null;
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <History size={20} color={colors.primary} />
+          <Text style={[styles.sectionTitle, { flex: 1 }]}>
+            Flight #{historyFlightId} Revisions{flightHistory?.deleted ? ' (deleted)' : ''}
+          </Text>
+          <TouchableOpacity onPress={() => setHistoryFlightId(null)}>
+            <X size={20} color={colors.textSecondary} />
+          </TouchableOpacity>
+        </View>
+
+        {historyLoading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : (
+          flightHistory?.revisions.map((revision) => (
+            <View
+              key={revision.id}
+              style={[styles.logCard, { borderLeftColor: getActionColor(revision.action) }]}
+            >
+              <Text style={styles.logAction}>
+                v{revision.version} • {revision.action.toUpperCase()}
+              </Text>
+              <Text style={styles.logTimestamp}>
+                {new Date(revision.timestamp).toLocaleString()} • {revision.user}
+              </Text>
+              {revision.message && <Text style={styles.logDetails}>{revision.message}</Text>}
+              {Object.entries(revision.changes).map(([field, change]) => (
+                <Text key={field} style={styles.detailLabel}>
+                  {field.replace(/_/g, ' ')}: {formatValue(change.from)} → {formatValue(change.to)}
+                </Text>
+              ))}
+            </View>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  const ChainIntegrityCard = () => {
+    const statusColor = !chainStatus ? colors.textSecondary : chainStatus.valid ? '#10b981' : '#ef4444';
+
+    return (
+      <View style={styles.backupCard}>
+        <View style={styles.backupHeader}>
+          <View style={[styles.iconContainer, { backgroundColor: statusColor + '20' }]}>
+            {chainStatus && !chainStatus.valid ? (
+              <AlertTriangle color={statusColor} size={24} />
+            ) : (
+              <Shield color={statusColor} size={24} />
+            )}
+          </View>
+          <Text style={styles.backupTitle}>Audit Chain Integrity</Text>
+        </View>
+
+        <View style={styles.backupStatus}>
+          <Text style={styles.statusLabel}>Status:</Text>
+          <Text style={[styles.statusText, { color: statusColor }]}>
+            {chainLoading ? 'Verifying...' : !chainStatus ? 'Unknown' : chainStatus.valid ? 'Intact' : 'Broken'}
+          </Text>
+        </View>
+
+        {chainStatus && (
+          <Text style={styles.backupDescription}>
+            {chainStatus.valid
+              ? `${chainStatus.checkedEntries} chained entries verified` +
+                (chainStatus.unchainedEntries > 0 ? ` (${chainStatus.unchainedEntries} older entries predate the chain)` : '') +
+                `. Last checked ${new Date(chainStatus.verifiedAt).toLocaleString()}.`
+              : `First broken link at entry #${chainStatus.firstBrokenId}: ${chainStatus.reason}`}
+          </Text>
+        )}
+
+        <TouchableOpacity
+          style={[styles.backupButton, chainLoading && styles.backupButtonDisabled]}
+          onPress={verifyAuditChain}
+          disabled={chainLoading}
+        >
+          {chainLoading ? (
+            <ActivityIndicator size="small" color="#ffffff" />
+          ) : (
+            <Text style={styles.backupButtonText}>Verify Now</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
   const BackupStatusCard = () => (
     <View style={styles.backupCard}>
       <View style={styles.backupHeader}>
@@ -507,32 +787,6 @@ export default function AuditScreen() {
       color: colors.text,
       marginLeft: 8,
     },
-    filterButtons: {
-      flexDirection: 'row',
-      flexWrap: 'wrap',
-      marginBottom: 16,
-      gap: 8,
-    },
-    filterButton: {
-      backgroundColor: colors.surface,
-      borderRadius: 8,
-      paddingHorizontal: 12,
-      paddingVertical: 6,
-      borderWidth: 1,
-      borderColor: colors.border,
-    },
-    filterButtonActive: {
-      backgroundColor: colors.primary,
-      borderColor: colors.primary,
-    },
-    filterButtonText: {
-      fontSize: 12,
-      fontWeight: '600',
-      color: colors.textSecondary,
-    },
-    filterButtonTextActive: {
-      color: '#ffffff',
-    },
     logCard: {
       backgroundColor: colors.card,
       borderRadius: 12,
@@ -604,6 +858,17 @@ export default function AuditScreen() {
     technicalDetails: {
       marginTop: 8,
     },
+    historyLink: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginTop: 8,
+    },
+    historyLinkText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.primary,
+    },
     detailsTitle: {
       fontSize: 14,
       fontWeight: '600',
@@ -746,9 +1011,15 @@ export default function AuditScreen() {
           </View>
         )}
 
+        {/* Audit Chain Integrity */}
+        <ChainIntegrityCard />
+
         {/* Backup Status Card */}
         <BackupStatusCard />
 
+        {/* Flight Revision History */}
+        <FlightHistoryCard />
+
         {/* Audit Logs Section */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -765,34 +1036,26 @@ export default function AuditScreen() {
               placeholderTextColor={colors.textSecondary}
               value={searchQuery}
               onChangeText={setSearchQuery}
+              onSubmitEditing={() => {
+                setAppliedQuery(searchQuery.trim());
+                setPagination(prev => ({ ...prev, currentPage: 1 }));
+              }}
+              returnKeyType="search"
             />
           </View>
 
-          {/* Filter Buttons */}
-          <View style={styles.filterButtons}>
-            {['all', 'pilot', 'flight', 'system'].map((filterType) => (
-              <TouchableOpacity
-                key={filterType}
-                style={[
-                  styles.filterButton,
-                  filter === filterType && styles.filterButtonActive
-                ]}
-                onPress={() => setFilter(filterType)}
-              >
-                <Text style={[
-                  styles.filterButtonText,
-                  filter === filterType && styles.filterButtonTextActive
-                ]}>
-                  {filterType.charAt(0).toUpperCase() + filterType.slice(1)}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
+          {/* Filter Panel */}
+          <AuditFilterPanel
+            filters={filters}
+            facets={facets}
+            onApply={applyFilters}
+            onExport={exportAuditLogs}
+          />
 
           {/* Audit Logs List */}
-          {filteredLogs.length > 0 ? (
+          {auditLogs.length > 0 ? (
             <>
-              {filteredLogs.map((log) => (
+              {auditLogs.map((log) => (
                 <AuditLogCard key={log.id} log={log} />
               ))}
               
@@ -841,7 +1104,7 @@ export default function AuditScreen() {
             <View style={styles.emptyState}>
               <Shield color={colors.textSecondary} size={48} />
               <Text style={styles.emptyText}>
-                {searchQuery ? `No logs match "${searchQuery}"` : 'No audit logs found'}
+                {appliedQuery ? `No logs match "${appliedQuery}"` : 'No audit logs found'}
               </Text>
             </View>
           )}
@@ -857,7 +1120,7 @@ export default function AuditScreen() {
           <View style={styles.summaryGrid}>
             <View style={styles.summaryCard}>
               <User color="#10b981" size={24} />
-              <Text style={styles.summaryValue}>1</Text>
+              <Text style={styles.summaryValue}>{securitySummary ? securitySummary.activeUsers : '-'}</Text>
               <Text style={styles.summaryLabel}>Active Users</Text>
             </View>
             
@@ -866,6 +1129,20 @@ export default function AuditScreen() {
               <Text style={styles.summaryValue}>{pagination.totalItems}</Text>
               <Text style={styles.summaryLabel}>Total Events</Text>
             </View>
+
+            <View style={styles.summaryCard}>
+              <AlertTriangle color="#ef4444" size={24} />
+              <Text style={styles.summaryValue}>{securitySummary ? securitySummary.failedLogins : '-'}</Text>
+              <Text style={styles.summaryLabel}>Failed Logins ({securitySummary?.windowHours ?? 24}h)</Text>
+            </View>
+
+            <View style={styles.summaryCard}>
+              <Lock color="#ef4444" size={24} />
+              <Text style={styles.summaryValue}>
+                {securitySummary ? `${securitySummary.accountLockouts} / ${securitySummary.lockedAccounts}` : '-'}
+              </Text>
+              <Text style={styles.summaryLabel}>Lockouts / Locked Now</Text>
+            </View>
             
             <View style={styles.summaryCard}>
               <Download color="#f59e0b" size={24} />
@@ -1,28 +1,70 @@
 // app/auth.tsx
 
 import React, { useState } from 'react';
-import { useRouter } from 'expo-router';
-import AuthForm from '@/components/AuthForm';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import AuthForm, { AuthMode } from '@/components/AuthForm';
+import TwoFactorEnrollment from '@/components/TwoFactorEnrollment';
 import { useAuth } from '@/contexts/AuthContext';
 
+const LINK_MODES: AuthMode[] = ['reset', 'verify'];
+
 export default function AuthScreen() {
   const router = useRouter();
-  const { login, register } = useAuth();
-  const [mode, setMode] = useState<'login' | 'register'>('login');
+  // Links in reset and verification emails open /auth?mode=reset&token=...
+  const params = useLocalSearchParams<{ mode?: string; token?: string }>();
+  const {
+    twoFactor,
+    login,
+    verifyTwoFactor,
+    completeTwoFactorSetup,
+    cancelTwoFactor,
+    register,
+    requestPasswordReset,
+    resetPassword,
+    verifyEmail
+  } = useAuth();
+  const [mode, setMode] = useState<AuthMode>(
+    LINK_MODES.includes(params.mode as AuthMode) ? params.mode as AuthMode : 'login'
+  );
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const formMode: AuthMode = twoFactor?.type === 'code' ? 'twoFactor' : mode;
+
+  const handleModeChange = (newMode: AuthMode) => {
+    cancelTwoFactor();
+    setError(null);
+    setNotice(null);
+    setMode(newMode);
+  };
 
   const handleSubmit = async (data: any) => {
     setLoading(true);
     setError(null);
+    setNotice(null);
 
     try {
-      if (mode === 'login') {
-        await login(data.email, data.password);
-        router.replace('/'); // redirect to dashboard after login
-      } else {
+      if (formMode === 'twoFactor') {
+        await verifyTwoFactor(data.code);
+        router.replace('/');
+      } else if (mode === 'login') {
+        if (await login(data.email, data.password)) {
+          router.replace('/'); // redirect to dashboard after login
+        }
+      } else if (mode === 'register') {
         await register(data);
+        setNotice('Account created. Check your email for a link to verify your address.');
         setMode('login'); // after register switch to login mode
+      } else if (mode === 'forgot') {
+        setNotice(await requestPasswordReset(data.email));
+        setMode('reset');
+      } else if (mode === 'reset') {
+        setNotice(await resetPassword(data.token, data.password));
+        setMode('login');
+      } else {
+        setNotice(await verifyEmail(data.token));
+        setMode('login');
       }
     } catch (e: any) {
       setError(e.message || 'Something went wrong');
@@ -31,13 +73,28 @@ export default function AuthScreen() {
     }
   };
 
+  if (twoFactor?.type === 'setup') {
+    return (
+      <TwoFactorEnrollment
+        enrollmentToken={twoFactor.token}
+        onComplete={async (result) => {
+          await completeTwoFactorSetup(result);
+          router.replace('/');
+        }}
+        onCancel={cancelTwoFactor}
+      />
+    );
+  }
+
   return (
     <AuthForm
-      mode={mode}
+      mode={formMode}
       onSubmit={handleSubmit}
-      onModeChange={setMode}
+      onModeChange={handleModeChange}
       loading={loading}
       error={error}
+      notice={notice}
+      initialToken={params.token}
     />
   );
 }
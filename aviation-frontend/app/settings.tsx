@@ -1,18 +1,80 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity, Switch, Platform } from 'react-native';
-import { User, Bell, Shield, Database, Download, Upload, Moon, Plane, Mail, Phone, CreditCard as Edit3, Menu } from 'lucide-react-native';
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, SafeAreaView, ScrollView, TouchableOpacity, Switch, Platform, Alert } from 'react-native';
+import { User, Bell, Shield, Database, Download, Upload, Moon, Plane, Mail, Phone, CreditCard as Edit3, Menu, Smartphone, ShieldCheck } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useUser } from '@/contexts/UserContext';
+import { useAuth } from '@/contexts/AuthContext';
 import Sidebar from '@/components/Sidebar';
 import DataTable from '@/components/DataTable';
+import CredentialsSection from '@/components/CredentialsSection';
+import LogbookExportModal from '@/components/LogbookExportModal';
+import LogbookImportModal from '@/components/LogbookImportModal';
+import BackupsModal from '@/components/BackupsModal';
+import SessionsModal from '@/components/SessionsModal';
+import TwoFactorModal from '@/components/TwoFactorModal';
 import { mockAuditLogs } from '@/data/mockData';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
 
 export default function Settings() {
   const { colors, theme, toggleTheme, isDark } = useTheme();
   const { user } = useUser();
+  const { token, pilot, resendVerification } = useAuth();
   const [sidebarVisible, setSidebarVisible] = useState(false);
   const [notifications, setNotifications] = useState(true);
   const [autoBackup, setAutoBackup] = useState(true);
+  const [exportVisible, setExportVisible] = useState(false);
+  const [importVisible, setImportVisible] = useState(false);
+  const [backupsVisible, setBackupsVisible] = useState(false);
+  const [sessionsVisible, setSessionsVisible] = useState(false);
+  const [twoFactorVisible, setTwoFactorVisible] = useState(false);
+  const [creatingBackup, setCreatingBackup] = useState(false);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    axios.get(`${API_BASE_URL}/backups/settings`, { headers: getAuthHeaders() })
+      .then(response => setAutoBackup(response.data.autoBackup))
+      .catch((error: any) => {
+        console.error('Error fetching backup settings:', error.response?.data?.message || error.message);
+      });
+  }, [token, getAuthHeaders]);
+
+  const handleAutoBackupChange = async (value: boolean) => {
+    setAutoBackup(value);
+    try {
+      await axios.put(`${API_BASE_URL}/backups/settings`, { autoBackup: value }, { headers: getAuthHeaders() });
+    } catch (error: any) {
+      setAutoBackup(!value);
+      Alert.alert('Error', error.response?.data?.message || 'Could not update the backup setting');
+    }
+  };
+
+  const handleCreateBackup = async () => {
+    setCreatingBackup(true);
+    try {
+      const response = await axios.post(`${API_BASE_URL}/perform-backup`, {}, { headers: getAuthHeaders() });
+      Alert.alert('Backup created', response.data.message);
+    } catch (error: any) {
+      Alert.alert('Backup failed', error.response?.data?.message || 'Could not create a backup');
+    } finally {
+      setCreatingBackup(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    try {
+      Alert.alert('Verification email sent', await resendVerification());
+    } catch (error: any) {
+      Alert.alert('Error', error.message || 'Could not send the verification email');
+    }
+  };
 
   const styles = StyleSheet.create({
     container: {
@@ -262,6 +324,8 @@ export default function Settings() {
               <Edit3 size={16} color={colors.primary} />
             </TouchableOpacity>
           </View>
+
+          <CredentialsSection />
         </View>
 
         {/* Preferences Section */}
@@ -315,6 +379,31 @@ export default function Settings() {
           </View>
         </View>
 
+        {/* Security Section */}
+        <View style={styles.section}>
+          <View style={styles.sectionTitle}>
+            <Shield size={24} color={colors.primary} />
+            <Text style={styles.sectionTitleText}>Security</Text>
+          </View>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => setSessionsVisible(true)}>
+            <Smartphone size={20} color="#ffffff" />
+            <Text style={styles.buttonText}>Signed-in Devices</Text>
+          </TouchableOpacity>
+
+          <TouchableOpacity style={styles.actionButton} onPress={() => setTwoFactorVisible(true)}>
+            <ShieldCheck size={20} color="#ffffff" />
+            <Text style={styles.buttonText}>Two-Factor Authentication</Text>
+          </TouchableOpacity>
+
+          {pilot?.emailVerified === false && (
+            <TouchableOpacity style={styles.actionButton} onPress={handleResendVerification}>
+              <Mail size={20} color="#ffffff" />
+              <Text style={styles.buttonText}>Resend Verification Email</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
         {/* Data Management Section */}
         <View style={styles.section}>
           <View style={styles.sectionTitle}>
@@ -331,28 +420,28 @@ export default function Settings() {
             </View>
             <Switch
               value={autoBackup}
-              onValueChange={setAutoBackup}
+              onValueChange={handleAutoBackupChange}
               trackColor={{ false: colors.border, true: colors.primary + '80' }}
               thumbColor={autoBackup ? colors.primary : colors.textSecondary}
             />
           </View>
           
-          <TouchableOpacity style={styles.actionButton}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setExportVisible(true)}>
             <Download size={20} color="#ffffff" />
             <Text style={styles.buttonText}>Export Flight Data</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.actionButton}>
+          <TouchableOpacity style={styles.actionButton} onPress={() => setImportVisible(true)}>
             <Upload size={20} color="#ffffff" />
             <Text style={styles.buttonText}>Import Flight Data</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity style={styles.actionButton}>
+          <TouchableOpacity style={styles.actionButton} onPress={handleCreateBackup} disabled={creatingBackup}>
             <Database size={20} color="#ffffff" />
-            <Text style={styles.buttonText}>Create Backup</Text>
+            <Text style={styles.buttonText}>{creatingBackup ? 'Creating Backup...' : 'Create Backup'}</Text>
           </TouchableOpacity>
           
-          <TouchableOpacity style={[styles.actionButton, styles.dangerButton]}>
+          <TouchableOpacity style={[styles.actionButton, styles.dangerButton]} onPress={() => setBackupsVisible(true)}>
             <Database size={20} color="#ffffff" />
             <Text style={styles.buttonText}>Restore from Backup</Text>
           </TouchableOpacity>
@@ -368,6 +457,31 @@ export default function Settings() {
         </View>
       </ScrollView>
 
+      <LogbookExportModal
+        visible={exportVisible}
+        onClose={() => setExportVisible(false)}
+      />
+
+      <LogbookImportModal
+        visible={importVisible}
+        onClose={() => setImportVisible(false)}
+      />
+
+      <BackupsModal
+        visible={backupsVisible}
+        onClose={() => setBackupsVisible(false)}
+      />
+
+      <SessionsModal
+        visible={sessionsVisible}
+        onClose={() => setSessionsVisible(false)}
+      />
+
+      <TwoFactorModal
+        visible={twoFactorVisible}
+        onClose={() => setTwoFactorVisible(false)}
+      />
+
       <Sidebar 
         visible={sidebarVisible}
         onClose={() => setSidebarVisible(false)}
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, ScrollView, Alert } from 'react-native';
+import { Filter, ChevronDown, ChevronUp, Download } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface AuditFilters {
+  entity: string;
+  actions: string[];
+  userId: string;
+  from: string;
+  to: string;
+  sort: 'timestamp' | 'action' | 'entity' | 'user_id';
+  order: 'asc' | 'desc';
+}
+
+export interface AuditFacets {
+  actions: string[];
+  entities: string[];
+  users: string[];
+}
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = {
+  entity: 'all',
+  actions: [],
+  userId: '',
+  from: '',
+  to: '',
+  sort: 'timestamp',
+  order: 'desc',
+};
+
+const SORT_OPTIONS: { key: AuditFilters['sort']; label: string }[] = [
+  { key: 'timestamp', label: 'Time' },
+  { key: 'action', label: 'Action' },
+  { key: 'entity', label: 'Entity' },
+  { key: 'user_id', label: 'User' },
+];
+
+interface AuditFilterPanelProps {
+  filters: AuditFilters;
+  facets: AuditFacets;
+  onApply: (filters: AuditFilters) => void;
+  onExport: (format: 'csv' | 'json') => void;
+}
+
+export default function AuditFilterPanel({ filters, facets, onApply, onExport }: AuditFilterPanelProps) {
+  const { colors } = useTheme();
+  const [expanded, setExpanded] = useState(false);
+  const [draft, setDraft] = useState<AuditFilters>(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const activeCount =
+    (filters.entity !== 'all' ? 1 : 0) +
+    (filters.actions.length > 0 ? 1 : 0) +
+    (filters.userId ? 1 : 0) +
+    (filters.from || filters.to ? 1 : 0);
+
+  const toggleAction = (action: string) => {
+    setDraft(prev => ({
+      ...prev,
+      actions: prev.actions.includes(action)
+        ? prev.actions.filter(item => item !== action)
+        : [...prev.actions, action],
+    }));
+  };
+
+  const handleApply = () => {
+    if ((draft.from && !DATE_PATTERN.test(draft.from)) || (draft.to && !DATE_PATTERN.test(draft.to))) {
+      Alert.alert('Invalid date', 'Use the YYYY-MM-DD format, or leave a date empty.');
+      return;
+    }
+    onApply(draft);
+    setExpanded(false);
+  };
+
+  const handleReset = () => {
+    setDraft(EMPTY_AUDIT_FILTERS);
+    onApply(EMPTY_AUDIT_FILTERS);
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: colors.card,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 16,
+    },
+    headerRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+    },
+    headerLeft: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    headerText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    label: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginTop: 12,
+      marginBottom: 6,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    chip: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 12,
+      fontWeight: '600',
+      color: colors.textSecondary,
+    },
+    chipTextActive: {
+      color: '#ffffff',
+    },
+    dateRow: {
+      flexDirection: 'row',
+      gap: 8,
+    },
+    input: {
+      flex: 1,
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      paddingHorizontal: 10,
+      paddingVertical: 8,
+      fontSize: 14,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 16,
+    },
+    button: {
+      flex: 1,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 6,
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      paddingVertical: 10,
+    },
+    secondaryButton: {
+      backgroundColor: colors.surface,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    buttonText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: '#ffffff',
+    },
+    secondaryButtonText: {
+      color: colors.text,
+    },
+  });
+
+  const renderChip = (key: string, label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={key} style={[styles.chip, active && styles.chipActive]} onPress={onPress}>
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity style={styles.headerRow} onPress={() => setExpanded(!expanded)}>
+        <View style={styles.headerLeft}>
+          <Filter size={18} color={colors.primary} />
+          <Text style={styles.headerText}>
+            Filters{activeCount > 0 ? ` (${activeCount} active)` : ''}
+          </Text>
+        </View>
+        {expanded ? (
+          <ChevronUp size={18} color={colors.textSecondary} />
+        ) : (
+          <ChevronDown size={18} color={colors.textSecondary} />
+        )}
+      </TouchableOpacity>
+
+      {expanded && (
+        <>
+          <Text style={styles.label}>Entity</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {['all', ...facets.entities].map(entity =>
+                renderChip(entity, entity === 'all' ? 'All' : entity, draft.entity === entity, () =>
+                  setDraft(prev => ({ ...prev, entity }))
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <Text style={styles.label}>Actions</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {facets.actions.map(action =>
+                renderChip(action, action.replace(/_/g, ' '), draft.actions.includes(action), () => toggleAction(action))
+              )}
+            </View>
+          </ScrollView>
+
+          <Text style={styles.label}>User</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <View style={styles.chipRow}>
+              {['', ...facets.users].map(user =>
+                renderChip(user || 'any', user || 'Anyone', draft.userId === user, () =>
+                  setDraft(prev => ({ ...prev, userId: user }))
+                )
+              )}
+            </View>
+          </ScrollView>
+
+          <Text style={styles.label}>Date range (YYYY-MM-DD)</Text>
+          <View style={styles.dateRow}>
+            <TextInput
+              style={styles.input}
+              value={draft.from}
+              onChangeText={(from) => setDraft(prev => ({ ...prev, from }))}
+              placeholder="From"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+            />
+            <TextInput
+              style={styles.input}
+              value={draft.to}
+              onChangeText={(to) => setDraft(prev => ({ ...prev, to }))}
+              placeholder="To"
+              placeholderTextColor={colors.textSecondary}
+              autoCapitalize="none"
+            />
+          </View>
+
+          <Text style={styles.label}>Sort by</Text>
+          <View style={styles.chipRow}>
+            {SORT_OPTIONS.map(option =>
+              renderChip(option.key, option.label, draft.sort === option.key, () =>
+                setDraft(prev => ({ ...prev, sort: option.key }))
+              )
+            )}
+            {renderChip('order', draft.order === 'desc' ? 'Descending' : 'Ascending', false, () =>
+              setDraft(prev => ({ ...prev, order: prev.order === 'desc' ? 'asc' : 'desc' }))
+            )}
+          </View>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={handleReset}>
+              <Text style={[styles.buttonText, styles.secondaryButtonText]}>Reset</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.button} onPress={handleApply}>
+              <Text style={styles.buttonText}>Apply</Text>
+            </TouchableOpacity>
+          </View>
+        </>
+      )}
+
+      <View style={styles.buttonRow}>
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={() => onExport('csv')}>
+          <Download size={16} color={colors.text} />
+          <Text style={[styles.buttonText, styles.secondaryButtonText]}>Export CSV</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={[styles.button, styles.secondaryButton]} onPress={() => onExport('json')}>
+          <Download size={16} color={colors.text} />
+          <Text style={[styles.buttonText, styles.secondaryButtonText]}>Export JSON</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
@@ -1,6 +1,6 @@
 // components/AuthForm.tsx
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Image } from 'react-native';
 import {
   View,
@@ -21,18 +21,59 @@ import {
   Eye,
   EyeOff,
   UserPlus,
-  LogIn
+  LogIn,
+  KeyRound,
+  MailCheck,
+  Send,
+  ShieldCheck
 } from 'lucide-react-native';
 
+export type AuthMode = 'login' | 'register' | 'forgot' | 'reset' | 'verify' | 'twoFactor';
+
 interface AuthFormProps {
-  mode: 'login' | 'register';
+  mode: AuthMode;
   onSubmit?: (data: any) => void;
-  onModeChange?: (mode: 'login' | 'register') => void;
+  onModeChange?: (mode: AuthMode) => void;
   loading: boolean;
   error: string | null;
+  notice?: string | null;
+  initialToken?: string;
 }
 
-const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loading, error }) => {
+const MODE_TEXT: Record<AuthMode, { title: string; subtitle: string; submit: string }> = {
+  login: {
+    title: 'Pilot Aviation Logbook',
+    subtitle: 'Sign in to access your flight dashboard',
+    submit: 'Sign In',
+  },
+  register: {
+    title: 'Join FlightLog',
+    subtitle: 'Create your pilot account to get started',
+    submit: 'Create Account',
+  },
+  forgot: {
+    title: 'Forgot Password',
+    subtitle: "Enter your email and we'll send you a reset code",
+    submit: 'Send Reset Email',
+  },
+  reset: {
+    title: 'Reset Password',
+    subtitle: 'Enter the code from the reset email and choose a new password',
+    submit: 'Update Password',
+  },
+  verify: {
+    title: 'Verify Email',
+    subtitle: 'Enter the code from the verification email',
+    submit: 'Verify Email',
+  },
+  twoFactor: {
+    title: 'Two-Factor Authentication',
+    subtitle: 'Enter the 6-digit code from your authenticator app, or one of your recovery codes',
+    submit: 'Verify',
+  },
+};
+
+const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loading, error, notice, initialToken }) => {
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -40,11 +81,24 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loadi
     firstName: '',
     lastName: '',
     licenseNumber: '',
-    licenseType: 'PPL'
+    licenseType: 'PPL',
+    token: initialToken || '',
+    code: ''
   });
 
   const [showPassword, setShowPassword] = useState(false);
 
+  // Reset and verification links open this screen with the code already filled in
+  useEffect(() => {
+    if (initialToken) {
+      setFormData(prev => ({ ...prev, token: initialToken }));
+    }
+  }, [initialToken]);
+
+  const showEmail = mode === 'login' || mode === 'register' || mode === 'forgot';
+  const showPasswordField = mode === 'login' || mode === 'register' || mode === 'reset';
+  const showToken = mode === 'reset' || mode === 'verify';
+
   const handleChange = (name: string, value: string) => {
     setFormData(prev => ({
       ...prev,
@@ -68,7 +122,7 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loadi
     }
   };
 
-  const handleModeChange = (newMode: 'login' | 'register') => {
+  const handleModeChange = (newMode: AuthMode) => {
     if (onModeChange) {
       onModeChange(newMode);
     }
@@ -86,15 +140,13 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loadi
       >
         <View style={styles.container}>
           <View style={styles.header}>
-            <Text style={styles.title}>{mode === 'login' ? 'Pilot Aviation Logbook' : 'Join FlightLog'}</Text>
+            <Text style={styles.title}>{MODE_TEXT[mode].title}</Text>
             <View style={styles.iconWrapper}>
               <Image source={require('../assets/images/logo.jpg')} style={styles.logoImage} />
             </View>
 
             
-            <Text style={styles.subtitle}>
-              {mode === 'login' ? 'Sign in to access your flight dashboard' : 'Create your pilot account to get started'}
-            </Text>
+            <Text style={styles.subtitle}>{MODE_TEXT[mode].subtitle}</Text>
           </View>
 
           <View style={styles.formContainer}>
@@ -160,37 +212,88 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loadi
               </>
             )}
 
-            <View style={styles.inputGroup}>
-              <Text style={styles.label}>Email Address *</Text>
-              <View style={styles.inputContainer}>
-                <Mail size={20} color="#6b7280" style={styles.icon} />
-                <TextInput
-                  style={styles.input}
-                  placeholder="Enter your email"
-                  keyboardType="email-address"
-                  autoCapitalize="none"
-                  value={formData.email}
-                  onChangeText={(text) => handleChange('email', text)}
-                />
+            {showEmail && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Email Address *</Text>
+                <View style={styles.inputContainer}>
+                  <Mail size={20} color="#6b7280" style={styles.icon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Enter your email"
+                    keyboardType="email-address"
+                    autoCapitalize="none"
+                    value={formData.email}
+                    onChangeText={(text) => handleChange('email', text)}
+                  />
+                </View>
               </View>
-            </View>
+            )}
 
-            <View style={styles.inputGroup}>
-              <Text style={styles.label}>Password *</Text>
-              <View style={styles.inputContainer}>
-                <Lock size={20} color="#6b7280" style={styles.icon} />
-                <TextInput
-                  style={styles.input}
-                  placeholder={mode === 'register' ? 'Minimum 6 characters' : 'Enter your password'}
-                  secureTextEntry={!showPassword}
-                  value={formData.password}
-                  onChangeText={(text) => handleChange('password', text)}
-                />
-                <TouchableOpacity onPress={() => setShowPassword(!showPassword)} style={styles.eyeIcon}>
-                  {showPassword ? <EyeOff size={20} color="#6b7280" /> : <Eye size={20} color="#6b7280" />}
-                </TouchableOpacity>
+            {showToken && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>{mode === 'reset' ? 'Reset Code *' : 'Verification Code *'}</Text>
+                <View style={styles.inputContainer}>
+                  <KeyRound size={20} color="#6b7280" style={styles.icon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="Paste the code from the email"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    value={formData.token}
+                    onChangeText={(text) => handleChange('token', text.trim())}
+                  />
+                </View>
               </View>
-            </View>
+            )}
+
+            {mode === 'twoFactor' && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>Verification Code *</Text>
+                <View style={styles.inputContainer}>
+                  <ShieldCheck size={20} color="#6b7280" style={styles.icon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder="123456 or recovery code"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoFocus
+                    value={formData.code}
+                    onChangeText={(text) => handleChange('code', text.trim())}
+                    onSubmitEditing={handleSubmit}
+                  />
+                </View>
+              </View>
+            )}
+
+            {showPasswordField && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>{mode === 'reset' ? 'New Password *' : 'Password *'}</Text>
+                <View style={styles.inputContainer}>
+                  <Lock size={20} color="#6b7280" style={styles.icon} />
+                  <TextInput
+                    style={styles.input}
+                    placeholder={mode === 'login' ? 'Enter your password' : 'Minimum 6 characters'}
+                    secureTextEntry={!showPassword}
+                    value={formData.password}
+                    onChangeText={(text) => handleChange('password', text)}
+                  />
+                  <TouchableOpacity onPress={() => setShowPassword(!showPassword)} style={styles.eyeIcon}>
+                    {showPassword ? <EyeOff size={20} color="#6b7280" /> : <Eye size={20} color="#6b7280" />}
+                  </TouchableOpacity>
+                </View>
+                {mode === 'login' && (
+                  <TouchableOpacity onPress={() => handleModeChange('forgot')} style={styles.forgotLink}>
+                    <Text style={styles.switchModeText}>Forgot password?</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            )}
+
+            {notice && (
+              <View style={styles.noticeBox}>
+                <Text style={styles.noticeText}>{notice}</Text>
+              </View>
+            )}
 
             {error && (
               <View style={styles.errorBox}>
@@ -207,22 +310,45 @@ const AuthForm: React.FC<AuthFormProps> = ({ mode, onSubmit, onModeChange, loadi
                 <ActivityIndicator color="#fff" />
               ) : (
                 <View style={styles.submitContent}>
-                  {mode === 'login' ? <LogIn size={20} color="#fff" /> : <UserPlus size={20} color="#fff" />}
-                  <Text style={styles.submitText}>{mode === 'login' ? 'Sign In' : 'Create Account'}</Text>
+                  {mode === 'login' && <LogIn size={20} color="#fff" />}
+                  {mode === 'register' && <UserPlus size={20} color="#fff" />}
+                  {mode === 'forgot' && <Send size={20} color="#fff" />}
+                  {mode === 'reset' && <KeyRound size={20} color="#fff" />}
+                  {mode === 'verify' && <MailCheck size={20} color="#fff" />}
+                  {mode === 'twoFactor' && <ShieldCheck size={20} color="#fff" />}
+                  <Text style={styles.submitText}>{MODE_TEXT[mode].submit}</Text>
                 </View>
               )}
             </TouchableOpacity>
 
-            <View style={styles.switchModeWrapper}>
-              <Text style={styles.subtitle}>
-                {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}
-              </Text>
-              <TouchableOpacity onPress={() => handleModeChange(mode === 'login' ? 'register' : 'login')}>
-                <Text style={styles.switchModeText}>
-                  {mode === 'login' ? 'Sign up' : 'Sign in'}
+            {mode === 'login' || mode === 'register' ? (
+              <View style={styles.switchModeWrapper}>
+                <Text style={styles.subtitle}>
+                  {mode === 'login' ? "Don't have an account?" : 'Already have an account?'}
                 </Text>
-              </TouchableOpacity>
-            </View>
+                <TouchableOpacity onPress={() => handleModeChange(mode === 'login' ? 'register' : 'login')}>
+                  <Text style={styles.switchModeText}>
+                    {mode === 'login' ? 'Sign up' : 'Sign in'}
+                  </Text>
+                </TouchableOpacity>
+                {mode === 'login' && (
+                  <TouchableOpacity onPress={() => handleModeChange('verify')}>
+                    <Text style={styles.switchModeText}>Have an email verification code?</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+            ) : (
+              <View style={styles.switchModeWrapper}>
+                {mode === 'forgot' && (
+                  <TouchableOpacity onPress={() => handleModeChange('reset')}>
+                    <Text style={styles.switchModeText}>Already have a reset code?</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity onPress={() => handleModeChange('login')}>
+                  <Text style={styles.switchModeText}>Back to sign in</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </View>
 
           <View style={styles.footer}>
@@ -341,6 +467,22 @@ const styles = StyleSheet.create({
     fontSize: 14,
     textAlign: 'center',
   },
+  noticeBox: {
+    backgroundColor: '#dcfce7',
+    borderColor: '#86efac',
+    borderWidth: 1,
+    padding: 12,
+    borderRadius: 10,
+    marginBottom: 16,
+  },
+  noticeText: {
+    color: '#166534',
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  forgotLink: {
+    alignSelf: 'flex-end',
+  },
   submitButton: {
     backgroundColor: '#6366f1',
     paddingVertical: 16,
@@ -0,0 +1,247 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { Download, RotateCcw, Trash2, X } from 'lucide-react-native';
+import * as WebBrowser from 'expo-web-browser';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+interface Backup {
+  id: number;
+  timestamp: string;
+  backup_type: 'manual' | 'auto';
+  scope: 'full' | 'pilot';
+  pilot_id: number | null;
+  created_by: string | null;
+  size_bytes: number | null;
+  record_counts: Record<string, number> | null;
+}
+
+interface BackupsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number | null) => {
+  if (!bytes) return '—';
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function BackupsModal({ visible, onClose }: BackupsModalProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const fetchBackups = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await axios.get<Backup[]>(`${API_BASE_URL}/backups`, {
+        headers: getAuthHeaders()
+      });
+      setBackups(response.data);
+    } catch (error: any) {
+      console.error('Error fetching backups:', error.response?.data?.message || error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, getAuthHeaders]);
+
+  useEffect(() => {
+    if (visible) fetchBackups();
+  }, [visible, fetchBackups]);
+
+  const restore = async (backup: Backup) => {
+    setBusyId(backup.id);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/backups/${backup.id}/restore`,
+        { scope: backup.scope, pilotId: backup.pilot_id },
+        { headers: getAuthHeaders() }
+      );
+      const restored = Object.values<number>(response.data.restored || {}).reduce((sum, count) => sum + count, 0);
+      Alert.alert('Backup restored', `${restored} records restored.`);
+    } catch (error: any) {
+      Alert.alert('Restore failed', error.response?.data?.message || 'Could not restore the backup');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmRestore = (backup: Backup) => {
+    Alert.alert(
+      'Restore backup',
+      backup.scope === 'full'
+        ? 'All data will be replaced with this backup. This cannot be undone.'
+        : 'Your aircraft, credentials, schedules and flights will be replaced with this backup.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', style: 'destructive', onPress: () => restore(backup) }
+      ]
+    );
+  };
+
+  // Backups are downloaded in the browser through a short-lived link, so no auth header is needed there
+  const download = async (backup: Backup) => {
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/backups/${backup.id}/download-link`,
+        {},
+        { headers: getAuthHeaders() }
+      );
+      await WebBrowser.openBrowserAsync(response.data.url);
+    } catch (error: any) {
+      Alert.alert('Download failed', error.response?.data?.message || 'Could not download the backup');
+    }
+  };
+
+  const remove = async (backup: Backup) => {
+    setBusyId(backup.id);
+    try {
+      await axios.delete(`${API_BASE_URL}/backups/${backup.id}`, { headers: getAuthHeaders() });
+      setBackups(prev => prev.filter(item => item.id !== backup.id));
+    } catch (error: any) {
+      Alert.alert('Delete failed', error.response?.data?.message || 'Could not delete the backup');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 520,
+      maxHeight: '85%',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: 20,
+    },
+    backupItem: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 8,
+      borderLeftWidth: 4,
+    },
+    backupTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    backupDetails: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    actionRow: {
+      flexDirection: 'row',
+      gap: 16,
+      marginTop: 10,
+    },
+    action: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    actionText: {
+      fontSize: 13,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Backups</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <ScrollView>
+              {backups.length === 0 && (
+                <Text style={styles.emptyText}>No backups yet</Text>
+              )}
+              {backups.map((backup) => {
+                const records = Object.values(backup.record_counts || {}).reduce((sum, count) => sum + count, 0);
+
+                return (
+                  <View
+                    key={backup.id}
+                    style={[styles.backupItem, { borderLeftColor: backup.scope === 'full' ? colors.warning : colors.primary }]}
+                  >
+                    <Text style={styles.backupTitle}>
+                      {new Date(backup.timestamp).toLocaleString()} • {backup.scope === 'full' ? 'Full' : 'Pilot'} • {backup.backup_type === 'auto' ? 'Automatic' : 'Manual'}
+                    </Text>
+                    <Text style={styles.backupDetails}>
+                      {records} records • {formatSize(backup.size_bytes)}
+                      {backup.created_by ? ` • by ${backup.created_by}` : ''}
+                    </Text>
+
+                    {busyId === backup.id ? (
+                      <ActivityIndicator color={colors.primary} style={{ marginTop: 10 }} />
+                    ) : (
+                      <View style={styles.actionRow}>
+                        <TouchableOpacity style={styles.action} onPress={() => confirmRestore(backup)}>
+                          <RotateCcw size={16} color={colors.error} />
+                          <Text style={[styles.actionText, { color: colors.error }]}>Restore</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.action} onPress={() => download(backup)}>
+                          <Download size={16} color={colors.primary} />
+                          <Text style={[styles.actionText, { color: colors.primary }]}>Download</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={styles.action} onPress={() => remove(backup)}>
+                          <Trash2 size={16} color={colors.textSecondary} />
+                          <Text style={[styles.actionText, { color: colors.textSecondary }]}>Delete</Text>
+                        </TouchableOpacity>
+                      </View>
+                    )}
+                  </View>
+                );
+              })}
+            </ScrollView>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
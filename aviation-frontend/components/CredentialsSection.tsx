@@ -0,0 +1,443 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { BadgeCheck, Plus, Trash2, X, CreditCard as Edit3 } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+type CredentialType =
+  | 'medical'
+  | 'license_rating'
+  | 'type_rating'
+  | 'flight_review'
+  | 'ipc'
+  | 'passport'
+  | 'company_training';
+
+interface Credential {
+  id: number;
+  credential_type: CredentialType;
+  authority: 'FAA' | 'EASA';
+  name: string | null;
+  medical_class: number | null;
+  age_at_issue: number | null;
+  reference_number: string | null;
+  issue_date: string | null;
+  expiry_date: string | null;
+  notes: string | null;
+  computed_expiry: string | null;
+  expiry_source: 'explicit' | 'regulation' | null;
+  regulation: string | null;
+  days_remaining: number | null;
+  status: 'valid' | 'expiring' | 'expired' | 'no_expiry';
+}
+
+interface CredentialForm {
+  credential_type: CredentialType;
+  authority: 'FAA' | 'EASA';
+  name: string;
+  medical_class: string;
+  age_at_issue: string;
+  reference_number: string;
+  issue_date: string;
+  expiry_date: string;
+  notes: string;
+}
+
+const CREDENTIAL_TYPE_LABELS: Record<CredentialType, string> = {
+  medical: 'Medical',
+  license_rating: 'Rating',
+  type_rating: 'Type Rating',
+  flight_review: 'Flight Review',
+  ipc: 'IPC',
+  passport: 'Passport',
+  company_training: 'Company Training',
+};
+
+const emptyForm: CredentialForm = {
+  credential_type: 'medical',
+  authority: 'FAA',
+  name: '',
+  medical_class: '1',
+  age_at_issue: '',
+  reference_number: '',
+  issue_date: '',
+  expiry_date: '',
+  notes: '',
+};
+
+export default function CredentialsSection() {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [credentials, setCredentials] = useState<Credential[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<CredentialForm>(emptyForm);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const fetchCredentials = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      setLoading(true);
+      const response = await axios.get<Credential[]>(`${API_BASE_URL}/credentials`, {
+        headers: getAuthHeaders()
+      });
+      setCredentials(response.data);
+    } catch (error: any) {
+      console.error('Error fetching credentials:', error.response?.data?.message || error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, getAuthHeaders]);
+
+  useEffect(() => {
+    fetchCredentials();
+  }, [fetchCredentials]);
+
+  const openForm = (credential?: Credential) => {
+    if (credential) {
+      setEditingId(credential.id);
+      setForm({
+        credential_type: credential.credential_type,
+        authority: credential.authority,
+        name: credential.name || '',
+        medical_class: credential.medical_class ? String(credential.medical_class) : '1',
+        age_at_issue: credential.age_at_issue !== null ? String(credential.age_at_issue) : '',
+        reference_number: credential.reference_number || '',
+        issue_date: credential.issue_date || '',
+        expiry_date: credential.expiry_date || '',
+        notes: credential.notes || '',
+      });
+    } else {
+      setEditingId(null);
+      setForm(emptyForm);
+    }
+    setShowForm(true);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const payload = {
+        ...form,
+        medical_class: form.credential_type === 'medical' ? form.medical_class : null,
+      };
+
+      if (editingId) {
+        await axios.put(`${API_BASE_URL}/credentials/${editingId}`, payload, { headers: getAuthHeaders() });
+      } else {
+        await axios.post(`${API_BASE_URL}/credentials`, payload, { headers: getAuthHeaders() });
+      }
+
+      setShowForm(false);
+      fetchCredentials();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Failed to save credential');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = (credential: Credential) => {
+    Alert.alert(
+      'Delete Credential',
+      `Delete ${credential.name || CREDENTIAL_TYPE_LABELS[credential.credential_type]}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await axios.delete(`${API_BASE_URL}/credentials/${credential.id}`, { headers: getAuthHeaders() });
+              fetchCredentials();
+            } catch (error: any) {
+              Alert.alert('Error', error.response?.data?.message || 'Failed to delete credential');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const statusColor = (status: Credential['status']) => {
+    switch (status) {
+      case 'expired': return colors.error;
+      case 'expiring': return colors.warning;
+      case 'valid': return colors.success;
+      default: return colors.textSecondary;
+    }
+  };
+
+  const describeExpiry = (credential: Credential) => {
+    if (!credential.computed_expiry) return 'No expiry';
+    const source = credential.regulation ? ` • ${credential.regulation}` : '';
+    if (credential.status === 'expired') return `Expired ${credential.computed_expiry}${source}`;
+    return `Expires ${credential.computed_expiry} (${credential.days_remaining} days)${source}`;
+  };
+
+  const styles = useMemo(() => StyleSheet.create({
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: 16,
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginLeft: 8,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 10,
+      borderBottomWidth: 1,
+      borderBottomColor: colors.border,
+    },
+    info: {
+      flex: 1,
+      marginLeft: 12,
+    },
+    name: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    detail: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    statusDot: {
+      width: 10,
+      height: 10,
+      borderRadius: 5,
+    },
+    iconButton: {
+      padding: 8,
+      borderRadius: 6,
+      backgroundColor: colors.primary + '20',
+      marginLeft: 6,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      paddingVertical: 8,
+    },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 420,
+      maxHeight: '85%',
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginBottom: 6,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 15,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: '#ffffff',
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      alignItems: 'center',
+      marginTop: 20,
+    },
+    saveButtonText: {
+      color: '#ffffff',
+      fontWeight: '600',
+      fontSize: 15,
+    },
+  }), [colors]);
+
+  const renderChip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.chip, active && styles.chipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, active && styles.chipTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderInput = (label: string, field: keyof CredentialForm, placeholder: string) => (
+    <>
+      <Text style={styles.label}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={form[field]}
+        onChangeText={(value) => setForm(prev => ({ ...prev, [field]: value }))}
+        placeholder={placeholder}
+        placeholderTextColor={colors.textSecondary}
+      />
+    </>
+  );
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+          <BadgeCheck size={20} color={colors.primary} />
+          <Text style={styles.title}>Credentials</Text>
+        </View>
+        <TouchableOpacity style={styles.iconButton} onPress={() => openForm()}>
+          <Plus size={16} color={colors.primary} />
+        </TouchableOpacity>
+      </View>
+
+      {loading && <ActivityIndicator color={colors.primary} />}
+
+      {!loading && credentials.length === 0 && (
+        <Text style={styles.emptyText}>
+          No credentials yet. Add your medical, ratings and reviews to get expiry reminders.
+        </Text>
+      )}
+
+      {credentials.map(credential => (
+        <View key={credential.id} style={styles.row}>
+          <View style={[styles.statusDot, { backgroundColor: statusColor(credential.status) }]} />
+          <View style={styles.info}>
+            <Text style={styles.name}>
+              {credential.name || CREDENTIAL_TYPE_LABELS[credential.credential_type]}
+              {credential.credential_type === 'medical' && credential.medical_class
+                ? ` (Class ${credential.medical_class})`
+                : ''}
+            </Text>
+            <Text style={styles.detail}>
+              {CREDENTIAL_TYPE_LABELS[credential.credential_type]} • {credential.authority}
+            </Text>
+            <Text style={styles.detail}>{describeExpiry(credential)}</Text>
+          </View>
+          <TouchableOpacity style={styles.iconButton} onPress={() => openForm(credential)}>
+            <Edit3 size={16} color={colors.primary} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(credential)}>
+            <Trash2 size={16} color={colors.error} />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <Modal
+        visible={showForm}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowForm(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={[styles.header, { marginTop: 0 }]}>
+              <Text style={[styles.title, { marginLeft: 0 }]}>
+                {editingId ? 'Edit Credential' : 'Add Credential'}
+              </Text>
+              <TouchableOpacity onPress={() => setShowForm(false)}>
+                <X size={22} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView keyboardShouldPersistTaps="handled">
+              <Text style={styles.label}>Type</Text>
+              <View style={styles.chipRow}>
+                {(Object.keys(CREDENTIAL_TYPE_LABELS) as CredentialType[]).map(type =>
+                  renderChip(CREDENTIAL_TYPE_LABELS[type], form.credential_type === type, () =>
+                    setForm(prev => ({ ...prev, credential_type: type }))
+                  )
+                )}
+              </View>
+
+              <Text style={styles.label}>Authority</Text>
+              <View style={styles.chipRow}>
+                {(['FAA', 'EASA'] as const).map(authority =>
+                  renderChip(authority, form.authority === authority, () =>
+                    setForm(prev => ({ ...prev, authority }))
+                  )
+                )}
+              </View>
+
+              {form.credential_type === 'medical' && (
+                <>
+                  <Text style={styles.label}>Medical Class</Text>
+                  <View style={styles.chipRow}>
+                    {['1', '2', '3'].map(medicalClass =>
+                      renderChip(`Class ${medicalClass}`, form.medical_class === medicalClass, () =>
+                        setForm(prev => ({ ...prev, medical_class: medicalClass }))
+                      )
+                    )}
+                  </View>
+                  {renderInput('Age at Examination', 'age_at_issue', '35')}
+                </>
+              )}
+
+              {renderInput('Name', 'name', form.credential_type === 'type_rating' ? 'B737' : 'Instrument Rating')}
+              {renderInput('Certificate / Document Number', 'reference_number', 'Optional')}
+              {renderInput('Issue / Completion Date', 'issue_date', 'YYYY-MM-DD')}
+              {renderInput('Expiry Date (leave blank to compute)', 'expiry_date', 'YYYY-MM-DD')}
+              {renderInput('Notes', 'notes', 'Optional')}
+
+              <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+                {saving ? (
+                  <ActivityIndicator color="#ffffff" />
+                ) : (
+                  <Text style={styles.saveButtonText}>Save</Text>
+                )}
+              </TouchableOpacity>
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
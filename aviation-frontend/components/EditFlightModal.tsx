@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { Save, X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Editable fields in display order; `numeric` fields get a decimal keyboard
+const EDIT_FIELDS: { key: string; label: string; numeric?: boolean }[] = [
+  { key: 'flight_date', label: 'Date (YYYY-MM-DD)' },
+  { key: 'flight_iata', label: 'Flight' },
+  { key: 'departure_iata', label: 'From' },
+  { key: 'arrival_iata', label: 'To' },
+  { key: 'duration_hours', label: 'Total Duration', numeric: true },
+  { key: 'pic_hours', label: 'PIC', numeric: true },
+  { key: 'sic_hours', label: 'SIC', numeric: true },
+  { key: 'dual_received_hours', label: 'Dual Received', numeric: true },
+  { key: 'dual_given_hours', label: 'Dual Given', numeric: true },
+  { key: 'solo_hours', label: 'Solo', numeric: true },
+  { key: 'night_hours', label: 'Night', numeric: true },
+  { key: 'actual_instrument_hours', label: 'Actual Instrument', numeric: true },
+  { key: 'simulated_instrument_hours', label: 'Simulated Instrument', numeric: true },
+  { key: 'cross_country_hours', label: 'Cross Country', numeric: true },
+  { key: 'day_landings', label: 'Day Landings', numeric: true },
+  { key: 'night_landings', label: 'Night Landings', numeric: true },
+  { key: 'approaches', label: 'Approaches', numeric: true },
+  { key: 'holds', label: 'Holds', numeric: true },
+  { key: 'remarks', label: 'Remarks' },
+];
+
+const CODE_FIELDS = ['flight_iata', 'departure_iata', 'arrival_iata'];
+
+interface EditFlightModalProps {
+  visible: boolean;
+  flight: Record<string, any> | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export default function EditFlightModal({ visible, flight, onClose, onSaved }: EditFlightModalProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  useEffect(() => {
+    if (!flight) return;
+
+    const initial: Record<string, string> = {};
+    EDIT_FIELDS.forEach(({ key }) => {
+      const value = flight[key];
+      initial[key] = value === null || value === undefined ? '' : String(value);
+    });
+    initial.flight_date = initial.flight_date.substring(0, 10);
+    setValues(initial);
+  }, [flight]);
+
+  const handleSave = async () => {
+    if (!flight) return;
+
+    if (!DATE_PATTERN.test(values.flight_date || '')) {
+      Alert.alert('Invalid date', 'Use the YYYY-MM-DD format.');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await axios.put(`${API_BASE_URL}/flights/${flight.id}`, values, {
+        headers: getAuthHeaders()
+      });
+      Alert.alert('Flight updated', response.data.message);
+      onSaved();
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Update failed', error.response?.data?.message || 'Could not update the flight');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 520,
+      maxHeight: '85%',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    grid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'space-between',
+    },
+    field: {
+      width: '48%',
+    },
+    fieldWide: {
+      width: '100%',
+    },
+    label: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginBottom: 4,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 15,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    saveButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 16,
+    },
+    saveButtonText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Edit Flight</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <View style={styles.grid}>
+              {EDIT_FIELDS.map(({ key, label, numeric }) => (
+                <View key={key} style={key === 'remarks' ? styles.fieldWide : styles.field}>
+                  <Text style={styles.label}>{label}</Text>
+                  <TextInput
+                    style={styles.input}
+                    value={values[key] ?? ''}
+                    onChangeText={(text) => setValues(prev => ({ ...prev, [key]: text }))}
+                    keyboardType={numeric ? 'decimal-pad' : 'default'}
+                    autoCapitalize={CODE_FIELDS.includes(key) ? 'characters' : 'sentences'}
+                    multiline={key === 'remarks'}
+                  />
+                </View>
+              ))}
+            </View>
+          </ScrollView>
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving}>
+            {saving ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <Save size={20} color="#ffffff" />
+                <Text style={styles.saveButtonText}>Save Changes</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -20,6 +20,12 @@ interface Flight {
   departure_gate?: string;
   arrival_terminal?: string;
   arrival_gate?: string;
+  departure_city?: string | null;
+  departure_timezone?: string | null;
+  departure_local?: string | null;
+  arrival_city?: string | null;
+  arrival_timezone?: string | null;
+  arrival_local?: string | null;
 }
 
 interface FlightCardProps {
@@ -89,6 +95,13 @@ const FlightCard: React.FC<FlightCardProps> = ({ flight }) => {
     }
   };
 
+  // Prefer the airport-local time from the backend; fall back to the stored UTC time
+  const formatLocalTime = (localStr?: string | null, utcStr?: string): string => {
+    if (localStr) return formatTime(localStr);
+    const utcTime = formatTime(utcStr || '');
+    return utcTime === '--:--' ? utcTime : `${utcTime}Z`;
+  };
+
   const formatDate = (dateStr: string): string => {
     if (!dateStr) return 'Unknown Date';
     try {
@@ -214,6 +227,11 @@ const FlightCard: React.FC<FlightCardProps> = ({ flight }) => {
       fontWeight: '600',
       color: colors.text,
     },
+    timezoneText: {
+      fontSize: 10,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
     flightPath: {
       flex: 1,
       alignItems: 'center',
@@ -337,10 +355,14 @@ const FlightCard: React.FC<FlightCardProps> = ({ flight }) => {
           <Text style={styles.airportCode}>{departureIata}</Text>
           <Text style={styles.airportName} numberOfLines={2}>
             {departureAirport.replace(' Airport', '')}
+            {flight.departure_city ? `\n${flight.departure_city}` : ''}
           </Text>
           <Text style={styles.timeText}>
-            {formatTime(flight.departure_scheduled)}
+            {formatLocalTime(flight.departure_local, flight.departure_scheduled)}
           </Text>
+          {flight.departure_timezone && (
+            <Text style={styles.timezoneText}>{flight.departure_timezone}</Text>
+          )}
         </View>
         
         <View style={styles.flightPath}>
@@ -361,10 +383,14 @@ const FlightCard: React.FC<FlightCardProps> = ({ flight }) => {
           <Text style={styles.airportCode}>{arrivalIata}</Text>
           <Text style={styles.airportName} numberOfLines={2}>
             {arrivalAirport.replace(' Airport', '')}
+            {flight.arrival_city ? `\n${flight.arrival_city}` : ''}
           </Text>
           <Text style={styles.timeText}>
-            {formatTime(flight.arrival_scheduled)}
+            {formatLocalTime(flight.arrival_local, flight.arrival_scheduled)}
           </Text>
+          {flight.arrival_timezone && (
+            <Text style={styles.timezoneText}>{flight.arrival_timezone}</Text>
+          )}
         </View>
       </View>
 
@@ -414,7 +440,7 @@ const FlightCard: React.FC<FlightCardProps> = ({ flight }) => {
       </View>
       
       <Text style={styles.sourceText}>
-        Source: AviationStack • Updated recently
+        Source: AviationStack • Times shown in local airport time
       </Text>
     </View>
   );
@@ -1,17 +1,22 @@
 import React, { useState } from 'react';
 import { View, Text, TextInput, TouchableOpacity, StyleSheet, Alert } from 'react-native';
-import { AviationStackService, FlightData } from '@/services/aviationStackApi';
+import { FlightDataService } from '@/services/flightDataApi';
+import { useAuth } from '@/contexts/AuthContext';
 import { Plane, MapPin } from 'lucide-react-native';
+import type { Flight } from 'aviation-shared';
 
 interface FlightDataFormProps {
-  onFlightDataFetched: (data: FlightData) => void;
+  onFlightDataFetched: (data: Flight) => void;
 }
 
 export default function FlightDataForm({ onFlightDataFetched }: FlightDataFormProps) {
   const [flightNumber, setFlightNumber] = useState('');
   const [loading, setLoading] = useState(false);
+  const { token } = useAuth();
 
   const fetchFlightData = async () => {
+    if (!token) return;
+
     if (!flightNumber.trim()) {
       Alert.alert('Error', 'Please enter a flight number');
       return;
@@ -19,13 +24,13 @@ export default function FlightDataForm({ onFlightDataFetched }: FlightDataFormPr
 
     setLoading(true);
     try {
-      const flightData = await AviationStackService.getFlightByNumber(flightNumber.trim());
+      const flightData = await FlightDataService.getFlightByNumber(token, flightNumber.trim());
       
       if (flightData) {
         onFlightDataFetched(flightData);
-        Alert.alert('Success', 'Flight data retrieved from AviationStack API');
+        Alert.alert('Success', 'Flight data retrieved');
       } else {
-        Alert.alert('Not Found', 'Flight not found in AviationStack database');
+        Alert.alert('Not Found', 'Flight not found');
       }
     } catch (error) {
       Alert.alert('Error', 'Failed to fetch flight data');
@@ -37,7 +42,7 @@ export default function FlightDataForm({ onFlightDataFetched }: FlightDataFormPr
   return (
     <View style={styles.container}>
       <Text style={styles.title}>Auto-Fill Flight Data</Text>
-      <Text style={styles.subtitle}>Enter flight number to auto-populate from AviationStack API</Text>
+      <Text style={styles.subtitle}>Enter flight number to auto-populate from flight data</Text>
       
       <View style={styles.inputContainer}>
         <Plane color="#6B7280" size={20} />
@@ -0,0 +1,165 @@
+import React, { useState, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator } from 'react-native';
+import { Download, X } from 'lucide-react-native';
+import * as WebBrowser from 'expo-web-browser';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+interface LogbookExportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function LogbookExportModal({ visible, onClose }: LogbookExportModalProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const handleExport = async () => {
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      Alert.alert('Invalid date', 'Use the YYYY-MM-DD format, or leave a date empty.');
+      return;
+    }
+
+    setExporting(true);
+    try {
+      // The PDF is opened in the browser through a short-lived link, so no auth header is needed there
+      const response = await axios.post(
+        `${API_BASE_URL}/logbook/export-link`,
+        { from: from || null, to: to || null },
+        { headers: getAuthHeaders() }
+      );
+      await WebBrowser.openBrowserAsync(response.data.url);
+      onClose();
+    } catch (error: any) {
+      Alert.alert('Export failed', error.response?.data?.message || 'Could not export your logbook');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 420,
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    description: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginBottom: 8,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginBottom: 6,
+      marginTop: 10,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 15,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    exportButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      alignItems: 'center',
+      justifyContent: 'center',
+      flexDirection: 'row',
+      gap: 8,
+      marginTop: 20,
+    },
+    exportButtonText: {
+      color: '#ffffff',
+      fontSize: 16,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Export Logbook (PDF)</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.description}>
+            Printable logbook pages with page totals, amount forwarded and a signature block.
+            Leave the dates empty to export every entry.
+          </Text>
+
+          <Text style={styles.label}>From (YYYY-MM-DD)</Text>
+          <TextInput
+            style={styles.input}
+            value={from}
+            onChangeText={setFrom}
+            placeholder="First entry"
+            placeholderTextColor={colors.textSecondary}
+            autoCapitalize="none"
+          />
+
+          <Text style={styles.label}>To (YYYY-MM-DD)</Text>
+          <TextInput
+            style={styles.input}
+            value={to}
+            onChangeText={setTo}
+            placeholder="Latest entry"
+            placeholderTextColor={colors.textSecondary}
+            autoCapitalize="none"
+          />
+
+          <TouchableOpacity style={styles.exportButton} onPress={handleExport} disabled={exporting}>
+            {exporting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <Download size={20} color="#ffffff" />
+                <Text style={styles.exportButtonText}>Export PDF</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
@@ -0,0 +1,331 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { FileText, Upload, X } from 'lucide-react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+interface ImportProfile {
+  id: string;
+  name: string;
+}
+
+interface ImportRow {
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate';
+  errors: string[];
+  warnings: string[];
+  flight: {
+    flight_date: string | null;
+    departure_icao: string | null;
+    departure_iata: string | null;
+    arrival_icao: string | null;
+    arrival_iata: string | null;
+    duration_hours: number;
+  };
+}
+
+interface ImportResult {
+  dryRun: boolean;
+  message: string;
+  summary: { total: number; valid: number; invalid: number; duplicates: number; imported: number };
+  rows: ImportRow[];
+}
+
+interface LogbookImportModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export default function LogbookImportModal({ visible, onClose }: LogbookImportModalProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [profile, setProfile] = useState('foreflight');
+  const [file, setFile] = useState<DocumentPicker.DocumentPickerAsset | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [uploading, setUploading] = useState(false);
+
+  const fetchProfiles = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get<ImportProfile[]>(`${API_BASE_URL}/import-logbook/profiles`, {
+        headers: { Authorization: `Bearer ${token}` }
+      });
+      setProfiles(response.data);
+    } catch (error: any) {
+      console.error('Error fetching import profiles:', error.response?.data?.message || error.message);
+    }
+  }, [token]);
+
+  useEffect(() => {
+    if (visible) fetchProfiles();
+  }, [visible, fetchProfiles]);
+
+  const handleClose = () => {
+    setFile(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handlePickFile = async () => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/csv', 'text/plain', 'text/tab-separated-values', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+      copyToCacheDirectory: true,
+    });
+
+    if (!picked.canceled && picked.assets.length > 0) {
+      setFile(picked.assets[0]);
+      setResult(null);
+    }
+  };
+
+  // The same file is sent twice: first as a dry run for the preview, then to commit
+  const upload = async (dryRun: boolean) => {
+    if (!file) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('logbookFile', {
+        uri: file.uri,
+        name: file.name,
+        type: file.mimeType || 'text/csv',
+      } as any);
+      formData.append('profile', profile);
+      formData.append('dryRun', dryRun ? 'true' : 'false');
+
+      const response = await axios.post<ImportResult>(`${API_BASE_URL}/import-logbook`, formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      setResult(response.data);
+      if (!dryRun) {
+        Alert.alert('Import complete', response.data.message);
+      }
+    } catch (error: any) {
+      Alert.alert('Import failed', error.response?.data?.message || 'Could not import the file');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const statusColor = (status: ImportRow['status']) => {
+    if (status === 'invalid') return colors.error;
+    if (status === 'duplicate') return colors.warning;
+    return colors.success;
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 520,
+      maxHeight: '85%',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    label: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.textSecondary,
+      marginBottom: 6,
+      marginTop: 10,
+    },
+    chipRow: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      gap: 8,
+    },
+    chip: {
+      paddingHorizontal: 12,
+      paddingVertical: 6,
+      borderRadius: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    chipActive: {
+      backgroundColor: colors.primary,
+      borderColor: colors.primary,
+    },
+    chipText: {
+      fontSize: 13,
+      color: colors.text,
+    },
+    chipTextActive: {
+      color: '#ffffff',
+    },
+    fileButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      padding: 12,
+      borderRadius: 8,
+      borderWidth: 1,
+      borderStyle: 'dashed',
+      borderColor: colors.primary,
+    },
+    fileText: {
+      flex: 1,
+      color: colors.text,
+    },
+    summaryText: {
+      fontSize: 14,
+      color: colors.text,
+      marginTop: 12,
+      marginBottom: 6,
+    },
+    rowItem: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      marginBottom: 6,
+      borderLeftWidth: 4,
+    },
+    rowTitle: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    rowMessage: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    buttonRow: {
+      flexDirection: 'row',
+      gap: 10,
+      marginTop: 16,
+    },
+    button: {
+      flex: 1,
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+    },
+    buttonDisabled: {
+      opacity: 0.5,
+    },
+    buttonText: {
+      color: '#ffffff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+  });
+
+  const canCommit = result?.dryRun && result.summary.valid > 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Import Logbook</Text>
+            <TouchableOpacity onPress={handleClose}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            <Text style={styles.label}>Exported from</Text>
+            <View style={styles.chipRow}>
+              {profiles.map((item) => (
+                <TouchableOpacity
+                  key={item.id}
+                  style={[styles.chip, profile === item.id && styles.chipActive]}
+                  onPress={() => {
+                    setProfile(item.id);
+                    setResult(null);
+                  }}
+                >
+                  <Text style={[styles.chipText, profile === item.id && styles.chipTextActive]}>
+                    {item.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.label}>File (CSV, tab-separated or Excel)</Text>
+            <TouchableOpacity style={styles.fileButton} onPress={handlePickFile}>
+              <FileText size={20} color={colors.primary} />
+              <Text style={styles.fileText} numberOfLines={1}>
+                {file ? file.name : 'Select a file'}
+              </Text>
+            </TouchableOpacity>
+
+            {result && (
+              <>
+                <Text style={styles.summaryText}>
+                  {result.message} • {result.summary.invalid} with errors • {result.summary.duplicates} duplicates
+                </Text>
+                {result.rows
+                  .filter(row => row.status !== 'valid' || row.warnings.length > 0)
+                  .map((row) => (
+                    <View key={row.row} style={[styles.rowItem, { borderLeftColor: statusColor(row.status) }]}>
+                      <Text style={styles.rowTitle}>
+                        Row {row.row} • {row.flight.flight_date || '?'}{' '}
+                        {row.flight.departure_icao || row.flight.departure_iata || '?'} →{' '}
+                        {row.flight.arrival_icao || row.flight.arrival_iata || '?'} • {row.status}
+                      </Text>
+                      {[...row.errors, ...row.warnings].map((message, index) => (
+                        <Text key={index} style={styles.rowMessage}>{message}</Text>
+                      ))}
+                    </View>
+                  ))}
+              </>
+            )}
+          </ScrollView>
+
+          <View style={styles.buttonRow}>
+            <TouchableOpacity
+              style={[styles.button, (!file || uploading) && styles.buttonDisabled]}
+              onPress={() => upload(true)}
+              disabled={!file || uploading}
+            >
+              {uploading ? <ActivityIndicator color="#ffffff" /> : <Text style={styles.buttonText}>Preview</Text>}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.button, (!canCommit || uploading) && styles.buttonDisabled]}
+              onPress={() => upload(false)}
+              disabled={!canCommit || uploading}
+            >
+              <Upload size={18} color="#ffffff" />
+              <Text style={styles.buttonText}>
+                Import {result?.dryRun ? result.summary.valid : ''} flights
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
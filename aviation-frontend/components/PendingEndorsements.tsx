@@ -0,0 +1,235 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator } from 'react-native';
+import { PenLine, X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+interface PendingFlight {
+  id: number;
+  flight_date: string;
+  flight_iata: string | null;
+  departure_iata: string | null;
+  arrival_iata: string | null;
+  duration_hours: number;
+  dual_received_hours: number;
+  remarks: string | null;
+  pilot_id: number;
+  first_name: string;
+  last_name: string;
+}
+
+interface PendingEndorsementsProps {
+  onSigned?: () => void;
+}
+
+// Instructor view: student entries with dual received time that still need a signature
+export default function PendingEndorsements({ onSigned }: PendingEndorsementsProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [flights, setFlights] = useState<PendingFlight[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [signing, setSigning] = useState<PendingFlight | null>(null);
+  const [endorsement, setEndorsement] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const fetchPending = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get<PendingFlight[]>(`${API_BASE_URL}/signatures/pending`, {
+        headers: getAuthHeaders()
+      });
+      setFlights(response.data);
+    } catch (error: any) {
+      console.error('Error fetching pending endorsements:', error.response?.data?.message || error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, getAuthHeaders]);
+
+  useEffect(() => {
+    fetchPending();
+  }, [fetchPending]);
+
+  const handleSign = async () => {
+    if (!signing) return;
+
+    setSubmitting(true);
+    try {
+      await axios.post(
+        `${API_BASE_URL}/flights/${signing.id}/sign`,
+        { endorsement },
+        { headers: getAuthHeaders() }
+      );
+      setFlights(prev => prev.filter(flight => flight.id !== signing.id));
+      setSigning(null);
+      setEndorsement('');
+      onSigned?.();
+    } catch (error: any) {
+      Alert.alert('Signing failed', error.response?.data?.message || 'Could not sign the entry');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      backgroundColor: colors.card,
+      borderRadius: 12,
+      padding: 16,
+      marginBottom: 16,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    title: {
+      fontSize: 16,
+      fontWeight: '600',
+      color: colors.text,
+      marginBottom: 8,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+    },
+    row: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      paddingVertical: 8,
+      borderTopWidth: 1,
+      borderTopColor: colors.border,
+    },
+    rowInfo: {
+      flex: 1,
+    },
+    rowTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    rowDetails: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    signButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+      backgroundColor: colors.primary,
+      borderRadius: 6,
+      paddingHorizontal: 10,
+      paddingVertical: 6,
+    },
+    signButtonText: {
+      color: '#ffffff',
+      fontSize: 13,
+      fontWeight: '600',
+    },
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 420,
+    },
+    modalHeader: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 8,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 15,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      minHeight: 80,
+      textAlignVertical: 'top',
+      marginTop: 8,
+    },
+    confirmButton: {
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      alignItems: 'center',
+      marginTop: 16,
+    },
+  });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>Pending Endorsements</Text>
+
+      {loading ? (
+        <ActivityIndicator color={colors.primary} />
+      ) : flights.length === 0 ? (
+        <Text style={styles.emptyText}>No entries waiting for your signature</Text>
+      ) : (
+        flights.map((flight) => (
+          <View key={flight.id} style={styles.row}>
+            <View style={styles.rowInfo}>
+              <Text style={styles.rowTitle}>
+                {flight.first_name} {flight.last_name} • {String(flight.flight_date).substring(0, 10)}
+              </Text>
+              <Text style={styles.rowDetails}>
+                {flight.departure_iata || '-'} → {flight.arrival_iata || '-'} • Dual {Number(flight.dual_received_hours).toFixed(1)}h of {Number(flight.duration_hours).toFixed(1)}h
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.signButton} onPress={() => setSigning(flight)}>
+              <PenLine size={14} color="#ffffff" />
+              <Text style={styles.signButtonText}>Sign</Text>
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+
+      <Modal visible={signing !== null} transparent animationType="fade" onRequestClose={() => setSigning(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCard}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.title}>Sign Entry</Text>
+              <TouchableOpacity onPress={() => setSigning(null)}>
+                <X size={22} color={colors.text} />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.rowDetails}>
+              Your signature locks this entry. Later changes need a signed amendment.
+            </Text>
+            <TextInput
+              style={styles.input}
+              value={endorsement}
+              onChangeText={setEndorsement}
+              placeholder="Endorsement (optional)"
+              placeholderTextColor={colors.textSecondary}
+              multiline
+            />
+            <TouchableOpacity style={styles.confirmButton} onPress={handleSign} disabled={submitting}>
+              {submitting ? (
+                <ActivityIndicator color="#ffffff" />
+              ) : (
+                <Text style={styles.signButtonText}>Sign Entry</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
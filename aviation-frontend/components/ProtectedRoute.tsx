@@ -3,16 +3,34 @@
 import React from 'react';
 import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
 import { useAuth } from '../contexts/AuthContext';
-import AuthForm from './AuthForm';
+import AuthForm, { AuthMode } from './AuthForm';
+import TwoFactorEnrollment from './TwoFactorEnrollment';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
 const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { pilot, token, login, register, loading, error, clearError } = useAuth();
-  const [authMode, setAuthMode] = React.useState<'login' | 'register'>('login');
+  const {
+    pilot,
+    token,
+    twoFactor,
+    login,
+    verifyTwoFactor,
+    completeTwoFactorSetup,
+    cancelTwoFactor,
+    register,
+    requestPasswordReset,
+    resetPassword,
+    verifyEmail,
+    loading,
+    error,
+    clearError
+  } = useAuth();
+  const [authMode, setAuthMode] = React.useState<AuthMode>('login');
   const [authLoading, setAuthLoading] = React.useState(false);
+  const [notice, setNotice] = React.useState<string | null>(null);
+  const [recoveryError, setRecoveryError] = React.useState<string | null>(null);
 
   if (loading) {
     return (
@@ -24,36 +42,70 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
   }
 
   if (!pilot || !token) {
+    if (twoFactor?.type === 'setup') {
+      return (
+        <View style={styles.container}>
+          <TwoFactorEnrollment
+            enrollmentToken={twoFactor.token}
+            onComplete={completeTwoFactorSetup}
+            onCancel={cancelTwoFactor}
+          />
+        </View>
+      );
+    }
+
+    const formMode: AuthMode = twoFactor?.type === 'code' ? 'twoFactor' : authMode;
+
     const handleAuthSubmit = async (data: any) => {
       try {
         setAuthLoading(true);
         clearError();
+        setRecoveryError(null);
+        setNotice(null);
         
-        if (authMode === 'login') {
+        if (formMode === 'twoFactor') {
+          await verifyTwoFactor(data.code);
+        } else if (authMode === 'login') {
           await login(data.email, data.password);
-        } else {
+        } else if (authMode === 'register') {
           await register(data);
+        } else if (authMode === 'forgot') {
+          setNotice(await requestPasswordReset(data.email));
+          setAuthMode('reset');
+        } else if (authMode === 'reset') {
+          setNotice(await resetPassword(data.token, data.password));
+          setAuthMode('login');
+        } else {
+          setNotice(await verifyEmail(data.token));
+          setAuthMode('login');
         }
       } catch (err) {
-        // Error is handled by the auth context
+        // Login and register errors are handled by the auth context
+        if (formMode !== 'login' && formMode !== 'register') {
+          setRecoveryError(err instanceof Error ? err.message : 'Something went wrong');
+        }
       } finally {
         setAuthLoading(false);
       }
     };
 
-    const handleModeChange = (mode: 'login' | 'register') => {
+    const handleModeChange = (mode: AuthMode) => {
+      cancelTwoFactor();
       setAuthMode(mode);
       clearError();
+      setRecoveryError(null);
+      setNotice(null);
     };
 
     return (
       <View style={styles.container}>
         <AuthForm
-          mode={authMode}
+          mode={formMode}
           onSubmit={handleAuthSubmit}
           onModeChange={handleModeChange}
           loading={authLoading}
-          error={error}
+          error={recoveryError || error}
+          notice={notice}
         />
       </View>
     );
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Alert, ActivityIndicator } from 'react-native';
+import { LogOut, Smartphone, X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+interface Session {
+  id: number;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+interface SessionsModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Devices signed in to the pilot's account, with per-device and "everywhere" logout
+export default function SessionsModal({ visible, onClose }: SessionsModalProps) {
+  const { colors } = useTheme();
+  const { token, logout, logoutAll } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<number | null>(null);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const fetchSessions = useCallback(async () => {
+    if (!token) return;
+
+    setLoading(true);
+    try {
+      const response = await axios.get<Session[]>(`${API_BASE_URL}/auth/sessions`, {
+        headers: getAuthHeaders()
+      });
+      setSessions(response.data);
+    } catch (error: any) {
+      console.error('Error fetching sessions:', error.response?.data?.message || error.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, getAuthHeaders]);
+
+  useEffect(() => {
+    if (visible) fetchSessions();
+  }, [visible, fetchSessions]);
+
+  const revoke = async (session: Session) => {
+    if (session.current) {
+      onClose();
+      logout();
+      return;
+    }
+
+    setBusyId(session.id);
+    try {
+      await axios.delete(`${API_BASE_URL}/auth/sessions/${session.id}`, { headers: getAuthHeaders() });
+      setSessions(prev => prev.filter(item => item.id !== session.id));
+    } catch (error: any) {
+      Alert.alert('Logout failed', error.response?.data?.message || 'Could not end the session');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmLogoutAll = () => {
+    Alert.alert(
+      'Log out everywhere',
+      'Every device, including this one, will need to sign in again.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Log out',
+          style: 'destructive',
+          onPress: async () => {
+            onClose();
+            try {
+              await logoutAll();
+            } catch (error: any) {
+              Alert.alert('Logout failed', error.message || 'Could not log out of all devices');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 520,
+      maxHeight: '85%',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    emptyText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      paddingVertical: 20,
+    },
+    sessionItem: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 12,
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      marginBottom: 8,
+    },
+    sessionInfo: {
+      flex: 1,
+    },
+    sessionTitle: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    sessionDetails: {
+      fontSize: 12,
+      color: colors.textSecondary,
+      marginTop: 2,
+    },
+    action: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 4,
+    },
+    actionText: {
+      fontSize: 13,
+      fontWeight: '600',
+      color: colors.error,
+    },
+    logoutAllButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: colors.error,
+      borderRadius: 8,
+      padding: 14,
+      marginTop: 8,
+    },
+    logoutAllText: {
+      color: '#ffffff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+  });
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Signed-in Devices</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <ActivityIndicator color={colors.primary} />
+          ) : (
+            <ScrollView>
+              {sessions.length === 0 && (
+                <Text style={styles.emptyText}>No active sessions</Text>
+              )}
+              {sessions.map((session) => (
+                <View key={session.id} style={styles.sessionItem}>
+                  <Smartphone size={20} color={session.current ? colors.primary : colors.textSecondary} />
+                  <View style={styles.sessionInfo}>
+                    <Text style={styles.sessionTitle}>
+                      {session.device_name || 'Unknown device'}{session.current ? ' (this device)' : ''}
+                    </Text>
+                    <Text style={styles.sessionDetails}>
+                      Last active {new Date(session.last_used_at).toLocaleString()}
+                      {session.ip_address ? ` • ${session.ip_address}` : ''}
+                    </Text>
+                    <Text style={styles.sessionDetails}>
+                      Signed in {new Date(session.created_at).toLocaleDateString()}
+                    </Text>
+                  </View>
+                  {busyId === session.id ? (
+                    <ActivityIndicator color={colors.primary} />
+                  ) : (
+                    <TouchableOpacity style={styles.action} onPress={() => revoke(session)}>
+                      <LogOut size={16} color={colors.error} />
+                      <Text style={styles.actionText}>Log out</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </ScrollView>
+          )}
+
+          <TouchableOpacity style={styles.logoutAllButton} onPress={confirmLogoutAll}>
+            <LogOut size={18} color="#ffffff" />
+            <Text style={styles.logoutAllText}>Log Out Everywhere</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
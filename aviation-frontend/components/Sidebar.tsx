@@ -2,16 +2,19 @@ import React, { useMemo } from 'react';
 import { View, Text, Pressable, StyleSheet, ScrollView, Platform } from 'react-native';
 import { 
   X, Home, BookOpen, Calendar, BarChart3, History, 
-  Settings, Database, Plane, LogOut 
+  Settings, Database, Plane, LogOut, Users 
 } from 'lucide-react-native';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useRouter } from 'expo-router';
 import { useUser } from '@/contexts/UserContext';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Permission } from 'aviation-shared';
 
 interface MenuItem {
   icon: React.ComponentType<{ size: number; color: string }>;
   label: string;
   route: string;
+  permission?: Permission;
 }
 
 interface SidebarProps {
@@ -24,7 +27,8 @@ const MENU_ITEMS: MenuItem[] = [
   { icon: BookOpen, label: 'Flight Logs', route: '/logs' },
   { icon: Calendar, label: 'Scheduling', route: '/schedule' },
   { icon: BarChart3, label: 'Analytics', route: '/analytics' },
-  { icon: History, label: 'Audit Logs', route: '/audit' },
+  { icon: History, label: 'Audit Logs', route: '/audit', permission: 'audit:read' },
+  { icon: Users, label: 'User Management', route: '/admin', permission: 'pilots:manage' },
   // { icon: Database, label: 'Backup & Recovery', route: '/backup' },
   { icon: Settings, label: 'Settings', route: '/settings' },
 ];
@@ -32,6 +36,7 @@ const MENU_ITEMS: MenuItem[] = [
 export default function Sidebar({ visible, onClose }: SidebarProps) {
   const { colors } = useTheme();
   const { logout } = useUser();
+  const { pilot } = useAuth();
   const router = useRouter();
   const [loggingOut, setLoggingOut] = React.useState(false);
 
@@ -175,7 +180,7 @@ closeButton: {
         </View>
 
         <ScrollView style={styles.menuList}>
-          {MENU_ITEMS.map((item, index) => {
+          {MENU_ITEMS.filter(item => !item.permission || pilot?.permissions?.includes(item.permission)).map((item, index) => {
             const Icon = item.icon;
             return (
               <Pressable
@@ -0,0 +1,64 @@
+// components/TwoFactorEnrollment.tsx
+
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { ShieldCheck } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import TwoFactorSetup from './TwoFactorSetup';
+
+interface TwoFactorEnrollmentProps {
+  enrollmentToken: string;
+  onComplete: (result: any) => void;
+  onCancel: () => void;
+}
+
+// Shown instead of the sign-in form when the pilot's role requires two-factor authentication
+// and they have not set it up yet
+export default function TwoFactorEnrollment({ enrollmentToken, onComplete, onCancel }: TwoFactorEnrollmentProps) {
+  const { colors } = useTheme();
+
+  const styles = StyleSheet.create({
+    scrollContainer: {
+      flexGrow: 1,
+      justifyContent: 'center',
+      padding: 20,
+      backgroundColor: colors.background,
+    },
+    card: {
+      backgroundColor: colors.card,
+      borderRadius: 20,
+      padding: 24,
+    },
+    header: {
+      alignItems: 'center',
+      marginBottom: 16,
+      gap: 8,
+    },
+    title: {
+      fontSize: 20,
+      fontWeight: 'bold',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    subtitle: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+    },
+  });
+
+  return (
+    <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+      <View style={styles.card}>
+        <View style={styles.header}>
+          <ShieldCheck size={40} color={colors.primary} />
+          <Text style={styles.title}>Set Up Two-Factor Authentication</Text>
+          <Text style={styles.subtitle}>
+            Your account role requires a code from an authenticator app at every sign-in.
+          </Text>
+        </View>
+        <TwoFactorSetup enrollmentToken={enrollmentToken} onComplete={onComplete} onCancel={onCancel} />
+      </View>
+    </ScrollView>
+  );
+}
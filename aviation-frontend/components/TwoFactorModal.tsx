@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, ScrollView, Alert, ActivityIndicator, Platform } from 'react-native';
+import { ShieldCheck, ShieldOff, RefreshCw, X } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import TwoFactorSetup from '@/components/TwoFactorSetup';
+import axios from 'axios';
+import type { TwoFactorStatus } from 'aviation-shared';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+interface TwoFactorModalProps {
+  visible: boolean;
+  onClose: () => void;
+}
+
+// Settings view of two-factor authentication: enroll, regenerate recovery codes, or turn it off
+export default function TwoFactorModal({ visible, onClose }: TwoFactorModalProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [settingUp, setSettingUp] = useState(false);
+  const [action, setAction] = useState<'disable' | 'regenerate' | null>(null);
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const getAuthHeaders = useCallback(() => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${token}`
+  }), [token]);
+
+  const fetchStatus = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const response = await axios.get<TwoFactorStatus>(`${API_BASE_URL}/auth/2fa/status`, {
+        headers: getAuthHeaders()
+      });
+      setStatus(response.data);
+    } catch (error: any) {
+      console.error('Error fetching two-factor status:', error.response?.data?.message || error.message);
+    }
+  }, [token, getAuthHeaders]);
+
+  useEffect(() => {
+    if (visible) {
+      setSettingUp(false);
+      setAction(null);
+      setNewCodes(null);
+      fetchStatus();
+    }
+  }, [visible, fetchStatus]);
+
+  const resetForm = () => {
+    setAction(null);
+    setPassword('');
+    setCode('');
+  };
+
+  const handleConfirm = async () => {
+    setSubmitting(true);
+    try {
+      if (action === 'disable') {
+        await axios.post(`${API_BASE_URL}/auth/2fa/disable`, { password, code }, { headers: getAuthHeaders() });
+        Alert.alert('Two-factor authentication disabled');
+      } else {
+        const response = await axios.post(`${API_BASE_URL}/auth/2fa/recovery-codes`, { code }, { headers: getAuthHeaders() });
+        setNewCodes(response.data.recoveryCodes);
+      }
+      resetForm();
+      fetchStatus();
+    } catch (error: any) {
+      Alert.alert('Error', error.response?.data?.message || 'Request failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    modalOverlay: {
+      flex: 1,
+      backgroundColor: 'rgba(0,0,0,0.5)',
+      justifyContent: 'center',
+      alignItems: 'center',
+    },
+    modalCard: {
+      backgroundColor: colors.card,
+      borderRadius: 16,
+      padding: 20,
+      width: '90%',
+      maxWidth: 420,
+      maxHeight: '90%',
+    },
+    header: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: 12,
+    },
+    title: {
+      fontSize: 18,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    statusRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+      marginBottom: 8,
+    },
+    statusText: {
+      fontSize: 15,
+      fontWeight: '600',
+      color: colors.text,
+    },
+    details: {
+      fontSize: 13,
+      color: colors.textSecondary,
+      marginBottom: 4,
+    },
+    input: {
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 10,
+      fontSize: 15,
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+      marginTop: 8,
+    },
+    button: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      marginTop: 12,
+    },
+    dangerButton: {
+      backgroundColor: colors.error,
+    },
+    buttonText: {
+      color: '#ffffff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    codesGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      gap: 8,
+      marginTop: 8,
+    },
+    recoveryCode: {
+      width: '45%',
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      textAlign: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 6,
+      paddingVertical: 6,
+    },
+  });
+
+  const renderEnabled = (current: TwoFactorStatus) => (
+    <>
+      <View style={styles.statusRow}>
+        <ShieldCheck size={20} color={colors.success} />
+        <Text style={styles.statusText}>Two-factor authentication is on</Text>
+      </View>
+      {current.enabledAt && (
+        <Text style={styles.details}>Enabled {new Date(current.enabledAt).toLocaleDateString()}</Text>
+      )}
+      <Text style={styles.details}>{current.recoveryCodesRemaining} unused recovery codes</Text>
+      {current.required && (
+        <Text style={styles.details}>Required for your role; it cannot be turned off.</Text>
+      )}
+
+      {newCodes && (
+        <>
+          <Text style={[styles.details, { marginTop: 8 }]}>
+            New recovery codes. Save them now; the old codes no longer work.
+          </Text>
+          <View style={styles.codesGrid}>
+            {newCodes.map(recoveryCode => (
+              <Text key={recoveryCode} style={styles.recoveryCode} selectable>{recoveryCode}</Text>
+            ))}
+          </View>
+        </>
+      )}
+
+      {action ? (
+        <>
+          {action === 'disable' && (
+            <TextInput
+              style={styles.input}
+              value={password}
+              onChangeText={setPassword}
+              placeholder="Password"
+              placeholderTextColor={colors.textSecondary}
+              secureTextEntry
+            />
+          )}
+          <TextInput
+            style={styles.input}
+            value={code}
+            onChangeText={(text) => setCode(text.trim())}
+            placeholder={action === 'disable' ? 'Authenticator or recovery code' : 'Authenticator code'}
+            placeholderTextColor={colors.textSecondary}
+            autoCapitalize="none"
+          />
+          <TouchableOpacity
+            style={[styles.button, action === 'disable' && styles.dangerButton]}
+            onPress={handleConfirm}
+            disabled={submitting}
+          >
+            {submitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <Text style={styles.buttonText}>{action === 'disable' ? 'Turn Off' : 'Generate New Codes'}</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.button, { backgroundColor: colors.surface }]} onPress={resetForm}>
+            <Text style={[styles.buttonText, { color: colors.text }]}>Cancel</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <TouchableOpacity style={styles.button} onPress={() => { setNewCodes(null); setAction('regenerate'); }}>
+            <RefreshCw size={18} color="#ffffff" />
+            <Text style={styles.buttonText}>New Recovery Codes</Text>
+          </TouchableOpacity>
+          {!current.required && (
+            <TouchableOpacity style={[styles.button, styles.dangerButton]} onPress={() => { setNewCodes(null); setAction('disable'); }}>
+              <ShieldOff size={18} color="#ffffff" />
+              <Text style={styles.buttonText}>Turn Off Two-Factor</Text>
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalCard}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Two-Factor Authentication</Text>
+            <TouchableOpacity onPress={onClose}>
+              <X size={22} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled">
+            {!status ? (
+              <ActivityIndicator color={colors.primary} />
+            ) : status.enabled ? (
+              renderEnabled(status)
+            ) : settingUp ? (
+              <TwoFactorSetup
+                onComplete={() => {
+                  setSettingUp(false);
+                  fetchStatus();
+                }}
+                onCancel={() => setSettingUp(false)}
+              />
+            ) : (
+              <>
+                <View style={styles.statusRow}>
+                  <ShieldOff size={20} color={colors.textSecondary} />
+                  <Text style={styles.statusText}>Two-factor authentication is off</Text>
+                </View>
+                <Text style={styles.details}>
+                  Add a code from an authenticator app to every sign-in, so a stolen password alone cannot open your logbook.
+                </Text>
+                <TouchableOpacity style={styles.button} onPress={() => setSettingUp(true)}>
+                  <ShieldCheck size={18} color="#ffffff" />
+                  <Text style={styles.buttonText}>Set Up Two-Factor</Text>
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </View>
+      </View>
+    </Modal>
+  );
+}
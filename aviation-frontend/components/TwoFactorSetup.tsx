@@ -0,0 +1,220 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Image, ActivityIndicator, Linking, Platform } from 'react-native';
+import { ShieldCheck, ExternalLink } from 'lucide-react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useAuth } from '@/contexts/AuthContext';
+import axios from 'axios';
+
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+interface SetupData {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+interface TwoFactorSetupProps {
+  // Set when enrolling during login (role requires 2FA); otherwise the signed-in pilot's token is used
+  enrollmentToken?: string;
+  onComplete: (result: any) => void;
+  onCancel?: () => void;
+}
+
+// Authenticator enrollment: scan the QR code, confirm a code, then save the recovery codes
+export default function TwoFactorSetup({ enrollmentToken, onComplete, onCancel }: TwoFactorSetupProps) {
+  const { colors } = useTheme();
+  const { token } = useAuth();
+  const [setup, setSetup] = useState<SetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<any>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const getRequestConfig = useCallback(() => ({
+    headers: enrollmentToken
+      ? { 'Content-Type': 'application/json' }
+      : { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` }
+  }), [enrollmentToken, token]);
+
+  useEffect(() => {
+    axios.post<SetupData>(`${API_BASE_URL}/auth/2fa/setup`, { enrollmentToken }, getRequestConfig())
+      .then(response => setSetup(response.data))
+      .catch((err: any) => setError(err.response?.data?.message || 'Could not start two-factor setup'));
+  }, [enrollmentToken, getRequestConfig]);
+
+  const handleEnable = async () => {
+    setSubmitting(true);
+    setError(null);
+    try {
+      const response = await axios.post(
+        `${API_BASE_URL}/auth/2fa/enable`,
+        { code, enrollmentToken },
+        getRequestConfig()
+      );
+      setResult(response.data);
+    } catch (err: any) {
+      setError(err.response?.data?.message || 'Could not enable two-factor authentication');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const styles = StyleSheet.create({
+    container: {
+      alignItems: 'center',
+    },
+    text: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: 12,
+    },
+    qrCode: {
+      width: 200,
+      height: 200,
+      marginBottom: 12,
+      backgroundColor: '#ffffff',
+    },
+    secret: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.text,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      letterSpacing: 1,
+      marginBottom: 12,
+      textAlign: 'center',
+    },
+    linkButton: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 6,
+      marginBottom: 16,
+    },
+    linkText: {
+      fontSize: 14,
+      fontWeight: '600',
+      color: colors.primary,
+    },
+    input: {
+      alignSelf: 'stretch',
+      backgroundColor: colors.surface,
+      borderRadius: 8,
+      padding: 12,
+      fontSize: 20,
+      letterSpacing: 6,
+      textAlign: 'center',
+      color: colors.text,
+      borderWidth: 1,
+      borderColor: colors.border,
+    },
+    codesGrid: {
+      flexDirection: 'row',
+      flexWrap: 'wrap',
+      justifyContent: 'center',
+      gap: 8,
+      marginBottom: 16,
+    },
+    recoveryCode: {
+      width: '45%',
+      fontSize: 15,
+      color: colors.text,
+      fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+      textAlign: 'center',
+      backgroundColor: colors.surface,
+      borderRadius: 6,
+      paddingVertical: 6,
+    },
+    errorText: {
+      fontSize: 14,
+      color: colors.error,
+      textAlign: 'center',
+      marginTop: 12,
+    },
+    button: {
+      alignSelf: 'stretch',
+      flexDirection: 'row',
+      alignItems: 'center',
+      justifyContent: 'center',
+      gap: 8,
+      backgroundColor: colors.primary,
+      borderRadius: 8,
+      padding: 14,
+      marginTop: 16,
+    },
+    buttonText: {
+      color: '#ffffff',
+      fontSize: 15,
+      fontWeight: '600',
+    },
+    cancelText: {
+      fontSize: 14,
+      color: colors.textSecondary,
+      marginTop: 12,
+    },
+  });
+
+  if (result) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.text}>
+          Two-factor authentication is on. Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator, and they will not be shown again.
+        </Text>
+        <View style={styles.codesGrid}>
+          {(result.recoveryCodes as string[]).map(recoveryCode => (
+            <Text key={recoveryCode} style={styles.recoveryCode} selectable>{recoveryCode}</Text>
+          ))}
+        </View>
+        <TouchableOpacity style={styles.button} onPress={() => onComplete(result)}>
+          <Text style={styles.buttonText}>I've Saved My Codes</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {!setup ? (
+        error ? <Text style={styles.errorText}>{error}</Text> : <ActivityIndicator color={colors.primary} />
+      ) : (
+        <>
+          <Text style={styles.text}>
+            Scan this QR code with an authenticator app, or enter the key below.
+          </Text>
+          <Image source={{ uri: setup.qrCode }} style={styles.qrCode} />
+          <Text style={styles.secret} selectable>{setup.secret.match(/.{1,4}/g)?.join(' ')}</Text>
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity style={styles.linkButton} onPress={() => Linking.openURL(setup.otpauthUri)}>
+              <ExternalLink size={16} color={colors.primary} />
+              <Text style={styles.linkText}>Open in authenticator app</Text>
+            </TouchableOpacity>
+          )}
+          <TextInput
+            style={styles.input}
+            value={code}
+            onChangeText={(text) => setCode(text.replace(/\D/g, '').slice(0, 6))}
+            placeholder="123456"
+            placeholderTextColor={colors.textSecondary}
+            keyboardType="number-pad"
+            maxLength={6}
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+          <TouchableOpacity style={styles.button} onPress={handleEnable} disabled={submitting || code.length !== 6}>
+            {submitting ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <ShieldCheck size={18} color="#ffffff" />
+                <Text style={styles.buttonText}>Verify and Enable</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </>
+      )}
+      {onCancel && (
+        <TouchableOpacity onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
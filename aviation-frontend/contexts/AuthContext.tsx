@@ -2,42 +2,51 @@
 
 // app/contexts/AuthContext.tsx
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { AppState, Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import type { Pilot, RegisterRequest, SessionTokens } from 'aviation-shared';
 
-interface Pilot {
-  id: number;
-  email: string;
-  username: string;
-  firstName: string;
-  lastName: string;
-  licenseNumber?: string;
-  licenseType: string;
-  totalHours?: number;
-  lastLogin?: string;
-}
-
-interface RegisterData {
-  email: string;
-  password: string;
-  username: string;
-  firstName: string;
-  lastName: string;
-  licenseNumber?: string;
-  licenseType: string;
+// Pending second login step: a code for an enrolled pilot, or enrollment when their role requires 2FA
+export interface TwoFactorChallenge {
+  type: 'code' | 'setup';
+  token: string;
 }
 
 interface AuthContextType {
   pilot: Pilot | null;
   token: string | null;
-  login: (email: string, password: string) => Promise<void>;
-  register: (data: RegisterData) => Promise<void>;
+  twoFactor: TwoFactorChallenge | null;
+  login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  completeTwoFactorSetup: (session: SessionTokens & { pilot: Pilot }) => Promise<void>;
+  cancelTwoFactor: () => void;
+  register: (data: RegisterRequest) => Promise<void>;
   logout: () => void;
+  logoutAll: () => Promise<void>;
+  refreshSession: () => Promise<string | null>;
+  requestPasswordReset: (email: string) => Promise<string>;
+  resetPassword: (token: string, password: string) => Promise<string>;
+  verifyEmail: (token: string) => Promise<string>;
+  resendVerification: () => Promise<string>;
   loading: boolean;
   error: string | null;
   clearError: () => void;
 }
 
+const TOKEN_KEY = 'pilot_token';
+const REFRESH_TOKEN_KEY = 'pilot_refresh_token';
+const EXPIRES_AT_KEY = 'pilot_token_expires_at';
+
+// Refresh this long before the access token expires
+const REFRESH_MARGIN_MS = 60 * 1000;
+// Wait before retrying a refresh that failed because the server was unreachable
+const REFRESH_RETRY_MS = 30 * 1000;
+
+// Label shown in the sessions list; web sessions are described from the browser's user agent
+const DEVICE_NAME = Platform.OS === 'web' ? undefined : Constants.deviceName || `${Platform.OS} app`;
+
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const useAuth = () => {
@@ -55,52 +64,139 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [pilot, setPilot] = useState<Pilot | null>(null);
   const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<number | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null);
+  const refreshTokenRef = useRef<string | null>(null);
+  // The server rotates the refresh token on every use, so only one refresh may be in flight
+  const refreshInFlight = useRef<Promise<string | null> | null>(null);
 
   const API_BASE_URL = 'http://192.168.36.138:5000';
 
+  const storeSession = async (session: SessionTokens) => {
+    const sessionExpiresAt = Date.now() + session.expiresIn * 1000;
+    refreshTokenRef.current = session.refreshToken;
+    await AsyncStorage.multiSet([
+      [TOKEN_KEY, session.token],
+      [REFRESH_TOKEN_KEY, session.refreshToken],
+      [EXPIRES_AT_KEY, String(sessionExpiresAt)],
+    ]);
+    setToken(session.token);
+    setExpiresAt(sessionExpiresAt);
+  };
+
+  const clearSession = async () => {
+    refreshTokenRef.current = null;
+    await AsyncStorage.multiRemove([TOKEN_KEY, REFRESH_TOKEN_KEY, EXPIRES_AT_KEY]);
+    setToken(null);
+    setExpiresAt(null);
+    setPilot(null);
+  };
+
+  // Exchange the refresh token for a new access token. Resolves to the new token, or null when
+  // the session is gone (in which case the pilot is signed out locally).
+  const refreshSession = useCallback((): Promise<string | null> => {
+    if (refreshInFlight.current) return refreshInFlight.current;
+
+    const run = async (): Promise<string | null> => {
+      const refreshToken = refreshTokenRef.current ?? await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+      if (!refreshToken) {
+        await clearSession();
+        return null;
+      }
+
+      const response = await fetch(`${API_BASE_URL}/auth/refresh`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ refreshToken }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        if (response.status === 401 || response.status === 403) {
+          await clearSession();
+          return null;
+        }
+        throw new Error(data.message || 'Session refresh failed');
+      }
+
+      await storeSession(data);
+      setPilot(data.pilot);
+      return data.token as string;
+    };
+
+    refreshInFlight.current = run().finally(() => {
+      refreshInFlight.current = null;
+    });
+    return refreshInFlight.current;
+  }, []);
+
   useEffect(() => {
     const checkAuth = async () => {
       try {
-        const storedToken = await AsyncStorage.getItem('pilot_token');
-        if (storedToken) {
-          const response = await fetch(`${API_BASE_URL}/auth/verify`, {
-            headers: {
-              'Authorization': `Bearer ${storedToken}`
-            }
-          });
-
-          if (response.ok) {
-            const data = await response.json();
-            setToken(storedToken);
-            setPilot(data.pilot);
-          } else {
-            await AsyncStorage.removeItem('pilot_token');
-          }
+        const storedRefreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+        if (storedRefreshToken) {
+          refreshTokenRef.current = storedRefreshToken;
+          await refreshSession();
+        } else {
+          // Tokens from before sessions existed are no longer accepted by the server
+          await AsyncStorage.removeItem(TOKEN_KEY);
         }
       } catch (err) {
         console.error('Auth check failed:', err);
-        await AsyncStorage.removeItem('pilot_token');
       } finally {
         setLoading(false);
       }
     };
 
     checkAuth();
-  }, []);
+  }, [refreshSession]);
+
+  // Refresh shortly before the access token expires; retry later if the server is unreachable
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const timer = setTimeout(() => {
+      refreshSession().catch(err => {
+        console.error('Session refresh failed:', err);
+        retryTimer = setTimeout(() => setExpiresAt(Date.now() + REFRESH_MARGIN_MS), REFRESH_RETRY_MS);
+      });
+    }, Math.max(expiresAt - Date.now() - REFRESH_MARGIN_MS, 0));
+
+    return () => {
+      clearTimeout(timer);
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [expiresAt, refreshSession]);
 
+  // Timers do not run while the app is in the background, so check again when it comes back
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'active' && expiresAt && expiresAt - Date.now() < REFRESH_MARGIN_MS) {
+        refreshSession().catch(err => console.error('Session refresh failed:', err));
+      }
+    });
+
+    return () => subscription.remove();
+  }, [expiresAt, refreshSession]);
+
+  // Resolves to true once signed in, or false when a two-factor step is still needed
   const login = async (email: string, password: string) => {
     try {
       setLoading(true);
       setError(null);
+      setTwoFactor(null);
 
       const response = await fetch(`${API_BASE_URL}/auth/login`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ email, password }),
+        body: JSON.stringify({ email, password, deviceName: DEVICE_NAME }),
       });
 
       const data = await response.json();
@@ -109,9 +205,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error(data.message || 'Login failed');
       }
 
-      await AsyncStorage.setItem('pilot_token', data.token);
-      setToken(data.token);
+      if (data.twoFactorRequired) {
+        setTwoFactor({ type: 'code', token: data.challengeToken });
+        return false;
+      }
+      if (data.twoFactorSetupRequired) {
+        setTwoFactor({ type: 'setup', token: data.enrollmentToken });
+        return false;
+      }
+
+      await storeSession(data);
       setPilot(data.pilot);
+      return true;
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
       throw err;
@@ -120,7 +225,41 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
-  const register = async (data: RegisterData) => {
+  // Second login step with a TOTP code or a recovery code
+  const verifyTwoFactor = async (code: string) => {
+    if (!twoFactor) throw new Error('Sign in again to continue');
+
+    const response = await fetch(`${API_BASE_URL}/auth/login/2fa`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken: twoFactor.token, code, deviceName: DEVICE_NAME }),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      if (response.status === 401 && data.message !== 'Invalid verification code') {
+        setTwoFactor(null);
+      }
+      throw new Error(data.message || 'Verification failed');
+    }
+
+    await storeSession(data);
+    setPilot(data.pilot);
+    setTwoFactor(null);
+  };
+
+  // Enrollment during login ends with a session in the /auth/2fa/enable response
+  const completeTwoFactorSetup = async (session: SessionTokens & { pilot: Pilot }) => {
+    await storeSession(session);
+    setPilot(session.pilot);
+    setTwoFactor(null);
+  };
+
+  const cancelTwoFactor = () => setTwoFactor(null);
+
+  const register = async (data: RegisterRequest) => {
     try {
       setLoading(true);
       setError(null);
@@ -130,7 +269,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...data, deviceName: DEVICE_NAME }),
       });
 
       const result = await response.json();
@@ -139,8 +278,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         throw new Error(result.message || 'Registration failed');
       }
 
-      await AsyncStorage.setItem('pilot_token', result.token);
-      setToken(result.token);
+      await storeSession(result);
       setPilot(result.pilot);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Registration failed');
@@ -163,16 +301,88 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     } catch (err) {
       console.error('Logout error:', err);
     } finally {
-      await AsyncStorage.removeItem('pilot_token');
-      setToken(null);
-      setPilot(null);
+      await clearSession();
+    }
+  };
+
+  // Revoke every session of this pilot, including the current one
+  const logoutAll = async () => {
+    try {
+      if (token) {
+        const response = await fetch(`${API_BASE_URL}/auth/logout-all`, {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        });
+        if (!response.ok) {
+          const data = await response.json();
+          throw new Error(data.message || 'Could not log out of all devices');
+        }
+      }
+    } finally {
+      await clearSession();
     }
   };
 
+  // Helper for the account recovery routes; resolves to the server's message
+  const postAccountRequest = async (path: string, body: object, authToken?: string | null) => {
+    const response = await fetch(`${API_BASE_URL}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authToken ? { 'Authorization': `Bearer ${authToken}` } : {}),
+      },
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.message || 'Request failed');
+    }
+    return data.message as string;
+  };
+
+  const requestPasswordReset = (email: string) =>
+    postAccountRequest('/auth/forgot-password', { email });
+
+  const resetPassword = (resetToken: string, password: string) =>
+    postAccountRequest('/auth/reset-password', { token: resetToken, password });
+
+  const verifyEmail = async (verificationToken: string) => {
+    const message = await postAccountRequest('/auth/verify-email', { token: verificationToken });
+    setPilot(prev => prev ? { ...prev, emailVerified: true } : prev);
+    return message;
+  };
+
+  const resendVerification = () =>
+    postAccountRequest('/auth/resend-verification', {}, token);
+
   const clearError = () => setError(null);
 
   return (
-    <AuthContext.Provider value={{ pilot, token, login, register, logout, loading, error, clearError }}>
+    <AuthContext.Provider
+      value={{
+        pilot,
+        token,
+        twoFactor,
+        login,
+        verifyTwoFactor,
+        completeTwoFactorSetup,
+        cancelTwoFactor,
+        register,
+        logout,
+        logoutAll,
+        refreshSession,
+        requestPasswordReset,
+        resetPassword,
+        verifyEmail,
+        resendVerification,
+        loading,
+        error,
+        clearError
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -1,25 +1,7 @@
 // hooks/useFlights.ts
 
 import { useState, useEffect } from 'react';
-
-interface Flight {
-  id: number;
-  flight_iata: string;
-  flight_date: string;
-  departure_iata: string;
-  arrival_iata: string;
-  departure_scheduled: string;
-  arrival_scheduled: string;
-  airline_iata: string;
-  duration_hours: number;
-  flight_status: string;
-  departure_airport: string;
-  arrival_airport: string;
-  departure_terminal?: string;
-  departure_gate?: string;
-  arrival_terminal?: string;
-  arrival_gate?: string;
-}
+import type { Flight } from 'aviation-shared';
 
 interface UseFlightsReturn {
   flights: Flight[];
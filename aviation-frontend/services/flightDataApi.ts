@@ -0,0 +1,75 @@
+import axios from 'axios';
+import type { Flight } from 'aviation-shared';
+
+// Flight data comes through the backend, which holds the provider credentials
+const API_BASE_URL = 'http://192.168.36.138:5000';
+
+export interface AirportInfo {
+  icao: string | null;
+  iata: string | null;
+  name: string;
+  city: string | null;
+  country: string | null;
+  latitude: number;
+  longitude: number;
+  timezone: string | null;
+}
+
+const authHeaders = (token: string) => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${token}`
+});
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export class FlightDataService {
+  static async getFlightByNumber(token: string, flightNumber: string, date: string = today()): Promise<Flight | null> {
+    try {
+      const response = await axios.get<Flight[]>(`${API_BASE_URL}/search-flight`, {
+        params: { flight_iata: flightNumber, date },
+        headers: authHeaders(token)
+      });
+      return response.data[0] || null;
+    } catch (error: any) {
+      console.error('Flight lookup error:', error.response?.data?.message || error.message);
+      return null;
+    }
+  }
+
+  static async getFlightsByRoute(token: string, departure: string, arrival: string, date: string = today()): Promise<Flight[]> {
+    try {
+      const response = await axios.get<Flight[]>(`${API_BASE_URL}/flights-by-route`, {
+        params: { departure, arrival, date },
+        headers: authHeaders(token)
+      });
+      return response.data;
+    } catch (error: any) {
+      console.error('Flight lookup error:', error.response?.data?.message || error.message);
+      return [];
+    }
+  }
+
+  static async getAirportInfo(token: string, airportCode: string): Promise<AirportInfo | null> {
+    try {
+      const response = await axios.get<AirportInfo>(
+        `${API_BASE_URL}/airports/${encodeURIComponent(airportCode)}`,
+        { headers: authHeaders(token) }
+      );
+      return response.data;
+    } catch (error: any) {
+      console.error('Airport lookup error:', error.response?.data?.message || error.message);
+      return null;
+    }
+  }
+
+  static calculateFlightDuration(departure: string, arrival: string): number {
+    try {
+      const depTime = new Date(departure);
+      const arrTime = new Date(arrival);
+      const diffMs = arrTime.getTime() - depTime.getTime();
+      return Math.round((diffMs / (1000 * 60 * 60)) * 10) / 10; // Hours with 1 decimal
+    } catch (error) {
+      return 0;
+    }
+  }
+}
@@ -1,9 +0,0 @@
-declare global {
-  namespace NodeJS {
-    interface ProcessEnv {
-      EXPO_PUBLIC_AVIATIONSTACK_API_KEY: string;
-    }
-  }
-}
-
-export {};
\ No newline at end of file
@@ -0,0 +1,123 @@
+// auth.ts
+// Pilot accounts, sign-in and sessions
+
+export type Role = 'pilot' | 'instructor' | 'admin';
+
+export type Permission =
+  | 'audit:read'
+  | 'backup:run'
+  | 'backup:full'
+  | 'schedule:upload'
+  | 'flights:read_all'
+  | 'flights:edit_all'
+  | 'flights:ingest'
+  | 'flights:sign'
+  | 'pilots:manage';
+
+export type LicenseType = 'PPL' | 'CPL' | 'ATPL' | 'Student';
+
+// Signed-in pilot as returned by register, login, refresh and profile
+export interface Pilot {
+  id: number;
+  email: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  licenseNumber?: string | null;
+  licenseType: string;
+  totalHours?: number;
+  createdAt?: string;
+  lastLogin?: string | null;
+  role?: Role;
+  permissions?: Permission[];
+  emailVerified?: boolean;
+}
+
+export interface RegisterRequest {
+  email: string;
+  password: string;
+  username: string;
+  firstName: string;
+  lastName: string;
+  licenseNumber?: string;
+  licenseType: string;
+  deviceName?: string;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+  deviceName?: string;
+}
+
+// Access token plus the rotating refresh token that renews it
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface SessionResponse extends SessionTokens {
+  success: true;
+  message?: string;
+  pilot: Pilot;
+  // Set when the second factor was a recovery code
+  recoveryCodesRemaining?: number;
+}
+
+// Password accepted; the pilot must now enter a code at /auth/login/2fa
+export interface TwoFactorChallengeResponse {
+  success: true;
+  twoFactorRequired: true;
+  challengeToken: string;
+  message: string;
+}
+
+// Password accepted, but the pilot's role requires two-factor authentication they have not set up
+export interface TwoFactorSetupRequiredResponse {
+  success: true;
+  twoFactorSetupRequired: true;
+  enrollmentToken: string;
+  message: string;
+}
+
+export type LoginResponse = SessionResponse | TwoFactorChallengeResponse | TwoFactorSetupRequiredResponse;
+
+export interface RefreshRequest {
+  refreshToken: string;
+  deviceName?: string;
+}
+
+// One signed-in device from /auth/sessions
+export interface DeviceSession {
+  id: number;
+  device_name: string | null;
+  user_agent: string | null;
+  ip_address: string | null;
+  created_at: string;
+  last_used_at: string;
+  expires_at: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+  qrCode: string;
+}
+
+// Error body sent with 4xx/5xx responses
+export interface ApiError {
+  success?: false;
+  message: string;
+  code?: 'TOKEN_EXPIRED' | 'SESSION_EXPIRED';
+  retryAfter?: number;
+  lockedUntil?: string;
+}
@@ -0,0 +1,108 @@
+// flights.ts
+// Provider flights (flight_catalog) and pilot logbook entries (logbook_entries)
+
+export type SignatureStatus = 'unsigned' | 'signed' | 'tampered';
+
+// Logbook time (hours) and count columns stored per flight
+export interface LogbookTimes {
+  pic_hours: number;
+  sic_hours: number;
+  dual_received_hours: number;
+  dual_given_hours: number;
+  solo_hours: number;
+  night_hours: number;
+  actual_instrument_hours: number;
+  simulated_instrument_hours: number;
+  cross_country_hours: number;
+  day_landings: number;
+  night_landings: number;
+  approaches: number;
+  holds: number;
+  course_intercepts: number;
+}
+
+/**
+ * Flight from the flight data provider (/flights-by-date, /search-flight, /flights-by-route) or a
+ * flight_catalog row (/flight/:flightNumber), with bundled airport details and local times attached.
+ */
+export interface Flight {
+  id: number;
+  flight_date: string;
+  flight_status: string;
+  departure_airport: string;
+  departure_iata: string;
+  departure_icao: string;
+  departure_scheduled: string;
+  departure_actual?: string | null;
+  arrival_airport: string;
+  arrival_iata: string;
+  arrival_icao: string;
+  arrival_scheduled: string;
+  arrival_actual?: string | null;
+  airline_name: string;
+  airline_iata: string;
+  flight_number: string;
+  flight_iata: string;
+  flight_icao: string;
+  duration_hours: number;
+  departure_terminal?: string;
+  departure_gate?: string;
+  arrival_terminal?: string;
+  arrival_gate?: string;
+  departure_city?: string | null;
+  departure_timezone?: string | null;
+  departure_local?: string | null;
+  arrival_city?: string | null;
+  arrival_timezone?: string | null;
+  arrival_local?: string | null;
+}
+
+// Logbook entry from /logs, with its aircraft and current instructor signature
+export interface FlightLog extends LogbookTimes {
+  id: number;
+  flight_iata: string;
+  flight_date: string;
+  departure_iata: string;
+  arrival_iata: string;
+  departure_scheduled: string;
+  arrival_scheduled: string;
+  airline_iata: string;
+  duration_hours: number;
+  remarks: string | null;
+  aircraft_id: number | null;
+  aircraft_registration: string | null;
+  aircraft_type: string | null;
+  aircraft_class: string | null;
+  created_by: number | null;
+  signature_status: SignatureStatus;
+  signed_by: string | null;
+  signer_certificate: string | null;
+  signed_at: string | null;
+}
+
+// Body of /save-flight: a flight from the search results plus the pilot's logbook times
+export interface SaveFlightRequest extends Partial<LogbookTimes> {
+  flight_iata: string;
+  flight_icao?: string;
+  flight_date: string;
+  flight_status?: string;
+  departure_airport?: string;
+  departure_iata: string;
+  departure_icao?: string;
+  departure_scheduled?: string;
+  arrival_airport?: string;
+  arrival_iata: string;
+  arrival_icao?: string;
+  arrival_scheduled?: string;
+  airline_name?: string;
+  airline_iata?: string;
+  duration_hours?: number | string;
+  remarks?: string | null;
+  aircraft_id?: number | string | null;
+}
+
+export interface SaveFlightResponse {
+  success: true;
+  message: string;
+  id: number;
+}
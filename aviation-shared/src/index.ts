@@ -0,0 +1,7 @@
+// index.ts
+// Types for the API between aviation-backend and aviation-frontend. Both sides compile against
+// these, so changing a response shape here breaks whichever side no longer matches.
+
+export * from './auth';
+export * from './flights';
+export * from './pilots';
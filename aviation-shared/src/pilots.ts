@@ -0,0 +1,40 @@
+// pilots.ts
+// Pilot account management (admin)
+
+import type { Role } from './auth';
+
+// Pilot account as listed by /pilots
+export interface ManagedPilot {
+  id: number;
+  email: string;
+  username: string;
+  first_name: string;
+  last_name: string;
+  license_number: string | null;
+  license_type: string | null;
+  role: Role;
+  instructor_certificate: string | null;
+  is_active: boolean;
+  totp_enabled: boolean;
+  failed_login_attempts: number;
+  locked_until: string | null;
+  is_locked: boolean;
+  last_login: string | null;
+  created_at: string;
+}
+
+export interface TwoFactorPolicy {
+  role: Role;
+  required: boolean;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+// Failed sign-ins and lockouts for the audit screen
+export interface SecuritySummary {
+  failedLogins: number;
+  accountLockouts: number;
+  lockedAccounts: number;
+  activeUsers: number;
+  windowHours: number;
+}